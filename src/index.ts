@@ -141,6 +141,17 @@ async function runServer() {
         await DiskLogger.logError(error, "startup-index-build");
       }
     }
+
+    // Optional filesystem watcher keeps the index current with changes made outside the server
+    if (xppPath && AppConfig.isIndexWatchEnabled()) {
+      try {
+        const { IndexWatcher } = await import('./modules/index-watcher.js');
+        await IndexWatcher.start(xppPath, AppConfig.getWatchDebounceMs());
+      } catch (error) {
+        console.error('⚠️  Index watcher could not be started (server will continue):', (error as Error).message);
+        await DiskLogger.logError(error, "startup-index-watcher");
+      }
+    }
     
     // Log transport status
     const status = serverManager.getTransportStatus();
@@ -0,0 +1,428 @@
+/**
+ * AOT XML Module
+ *
+ * Reads AOT XML files (AxClass, AxTable, AxForm, AxQuery) into an element tree and extracts their
+ * X++ source and metadata. Source comes from the SourceCode/Declaration block and every
+ * SourceCode/.../Method/Source block, with line numbers pointing into the XML file itself.
+ * Working on elements rather than regexes over the raw text keeps X++ inside CDATA from being
+ * mistaken for metadata, and handles CDATA sections split around "]]>" and escaped text.
+ */
+
+/**
+ * An element of an AOT XML file
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // Text and CDATA directly inside the element, entities decoded; whitespace-only text is dropped
+  text: string;
+  // 1-based line of the element and of its first text or CDATA content
+  line: number;
+  textLine: number;
+}
+
+/**
+ * A block of X++ source and the XML line its first character is on
+ */
+export interface AotSource {
+  source: string;
+  startLine: number;
+}
+
+/**
+ * Form datasource, datasource field or control a form method belongs to
+ */
+export interface AotMethodOwner {
+  kind: 'dataSource' | 'dataSourceField' | 'control';
+  // DataSource, DataSource.Field or control name
+  name: string;
+}
+
+export interface AotMethod extends AotSource {
+  name: string;
+  // null for methods of the object itself
+  owner: AotMethodOwner | null;
+}
+
+export interface AotSourceCode {
+  declaration: AotSource | null;
+  methods: AotMethod[];
+}
+
+/**
+ * Name, source and top-level properties shared by every parsed AOT object
+ * properties holds the simple top-level elements such as Label, Extends or TableGroup
+ */
+export interface AotObjectXml extends AotSourceCode {
+  name: string;
+  properties: Record<string, string>;
+}
+
+export interface AxTableFieldXml {
+  name: string;
+  // i:type without its AxTableField prefix: String, Int, Enum, Real, ...
+  type: string;
+  extendedDataType: string | null;
+  enumType: string | null;
+  properties: Record<string, string>;
+}
+
+export interface AxTableIndexXml {
+  name: string;
+  allowDuplicates: boolean;
+  alternateKey: boolean;
+  fields: string[];
+}
+
+export interface AxTableRelationXml {
+  name: string;
+  relatedTable: string;
+  // i:type without its prefix: Relation or ForeignKey
+  type: string;
+  cardinality: string | null;
+  relatedCardinality: string | null;
+  constraints: Array<{ type: string; field: string | null; relatedField: string | null; value: string | null }>;
+}
+
+export interface AxTableXml extends AotObjectXml {
+  fields: AxTableFieldXml[];
+  fieldGroups: Array<{ name: string; label: string | null; fields: string[] }>;
+  indexes: AxTableIndexXml[];
+  relations: AxTableRelationXml[];
+}
+
+export interface AxFormDataSourceXml {
+  name: string;
+  table: string | null;
+  joinSource: string | null;
+  linkType: string | null;
+  properties: Record<string, string>;
+}
+
+export interface AxFormXml extends AotObjectXml {
+  dataSources: AxFormDataSourceXml[];
+  // Controls with X++ code: name and control type
+  controls: Array<{ name: string; type: string | null }>;
+  design: Record<string, string>;
+}
+
+export interface AxQueryDataSourceXml {
+  name: string;
+  table: string | null;
+  // Enclosing datasource, null for root datasources
+  parent: string | null;
+  joinMode: string | null;
+  fetchMode: string | null;
+  fields: string[];
+  ranges: Array<{ field: string; value: string | null }>;
+}
+
+export interface AxQueryXml extends AotObjectXml {
+  dataSources: AxQueryDataSourceXml[];
+}
+
+/**
+ * Parse an XML document into its root element; null when no element is found
+ * Comments, processing instructions and doctype declarations are skipped
+ */
+export function parseXmlDocument(content: string): XmlElement | null {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+  let line = 1;
+
+  // Advance to an offset, counting the line breaks passed
+  const moveTo = (offset: number) => {
+    for (let i = pos; i < offset; i++) {
+      if (content.charCodeAt(i) === 10) line++;
+    }
+    pos = offset;
+  };
+
+  const addText = (text: string, textLine: number) => {
+    const parent = stack[stack.length - 1];
+    if (!parent) return;
+    if (!parent.text) parent.textLine = textLine;
+    parent.text += text;
+  };
+
+  while (pos < content.length) {
+    const open = content.indexOf('<', pos);
+    if (open === -1) break;
+    if (open > pos) {
+      const text = content.slice(pos, open);
+      const leading = text.length - text.trimStart().length;
+      if (text.trim()) {
+        moveTo(pos + leading);
+        addText(decodeEntities(text.slice(leading)), line);
+      }
+      moveTo(open);
+    }
+
+    if (content.startsWith('<![CDATA[', pos)) {
+      const close = content.indexOf(']]>', pos + 9);
+      const end = close === -1 ? content.length : close;
+      moveTo(pos + 9);
+      addText(content.slice(pos, end), line);
+      moveTo(Math.min(end + 3, content.length));
+      continue;
+    }
+    if (content.startsWith('<!--', pos)) {
+      const close = content.indexOf('-->', pos + 4);
+      moveTo(close === -1 ? content.length : close + 3);
+      continue;
+    }
+    if (content.startsWith('<?', pos) || content.startsWith('<!', pos)) {
+      const close = content.indexOf('>', pos);
+      moveTo(close === -1 ? content.length : close + 1);
+      continue;
+    }
+
+    const close = findTagEnd(content, pos);
+    const tag = content.slice(pos + 1, close);
+    const tagLine = line;
+    moveTo(close === content.length ? close : close + 1);
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      // Unbalanced documents: close up to the matching element, ignore stray end tags
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index !== -1) stack.length = index;
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const name = body.match(/^[^\s/>]+/)?.[0] || '';
+    const attributes: Record<string, string> = {};
+    for (const attribute of body.slice(name.length).matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+    }
+
+    const element: XmlElement = { name, attributes, children: [], text: '', line: tagLine, textLine: tagLine };
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(element);
+    else if (!root) root = element;
+    if (!selfClosing) stack.push(element);
+  }
+
+  return root;
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(child => child.name === name);
+}
+
+export function childElements(element: XmlElement | undefined, name?: string): XmlElement[] {
+  if (!element) return [];
+  return name ? element.children.filter(child => child.name === name) : element.children;
+}
+
+/**
+ * Trimmed text of a child element, null when missing or empty
+ */
+export function childText(element: XmlElement | undefined, name: string): string | null {
+  const text = childElement(element, name)?.text.trim();
+  return text ? text : null;
+}
+
+/**
+ * i:type attribute without its namespace prefix, '' when absent
+ */
+export function elementType(element: XmlElement): string {
+  const type = Object.entries(element.attributes).find(([name]) => name === 'type' || name.endsWith(':type'))?.[1] || '';
+  return type.replace(/^\w+:/, '');
+}
+
+/**
+ * X++ source of an AOT object: the SourceCode/Declaration block and every method, including
+ * methods of form datasources, datasource fields and controls
+ * A form's classDeclaration method is returned as the declaration
+ */
+export function readSourceCode(root: XmlElement | null): AotSourceCode {
+  const sourceCode = childElement(root ?? undefined, 'SourceCode');
+  const declarationElement = childElement(sourceCode, 'Declaration');
+  let declaration: AotSource | null = declarationElement && declarationElement.text
+    ? { source: declarationElement.text, startLine: declarationElement.textLine }
+    : null;
+  const methods: AotMethod[] = [];
+
+  const visit = (element: XmlElement, owner: AotMethodOwner | null, dataSource: string | null) => {
+    for (const child of element.children) {
+      if (child.name === 'Method') {
+        const source = childElement(child, 'Source');
+        const name = childText(child, 'Name');
+        if (!name || !source) continue;
+        if (!owner && !declaration && name === 'classDeclaration') {
+          declaration = { source: source.text, startLine: source.textLine };
+          continue;
+        }
+        methods.push({ name, source: source.text, startLine: source.textLine, owner });
+      } else if (child.name === 'DataSource') {
+        const name = childText(child, 'Name') || '';
+        visit(child, { kind: 'dataSource', name }, name);
+      } else if (child.name === 'Field' && dataSource !== null) {
+        const name = `${dataSource}.${childText(child, 'DataField') || childText(child, 'Name') || ''}`;
+        visit(child, { kind: 'dataSourceField', name }, dataSource);
+      } else if (child.name === 'Control') {
+        visit(child, { kind: 'control', name: childText(child, 'Name') || '' }, null);
+      } else {
+        visit(child, owner, dataSource);
+      }
+    }
+  };
+  if (sourceCode) visit(sourceCode, null, null);
+
+  return { declaration, methods };
+}
+
+/**
+ * Source, methods and properties of an AxClass file
+ */
+export function parseAxClassXml(content: string): AotObjectXml {
+  return parseAotObject(parseXmlDocument(content));
+}
+
+/**
+ * Source, fields, field groups, indexes and relations of an AxTable (or AxTableExtension) file
+ */
+export function parseAxTableXml(content: string): AxTableXml {
+  const root = parseXmlDocument(content);
+
+  const fields = childElements(childElement(root ?? undefined, 'Fields'), 'AxTableField').map(field => ({
+    name: childText(field, 'Name') || '',
+    type: elementType(field).replace(/^AxTableField/, ''),
+    extendedDataType: childText(field, 'ExtendedDataType'),
+    enumType: childText(field, 'EnumType'),
+    properties: readProperties(field)
+  })).filter(field => field.name);
+
+  const fieldGroups = childElements(childElement(root ?? undefined, 'FieldGroups'), 'AxTableFieldGroup').map(group => ({
+    name: childText(group, 'Name') || '',
+    label: childText(group, 'Label'),
+    fields: childElements(childElement(group, 'Fields')).map(field => childText(field, 'DataField')).filter((name): name is string => !!name)
+  }));
+
+  const indexes = childElements(childElement(root ?? undefined, 'Indexes'), 'AxTableIndex').map(index => ({
+    name: childText(index, 'Name') || '',
+    allowDuplicates: isYes(childText(index, 'AllowDuplicates')),
+    alternateKey: isYes(childText(index, 'AlternateKey')),
+    fields: childElements(childElement(index, 'Fields')).map(field => childText(field, 'DataField')).filter((name): name is string => !!name)
+  }));
+
+  const relations = childElements(childElement(root ?? undefined, 'Relations'), 'AxTableRelation').map(relation => ({
+    name: childText(relation, 'Name') || '',
+    relatedTable: childText(relation, 'RelatedTable') || '',
+    type: elementType(relation).replace(/^AxTableRelation/, '') || 'Relation',
+    cardinality: childText(relation, 'Cardinality'),
+    relatedCardinality: childText(relation, 'RelatedTableCardinality'),
+    constraints: childElements(childElement(relation, 'Constraints')).map(constraint => ({
+      type: elementType(constraint).replace(/^AxTableRelationConstraint/, '') || 'Field',
+      field: childText(constraint, 'Field'),
+      relatedField: childText(constraint, 'RelatedField'),
+      // ValueStr holds the enum literal, Value its integer
+      value: childText(constraint, 'ValueStr') || childText(constraint, 'Value')
+    }))
+  })).filter(relation => relation.name);
+
+  return { ...parseAotObject(root), fields, fieldGroups, indexes, relations };
+}
+
+/**
+ * Source (form, datasource, field and control methods), datasources and design properties of an AxForm file
+ */
+export function parseAxFormXml(content: string): AxFormXml {
+  const root = parseXmlDocument(content);
+  const object = parseAotObject(root);
+
+  const dataSources = childElements(childElement(root ?? undefined, 'DataSources'), 'AxFormDataSource').map(dataSource => ({
+    name: childText(dataSource, 'Name') || '',
+    table: childText(dataSource, 'Table'),
+    joinSource: childText(dataSource, 'JoinSource'),
+    linkType: childText(dataSource, 'LinkType'),
+    properties: readProperties(dataSource)
+  }));
+
+  const controls = childElements(childElement(childElement(root ?? undefined, 'SourceCode'), 'DataControls'), 'Control').map(control => ({
+    name: childText(control, 'Name') || '',
+    type: childText(control, 'Type')
+  }));
+
+  return { ...object, dataSources, controls, design: readProperties(childElement(root ?? undefined, 'Design')) };
+}
+
+/**
+ * Source and the datasource tree of an AxQuery file, flattened with each datasource's parent
+ */
+export function parseAxQueryXml(content: string): AxQueryXml {
+  const root = parseXmlDocument(content);
+  const dataSources: AxQueryDataSourceXml[] = [];
+
+  const visit = (container: XmlElement | undefined, parent: string | null) => {
+    for (const dataSource of childElements(container)) {
+      const name = childText(dataSource, 'Name') || '';
+      dataSources.push({
+        name,
+        table: childText(dataSource, 'Table'),
+        parent,
+        joinMode: childText(dataSource, 'JoinMode'),
+        fetchMode: childText(dataSource, 'FetchMode'),
+        fields: childElements(childElement(dataSource, 'Fields')).map(field => childText(field, 'Field') || childText(field, 'Name')).filter((field): field is string => !!field),
+        ranges: childElements(childElement(dataSource, 'Ranges')).map(range => ({
+          field: childText(range, 'Field') || childText(range, 'Name') || '',
+          value: childText(range, 'Value')
+        }))
+      });
+      visit(childElement(dataSource, 'DataSources'), name);
+    }
+  };
+  visit(childElement(root ?? undefined, 'DataSources'), null);
+
+  return { ...parseAotObject(root), dataSources };
+}
+
+function parseAotObject(root: XmlElement | null): AotObjectXml {
+  return {
+    name: childText(root ?? undefined, 'Name') || '',
+    properties: readProperties(root ?? undefined),
+    ...readSourceCode(root)
+  };
+}
+
+// Simple child elements (no children of their own) as name/value pairs, Name excluded
+function readProperties(element: XmlElement | undefined): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const child of childElements(element)) {
+    if (child.name === 'Name' || child.children.length > 0 || !child.text.trim()) continue;
+    properties[child.name] = child.text.trim();
+  }
+  return properties;
+}
+
+function isYes(value: string | null): boolean {
+  return /^(yes|true)$/i.test(value || '');
+}
+
+// End of a start or end tag, skipping '>' inside quoted attribute values
+function findTagEnd(content: string, start: number): number {
+  let quote = '';
+  for (let i = start + 1; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (entity, code: string) => {
+    if (code[0] === '#') return String.fromCodePoint(code[1] === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[code] || entity;
+  });
+}
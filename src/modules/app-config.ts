@@ -10,6 +10,8 @@ import { DiskLogger } from "./logger.js";
 import { ObjectIndexManager } from "./object-index.js";
 import { autoDetectVS2022ExtensionPath } from "./vs2022-config.js";
 import { D365ServiceClient } from "./d365-service-client.js";
+import { parseModelModule, parseModuleReferences } from "./model-dependencies.js";
+import { isCustomModel } from "./utils.js";
 
 // Import server start time function
 let getServerStartTime: (() => Date | null) | null = null;
@@ -37,6 +39,8 @@ export interface ServerConfiguration {
   xppMetadataFolder?: string;
   vs2022ExtensionPath?: string;
   d365Url?: string; // Future use
+  watchIndex?: boolean;
+  watchDebounceMs?: number;
 }
 
 export interface IndexStatistics {
@@ -55,6 +59,8 @@ export interface ModelInfo {
   version: string;
   layer: string;
   id: string;
+  // Module (package) the model belongs to; dependencies are module names
+  module: string;
   dependencies: string[];
   description?: string;
   descriptorPath: string;
@@ -87,6 +93,7 @@ export interface ApplicationConfiguration {
 class AppConfigManager {
   private config: ServerConfiguration = {};
   private startTime: Date = new Date();
+  private customModelNames: string[] | null = null;
 
   /**
    * Parse command line arguments and initialize configuration
@@ -121,6 +128,18 @@ class AppConfigManager {
             i++; // Skip the next argument as it's the value
           }
           break;
+        case '--watch-index':
+          parsedConfig.watchIndex = true;
+          break;
+        case '--watch-debounce':
+          if (i + 1 < args.length) {
+            const debounceMs = parseInt(args[i + 1], 10);
+            if (!isNaN(debounceMs) && debounceMs >= 0) {
+              parsedConfig.watchDebounceMs = debounceMs;
+            }
+            i++; // Skip the next argument as it's the value
+          }
+          break;
       }
     }
 
@@ -297,6 +316,20 @@ class AppConfigManager {
     return this.config.d365Url;
   }
 
+  /**
+   * Whether the filesystem watcher that keeps the object index current is enabled
+   */
+  public isIndexWatchEnabled(): boolean {
+    return this.config.watchIndex === true;
+  }
+
+  /**
+   * Debounce delay for the index watcher in milliseconds
+   */
+  public getWatchDebounceMs(): number | undefined {
+    return this.config.watchDebounceMs;
+  }
+
   /**
    * Get comprehensive application configuration for JSON response
    */
@@ -486,17 +519,17 @@ class AppConfigManager {
    * Get all available D365 F&O models in the codebase
    * Note: This is informational only - actual model operations handled by VS2022 service
    */
-  public async getAvailableModels(): Promise<ModelInfo[]> {
+  public async getAvailableModels(basePath: string | undefined = this.config.xppPath): Promise<ModelInfo[]> {
     const models: ModelInfo[] = [];
     
-    if (!this.config.xppPath) {
+    if (!basePath) {
       await DiskLogger.logDebug("XPP path not available for model enumeration (informational only)");
       return models;
     }
 
     try {
       // Search for model descriptor files throughout the codebase
-      await this.findModelsRecursively(this.config.xppPath, models);
+      await this.findModelsRecursively(basePath, models);
       
       // Sort models by name for consistent output
       models.sort((a, b) => a.name.localeCompare(b.name));
@@ -508,6 +541,17 @@ class AppConfigManager {
     }
   }
 
+  /**
+   * Names of custom (customer, partner and ISV) models, read once from the model descriptors
+   */
+  public async getCustomModelNames(): Promise<string[]> {
+    if (!this.customModelNames) {
+      const models = await this.getAvailableModels();
+      this.customModelNames = models.filter(isCustomModel).map(model => model.name);
+    }
+    return this.customModelNames;
+  }
+
   /**
    * Recursively find model descriptor files and parse model information
    */
@@ -573,20 +617,8 @@ class AppConfigManager {
       const versionBuildMatch = xmlContent.match(/<VersionBuild>([^<]+)<\/VersionBuild>/);
       const versionRevisionMatch = xmlContent.match(/<VersionRevision>([^<]+)<\/VersionRevision>/);
       
-      // Extract dependencies
-      const dependencies: string[] = [];
-      const moduleRefsMatch = xmlContent.match(/<ModuleReferences[^>]*>(.*?)<\/ModuleReferences>/s);
-      if (moduleRefsMatch) {
-        const stringMatches = moduleRefsMatch[1].match(/<d2p1:string>([^<]+)<\/d2p1:string>/g);
-        if (stringMatches) {
-          for (const match of stringMatches) {
-            const depMatch = match.match(/<d2p1:string>([^<]+)<\/d2p1:string>/);
-            if (depMatch) {
-              dependencies.push(depMatch[1]);
-            }
-          }
-        }
-      }
+      // Extract dependencies (referenced modules)
+      const dependencies = parseModuleReferences(xmlContent);
       
       // Build version string
       const major = versionMajorMatch?.[1] || '1';
@@ -607,6 +639,7 @@ class AppConfigManager {
         version,
         layer: layerMatch?.[1] || 'Unknown',
         id: idMatch?.[1] || 'Unknown',
+        module: parseModelModule(xmlContent) || modelName,
         dependencies,
         description: descriptionMatch?.[1] || '',
         descriptorPath: xmlPath,
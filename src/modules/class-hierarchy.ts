@@ -0,0 +1,220 @@
+/**
+ * Class Hierarchy Module
+ *
+ * Reads class and interface headers from AxClass declarations and walks the stored
+ * inheritance and interface edges: ancestor chains, subclasses and interface implementers.
+ */
+
+import { maskCommentsAndStrings } from "./reference-extractor.js";
+import type { SourceBlock } from "./code-index.js";
+import type { SQLiteObjectLookup } from "./sqlite-lookup.js";
+
+/**
+ * Header of a class or interface declaration
+ * Interfaces list their base interfaces in `interfaces` (X++ writes them after `extends`)
+ */
+export interface ClassDeclaration {
+  name: string;
+  isInterface: boolean;
+  isAbstract: boolean;
+  isFinal: boolean;
+  extends: string | null;
+  interfaces: string[];
+}
+
+/**
+ * A class declaration as stored in the index
+ */
+export interface ClassDeclarationRow {
+  name: string;
+  model: string;
+  path: string;
+  extendsName: string | null;
+  isInterface: boolean;
+  isAbstract: boolean;
+  isFinal: boolean;
+}
+
+export interface HierarchyNode {
+  name: string;
+  model: string | null;
+  depth: number;
+}
+
+export interface SubclassNode extends HierarchyNode {
+  parent: string;
+}
+
+export interface ImplementerNode extends HierarchyNode {
+  // Interface, implementing class or base class the implementation is reached through
+  via: string | null;
+}
+
+export interface InterfaceNode {
+  name: string;
+  model: string | null;
+  inheritedFrom: string | null;
+}
+
+export interface ClassHierarchy {
+  name: string;
+  found: boolean;
+  model: string | null;
+  isInterface: boolean;
+  isAbstract: boolean;
+  isFinal: boolean;
+  ancestors: HierarchyNode[];
+  interfaces: InterfaceNode[];
+  descendants: SubclassNode[];
+  implementers: ImplementerNode[];
+}
+
+// Guards against cycles and runaway chains in inconsistent metadata
+const MAX_HIERARCHY_DEPTH = 50;
+
+/**
+ * Parse the class or interface header of a declaration block
+ */
+export function extractClassDeclaration(block: SourceBlock): ClassDeclaration | null {
+  const code = maskCommentsAndStrings(block.source);
+  const match = code.match(/\b((?:(?:public|internal|abstract|final|static)\s+)*)(class|interface)\s+(\w+)\s*(?:extends\s+([\w\s,]+?))?\s*(?:implements\s+([\w\s,]+?))?\s*\{/);
+  if (!match) return null;
+
+  const modifiers = match[1].toLowerCase().split(/\s+/);
+  const isInterface = match[2] === 'interface';
+  const extendsNames = splitNames(match[4]);
+
+  return {
+    name: match[3],
+    isInterface,
+    isAbstract: modifiers.includes('abstract'),
+    isFinal: modifiers.includes('final'),
+    extends: isInterface ? null : extendsNames[0] || null,
+    interfaces: isInterface ? extendsNames : splitNames(match[5])
+  };
+}
+
+/**
+ * Ancestors, interfaces, subclasses and implementers of a class or interface
+ */
+export function getClassHierarchy(lookup: SQLiteObjectLookup, className: string): ClassHierarchy {
+  const [declaration] = lookup.getClassDeclarations(className);
+  const name = declaration?.name || className;
+
+  const hierarchy: ClassHierarchy = {
+    name,
+    found: !!declaration,
+    model: declaration?.model || null,
+    isInterface: declaration?.isInterface || false,
+    isAbstract: declaration?.isAbstract || false,
+    isFinal: declaration?.isFinal || false,
+    ancestors: [],
+    interfaces: [],
+    descendants: [],
+    implementers: []
+  };
+
+  // Ancestor chain - the last entry may be a base class outside the index (model null)
+  const visited = new Set([name.toLowerCase()]);
+  const chain: ClassDeclarationRow[] = declaration ? [declaration] : [];
+  let parentName = declaration?.extendsName || null;
+  while (parentName && !visited.has(parentName.toLowerCase()) && hierarchy.ancestors.length < MAX_HIERARCHY_DEPTH) {
+    visited.add(parentName.toLowerCase());
+    const [parent] = lookup.getClassDeclarations(parentName);
+    hierarchy.ancestors.push({ name: parent?.name || parentName, model: parent?.model || null, depth: hierarchy.ancestors.length + 1 });
+    if (!parent) break;
+    chain.push(parent);
+    parentName = parent.extendsName;
+  }
+
+  // Interfaces of the class and its ancestors, including base interfaces
+  const seenInterfaces = new Set<string>();
+  const queue: Array<{ name: string; inheritedFrom: string | null }> = [];
+  for (const row of chain) {
+    for (const interfaceName of lookup.getClassInterfaces(row.name)) {
+      queue.push({ name: interfaceName, inheritedFrom: row === declaration ? null : row.name });
+    }
+  }
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seenInterfaces.has(next.name.toLowerCase()) || next.name.toLowerCase() === name.toLowerCase()) continue;
+    seenInterfaces.add(next.name.toLowerCase());
+
+    const [interfaceRow] = lookup.getClassDeclarations(next.name);
+    hierarchy.interfaces.push({ name: interfaceRow?.name || next.name, model: interfaceRow?.model || null, inheritedFrom: next.inheritedFrom });
+    for (const baseInterface of lookup.getClassInterfaces(next.name)) {
+      queue.push({ name: baseInterface, inheritedFrom: interfaceRow?.name || next.name });
+    }
+  }
+
+  hierarchy.descendants = collectSubclasses(lookup, name, new Set([name.toLowerCase()]), 1);
+
+  if (hierarchy.isInterface || !declaration) {
+    hierarchy.implementers = collectImplementers(lookup, name);
+  }
+
+  return hierarchy;
+}
+
+/**
+ * Direct and transitive subclasses, breadth first
+ */
+function collectSubclasses(lookup: SQLiteObjectLookup, className: string, visited: Set<string>, depth: number): SubclassNode[] {
+  const result: SubclassNode[] = [];
+  let level: Array<{ name: string }> = [{ name: className }];
+
+  for (let currentDepth = depth; level.length > 0 && currentDepth <= MAX_HIERARCHY_DEPTH; currentDepth++) {
+    const nextLevel: Array<{ name: string }> = [];
+    for (const parent of level) {
+      for (const child of lookup.getSubclasses(parent.name)) {
+        if (visited.has(child.name.toLowerCase())) continue;
+        visited.add(child.name.toLowerCase());
+        result.push({ name: child.name, model: child.model, depth: currentDepth, parent: parent.name });
+        nextLevel.push(child);
+      }
+    }
+    level = nextLevel;
+  }
+
+  return result;
+}
+
+/**
+ * Classes implementing an interface: directly, through a derived interface or by inheriting from an implementer
+ * Depth 1 means the class lists the interface itself
+ */
+function collectImplementers(lookup: SQLiteObjectLookup, interfaceName: string): ImplementerNode[] {
+  const result: ImplementerNode[] = [];
+  const visited = new Set([interfaceName.toLowerCase()]);
+  let level: Array<{ name: string; via: string | null }> = [{ name: interfaceName, via: null }];
+
+  for (let depth = 1; level.length > 0 && depth <= MAX_HIERARCHY_DEPTH; depth++) {
+    const nextLevel: Array<{ name: string; via: string | null }> = [];
+    for (const current of level) {
+      for (const implementer of lookup.getImplementers(current.name)) {
+        if (visited.has(implementer.name.toLowerCase())) continue;
+        visited.add(implementer.name.toLowerCase());
+        const via = current.name === interfaceName ? null : current.name;
+
+        if (implementer.isInterface) {
+          // Derived interface: its implementers implement the requested interface too
+          nextLevel.push({ name: implementer.name, via });
+          continue;
+        }
+
+        result.push({ name: implementer.name, model: implementer.model, depth, via });
+        for (const subclass of collectSubclasses(lookup, implementer.name, visited, depth + 1)) {
+          result.push({ name: subclass.name, model: subclass.model, depth: subclass.depth, via: subclass.parent });
+        }
+      }
+    }
+    level = nextLevel;
+  }
+
+  return result;
+}
+
+function splitNames(list: string | undefined): string[] {
+  if (!list) return [];
+  return list.split(',').map(name => name.trim()).filter(name => /^\w+$/.test(name));
+}
@@ -0,0 +1,468 @@
+/**
+ * Chain-of-Command Checker Module
+ *
+ * Checks [ExtensionOf] classes against the object they extend, the way the X++ compiler does:
+ * wrapped methods must exist in the base with the same signature, may not be private, final
+ * or marked non-wrappable, and must call next exactly once on every path. Base methods come
+ * from the AOT source of the base object and its parent classes, plus the kernel methods of
+ * tables, forms, form datasources, controls and data fields, which are wrappable without
+ * being overridden in source.
+ */
+
+import { parseAxFormXml, parseXmlDocument, readSourceCode } from './aot-xml.js';
+import { parseExtensionOf } from './extension-index.js';
+import { parseXppSource } from './xpp-parser.js';
+import { XppAttribute, XppExpression, XppMethodDeclaration, XppNode, XppStatement, XppTypeReference, walkXpp } from './xpp-ast.js';
+
+export type CocIssueKind =
+  | 'baseNotFound'
+  | 'notFinal'
+  | 'methodNotInBase'
+  | 'signatureMismatch'
+  | 'nextMissing'
+  | 'nextNotOnAllPaths'
+  | 'nextMultiple'
+  | 'wrapsPrivate'
+  | 'wrapsFinal'
+  | 'notWrappable';
+
+export interface CocIssue {
+  kind: CocIssueKind;
+  severity: 'error' | 'warning';
+  // null for issues of the class itself
+  method: string | null;
+  // Line in the AOT XML file of the extension
+  line: number;
+  message: string;
+}
+
+/**
+ * A method of the extended object as far as CoC is concerned
+ * Kernel methods have no source, so their signature is not known
+ */
+export interface CocBaseMethod {
+  name: string;
+  // Object declaring the method, or the kernel class (xRecord, FormRun, FormDataSource, ...)
+  declaredIn: string;
+  kernel: boolean;
+  isStatic: boolean;
+  isPrivate: boolean;
+  isFinal: boolean;
+  returnType: string | null;
+  parameters: Array<{ type: string }> | null;
+  replaceable: boolean;
+  // Hookable(false) or Wrappable(false); final methods are only wrappable with Wrappable(true)
+  wrappable: boolean | null;
+}
+
+// Keyed by lower-case method name
+export type CocBase = Map<string, CocBaseMethod>;
+
+export interface CocMethodCheck {
+  name: string;
+  line: number;
+  // Wrappers share their name with a base method; everything else is a new method added by the extension
+  role: 'wrapper' | 'added';
+  declaredIn: string | null;
+  // Fewest and most next calls over all paths through the method; 2 means two or more
+  nextCalls: { min: number; max: number } | null;
+}
+
+export interface CocExtensionReport {
+  extension: string;
+  model: string;
+  path: string;
+  baseName: string;
+  baseType: string;
+  baseMember: string | null;
+  baseFound: boolean;
+  methods: CocMethodCheck[];
+  issues: CocIssue[];
+}
+
+// Methods the kernel implements on every record, form and form element
+const KERNEL_METHODS: Record<string, string[]> = {
+  xRecord: [
+    'insert', 'update', 'delete', 'initValue', 'validateWrite', 'validateDelete', 'validateField', 'validateFieldValue',
+    'modifiedField', 'modifiedFieldValue', 'postLoad', 'defaultField', 'defaultRow', 'renamePrimaryKey', 'caption',
+    'toolTipField', 'toolTipRecord', 'aosValidateInsert', 'aosValidateUpdate', 'aosValidateDelete', 'aosValidateRead'
+  ],
+  DataEntity: [
+    'initializeEntityDataSource', 'mapEntityToDataSource', 'mapDataSourceToEntity', 'insertEntityDataSource',
+    'updateEntityDataSource', 'deleteEntityDataSource', 'persistEntity'
+  ],
+  FormRun: ['init', 'run', 'close', 'closeOk', 'closeCancel', 'canClose', 'activate', 'task', 'firstField', 'lastField'],
+  FormDataSource: [
+    'init', 'executeQuery', 'active', 'create', 'delete', 'write', 'validateWrite', 'validateDelete', 'initValue',
+    'research', 'reread', 'refresh', 'linkActive', 'leaveRecord', 'markChanged', 'selectionChanged'
+  ],
+  FormControl: ['clicked', 'modified', 'lookup', 'validate', 'jumpRef', 'gotFocus', 'lostFocus', 'enter', 'leave', 'textChange', 'selectionChange', 'context'],
+  FormDataObject: ['modified', 'validate', 'lookup', 'jumpRef', 'toolTip']
+};
+
+const RECORD_FOLDERS = new Set(['AxTable', 'AxView', 'AxMap']);
+const ENTITY_FOLDERS = new Set(['AxDataEntityView', 'AxCompositeDataEntityView']);
+
+/**
+ * Add the methods of one base object file to a CoC base
+ * member is the datasource, control or DataSource.Field of form*Str targets
+ * Returns the class the object extends so callers can follow the class hierarchy
+ */
+export function readCocBaseMethods(file: { name: string; folder: string; content: string }, member: string | null, base: CocBase): string | null {
+  const sourceCode = readSourceCode(parseXmlDocument(file.content));
+  const declaredIn = member ? `${file.name}.${member}` : file.name;
+
+  for (const block of sourceCode.methods) {
+    const ownerMatches = member ? block.owner?.name.toLowerCase() === member.toLowerCase() : block.owner === null;
+    if (!ownerMatches || base.has(block.name.toLowerCase())) continue;
+    const method = parseXppSource(block.source).methods[0];
+    if (method) base.set(block.name.toLowerCase(), describeBaseMethod(method, declaredIn));
+  }
+
+  for (const kernelClass of kernelClassesFor(file.folder, member, file.content)) {
+    for (const name of KERNEL_METHODS[kernelClass]) {
+      if (!base.has(name.toLowerCase())) {
+        base.set(name.toLowerCase(), {
+          name, declaredIn: kernelClass, kernel: true, isStatic: false, isPrivate: false, isFinal: false,
+          returnType: null, parameters: null, replaceable: false, wrappable: null
+        });
+      }
+    }
+  }
+
+  return file.folder === 'AxClass' && sourceCode.declaration
+    ? parseXppSource(sourceCode.declaration.source).classes[0]?.extends || null
+    : null;
+}
+
+/**
+ * Check one [ExtensionOf] class against its base; null base means the base object was not found
+ * Returns null when the class has no ExtensionOf attribute
+ */
+export function checkCocExtension(
+  target: { name: string; model: string; path: string; content: string },
+  base: CocBase | null
+): CocExtensionReport | null {
+  const { declaration, methods } = readSourceCode(parseXmlDocument(target.content));
+  const extensionOf = declaration ? parseExtensionOf(declaration.source) : null;
+  if (!declaration || !extensionOf) return null;
+
+  const report: CocExtensionReport = {
+    extension: target.name,
+    model: target.model,
+    path: target.path,
+    ...extensionOf,
+    baseFound: base !== null,
+    methods: [],
+    issues: []
+  };
+  const baseLabel = extensionOf.baseMember ? `${extensionOf.baseName}.${extensionOf.baseMember}` : extensionOf.baseName;
+
+  const classDeclaration = parseXppSource(declaration.source).classes[0];
+  if (classDeclaration && !classDeclaration.modifiers.includes('final')) {
+    report.issues.push({
+      kind: 'notFinal', severity: 'error', method: null, line: declaration.startLine + classDeclaration.span.line - 1,
+      message: `${target.name} must be declared final to extend ${baseLabel}`
+    });
+  }
+  if (!base) {
+    report.issues.push({
+      kind: 'baseNotFound', severity: 'warning', method: null, line: declaration.startLine,
+      message: `${extensionOf.baseType} ${extensionOf.baseName} is not in the index; wrapped methods cannot be verified`
+    });
+  }
+
+  for (const block of methods) {
+    const method = parseXppSource(block.source).methods[0];
+    if (!method) continue;
+
+    const line = block.startLine + method.span.line - 1;
+    const baseMethod = base?.get(method.name.toLowerCase()) || null;
+    const counts = method.body ? nextCallCounts(method.body, method.name) : null;
+    const callsNext = !!counts && Array.from(counts).some(count => count > 0);
+    report.methods.push({
+      name: method.name,
+      line,
+      role: baseMethod || (!base && callsNext) ? 'wrapper' : 'added',
+      declaredIn: baseMethod?.declaredIn || null,
+      nextCalls: counts ? { min: Math.min(...counts), max: Math.max(...counts) } : null
+    });
+
+    const issue = (kind: CocIssueKind, message: string) => report.issues.push({ kind, severity: 'error', method: method.name, line, message });
+
+    if (!baseMethod) {
+      if (base && callsNext) issue('methodNotInBase', `${method.name} calls next but ${baseLabel} has no method ${method.name}`);
+      continue;
+    }
+
+    const where = `${baseMethod.declaredIn}.${baseMethod.name}`;
+    if (baseMethod.isPrivate) issue('wrapsPrivate', `${where} is private and cannot be wrapped`);
+    if (baseMethod.wrappable === false) {
+      issue('notWrappable', `${where} is marked Hookable(false) or Wrappable(false) and cannot be wrapped`);
+    } else if (baseMethod.isFinal && baseMethod.wrappable !== true) {
+      issue('wrapsFinal', `${where} is final; it can only be wrapped when marked [Wrappable(true)]`);
+    }
+
+    for (const mismatch of compareSignatures(method, baseMethod)) {
+      issue('signatureMismatch', `${method.name} ${mismatch}`);
+    }
+
+    if (counts) {
+      const skips = counts.has(0);
+      if (skips && !baseMethod.replaceable) {
+        if (counts.size === 1) {
+          issue('nextMissing', `${method.name} never calls next ${method.name}(); the base logic and other extensions are skipped`);
+        } else {
+          issue('nextNotOnAllPaths', `${method.name} does not call next ${method.name}() on every path; only Replaceable methods may skip next`);
+        }
+      }
+      if (counts.has(2)) {
+        issue('nextMultiple', `${method.name} can call next ${method.name}() more than once; the base logic would run twice`);
+      }
+    }
+  }
+
+  report.issues.sort((a, b) => a.line - b.line);
+  return report;
+}
+
+function describeBaseMethod(method: XppMethodDeclaration, declaredIn: string): CocBaseMethod {
+  const flag = (name: string) => booleanAttribute(method.attributes, name);
+  const hookable = flag('hookable');
+  const wrappable = flag('wrappable');
+  return {
+    name: method.name,
+    declaredIn,
+    kernel: false,
+    isStatic: method.modifiers.includes('static'),
+    isPrivate: method.modifiers.includes('private'),
+    isFinal: method.modifiers.includes('final'),
+    returnType: formatType(method.returnType),
+    parameters: method.parameters.map(parameter => ({ type: formatType(parameter.type) })),
+    replaceable: flag('replaceable') === true,
+    wrappable: hookable === false || wrappable === false ? false : wrappable
+  };
+}
+
+// [Hookable(false)] -> false, [Wrappable(true)] or [Wrappable] -> true, attribute missing -> null
+function booleanAttribute(attributes: XppAttribute[], name: string): boolean | null {
+  const attribute = attributes.find(candidate => candidate.name.toLowerCase() === name);
+  if (!attribute) return null;
+  const argument = attribute.arguments[0];
+  if (!argument) return true;
+  return !(argument.kind === 'literal' && String(argument.value).toLowerCase() === 'false');
+}
+
+function compareSignatures(wrapper: XppMethodDeclaration, base: CocBaseMethod): string[] {
+  const mismatches: string[] = [];
+  const isStatic = wrapper.modifiers.includes('static');
+  if (isStatic !== base.isStatic) {
+    mismatches.push(`is ${isStatic ? 'static' : 'an instance method'} but ${base.declaredIn}.${base.name} is ${base.isStatic ? 'static' : 'an instance method'}`);
+  }
+  if (!base.parameters || base.returnType === null) return mismatches;
+
+  const baseSignature = `${base.returnType} ${base.name}(${base.parameters.map(parameter => parameter.type).join(', ')})`;
+  const returnType = formatType(wrapper.returnType);
+  const types = wrapper.parameters.map(parameter => formatType(parameter.type));
+  if (returnType.toLowerCase() !== base.returnType.toLowerCase()
+    || types.length !== base.parameters.length
+    || types.some((type, index) => type.toLowerCase() !== base.parameters![index].type.toLowerCase())) {
+    mismatches.push(`has signature ${returnType} ${wrapper.name}(${types.join(', ')}) but the base method is ${baseSignature}`);
+  }
+
+  // Defaults are taken from the base method; wrappers must leave them out
+  for (const parameter of wrapper.parameters) {
+    if (parameter.defaultValue !== null) {
+      mismatches.push(`repeats the default value of parameter ${parameter.name}; wrappers must declare parameters without defaults`);
+    }
+  }
+  return mismatches;
+}
+
+function kernelClassesFor(folder: string, member: string | null, content: string): string[] {
+  if (RECORD_FOLDERS.has(folder)) return ['xRecord'];
+  if (ENTITY_FOLDERS.has(folder)) return ['xRecord', 'DataEntity'];
+  if (folder !== 'AxForm') return [];
+  if (!member) return ['FormRun'];
+  if (member.includes('.')) return ['FormDataObject'];
+  const isDataSource = parseAxFormXml(content).dataSources.some(dataSource => dataSource.name.toLowerCase() === member.toLowerCase());
+  return [isDataSource ? 'FormDataSource' : 'FormControl'];
+}
+
+function formatType(type: XppTypeReference): string {
+  return type.length !== null ? `${type.name} ${type.length}` : type.name;
+}
+
+// ---------------------------------------------------------------------------------------------
+// next calls per path
+// ---------------------------------------------------------------------------------------------
+
+// Number of next calls made so far on each path; 2 stands for two or more
+type Counts = Set<number>;
+
+interface Flow {
+  // Paths that reach the end of the statement
+  normal: Counts;
+  // Paths that left the method through return
+  returned: Counts;
+  // Paths leaving the enclosing loop or switch through break, and the loop body through continue
+  broken: Counts;
+  continued: Counts;
+}
+
+const ZERO: Counts = new Set([0]);
+
+/**
+ * Possible next call counts over every path through a method body
+ * Paths ending in throw or retry are left out; catch blocks start from the counts at the end of the try block
+ */
+function nextCallCounts(body: XppStatement, methodName: string): Counts {
+  const flow = statementFlow(body, ZERO, methodName.toLowerCase());
+  return union(flow.normal, flow.returned);
+}
+
+function statementFlow(statement: XppStatement, incoming: Counts, name: string): Flow {
+  const flow = (normal: Counts, rest: Partial<Flow> = {}): Flow => ({ normal, returned: new Set(), broken: new Set(), continued: new Set(), ...rest });
+
+  switch (statement.kind) {
+    case 'block':
+      return sequenceFlow(statement.statements, incoming, name);
+    case 'localFunction':
+      return flow(incoming);
+    case 'return':
+      return flow(new Set(), { returned: add(incoming, expressionCounts(statement.expression, name)) });
+    case 'throw':
+    case 'retry':
+      return flow(new Set());
+    case 'break':
+      return flow(new Set(), { broken: incoming });
+    case 'continue':
+      return flow(new Set(), { continued: incoming });
+    case 'if': {
+      const entry = add(incoming, expressionCounts(statement.condition, name));
+      const then = statementFlow(statement.then, entry, name);
+      const otherwise = statement.else ? statementFlow(statement.else, entry, name) : flow(entry);
+      return mergeFlows(then, otherwise);
+    }
+    case 'while':
+    case 'doWhile':
+    case 'whileSelect':
+    case 'for': {
+      let entry = incoming;
+      if (statement.kind === 'for' && statement.initializer) entry = add(entry, expressionCounts(statement.initializer, name));
+      if (statement.kind === 'while' || statement.kind === 'doWhile') entry = add(entry, expressionCounts(statement.condition, name));
+      return loopFlow(statement.body, entry, statement.kind === 'doWhile', name);
+    }
+    case 'switch': {
+      const entry = add(incoming, expressionCounts(statement.expression, name));
+      const result = flow(statement.cases.some(switchCase => switchCase.isDefault) ? new Set() : entry);
+      let fallthrough: Counts = new Set();
+      for (const switchCase of statement.cases) {
+        const caseFlow = sequenceFlow(switchCase.statements, union(entry, fallthrough), name);
+        result.normal = union(result.normal, caseFlow.broken);
+        result.returned = union(result.returned, caseFlow.returned);
+        result.continued = union(result.continued, caseFlow.continued);
+        fallthrough = caseFlow.normal;
+      }
+      result.normal = union(result.normal, fallthrough);
+      return result;
+    }
+    case 'try': {
+      const body = statementFlow(statement.body, incoming, name);
+      let result = body;
+      for (const catchClause of statement.catches) {
+        result = mergeFlows(result, statementFlow(catchClause.body, body.normal.size > 0 ? body.normal : incoming, name));
+      }
+      if (!statement.finally) return result;
+      // finally runs on the way out of every path
+      const cleanup = statementFlow(statement.finally, ZERO, name).normal;
+      return { ...result, normal: add(result.normal, cleanup), returned: add(result.returned, cleanup) };
+    }
+    case 'changeCompany':
+      return statementFlow(statement.body, add(incoming, expressionCounts(statement.company, name)), name);
+    case 'using':
+      return statementFlow(statement.body, add(incoming, expressionCounts(statement.resource, name)), name);
+    default:
+      return flow(add(incoming, expressionCounts(statement, name)));
+  }
+}
+
+function sequenceFlow(statements: XppStatement[], incoming: Counts, name: string): Flow {
+  const result: Flow = { normal: incoming, returned: new Set(), broken: new Set(), continued: new Set() };
+  for (const statement of statements) {
+    if (result.normal.size === 0) break;
+    const next = statementFlow(statement, result.normal, name);
+    result.normal = next.normal;
+    result.returned = union(result.returned, next.returned);
+    result.broken = union(result.broken, next.broken);
+    result.continued = union(result.continued, next.continued);
+  }
+  return result;
+}
+
+// Loop bodies run any number of times (at least once for do-while); counts saturate at 2 so this settles quickly
+function loopFlow(body: XppStatement, entry: Counts, atLeastOnce: boolean, name: string): Flow {
+  const once = statementFlow(body, ZERO, name);
+  const perIteration = union(once.normal, once.continued);
+
+  let repeated: Counts = ZERO;
+  for (let i = 0; i < 3; i++) repeated = union(repeated, add(repeated, perIteration));
+
+  const beforeLastIteration = add(entry, repeated);
+  const completed = atLeastOnce ? add(beforeLastIteration, perIteration) : beforeLastIteration;
+  return {
+    normal: union(completed, add(beforeLastIteration, once.broken)),
+    returned: add(beforeLastIteration, once.returned),
+    broken: new Set(),
+    continued: new Set()
+  };
+}
+
+// next calls inside an expression; the right side of && and || and the branches of ?: may not run
+function expressionCounts(node: XppNode | null, name: string): Counts {
+  if (!node) return ZERO;
+
+  if (node.kind === 'conditional') {
+    return add(expressionCounts(node.condition, name), union(expressionCounts(node.whenTrue, name), expressionCounts(node.whenFalse, name)));
+  }
+  if (node.kind === 'binary' && (node.operator === '&&' || node.operator === '||')) {
+    return add(expressionCounts(node.left, name), union(ZERO, expressionCounts(node.right, name)));
+  }
+
+  let counts: Counts = node.kind === 'nextCall' && node.method.toLowerCase() === name ? new Set([1]) : ZERO;
+  for (const child of childNodes(node)) {
+    counts = add(counts, expressionCounts(child as XppExpression, name));
+  }
+  return counts;
+}
+
+function childNodes(node: XppNode): XppNode[] {
+  const children: XppNode[] = [];
+  walkXpp(node, candidate => {
+    if (candidate === node) return;
+    children.push(candidate);
+    return false;
+  });
+  return children;
+}
+
+function add(a: Counts, b: Counts): Counts {
+  const result: Counts = new Set();
+  for (const x of a) {
+    for (const y of b) result.add(Math.min(2, x + y));
+  }
+  return result;
+}
+
+function union(a: Counts, b: Counts): Counts {
+  return new Set([...a, ...b]);
+}
+
+function mergeFlows(a: Flow, b: Flow): Flow {
+  return {
+    normal: union(a.normal, b.normal),
+    returned: union(a.returned, b.returned),
+    broken: union(a.broken, b.broken),
+    continued: union(a.continued, b.continued)
+  };
+}
@@ -0,0 +1,260 @@
+import { createHash } from "crypto";
+import { XppReference, extractReferences } from "./reference-extractor.js";
+import { ClassDeclaration, extractClassDeclaration } from "./class-hierarchy.js";
+import { ExtensionFact, extractExtension } from "./extension-index.js";
+import { DelegateDeclaration, EventSubscription, extractDelegates, extractEventSubscriptions } from "./event-index.js";
+import { SecurityFact, extractSecurityFact } from "./security-index.js";
+import { MenuFact, MenuItemFact, extractMenu, extractMenuItem } from "./navigation-index.js";
+import { EdtFact, TableFact, extractEdtFact, extractTableFact } from "./relation-index.js";
+import { parseXmlDocument, readSourceCode } from "./aot-xml.js";
+import type { ObjectLocation } from "./sqlite-lookup.js";
+
+/**
+ * Code Index Module
+ *
+ * Extracts searchable facts (X++ source blocks, cross references) from AOT XML files so they can be
+ * stored next to the object index in SQLite. Works directly on the files under
+ * PackagesLocalDirectory and does not need the VS2022 service.
+ */
+
+/**
+ * AOT folders whose XML files carry X++ source code
+ */
+export const SOURCE_CODE_FOLDERS = [
+  'AxClass',
+  'AxTable',
+  'AxForm',
+  'AxQuery',
+  'AxView',
+  'AxMap',
+  'AxDataEntityView',
+  'AxCompositeDataEntityView'
+];
+
+/**
+ * AOT folders of the object types the VS2022 service writes to the object index
+ * Files in other folders (EDTs, menu items, security, extensions) only feed the code index
+ */
+export const SERVICE_OBJECT_FOLDERS = [
+  'AxTable',
+  'AxClass',
+  'AxForm',
+  'AxEnum',
+  'AxView',
+  'AxQuery',
+  'AxMenu',
+  'AxMap',
+  'AxReport',
+  'AxDataEntityView',
+  'AxCompositeDataEntityView',
+  'AxLabelFile'
+];
+
+/**
+ * AOT folders whose XML files are read by the code index
+ * Source-less folders are included for the references they carry (EDT, relation and datasource properties)
+ * and for the extension index (metadata extensions), the security index (roles, duties, privileges)
+ * and the navigation index (menu items, menus)
+ */
+export const CODE_INDEX_FOLDERS = [
+  ...SOURCE_CODE_FOLDERS,
+  'AxEdt',
+  'AxTableExtension',
+  'AxFormExtension',
+  'AxEnumExtension',
+  'AxEdtExtension',
+  'AxViewExtension',
+  'AxDataEntityViewExtension',
+  'AxQuerySimpleExtension',
+  'AxSecurityRole',
+  'AxSecurityDuty',
+  'AxSecurityPrivilege',
+  'AxSecurityRoleExtension',
+  'AxSecurityDutyExtension',
+  'AxMenuItemDisplay',
+  'AxMenuItemAction',
+  'AxMenuItemOutput',
+  'AxMenu',
+  'AxMenuExtension'
+];
+
+/**
+ * A single AOT XML file discovered on disk
+ */
+export interface AOTFile {
+  name: string;
+  path: string;
+  model: string;
+  folder: string;
+  lastModified?: number;
+  size?: number;
+  hash?: string;
+}
+
+/**
+ * A declaration or method body extracted from an AOT XML file
+ */
+export interface SourceBlock {
+  method: string;
+  source: string;
+  startLine: number;
+}
+
+/**
+ * Everything the code index stores for one AOT file
+ */
+export interface FileFacts {
+  sourceBlocks: SourceBlock[];
+  references: XppReference[];
+  classDeclaration?: ClassDeclaration | null;
+  extension?: ExtensionFact | null;
+  eventSubscriptions?: EventSubscription[];
+  delegates?: DelegateDeclaration[];
+  security?: SecurityFact | null;
+  menuItem?: MenuItemFact | null;
+  menu?: MenuFact | null;
+  table?: TableFact | null;
+  edt?: EdtFact | null;
+}
+
+/**
+ * Object type the VS2022 service uses for an AOT folder (metadata collection name)
+ * AxClass -> Classes, AxQuery -> Queries, AxDataEntityView -> DataEntityViews
+ */
+export function objectTypeForFolder(folder: string): string {
+  const singular = folder.replace(/^Ax/, '');
+  if (/[^aeiou]y$/i.test(singular)) return singular.slice(0, -1) + 'ies';
+  if (/(s|x|ch|sh)$/i.test(singular)) return singular + 'es';
+  return singular + 's';
+}
+
+/**
+ * Object index row for an AOT file, in the same shape the VS2022 service produces
+ */
+export function toObjectLocation(file: AOTFile): ObjectLocation {
+  const type = objectTypeForFolder(file.folder);
+  return {
+    name: file.name,
+    path: `${file.model}/${type}/${file.name}`,
+    model: file.model,
+    type,
+    lastModified: new Date(file.lastModified || Date.now()).toISOString()
+  };
+}
+
+/**
+ * Name used for the class/table declaration block, matching the AX2012 AOT node name
+ */
+export const DECLARATION_BLOCK_NAME = 'classDeclaration';
+
+/**
+ * Extract all facts the code index cares about from one AOT XML file
+ */
+export function extractFileFacts(file: AOTFile, content: string): FileFacts {
+  if (!CODE_INDEX_FOLDERS.includes(file.folder)) {
+    return { sourceBlocks: [], references: [] };
+  }
+
+  const sourceBlocks = SOURCE_CODE_FOLDERS.includes(file.folder) ? extractSourceBlocks(content) : [];
+
+  const declarationBlock = file.folder === 'AxClass'
+    ? sourceBlocks.find(block => block.method === DECLARATION_BLOCK_NAME)
+    : undefined;
+
+  return {
+    sourceBlocks,
+    references: extractReferences(file.name, content, sourceBlocks),
+    classDeclaration: declarationBlock ? extractClassDeclaration(declarationBlock) : null,
+    extension: extractExtension(file, sourceBlocks),
+    eventSubscriptions: extractEventSubscriptions(sourceBlocks),
+    delegates: extractDelegates(sourceBlocks),
+    security: extractSecurityFact(file, content),
+    menuItem: extractMenuItem(file, content),
+    menu: extractMenu(file, content),
+    table: extractTableFact(file, content),
+    edt: extractEdtFact(file, content)
+  };
+}
+
+/**
+ * Extract the declaration and every method body from AOT XML
+ * Line numbers are 1-based and point into the XML file itself
+ */
+export function extractSourceBlocks(content: string): SourceBlock[] {
+  const { declaration, methods } = readSourceCode(parseXmlDocument(content));
+  return [
+    ...(declaration ? [{ method: DECLARATION_BLOCK_NAME, source: declaration.source, startLine: declaration.startLine }] : []),
+    ...methods.map(method => ({ method: method.name, source: method.source, startLine: method.startLine }))
+  ];
+}
+
+/**
+ * An element of a recursive AOT XML structure (menu elements, query datasources)
+ */
+export interface NestedElement {
+  element: string;
+  // i:type attribute without its namespace prefix, '' when absent
+  type: string;
+  name: string;
+  // Index of the enclosing element, null at the top
+  parent: number | null;
+  // Element body without its child elements
+  own: string;
+}
+
+/**
+ * Elements with the given tag names in document order, with the index of their parent element
+ * Read with a tag stack since these structures nest the same elements inside each other
+ */
+export function readNestedElements(xml: string, elementNames: string[]): NestedElement[] {
+  const nodes: NestedElement[] = [];
+  const stack: Array<{ index: number; tagStart: number; bodyStart: number; children: Array<[number, number]> }> = [];
+  const tagPattern = new RegExp(`<(\\/?)(${elementNames.join('|')})\\b([^>]*?)(\\/?)>`, 'g');
+
+  let match;
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const [tag, closing, element, attributes, selfClosing] = match;
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open) continue;
+      let own = '';
+      let cursor = open.bodyStart;
+      for (const [childStart, childEnd] of open.children) {
+        own += xml.slice(cursor, childStart);
+        cursor = childEnd;
+      }
+      own += xml.slice(cursor, match.index);
+      nodes[open.index].own = own;
+      nodes[open.index].name = own.match(/<Name>\s*([^<]*?)\s*<\/Name>/)?.[1] || '';
+      stack[stack.length - 1]?.children.push([open.tagStart, match.index + tag.length]);
+      continue;
+    }
+
+    const typeMatch = attributes.match(/\btype="(?:\w+:)?(\w+)"/);
+    nodes.push({ element, type: typeMatch ? typeMatch[1] : '', name: '', parent: stack.length > 0 ? stack[stack.length - 1].index : null, own: '' });
+    if (!selfClosing) {
+      stack.push({ index: nodes.length - 1, tagStart: match.index, bodyStart: match.index + tag.length, children: [] });
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Content hash used to detect real changes when only the modification time differs
+ */
+export function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * 1-based line number of a character offset
+ */
+export function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
@@ -0,0 +1,252 @@
+/**
+ * Code Metrics Module
+ *
+ * Size and complexity numbers for the parsed X++ of AOT objects: lines of code, cyclomatic
+ * complexity, nesting depth and parameter count per method, method count per object.
+ * Methods roll up into objects and objects into models; values above the thresholds are
+ * reported as outliers.
+ */
+
+import { AotMethodOwner, parseXmlDocument, readSourceCode } from './aot-xml.js';
+import { tokenizeXpp } from './xpp-lexer.js';
+import { parseXppSource } from './xpp-parser.js';
+import { SourceSpan, XppMethodDeclaration, XppNode, walkXpp } from './xpp-ast.js';
+
+export interface MetricThresholds {
+  // Per method
+  complexity: number;
+  nestingDepth: number;
+  parameters: number;
+  methodLines: number;
+  // Per object
+  methodCount: number;
+}
+
+export const DEFAULT_METRIC_THRESHOLDS: MetricThresholds = {
+  complexity: 10,
+  nestingDepth: 4,
+  parameters: 7,
+  methodLines: 80,
+  methodCount: 50
+};
+
+export interface MethodMetrics {
+  // Form methods are prefixed with their datasource or control
+  name: string;
+  // Line in the AOT XML file
+  line: number;
+  // Lines with code, without blank and comment-only lines
+  linesOfCode: number;
+  complexity: number;
+  nestingDepth: number;
+  parameters: number;
+}
+
+export interface ObjectMetrics {
+  name: string;
+  // AOT folder of the object (AxClass, AxTable, ...)
+  objectType: string;
+  model: string;
+  path: string;
+  methodCount: number;
+  // All source blocks, including the class declaration
+  linesOfCode: number;
+  totalComplexity: number;
+  maxComplexity: number;
+  averageComplexity: number;
+  maxNestingDepth: number;
+  methods: MethodMetrics[];
+}
+
+export interface ModelMetrics {
+  model: string;
+  objectCount: number;
+  methodCount: number;
+  linesOfCode: number;
+  totalComplexity: number;
+  averageComplexity: number;
+  averageMethodLines: number;
+  maxComplexity: { object: string; method: string; value: number } | null;
+  outliers: number;
+}
+
+export interface MetricOutlier {
+  object: string;
+  objectType: string;
+  model: string;
+  // null for object-level metrics
+  method: string | null;
+  line: number | null;
+  metric: keyof MetricThresholds;
+  value: number;
+  threshold: number;
+}
+
+export interface CodeMetricsReport {
+  objects: ObjectMetrics[];
+  models: ModelMetrics[];
+  outliers: MetricOutlier[];
+  thresholds: MetricThresholds;
+}
+
+// Statements that add a level of nesting
+const NESTING_KINDS = new Set(['if', 'while', 'doWhile', 'for', 'whileSelect', 'switch', 'try']);
+
+/**
+ * Metrics of every source block of an AOT object
+ */
+export function measureObject(target: { name: string; folder: string; model: string; path: string; content: string }): ObjectMetrics {
+  const { declaration, methods } = readSourceCode(parseXmlDocument(target.content));
+  const measured: MethodMetrics[] = [];
+  let linesOfCode = declaration ? countCodeLines(declaration.source) : 0;
+
+  for (const block of methods) {
+    linesOfCode += countCodeLines(block.source);
+    const method = parseXppSource(block.source).methods[0];
+    if (!method) continue;
+
+    const metrics = measureMethod(method, block.source);
+    measured.push({
+      name: methodName(block.name, block.owner),
+      line: block.startLine + method.span.line - 1,
+      ...metrics
+    });
+  }
+
+  const totalComplexity = measured.reduce((sum, method) => sum + method.complexity, 0);
+  return {
+    name: target.name,
+    objectType: target.folder,
+    model: target.model,
+    path: target.path,
+    methodCount: measured.length,
+    linesOfCode,
+    totalComplexity,
+    maxComplexity: Math.max(0, ...measured.map(method => method.complexity)),
+    averageComplexity: measured.length > 0 ? round(totalComplexity / measured.length) : 0,
+    maxNestingDepth: Math.max(0, ...measured.map(method => method.nestingDepth)),
+    methods: measured
+  };
+}
+
+/**
+ * Per-model totals and the values above the thresholds
+ */
+export function buildMetricsReport(objects: ObjectMetrics[], thresholds: MetricThresholds = DEFAULT_METRIC_THRESHOLDS): CodeMetricsReport {
+  const outliers = findOutliers(objects, thresholds);
+
+  const byModel = new Map<string, ObjectMetrics[]>();
+  for (const object of objects) {
+    const list = byModel.get(object.model) || [];
+    list.push(object);
+    byModel.set(object.model, list);
+  }
+
+  const models: ModelMetrics[] = Array.from(byModel.entries()).map(([model, list]) => {
+    const methods = list.flatMap(object => object.methods.map(method => ({ object: object.name, method })));
+    const totalComplexity = list.reduce((sum, object) => sum + object.totalComplexity, 0);
+    const top = methods.reduce<typeof methods[number] | null>((max, entry) => !max || entry.method.complexity > max.method.complexity ? entry : max, null);
+    return {
+      model,
+      objectCount: list.length,
+      methodCount: methods.length,
+      linesOfCode: list.reduce((sum, object) => sum + object.linesOfCode, 0),
+      totalComplexity,
+      averageComplexity: methods.length > 0 ? round(totalComplexity / methods.length) : 0,
+      averageMethodLines: methods.length > 0 ? round(methods.reduce((sum, entry) => sum + entry.method.linesOfCode, 0) / methods.length) : 0,
+      maxComplexity: top ? { object: top.object, method: top.method.name, value: top.method.complexity } : null,
+      outliers: outliers.filter(outlier => outlier.model === model).length
+    };
+  }).sort((a, b) => a.model.localeCompare(b.model));
+
+  return { objects, models, outliers, thresholds };
+}
+
+function findOutliers(objects: ObjectMetrics[], thresholds: MetricThresholds): MetricOutlier[] {
+  const outliers: MetricOutlier[] = [];
+  const methodMetrics: Array<[keyof MetricThresholds, keyof MethodMetrics]> = [
+    ['complexity', 'complexity'],
+    ['nestingDepth', 'nestingDepth'],
+    ['parameters', 'parameters'],
+    ['methodLines', 'linesOfCode']
+  ];
+
+  for (const object of objects) {
+    const base = { object: object.name, objectType: object.objectType, model: object.model };
+    if (object.methodCount > thresholds.methodCount) {
+      outliers.push({ ...base, method: null, line: null, metric: 'methodCount', value: object.methodCount, threshold: thresholds.methodCount });
+    }
+    for (const method of object.methods) {
+      for (const [metric, field] of methodMetrics) {
+        const value = method[field] as number;
+        if (value > thresholds[metric]) {
+          outliers.push({ ...base, method: method.name, line: method.line, metric, value, threshold: thresholds[metric] });
+        }
+      }
+    }
+  }
+
+  // Furthest above the threshold first
+  return outliers.sort((a, b) => b.value / b.threshold - a.value / a.threshold);
+}
+
+/**
+ * Cyclomatic complexity: 1 + one per branch (if, loops, case labels, catch, ?:, && and ||)
+ * Nesting depth: deepest chain of control statements; else if does not count as a level
+ */
+function measureMethod(method: XppMethodDeclaration, source: string): Omit<MethodMetrics, 'name' | 'line'> {
+  let complexity = 1;
+  let nestingDepth = 0;
+  const depths = new Map<XppNode, number>();
+
+  walkXpp(method, (node, parent) => {
+    const isElseIf = node.kind === 'if' && parent?.kind === 'if' && parent.else === node;
+    const depth = (parent ? depths.get(parent) || 0 : 0) + (NESTING_KINDS.has(node.kind) && !isElseIf ? 1 : 0);
+    depths.set(node, depth);
+    nestingDepth = Math.max(nestingDepth, depth);
+
+    switch (node.kind) {
+      case 'if':
+      case 'while':
+      case 'doWhile':
+      case 'for':
+      case 'whileSelect':
+      case 'catch':
+      case 'conditional':
+        complexity++;
+        break;
+      case 'case':
+        complexity += node.labels.length;
+        break;
+      case 'binary':
+        if (node.operator === '&&' || node.operator === '||') complexity++;
+        break;
+    }
+  });
+
+  return {
+    linesOfCode: countCodeLines(source, method.span),
+    complexity,
+    nestingDepth,
+    parameters: method.parameters.length
+  };
+}
+
+// Lines holding at least one token; blank and comment-only lines do not count
+function countCodeLines(source: string, span?: SourceSpan): number {
+  const lines = new Set<number>();
+  for (const token of tokenizeXpp(source).tokens) {
+    if (token.kind === 'eof') continue;
+    if (span && (token.start < span.start || token.end > span.end)) continue;
+    lines.add(token.line);
+  }
+  return lines.size;
+}
+
+function methodName(name: string, owner: AotMethodOwner | null): string {
+  return owner ? `${owner.name}.${name}` : name;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -22,6 +22,10 @@ export const PACKAGE_PRIORITY = [
   "Test" // Test packages (lowest priority)
 ];
 
+// Model layers and descriptor publishers that identify customer, partner and ISV models
+export const CUSTOM_LAYERS = ['usr', 'cus', 'var', 'isv'];
+export const MICROSOFT_PUBLISHERS = ['Microsoft Corporation', 'Microsoft', 'Microsoft Dynamics'];
+
 // Enhanced X++ file extensions with priority
 export const XPP_PRIORITY_EXTENSIONS = {
   high: [".xpp", ".xml"],        // Most important for code analysis
@@ -0,0 +1,200 @@
+/**
+ * Data Entity Module
+ *
+ * Reads AxDataEntityView metadata: the public OData names, data management (DMF) settings,
+ * the datasource query, keys and every entity field resolved to the table field it maps to.
+ * Fields added by AxDataEntityViewExtension files are merged in.
+ */
+
+import { readNestedElements } from "./code-index.js";
+
+/**
+ * How an entity field gets its value
+ * mapped: datasource field; unresolved: mapped to a datasource or field that is missing;
+ * computed: SQL computed column (ComputedFieldMethod); virtual: filled in X++ at runtime
+ */
+export type EntityFieldMapping = 'mapped' | 'unresolved' | 'computed' | 'virtual';
+
+export interface DataEntityDataSource {
+  name: string;
+  table: string | null;
+  // Enclosing datasource, null for the root datasource
+  parent: string | null;
+  joinMode: string | null;
+  // Entity or extension declaring the datasource
+  source: string;
+}
+
+export interface DataEntityField {
+  name: string;
+  mapping: EntityFieldMapping;
+  dataSource: string | null;
+  table: string | null;
+  dataField: string | null;
+  computedMethod: string | null;
+  mandatory: boolean;
+  readOnly: boolean;
+  // Entity or extension declaring the field
+  source: string;
+}
+
+export interface DataEntityKey {
+  name: string;
+  fields: string[];
+}
+
+export interface DataEntityDefinition {
+  name: string;
+  label: string | null;
+  publicEntityName: string | null;
+  publicCollectionName: string | null;
+  stagingTable: string | null;
+  isPublic: boolean;
+  dataManagementEnabled: boolean;
+  isReadOnly: boolean;
+  entityCategory: string | null;
+  primaryKey: string | null;
+  dataSources: DataEntityDataSource[];
+  fields: DataEntityField[];
+  keys: DataEntityKey[];
+  extensions: string[];
+}
+
+const DATASOURCE_ELEMENTS = ['AxQuerySimpleRootDataSource', 'AxQuerySimpleEmbeddedDataSource', 'AxQuerySimpleDataSourceExtension'];
+
+// Fields the kernel adds to every table (lower case)
+const SYSTEM_FIELDS = ['recid', 'recversion', 'partition', 'dataareaid', 'tableid', 'createddatetime', 'createdby', 'modifieddatetime', 'modifiedby'];
+
+/**
+ * Parse the XML of an AxDataEntityView
+ */
+export function parseDataEntity(name: string, content: string): DataEntityDefinition {
+  const xml = blankSourceCode(content);
+  // Entity level properties live outside the element collections
+  const header = xml.replace(/<(Fields|Keys|Mappings|Ranges|Relations|StateMachines|ViewMetadata|FieldGroups|DeleteActions)>[\s\S]*?<\/\1>/g, '');
+
+  const entity: DataEntityDefinition = {
+    name,
+    label: readElement(header, 'Label'),
+    publicEntityName: readElement(header, 'PublicEntityName'),
+    publicCollectionName: readElement(header, 'PublicCollectionName'),
+    stagingTable: readElement(header, 'DataManagementStagingTable'),
+    isPublic: readElement(header, 'IsPublic') === 'Yes',
+    dataManagementEnabled: readElement(header, 'DataManagementEnabled') === 'Yes',
+    isReadOnly: readElement(header, 'IsReadOnly') === 'Yes',
+    entityCategory: readElement(header, 'EntityCategory'),
+    primaryKey: readElement(header, 'PrimaryKey'),
+    dataSources: [],
+    fields: [],
+    keys: readKeys(xml),
+    extensions: []
+  };
+
+  addMembers(entity, name, xml);
+  return entity;
+}
+
+/**
+ * Merge the fields and datasources an AxDataEntityViewExtension adds
+ */
+export function mergeDataEntityExtension(entity: DataEntityDefinition, extensionName: string, content: string): DataEntityDefinition {
+  entity.extensions.push(extensionName);
+  addMembers(entity, extensionName, blankSourceCode(content));
+  return entity;
+}
+
+/**
+ * Datasources and fields of an entity or extension; fields are resolved against every datasource known so far
+ */
+function addMembers(entity: DataEntityDefinition, source: string, xml: string): void {
+  const nodes = readNestedElements(xml, DATASOURCE_ELEMENTS);
+  for (const node of nodes) {
+    if (!node.name) continue;
+    entity.dataSources.push({
+      name: node.name,
+      table: readElement(node.own, 'Table'),
+      parent: node.parent !== null ? nodes[node.parent].name || null : readElement(node.own, 'Parent'),
+      joinMode: readElement(node.own, 'JoinMode'),
+      source
+    });
+  }
+
+  const tables = new Map(entity.dataSources.map(ds => [ds.name.toLowerCase(), ds.table]));
+  // Field groups and datasources have <Fields> of their own, so the field elements are matched directly
+  const fieldPattern = /<AxDataEntityViewField\b([^>]*)>([\s\S]*?)<\/AxDataEntityViewField>/g;
+
+  for (const match of xml.matchAll(fieldPattern)) {
+    const type = match[1].match(/\btype="(?:\w+:)?(\w+)"/)?.[1] || 'AxDataEntityViewMappedField';
+    const body = match[2];
+    const fieldName = readElement(body, 'Name');
+    if (!fieldName) continue;
+
+    const dataSource = readElement(body, 'DataSource');
+    const dataField = readElement(body, 'DataField');
+    const computedMethod = readElement(body, 'ComputedFieldMethod');
+    let mapping: EntityFieldMapping;
+    if (type.startsWith('AxDataEntityViewUnmappedField')) {
+      // IsComputedField defaults to Yes; virtual fields set it to No
+      mapping = readElement(body, 'IsComputedField') === 'No' ? 'virtual' : 'computed';
+    } else {
+      mapping = dataSource && dataField && tables.has(dataSource.toLowerCase()) ? 'mapped' : 'unresolved';
+    }
+
+    entity.fields.push({
+      name: fieldName,
+      mapping,
+      dataSource: mapping === 'computed' || mapping === 'virtual' ? null : dataSource,
+      table: dataSource ? tables.get(dataSource.toLowerCase()) || null : null,
+      dataField: mapping === 'computed' || mapping === 'virtual' ? null : dataField,
+      computedMethod: mapping === 'computed' ? computedMethod : null,
+      mandatory: readElement(body, 'Mandatory') === 'Yes',
+      readOnly: readElement(body, 'AllowEdit') === 'No' || mapping === 'computed',
+      source
+    });
+  }
+}
+
+/**
+ * Field names declared by an AxTable or AxTableExtension
+ */
+export function parseTableFieldNames(content: string): string[] {
+  return Array.from(blankSourceCode(content).matchAll(/<AxTableField\b[^>]*>\s*<Name>\s*([^<]+?)\s*<\/Name>/g), match => match[1]);
+}
+
+/**
+ * Flag mapped fields whose table field does not exist
+ * Only tables with known fields are checked; system fields exist on every table
+ */
+export function verifyFieldMappings(entity: DataEntityDefinition, tableFields: Map<string, Set<string>>): DataEntityDefinition {
+  for (const field of entity.fields) {
+    if (field.mapping !== 'mapped' || !field.table || !field.dataField) continue;
+    const known = tableFields.get(field.table.toLowerCase());
+    const dataField = field.dataField.toLowerCase();
+    if (known && !known.has(dataField) && !SYSTEM_FIELDS.includes(dataField)) {
+      field.mapping = 'unresolved';
+    }
+  }
+  return entity;
+}
+
+function readKeys(xml: string): DataEntityKey[] {
+  const keysSection = xml.match(/<Keys>([\s\S]*?)<\/Keys>/);
+  const keys: DataEntityKey[] = [];
+  for (const match of (keysSection?.[1] || '').matchAll(/<AxDataEntityViewKey>([\s\S]*?)<\/AxDataEntityViewKey>/g)) {
+    const name = readElement(match[1].replace(/<Fields>[\s\S]*?<\/Fields>/, ''), 'Name');
+    if (!name) continue;
+    const fields = Array.from(match[1].matchAll(/<DataField>\s*([^<]+?)\s*<\/DataField>/g), field => field[1]);
+    keys.push({ name, fields });
+  }
+  return keys;
+}
+
+// Blank out X++ source so method bodies can't be mistaken for metadata
+function blankSourceCode(content: string): string {
+  return content.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+}
+
+function readElement(xml: string, element: string): string | null {
+  const match = xml.match(new RegExp(`<${element}>\\s*([^<]*?)\\s*</${element}>`));
+  return match && match[1] ? match[1] : null;
+}
@@ -0,0 +1,180 @@
+/**
+ * EDT Resolution Module
+ *
+ * Reads the properties of extended data types along their Extends chain, applies the property
+ * modifications of AxEdtExtension files and works out the effective value of every property
+ * together with the EDT (or table field) that set it.
+ */
+
+// Elements of an EDT that describe the chain itself rather than a property
+const STRUCTURAL_ELEMENTS = ['Name', 'Extends', 'ExtendedDataType'];
+
+// Guards against cycles and runaway Extends chains
+export const MAX_EDT_CHAIN_DEPTH = 20;
+
+/**
+ * Properties one level of the chain sets
+ * kind 'field' is the table field a resolution started from; extensions apply to EDT levels only
+ */
+export interface EdtLevel {
+  kind: 'field' | 'edt';
+  name: string;
+  model: string;
+  path: string;
+  // Primitive type from the i:type of the element (String, Int64, Enum, ...)
+  baseType: string | null;
+  extendsName: string | null;
+  properties: Record<string, string>;
+  extensions: Array<{ name: string; model: string; properties: Record<string, string> }>;
+}
+
+export interface EffectiveEdtProperty {
+  name: string;
+  value: string;
+  setBy: string;
+  model: string;
+  // Extension whose property modification set the value
+  extension: string | null;
+  // Values of less specific levels the effective value hides
+  overridden: Array<{ setBy: string; value: string; extension: string | null }>;
+}
+
+export interface ResolvedEdt {
+  name: string;
+  levels: Array<Omit<EdtLevel, 'properties' | 'extensions'> & { extensions: string[] }>;
+  baseType: { value: string; setBy: string } | null;
+  properties: EffectiveEdtProperty[];
+  // EDT named in Extends that is not in the index
+  missingParent: string | null;
+  cycle: boolean;
+}
+
+/**
+ * Primitive type, parent EDT and properties of an AxEdt file
+ */
+export function parseEdt(content: string): Pick<EdtLevel, 'baseType' | 'extendsName' | 'properties'> {
+  const xml = blankSourceCode(content);
+  const rootType = xml.match(/<AxEdt\b[^>]*\btype="(?:\w+:)?AxEdt(\w+)"/)?.[1] || null;
+  const properties = readTopLevelProperties(xml);
+
+  const reference = Array.from(xml.matchAll(/<AxEdtTableReference\b([^>]*)>([\s\S]*?)<\/AxEdtTableReference>/g))
+    .find(match => !/Filter/.test(match[1]) && readElement(match[2], 'RelatedField'));
+  if (reference) {
+    properties.RelatedField = readElement(reference[2], 'RelatedField')!;
+  }
+
+  return { baseType: rootType, extendsName: readElement(xml, 'Extends'), properties: withoutStructural(properties) };
+}
+
+/**
+ * Primitive type, EDT and properties of one field of an AxTable, or null when the table has no such field
+ */
+export function parseTableField(content: string, fieldName: string): Pick<EdtLevel, 'baseType' | 'extendsName' | 'properties'> | null {
+  const xml = blankSourceCode(content);
+  for (const match of xml.matchAll(/<AxTableField\b([^>]*)>([\s\S]*?)<\/AxTableField>/g)) {
+    if (readElement(match[2], 'Name')?.toLowerCase() !== fieldName.toLowerCase()) continue;
+    return {
+      baseType: match[1].match(/\btype="(?:\w+:)?AxTableField(\w+)"/)?.[1] || null,
+      extendsName: readElement(match[2], 'ExtendedDataType'),
+      properties: withoutStructural(readTopLevelProperties(`<AxTableField>${match[2]}</AxTableField>`))
+    };
+  }
+  return null;
+}
+
+/**
+ * Property values an extension file sets through <PropertyModifications>
+ */
+export function parsePropertyModifications(content: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const match of blankSourceCode(content).matchAll(/<AxPropertyModification>([\s\S]*?)<\/AxPropertyModification>/g)) {
+    const name = readElement(match[1], 'Name');
+    const value = readElement(match[1], 'Value');
+    if (name && value !== null) properties[name] = value;
+  }
+  return properties;
+}
+
+/**
+ * Effective properties of a chain of levels, most specific level first
+ * Within a level, extension modifications win over the level's own value.
+ */
+export function resolveEdtLevels(name: string, levels: EdtLevel[], options: { missingParent?: string | null; cycle?: boolean } = {}): ResolvedEdt {
+  const effective = new Map<string, EffectiveEdtProperty>();
+
+  for (const level of levels) {
+    const sources = [
+      ...[...level.extensions].reverse().map(extension => ({ properties: extension.properties, model: extension.model, extension: extension.name })),
+      { properties: level.properties, model: level.model, extension: null as string | null }
+    ];
+    for (const source of sources) {
+      for (const [property, value] of Object.entries(source.properties)) {
+        const current = effective.get(property);
+        if (current) {
+          current.overridden.push({ setBy: level.name, value, extension: source.extension });
+        } else {
+          effective.set(property, { name: property, value, setBy: level.name, model: source.model, extension: source.extension, overridden: [] });
+        }
+      }
+    }
+  }
+
+  // Every level of a chain shares the primitive type; the root EDT defines it
+  const typed = [...levels].reverse().find(level => level.baseType);
+  return {
+    name,
+    levels: levels.map(({ properties, extensions, ...level }) => ({ ...level, extensions: extensions.map(extension => extension.name) })),
+    baseType: typed ? { value: typed.baseType!, setBy: typed.name } : null,
+    properties: Array.from(effective.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    missingParent: options.missingParent ?? null,
+    cycle: options.cycle ?? false
+  };
+}
+
+/**
+ * Leaf elements directly below the root element
+ */
+function readTopLevelProperties(xml: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  let depth = 0;
+  let current: { name: string; start: number; hasChildren: boolean } | null = null;
+
+  for (const match of xml.matchAll(/<(\/?)([\w:]+)[^>]*?(\/?)>/g)) {
+    const [tag, closing, element, selfClosing] = match;
+    if (selfClosing) {
+      if (current && depth > 1) current.hasChildren = true;
+      continue;
+    }
+    if (!closing) {
+      depth++;
+      if (depth === 2) {
+        current = { name: element, start: match.index! + tag.length, hasChildren: false };
+      } else if (current) {
+        current.hasChildren = true;
+      }
+      continue;
+    }
+    if (depth === 2 && current && !current.hasChildren) {
+      const value = xml.slice(current.start, match.index).trim();
+      if (value) properties[current.name] = value;
+    }
+    if (depth === 2) current = null;
+    depth--;
+  }
+
+  return properties;
+}
+
+function withoutStructural(properties: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(properties).filter(([name]) => !STRUCTURAL_ELEMENTS.includes(name)));
+}
+
+// Blank out X++ source so method bodies can't be mistaken for metadata
+function blankSourceCode(content: string): string {
+  return content.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+}
+
+function readElement(xml: string, element: string): string | null {
+  const match = xml.match(new RegExp(`<${element}>\\s*([^<]*?)\\s*</${element}>`));
+  return match && match[1] ? match[1] : null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Effective Enum Module
+ *
+ * Merges the values of an AxEnum with the values every AxEnumExtension adds, keeping the model
+ * contributing each value, and reports conflicts: value names added twice, integer values used
+ * twice, and extensions of enums that are not extensible.
+ */
+
+export interface EnumValueDefinition {
+  name: string;
+  // Integer value; null for extension values, which get theirs when the database is synchronized
+  value: number | null;
+  label: string | null;
+}
+
+export interface EffectiveEnumValue extends EnumValueDefinition {
+  model: string;
+  // Enum or enum extension declaring the value
+  source: string;
+  isExtension: boolean;
+}
+
+export type EnumConflictKind = 'duplicateName' | 'duplicateValue' | 'notExtensible';
+
+export interface EnumConflict {
+  kind: EnumConflictKind;
+  message: string;
+  // Sources involved in the conflict
+  sources: string[];
+}
+
+export interface EffectiveEnum {
+  name: string;
+  label: string | null;
+  isExtensible: boolean;
+  model: string;
+  path: string;
+  values: EffectiveEnumValue[];
+  extensions: Array<{ name: string; model: string; path: string }>;
+  conflicts: EnumConflict[];
+}
+
+/**
+ * Label, extensibility and values of an AxEnum or AxEnumExtension file
+ * Base enum values without <Value> have the default 0; extension values have no integer value
+ */
+export function parseEnum(content: string, isExtension: boolean = false): { label: string | null; isExtensible: boolean; values: EnumValueDefinition[] } {
+  const xml = blankSourceCode(content);
+  const values = Array.from(xml.matchAll(/<AxEnumValue\b[^>]*>([\s\S]*?)<\/AxEnumValue>/g), match => {
+    const value = readElement(match[1], 'Value');
+    return {
+      name: readElement(match[1], 'Name') || '',
+      value: value !== null ? Number(value) : isExtension ? null : 0,
+      label: readElement(match[1], 'Label')
+    };
+  }).filter(value => value.name);
+
+  const header = xml.replace(/<EnumValues>[\s\S]*?<\/EnumValues>/g, '');
+  return {
+    label: readElement(header, 'Label'),
+    isExtensible: /^(true|yes)$/i.test(readElement(header, 'IsExtensible') || ''),
+    values
+  };
+}
+
+/**
+ * Base values followed by the values of each extension, with the conflicts between them
+ */
+export function mergeEnumExtensions(
+  base: { name: string; model: string; path: string; content: string },
+  extensions: Array<{ name: string; model: string; path: string; content: string }>
+): EffectiveEnum {
+  const parsed = parseEnum(base.content);
+  const effective: EffectiveEnum = {
+    name: base.name,
+    label: parsed.label,
+    isExtensible: parsed.isExtensible,
+    model: base.model,
+    path: base.path,
+    values: parsed.values.map(value => ({ ...value, model: base.model, source: base.name, isExtension: false })),
+    extensions: extensions.map(({ name, model, path }) => ({ name, model, path })),
+    conflicts: []
+  };
+
+  for (const extension of extensions) {
+    const values = parseEnum(extension.content, true).values;
+    if (!effective.isExtensible && values.length > 0) {
+      effective.conflicts.push({
+        kind: 'notExtensible',
+        message: `${extension.name} adds values to ${base.name}, which is not extensible (IsExtensible is not set)`,
+        sources: [extension.name]
+      });
+    }
+    effective.values.push(...values.map(value => ({ ...value, model: extension.model, source: extension.name, isExtension: true })));
+  }
+
+  const byName = new Map<string, EffectiveEnumValue[]>();
+  const byValue = new Map<number, EffectiveEnumValue[]>();
+  for (const value of effective.values) {
+    byName.set(value.name.toLowerCase(), [...(byName.get(value.name.toLowerCase()) || []), value]);
+    if (value.value !== null) byValue.set(value.value, [...(byValue.get(value.value) || []), value]);
+  }
+  for (const same of byName.values()) {
+    if (same.length < 2) continue;
+    effective.conflicts.push({
+      kind: 'duplicateName',
+      message: `Value ${same[0].name} is declared by ${same.map(value => `${value.source} [${value.model}]`).join(', ')}`,
+      sources: same.map(value => value.source)
+    });
+  }
+  for (const [value, same] of byValue) {
+    if (same.length < 2) continue;
+    effective.conflicts.push({
+      kind: 'duplicateValue',
+      message: `Integer value ${value} is used by ${same.map(entry => `${entry.name} (${entry.source})`).join(', ')}`,
+      sources: same.map(entry => entry.source)
+    });
+  }
+
+  return effective;
+}
+
+// Blank out X++ source so method bodies can't be mistaken for metadata
+function blankSourceCode(content: string): string {
+  return content.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+}
+
+function readElement(xml: string, element: string): string | null {
+  const match = xml.match(new RegExp(`<${element}>\\s*([^<]*?)\\s*</${element}>`));
+  return match && match[1] ? match[1] : null;
+}
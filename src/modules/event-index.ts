@@ -0,0 +1,184 @@
+/**
+ * Event Index Module
+ *
+ * Finds event subscriptions in X++ methods ([SubscribesTo], [DataEventHandler],
+ * [FormEventHandler], [Form*EventHandler], [PreHandlerFor], [PostHandlerFor])
+ * and delegate declarations, so subscribers can be listed per table, form or delegate.
+ */
+
+import { maskCommentsAndStrings } from "./reference-extractor.js";
+import { DECLARATION_BLOCK_NAME, lineNumberAt, objectTypeForFolder } from "./code-index.js";
+import type { SourceBlock } from "./code-index.js";
+
+export const EVENT_HANDLER_ATTRIBUTES = [
+  'SubscribesTo',
+  'DataEventHandler',
+  'FormEventHandler',
+  'FormDataSourceEventHandler',
+  'FormControlEventHandler',
+  'FormDataFieldEventHandler',
+  'PreHandlerFor',
+  'PostHandlerFor'
+];
+
+// Intrinsic functions naming the publisher and the folder of the object they name
+const PUBLISHER_INTRINSICS: Record<string, string> = {
+  classstr: 'AxClass',
+  tablestr: 'AxTable',
+  formstr: 'AxForm',
+  formdatasourcestr: 'AxForm',
+  formcontrolstr: 'AxForm',
+  formdatafieldstr: 'AxForm',
+  viewstr: 'AxView',
+  mapstr: 'AxMap',
+  querystr: 'AxQuery',
+  dataentityviewstr: 'AxDataEntityView'
+};
+
+/**
+ * One handler method subscribing to an event
+ * eventType is the event enum value (Inserted, Initialized, Clicked, ...), 'Delegate', 'Pre' or 'Post';
+ * targetMember is the delegate, method, datasource, control or datasource field the handler is attached to
+ */
+export interface EventSubscription {
+  method: string;
+  attribute: string;
+  targetName: string;
+  targetType: string;
+  targetMember: string | null;
+  eventType: string;
+  line: number;
+}
+
+export interface DelegateDeclaration {
+  name: string;
+  line: number;
+}
+
+/**
+ * Event handler attributes of every method in the given source blocks
+ */
+export function extractEventSubscriptions(sourceBlocks: SourceBlock[]): EventSubscription[] {
+  const subscriptions: EventSubscription[] = [];
+  // X++ is case-insensitive, so [subscribesTo(...)] subscribes just like [SubscribesTo(...)]
+  const attributePattern = new RegExp(`\\b(${EVENT_HANDLER_ATTRIBUTES.join('|')})\\s*\\(`, 'gi');
+
+  for (const block of sourceBlocks) {
+    if (block.method === DECLARATION_BLOCK_NAME) continue;
+
+    const code = maskCommentsAndStrings(block.source);
+    // Attributes precede the method header
+    const bodyStart = code.indexOf('{');
+    const header = bodyStart === -1 ? code : code.slice(0, bodyStart);
+
+    let match;
+    while ((match = attributePattern.exec(header)) !== null) {
+      const args = splitArguments(readParenthesized(header, match.index + match[0].length - 1));
+      const subscription = toSubscription(canonicalAttribute(match[1]), args);
+      if (subscription) {
+        subscriptions.push({ ...subscription, method: block.method, line: block.startLine + lineNumberAt(code, match.index) - 1 });
+      }
+    }
+  }
+
+  return subscriptions;
+}
+
+/**
+ * Delegate declarations (delegate void onPosted(...) {}) in the given source blocks
+ */
+export function extractDelegates(sourceBlocks: SourceBlock[]): DelegateDeclaration[] {
+  const delegates: DelegateDeclaration[] = [];
+
+  for (const block of sourceBlocks) {
+    if (block.method === DECLARATION_BLOCK_NAME) continue;
+
+    const code = maskCommentsAndStrings(block.source);
+    const match = code.match(/\bdelegate\s+\w+\s+(\w+)\s*\(/i);
+    if (match) {
+      delegates.push({ name: match[1], line: block.startLine + lineNumberAt(code, match.index || 0) - 1 });
+    }
+  }
+
+  return delegates;
+}
+
+/**
+ * Attribute name as listed in EVENT_HANDLER_ATTRIBUTES, whatever casing the source used
+ */
+function canonicalAttribute(name: string): string {
+  return EVENT_HANDLER_ATTRIBUTES.find(attribute => attribute.toLowerCase() === name.toLowerCase()) || name;
+}
+
+function toSubscription(attribute: string, args: string[]): Omit<EventSubscription, 'method' | 'line'> | null {
+  const publisher = parseIntrinsic(args[0]);
+  if (!publisher) return null;
+
+  const targetType = PUBLISHER_INTRINSICS[publisher.name.toLowerCase()];
+  if (!targetType || publisher.args.length === 0) return null;
+
+  const [targetName, ...publisherMembers] = publisher.args;
+  const base = { attribute, targetName, targetType: objectTypeForFolder(targetType) };
+
+  switch (attribute) {
+    case 'SubscribesTo': {
+      // [SubscribesTo(classStr(SalesFormLetter), delegateStr(SalesFormLetter, postRun))]
+      const delegate = parseIntrinsic(args[1]);
+      return { ...base, targetMember: delegate?.args[delegate.args.length - 1] || null, eventType: 'Delegate' };
+    }
+    case 'PreHandlerFor':
+    case 'PostHandlerFor': {
+      // [PostHandlerFor(tableStr(CustTable), tableMethodStr(CustTable, insert))]
+      const method = parseIntrinsic(args[1]);
+      return { ...base, targetMember: method?.args[method.args.length - 1] || null, eventType: attribute === 'PreHandlerFor' ? 'Pre' : 'Post' };
+    }
+    default: {
+      // [DataEventHandler(tableStr(CustTable), DataEventType::Inserted)], [FormDataSourceEventHandler(formDataSourceStr(F, DS), ...)]
+      const eventMatch = (args[1] || '').match(/::\s*(\w+)/);
+      return {
+        ...base,
+        targetMember: publisherMembers.length > 0 ? publisherMembers.join('.') : null,
+        eventType: eventMatch ? eventMatch[1] : (args[1] || '').trim() || 'Unknown'
+      };
+    }
+  }
+}
+
+function parseIntrinsic(text: string | undefined): { name: string; args: string[] } | null {
+  const match = (text || '').match(/^\s*(\w+)\s*\(([\s\S]*)\)\s*$/);
+  if (!match) return null;
+  return { name: match[1], args: splitArguments(match[2]).map(arg => arg.trim()).filter(Boolean) };
+}
+
+/**
+ * Text between the parenthesis at openIndex and its matching closing parenthesis
+ */
+function readParenthesized(code: string, openIndex: number): string {
+  let depth = 0;
+  for (let i = openIndex; i < code.length; i++) {
+    if (code[i] === '(') depth++;
+    else if (code[i] === ')' && --depth === 0) return code.slice(openIndex + 1, i);
+  }
+  return code.slice(openIndex + 1);
+}
+
+/**
+ * Split an argument list on top-level commas
+ */
+function splitArguments(argumentList: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of argumentList) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      args.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) args.push(current);
+  return args;
+}
@@ -0,0 +1,118 @@
+/**
+ * Extension Index Module
+ *
+ * Links extension objects to the object they extend: metadata extensions
+ * (AxTableExtension "SalesTable.MyModel", AxFormExtension, AxEnumExtension, ...)
+ * and Chain-of-Command classes marked with [ExtensionOf(...)], including the
+ * methods each CoC class wraps with `next`.
+ */
+
+import { maskCommentsAndStrings } from "./reference-extractor.js";
+import { objectTypeForFolder, DECLARATION_BLOCK_NAME } from "./code-index.js";
+import type { AOTFile, SourceBlock } from "./code-index.js";
+
+/**
+ * Metadata extension folders and the folder of the object they extend
+ */
+export const EXTENSION_FOLDERS: Record<string, string> = {
+  AxTableExtension: 'AxTable',
+  AxFormExtension: 'AxForm',
+  AxEnumExtension: 'AxEnum',
+  AxEdtExtension: 'AxEdt',
+  AxViewExtension: 'AxView',
+  AxDataEntityViewExtension: 'AxDataEntityView'
+};
+
+// Intrinsic functions accepted by [ExtensionOf(...)] and the folder of the object they name
+const EXTENSION_OF_INTRINSICS: Record<string, string> = {
+  classstr: 'AxClass',
+  tablestr: 'AxTable',
+  formstr: 'AxForm',
+  formdatasourcestr: 'AxForm',
+  formcontrolstr: 'AxForm',
+  formdatafieldstr: 'AxForm',
+  viewstr: 'AxView',
+  mapstr: 'AxMap',
+  dataentityviewstr: 'AxDataEntityView',
+  dataentitydatasourcestr: 'AxDataEntityView'
+};
+
+export type ExtensionKind = 'metadata' | 'coc';
+
+/**
+ * A method declared in a Chain-of-Command class
+ * Wrappers call `next` with their own name; all other methods are new members added by the extension
+ */
+export interface ExtensionMethod {
+  name: string;
+  wrapsNext: boolean;
+  isStatic: boolean;
+  line: number;
+}
+
+export interface ExtensionFact {
+  kind: ExtensionKind;
+  baseName: string;
+  baseType: string;
+  // Form datasource, control or data field targeted by form*Str CoC classes (e.g. "SalesTable.CustAccount")
+  baseMember: string | null;
+  methods: ExtensionMethod[];
+}
+
+/**
+ * Extension facts of one AOT file, or null when the file does not extend anything
+ */
+export function extractExtension(file: AOTFile, sourceBlocks: SourceBlock[]): ExtensionFact | null {
+  const baseFolder = EXTENSION_FOLDERS[file.folder];
+  if (baseFolder) {
+    // Metadata extensions are named <BaseObject>.<Suffix>
+    const baseName = file.name.split('.')[0];
+    return { kind: 'metadata', baseName, baseType: objectTypeForFolder(baseFolder), baseMember: null, methods: [] };
+  }
+
+  if (file.folder !== 'AxClass') return null;
+
+  const declaration = sourceBlocks.find(block => block.method === DECLARATION_BLOCK_NAME);
+  const target = declaration ? parseExtensionOf(declaration.source) : null;
+  if (!target) return null;
+
+  return {
+    ...target,
+    kind: 'coc',
+    methods: sourceBlocks
+      .filter(block => block.method !== DECLARATION_BLOCK_NAME)
+      .map(block => describeExtensionMethod(block))
+  };
+}
+
+/**
+ * Target of an [ExtensionOf(tableStr(SalesTable))] attribute
+ */
+export function parseExtensionOf(declarationSource: string): { baseName: string; baseType: string; baseMember: string | null } | null {
+  const code = maskCommentsAndStrings(declarationSource);
+  const match = code.match(/\[\s*ExtensionOf\s*\(\s*(\w+)\s*\(\s*([\w\s,]+?)\s*\)\s*\)/i);
+  if (!match) return null;
+
+  const baseFolder = EXTENSION_OF_INTRINSICS[match[1].toLowerCase()];
+  if (!baseFolder) return null;
+
+  const [baseName, ...members] = match[2].split(',').map(part => part.trim()).filter(Boolean);
+  return {
+    baseName,
+    baseType: objectTypeForFolder(baseFolder),
+    baseMember: members.length > 0 ? members.join('.') : null
+  };
+}
+
+function describeExtensionMethod(block: SourceBlock): ExtensionMethod {
+  const code = maskCommentsAndStrings(block.source);
+  const escapedName = block.method.replace(/\W/g, '');
+  const header = code.slice(0, code.search(new RegExp(`\\b${escapedName}\\s*\\(`)) + 1);
+
+  return {
+    name: block.method,
+    wrapsNext: new RegExp(`\\bnext\\s+${escapedName}\\s*\\(`).test(code),
+    isStatic: /\bstatic\b/.test(header),
+    line: block.startLine
+  };
+}
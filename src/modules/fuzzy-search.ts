@@ -0,0 +1,175 @@
+/**
+ * Fuzzy Search Module
+ *
+ * Scores object names against loosely typed queries: camel-hump abbreviations
+ * ("CustInvJour", "SFL"), substrings, trigram similarity and small typos.
+ * Candidates are fetched from SQLite; this module only does the scoring.
+ */
+
+export type FuzzyMatchType = 'exact' | 'prefix' | 'camelHump' | 'substring' | 'trigram' | 'typo';
+
+export interface FuzzyScore {
+  score: number;
+  matchType: FuzzyMatchType;
+}
+
+// Results below this similarity are dropped unless the caller asks otherwise
+export const DEFAULT_MIN_FUZZY_SCORE = 0.35;
+
+/**
+ * Split an identifier into camel humps: SysDAOTable -> [Sys, DAO, Table]
+ */
+export function splitHumps(name: string): string[] {
+  return name
+    .split(/_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+    .filter(part => part.length > 0);
+}
+
+/**
+ * Split a query into hump prefixes: every uppercase letter starts a new part
+ * CustInvJour -> [Cust, Inv, Jour], SFL -> [S, F, L], sfl -> [s, f, l] (short lowercase abbreviations)
+ */
+export function splitQueryHumps(query: string): string[] {
+  const trimmed = query.trim();
+  if (/^[a-z]{2,5}$/.test(trimmed)) {
+    return trimmed.split('');
+  }
+  return trimmed.split(/_+|(?=[A-Z])/).filter(part => part.length > 0);
+}
+
+/**
+ * GLOB pattern matching the hump prefixes in order (SFL -> S*F*L*), used to fetch candidates
+ */
+export function toHumpGlob(query: string): string | null {
+  const parts = splitQueryHumps(query);
+  if (parts.length < 2) return null;
+
+  return parts
+    .map(part => (part[0].toUpperCase() + part.slice(1)).replace(/[*?[\]]/g, ''))
+    .join('*') + '*';
+}
+
+/**
+ * How well the query parts match the humps of a name (0 = no match, 1 = every hump matched in order)
+ * The first part must match the first hump; humps in between may be skipped
+ */
+export function camelHumpScore(query: string, name: string): number {
+  const parts = splitQueryHumps(query).map(part => part.toLowerCase());
+  const humps = splitHumps(name).map(hump => hump.toLowerCase());
+  if (parts.length < 2 || humps.length === 0) return 0;
+
+  let best = -1;
+  const match = (partIndex: number, humpIndex: number, skipped: number): void => {
+    if (partIndex === parts.length) {
+      const trailing = humps.length - humpIndex;
+      best = Math.max(best, 1 - 0.1 * skipped - 0.05 * trailing);
+      return;
+    }
+    for (let h = humpIndex; h < humps.length; h++) {
+      // The first part is anchored to the start of the name
+      if (partIndex === 0 && h > 0) break;
+      if (humps[h].startsWith(parts[partIndex])) {
+        match(partIndex + 1, h + 1, skipped + (h - humpIndex));
+      }
+    }
+  };
+
+  match(0, 0, 0);
+  return best < 0 ? 0 : Math.max(best, 0.1);
+}
+
+/**
+ * Dice coefficient over padded character trigrams
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const gramsA = trigrams(a.toLowerCase());
+  const gramsB = trigrams(b.toLowerCase());
+  if (gramsA.size === 0 || gramsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  return (2 * shared) / (gramsA.size + gramsB.size);
+}
+
+/**
+ * Trigrams of a string as they appear in the name (no padding), used for FTS5 candidate queries
+ */
+export function queryTrigrams(query: string): string[] {
+  const text = query.toLowerCase().replace(/[^a-z0-9_]/g, '');
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    grams.add(text.slice(i, i + 3));
+  }
+  return Array.from(grams);
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Best score of a name for a query, or null when nothing matches
+ */
+export function scoreName(query: string, name: string): FuzzyScore | null {
+  const q = query.trim().toLowerCase();
+  const n = name.toLowerCase();
+  if (!q) return null;
+
+  if (n === q) return { score: 1, matchType: 'exact' };
+  if (n.startsWith(q)) return { score: 0.9 + 0.09 * (q.length / n.length), matchType: 'prefix' };
+
+  const candidates: FuzzyScore[] = [];
+
+  const hump = camelHumpScore(query, name);
+  if (hump > 0) {
+    candidates.push({ score: 0.75 + 0.14 * hump, matchType: 'camelHump' });
+  }
+
+  if (n.includes(q)) {
+    candidates.push({ score: 0.7 + 0.1 * (q.length / n.length), matchType: 'substring' });
+  }
+
+  // Typo tolerance: one edit for short names, two for longer ones
+  if (q.length >= 4 && Math.abs(n.length - q.length) <= 2) {
+    const distance = editDistance(q, n);
+    if (distance <= (q.length <= 6 ? 1 : 2)) {
+      candidates.push({ score: 0.85 - 0.1 * distance, matchType: 'typo' });
+    }
+  }
+
+  const trigram = trigramSimilarity(q, n);
+  if (trigram > 0) {
+    candidates.push({ score: 0.75 * trigram, matchType: 'trigram' });
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, candidate) => candidate.score > best.score ? candidate : best);
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
@@ -0,0 +1,263 @@
+/**
+ * Index Diff Module
+ *
+ * Compares two sets of object rows - two object databases, snapshots, or a database and
+ * a live scan of PackagesLocalDirectory - and reports which objects were added, removed
+ * or moved to another model, e.g. between two platform updates.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { extractSnapshotFile } from './index-snapshot.js';
+import type { ObjectLocation } from './sqlite-lookup.js';
+
+/**
+ * An object that exists on both sides but in different models
+ */
+export interface RelocatedObject {
+    name: string;
+    type: string;
+    fromModels: string[];
+    toModels: string[];
+}
+
+export interface DiffCounts {
+    added: number;
+    removed: number;
+    relocated: number;
+}
+
+export interface ModelDiffCounts {
+    added: number;
+    removed: number;
+    // Objects that moved into / out of the model
+    relocatedIn: number;
+    relocatedOut: number;
+}
+
+export interface IndexDiff {
+    base: string;
+    target: string;
+    baseObjects: number;
+    targetObjects: number;
+    unchanged: number;
+    added: ObjectLocation[];
+    removed: ObjectLocation[];
+    relocated: RelocatedObject[];
+    byType: Record<string, DiffCounts>;
+    byModel: Record<string, ModelDiffCounts>;
+}
+
+export interface IndexDiffFilter {
+    objectType?: string;
+    model?: string;
+}
+
+/**
+ * Object rows of an object database or a snapshot created by export_index
+ * The file is opened read-only, so databases of older versions are compared as they are;
+ * snapshots are decompressed to a temporary file first
+ */
+export async function readObjectsFromDatabase(filePath: string): Promise<ObjectLocation[]> {
+    if (!existsSync(filePath)) {
+        throw new Error(`Object database not found: ${filePath}`);
+    }
+
+    if (!filePath.toLowerCase().endsWith('.gz')) {
+        return readObjectRows(filePath, filePath);
+    }
+
+    const tempDir = mkdtempSync(path.join(tmpdir(), 'mcp-xpp-diff-'));
+    try {
+        const databasePath = path.join(tempDir, 'snapshot.db');
+        await extractSnapshotFile(filePath, databasePath);
+        return readObjectRows(databasePath, filePath);
+    } finally {
+        rmSync(tempDir, { recursive: true, force: true });
+    }
+}
+
+function readObjectRows(databasePath: string, displayPath: string): ObjectLocation[] {
+    const db = new Database(databasePath, { readonly: true, fileMustExist: true });
+    try {
+        const hasObjects = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'objects'`).get();
+        if (!hasObjects) {
+            throw new Error(`${displayPath} is not an object database (no objects table)`);
+        }
+        return db.prepare('SELECT name, path, model, type FROM objects').all() as ObjectLocation[];
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Compare two sets of object rows
+ * Objects are identified by type and case-insensitive name; an object whose set of models
+ * differs between the sides is reported as relocated rather than as removed plus added
+ */
+export function diffObjects(
+    baseObjects: ObjectLocation[],
+    targetObjects: ObjectLocation[],
+    labels: { base: string; target: string },
+    filter: IndexDiffFilter = {}
+): IndexDiff {
+    const type = filter.objectType?.toLowerCase();
+    const ofType = (objects: ObjectLocation[]) => type ? objects.filter(obj => obj.type.toLowerCase() === type) : objects;
+    const base = groupByIdentity(ofType(baseObjects));
+    const target = groupByIdentity(ofType(targetObjects));
+
+    let added: ObjectLocation[] = [];
+    let removed: ObjectLocation[] = [];
+    let relocated: RelocatedObject[] = [];
+    let unchanged = 0;
+
+    for (const [key, baseRows] of base) {
+        const targetRows = target.get(key);
+        if (!targetRows) {
+            removed.push(...baseRows);
+            continue;
+        }
+
+        const fromModels = uniqueModels(baseRows);
+        const toModels = uniqueModels(targetRows);
+        if (fromModels.join('\n').toLowerCase() === toModels.join('\n').toLowerCase()) {
+            unchanged++;
+        } else {
+            relocated.push({ name: targetRows[0].name, type: targetRows[0].type, fromModels, toModels });
+        }
+    }
+
+    for (const [key, targetRows] of target) {
+        if (!base.has(key)) added.push(...targetRows);
+    }
+
+    if (filter.model) {
+        // Relocations stay visible when the model is on either side
+        const model = filter.model;
+        added = added.filter(row => sameModel(row.model, model));
+        removed = removed.filter(row => sameModel(row.model, model));
+        relocated = relocated.filter(row => containsModel(row.fromModels, model) || containsModel(row.toModels, model));
+    }
+
+    const byTypeAndName = (a: { type: string; name: string }, b: { type: string; name: string }) =>
+        a.type.localeCompare(b.type) || a.name.localeCompare(b.name);
+    added.sort(byTypeAndName);
+    removed.sort(byTypeAndName);
+    relocated.sort(byTypeAndName);
+
+    return {
+        base: labels.base,
+        target: labels.target,
+        baseObjects: countRows(base),
+        targetObjects: countRows(target),
+        unchanged,
+        added,
+        removed,
+        relocated,
+        ...summarize(added, removed, relocated)
+    };
+}
+
+/**
+ * Markdown report of a diff; each object list is cut at `limit` entries
+ */
+export function formatIndexDiffMarkdown(diff: IndexDiff, limit: number = 100): string {
+    let markdown = `# Index Diff\n\n`;
+    markdown += `- **Base:** ${diff.base} (${diff.baseObjects.toLocaleString()} objects)\n`;
+    markdown += `- **Target:** ${diff.target} (${diff.targetObjects.toLocaleString()} objects)\n`;
+    markdown += `- **Added:** ${diff.added.length.toLocaleString()}, **Removed:** ${diff.removed.length.toLocaleString()}, `;
+    markdown += `**Relocated:** ${diff.relocated.length.toLocaleString()}, **Unchanged:** ${diff.unchanged.toLocaleString()}\n\n`;
+
+    if (diff.added.length === 0 && diff.removed.length === 0 && diff.relocated.length === 0) {
+        return markdown + `No differences found.\n`;
+    }
+
+    markdown += `## By Type\n\n| Type | Added | Removed | Relocated |\n|---|---:|---:|---:|\n`;
+    for (const [type, counts] of Object.entries(diff.byType).sort(([a], [b]) => a.localeCompare(b))) {
+        markdown += `| ${type} | ${counts.added} | ${counts.removed} | ${counts.relocated} |\n`;
+    }
+
+    markdown += `\n## By Model\n\n| Model | Added | Removed | Moved In | Moved Out |\n|---|---:|---:|---:|---:|\n`;
+    for (const [model, counts] of Object.entries(diff.byModel).sort(([a], [b]) => a.localeCompare(b))) {
+        markdown += `| ${model} | ${counts.added} | ${counts.removed} | ${counts.relocatedIn} | ${counts.relocatedOut} |\n`;
+    }
+
+    const section = <T>(title: string, rows: T[], describe: (row: T) => string) => {
+        if (rows.length === 0) return '';
+        let text = `\n## ${title} (${rows.length.toLocaleString()})\n\n`;
+        for (const row of rows.slice(0, limit)) {
+            text += `- ${describe(row)}\n`;
+        }
+        if (rows.length > limit) {
+            text += `- ... ${(rows.length - limit).toLocaleString()} more\n`;
+        }
+        return text;
+    };
+
+    markdown += section('Added', diff.added, row => `${row.type} \`${row.name}\` (${row.model})`);
+    markdown += section('Removed', diff.removed, row => `${row.type} \`${row.name}\` (${row.model})`);
+    markdown += section('Relocated', diff.relocated, row => `${row.type} \`${row.name}\`: ${row.fromModels.join(', ')} → ${row.toModels.join(', ')}`);
+    return markdown;
+}
+
+function summarize(added: ObjectLocation[], removed: ObjectLocation[], relocated: RelocatedObject[]): Pick<IndexDiff, 'byType' | 'byModel'> {
+    const byType: Record<string, DiffCounts> = {};
+    const byModel: Record<string, ModelDiffCounts> = {};
+    const typeCounts = (type: string) => byType[type] ??= { added: 0, removed: 0, relocated: 0 };
+    const modelCounts = (model: string) => byModel[model] ??= { added: 0, removed: 0, relocatedIn: 0, relocatedOut: 0 };
+
+    // Types count objects, models count rows (an object can live in several models)
+    const countedAdded = new Set<string>();
+    for (const row of added) {
+        if (!countedAdded.has(identityOf(row))) typeCounts(row.type).added++;
+        countedAdded.add(identityOf(row));
+        modelCounts(row.model).added++;
+    }
+    const countedRemoved = new Set<string>();
+    for (const row of removed) {
+        if (!countedRemoved.has(identityOf(row))) typeCounts(row.type).removed++;
+        countedRemoved.add(identityOf(row));
+        modelCounts(row.model).removed++;
+    }
+    for (const row of relocated) {
+        typeCounts(row.type).relocated++;
+        row.fromModels.filter(model => !containsModel(row.toModels, model)).forEach(model => modelCounts(model).relocatedOut++);
+        row.toModels.filter(model => !containsModel(row.fromModels, model)).forEach(model => modelCounts(model).relocatedIn++);
+    }
+
+    return { byType, byModel };
+}
+
+function identityOf(obj: { type: string; name: string }): string {
+    return `${obj.type.toLowerCase()}|${obj.name.toLowerCase()}`;
+}
+
+function groupByIdentity(objects: ObjectLocation[]): Map<string, ObjectLocation[]> {
+    const groups = new Map<string, ObjectLocation[]>();
+    for (const obj of objects) {
+        const key = identityOf(obj);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(obj);
+    }
+    return groups;
+}
+
+function countRows(groups: Map<string, ObjectLocation[]>): number {
+    let count = 0;
+    for (const rows of groups.values()) count += rows.length;
+    return count;
+}
+
+function uniqueModels(rows: ObjectLocation[]): string[] {
+    return [...new Set(rows.map(row => row.model))].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+}
+
+function sameModel(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+function containsModel(models: string[], model: string): boolean {
+    return models.some(candidate => sameModel(candidate, model));
+}
@@ -0,0 +1,128 @@
+/**
+ * Index Snapshot Module
+ *
+ * Portable snapshots of the object database: a gzip-compressed SQLite file carrying a
+ * versioned manifest (schema version, source root, counts, AOT metadata). One machine builds
+ * the index, everyone else imports the snapshot and has its file paths remapped to their
+ * own PackagesLocalDirectory.
+ */
+
+import { createGzip, createGunzip } from 'zlib';
+import { closeSync, createReadStream, createWriteStream, existsSync, mkdirSync, openSync, readSync, rmSync, statSync } from 'fs';
+import { pipeline } from 'stream/promises';
+import path from 'path';
+import type { AOTMetadata } from './sqlite-lookup.js';
+
+export const SNAPSHOT_FORMAT = 'mcp-xpp-index-snapshot';
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+// aot_metadata key the manifest is stored under inside the snapshot database
+export const SNAPSHOT_MANIFEST_KEY = 'snapshot_manifest';
+
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+export interface SnapshotManifest {
+    format: string;
+    formatVersion: number;
+    schemaVersion: number;
+    createdAt: string;
+    // PackagesLocalDirectory the indexed file paths start with (null when unknown)
+    sourceRoot: string | null;
+    objects: number;
+    sourceBlocks: number;
+    objectTypes: string[];
+    aotMetadata: AOTMetadata | null;
+}
+
+export interface SnapshotExportResult {
+    path: string;
+    manifest: SnapshotManifest;
+    bytes: number;
+    uncompressedBytes: number;
+}
+
+export interface SnapshotImportResult {
+    manifest: SnapshotManifest;
+    targetRoot: string | null;
+    // Code index rows whose file path was moved from the snapshot's source root to targetRoot
+    remappedRows: number;
+    migratedFromVersion: number | null;
+}
+
+/**
+ * Gzip a database file into a snapshot, streaming so the database is never held in memory
+ * Returns the compressed size in bytes
+ */
+export async function compressSnapshotFile(databasePath: string, snapshotPath: string): Promise<number> {
+    const dir = path.dirname(snapshotPath);
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+
+    await pipeline(createReadStream(databasePath), createGzip({ level: 9 }), createWriteStream(snapshotPath));
+    return statSync(snapshotPath).size;
+}
+
+/**
+ * Stream-decompress a snapshot file into a database file
+ * Throws (and removes the partial output) when the snapshot isn't gzip data or holds no SQLite database
+ */
+export async function extractSnapshotFile(snapshotPath: string, databasePath: string): Promise<void> {
+    if (!existsSync(snapshotPath)) {
+        throw new Error(`Snapshot file not found: ${snapshotPath}`);
+    }
+
+    try {
+        await pipeline(createReadStream(snapshotPath), createGunzip(), createWriteStream(databasePath));
+    } catch (error) {
+        rmSync(databasePath, { force: true });
+        throw new Error(`${snapshotPath} is not a gzip-compressed index snapshot`);
+    }
+
+    const header = Buffer.alloc(SQLITE_HEADER.length);
+    const fd = openSync(databasePath, 'r');
+    try {
+        readSync(fd, header, 0, header.length, 0);
+    } finally {
+        closeSync(fd);
+    }
+    if (header.toString('latin1') !== SQLITE_HEADER) {
+        rmSync(databasePath, { force: true });
+        throw new Error(`${snapshotPath} does not contain a SQLite database`);
+    }
+}
+
+/**
+ * Parse and validate a stored manifest
+ */
+export function parseSnapshotManifest(value: string | undefined, supportedSchemaVersion: number): SnapshotManifest {
+    if (!value) {
+        throw new Error('Snapshot has no manifest - it was not created by export_index');
+    }
+
+    const manifest = JSON.parse(value) as SnapshotManifest;
+    if (manifest.format !== SNAPSHOT_FORMAT) {
+        throw new Error(`Unknown snapshot format "${manifest.format}"`);
+    }
+    if (manifest.formatVersion > SNAPSHOT_FORMAT_VERSION) {
+        throw new Error(`Snapshot format version ${manifest.formatVersion} is newer than supported version ${SNAPSHOT_FORMAT_VERSION}`);
+    }
+    if (manifest.schemaVersion > supportedSchemaVersion) {
+        throw new Error(`Snapshot schema version ${manifest.schemaVersion} is newer than supported version ${supportedSchemaVersion}`);
+    }
+    return manifest;
+}
+
+/**
+ * Separator style of a root path (Windows paths keep backslashes)
+ */
+export function pathSeparatorOf(root: string): string {
+    return root.includes('\\') || /^[A-Za-z]:/.test(root) ? '\\' : '/';
+}
+
+/**
+ * Remove a trailing separator so prefixes compare consistently
+ */
+export function trimRoot(root: string): string {
+    return root.length > 1 ? root.replace(/[\\/]+$/, '') : root;
+}
@@ -0,0 +1,180 @@
+/**
+ * Index Watcher Module
+ *
+ * Optional filesystem watcher on the AOT folders of the configured xppPath.
+ * Changes made outside this server (Visual Studio, git pull, ...) are debounced
+ * and applied to the SQLite object index and code index as inserts and deletes.
+ */
+
+import { watch, FSWatcher, promises as fs } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { ObjectIndexManager } from "./object-index.js";
+import { AOTFile } from "./code-index.js";
+
+export interface IndexWatcherStatus {
+  running: boolean;
+  basePath?: string;
+  watchedFolders: number;
+  debounceMs: number;
+  pendingChanges: number;
+  startedAt?: string;
+  lastFlushAt?: string;
+  inserted: number;
+  deleted: number;
+  errors: number;
+  lastError?: string;
+}
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * Watches AOT folders and keeps the object index current
+ */
+export class IndexWatcher {
+  private static watchers: FSWatcher[] = [];
+  private static pending = new Set<string>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static flushing: Promise<void> | null = null;
+  private static status: IndexWatcherStatus = IndexWatcher.createStatus(DEFAULT_DEBOUNCE_MS);
+
+  /**
+   * Start watching every AOT folder found by discoverAOTFolders
+   * Folders created after the watcher started are picked up by the next build_object_index
+   */
+  static async start(basePath: string, debounceMs: number = DEFAULT_DEBOUNCE_MS): Promise<IndexWatcherStatus> {
+    await this.stop();
+
+    const aotFolders = await ObjectIndexManager.discoverAOTFolders(basePath);
+    this.status = this.createStatus(debounceMs);
+    this.status.basePath = basePath;
+
+    for (const folderPath of aotFolders.keys()) {
+      try {
+        const watcher = watch(folderPath, (eventType, filename) => {
+          if (filename && extname(filename.toString()).toLowerCase() === '.xml') {
+            this.queue(join(folderPath, filename.toString()));
+          }
+        });
+        watcher.on('error', error => this.recordError(error));
+        this.watchers.push(watcher);
+      } catch (error) {
+        this.recordError(error);
+      }
+    }
+
+    this.status.running = this.watchers.length > 0;
+    this.status.watchedFolders = this.watchers.length;
+    this.status.startedAt = new Date().toISOString();
+    console.log(`👀 Index watcher started on ${this.watchers.length} AOT folders (debounce ${debounceMs}ms)`);
+    return this.getStatus();
+  }
+
+  /**
+   * Stop watching and apply changes that are still pending
+   */
+  static async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    const wasRunning = this.watchers.length > 0;
+    this.watchers = [];
+    this.status.running = false;
+    this.status.watchedFolders = 0;
+
+    await this.flush();
+    if (wasRunning) {
+      console.log('👀 Index watcher stopped');
+    }
+  }
+
+  /**
+   * Current watcher state for get_current_config
+   */
+  static getStatus(): IndexWatcherStatus {
+    return { ...this.status, pendingChanges: this.pending.size };
+  }
+
+  /**
+   * Apply all pending changes now
+   */
+  static async flush(): Promise<void> {
+    if (this.flushing) {
+      await this.flushing;
+    }
+    if (this.pending.size === 0) return;
+
+    const paths = Array.from(this.pending);
+    this.pending.clear();
+    this.flushing = this.applyChanges(paths).finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+  }
+
+  private static queue(filePath: string): void {
+    this.pending.add(filePath);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => this.recordError(error));
+    }, this.status.debounceMs);
+  }
+
+  private static async applyChanges(paths: string[]): Promise<void> {
+    const changes: Array<{ file: AOTFile; exists: boolean }> = [];
+
+    for (const filePath of paths) {
+      const folderPath = dirname(filePath);
+      const file: AOTFile = {
+        name: basename(filePath, extname(filePath)),
+        path: filePath,
+        model: basename(dirname(folderPath)),
+        folder: basename(folderPath)
+      };
+
+      try {
+        const stats = await fs.stat(filePath);
+        file.lastModified = Math.floor(stats.mtimeMs);
+        file.size = stats.size;
+        changes.push({ file, exists: true });
+      } catch (error) {
+        changes.push({ file, exists: false });
+      }
+    }
+
+    try {
+      const result = await ObjectIndexManager.applyFileChanges(changes);
+      this.status.inserted += result.inserted;
+      this.status.deleted += result.deleted;
+      this.status.lastFlushAt = new Date().toISOString();
+      console.log(`👀 Index watcher applied ${changes.length} changes (${result.inserted} inserted, ${result.deleted} deleted)`);
+    } catch (error) {
+      this.recordError(error);
+    }
+  }
+
+  private static recordError(error: unknown): void {
+    this.status.errors++;
+    this.status.lastError = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️  Index watcher error: ${this.status.lastError}`);
+  }
+
+  private static createStatus(debounceMs: number): IndexWatcherStatus {
+    return {
+      running: false,
+      watchedFolders: 0,
+      debounceMs,
+      pendingChanges: 0,
+      inserted: 0,
+      deleted: 0,
+      errors: 0
+    };
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Label Index Module
+ *
+ * Parses AxLabelFile label text files (LabelResources/<language>/<LabelFile>.<language>.label.txt)
+ * and label references in object metadata: "@SYS12345" (legacy) and "@MyLabels:CustomerName".
+ */
+
+export const DEFAULT_LABEL_LANGUAGE = 'en-US';
+
+/**
+ * One label text file of a model
+ */
+export interface LabelFileInfo {
+  path: string;
+  model: string;
+  labelFile: string;
+  language: string;
+  lastModified: number;
+  size: number;
+}
+
+export interface ParsedLabel {
+  labelId: string;
+  text: string;
+  comment: string | null;
+  line: number;
+}
+
+/**
+ * A label reference split into label file and label id
+ */
+export interface LabelReference {
+  reference: string;
+  labelFile: string;
+  labelId: string;
+}
+
+// @File:Id or legacy @SYS12345; the lookbehind keeps e-mail addresses and @@ escapes out
+const LABEL_REFERENCE_PATTERN = /(?<![\w@])@(?:([A-Za-z_]\w*):(\w+)|([A-Za-z]+)(\d+)\b)/g;
+
+/**
+ * Label file id and language of a label text file name (SYS.en-US.label.txt)
+ */
+export function parseLabelFileName(fileName: string): { labelFile: string; language: string } | null {
+  const match = fileName.match(/^(.+)\.([A-Za-z]{2,3}(?:-[A-Za-z0-9]+)*)\.label\.txt$/i);
+  return match ? { labelFile: match[1], language: match[2] } : null;
+}
+
+/**
+ * Labels of a label text file
+ * Each label is an "Id=Text" line, optionally followed by " ;Comment" lines
+ */
+export function parseLabelText(content: string): ParsedLabel[] {
+  const labels: ParsedLabel[] = [];
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === '') continue;
+
+    if (/^\s+;/.test(line) || line.startsWith(';')) {
+      const last = labels[labels.length - 1];
+      if (last) {
+        const comment = line.replace(/^\s*;/, '').trim();
+        last.comment = last.comment ? `${last.comment}\n${comment}` : comment;
+      }
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator <= 0) continue;
+
+    labels.push({
+      labelId: line.slice(0, separator).trim().replace(/^@/, ''),
+      text: line.slice(separator + 1),
+      comment: null,
+      line: i + 1
+    });
+  }
+
+  return labels;
+}
+
+/**
+ * Split "@SYS12345" or "@MyLabels:Foo" into label file and id (null when it is not a label reference)
+ * Legacy references keep the file prefix in the id, as the label text files do
+ */
+export function parseLabelReference(reference: string): LabelReference | null {
+  const trimmed = reference.trim();
+  const normalized = trimmed.startsWith('@') ? trimmed : `@${trimmed}`;
+  const match = new RegExp(`^${LABEL_REFERENCE_PATTERN.source}$`).exec(normalized);
+  if (!match) return null;
+
+  return match[1]
+    ? { reference: normalized, labelFile: match[1], labelId: match[2] }
+    : { reference: normalized, labelFile: match[3], labelId: `${match[3]}${match[4]}` };
+}
+
+/**
+ * Reference text for a label: @SYS12345 for legacy ids, @LabelFile:LabelId otherwise
+ */
+export function formatLabelReference(labelFile: string, labelId: string): string {
+  const legacy = labelId.toLowerCase().startsWith(labelFile.toLowerCase()) && /^\d+$/.test(labelId.slice(labelFile.length));
+  return legacy ? `@${labelId}` : `@${labelFile}:${labelId}`;
+}
+
+/**
+ * Distinct label references in a piece of text, in order of appearance
+ */
+export function findLabelReferences(text: string): string[] {
+  const references = new Set<string>();
+  for (const match of text.matchAll(LABEL_REFERENCE_PATTERN)) {
+    references.add(match[0]);
+  }
+  return Array.from(references);
+}
+
+/**
+ * Append the resolved text after every label reference: @SYS7149 -> @SYS7149 ("Customer account")
+ * References the resolver returns null for are left as they are
+ */
+export function annotateLabelReferences(text: string, resolve: (reference: string) => string | null): string {
+  return text.replace(LABEL_REFERENCE_PATTERN, reference => {
+    const resolved = resolve(reference);
+    return resolved === null ? reference : `${reference} ("${resolved}")`;
+  });
+}
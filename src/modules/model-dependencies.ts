@@ -0,0 +1,232 @@
+/**
+ * Model Dependency Module
+ *
+ * Builds the model dependency graph from the ModuleReferences of every model descriptor:
+ * direct, transitive and reverse dependencies, reference cycles and a build order.
+ * Descriptors reference modules (packages); a reference points at every model of that module.
+ */
+
+/**
+ * Descriptor fields the graph needs (a subset of ModelInfo)
+ */
+export interface ModelDescriptor {
+  name: string;
+  module?: string;
+  dependencies: string[];
+  descriptorPath?: string;
+}
+
+export interface ModelNode {
+  name: string;
+  module: string;
+  // Models this model references (through their module)
+  dependencies: string[];
+  // Referenced modules no descriptor was found for
+  missingModules: string[];
+  descriptorPath: string | null;
+}
+
+export interface ModelDependencyGraph {
+  nodes: Map<string, ModelNode>;
+  // Strongly connected groups of models referencing each other, and self-references
+  cycles: string[][];
+  // Dependencies before dependents; members of a cycle are kept next to each other
+  buildOrder: string[];
+}
+
+export interface DependencyNode {
+  name: string;
+  depth: number;
+  // Model through which this dependency is reached (null for direct dependencies)
+  via: string | null;
+}
+
+export interface ModelDependencies {
+  name: string;
+  module: string;
+  direct: string[];
+  transitive: DependencyNode[];
+  reverseDirect: string[];
+  reverseTransitive: DependencyNode[];
+  missingModules: string[];
+  cycles: string[][];
+  // This model plus everything depending on it, in build order
+  rebuildOrder: string[];
+}
+
+/**
+ * Module names listed under <ModuleReferences> in a descriptor
+ * The array namespace prefix varies (d2p1, d3p1, ...) so any prefix is accepted
+ */
+export function parseModuleReferences(descriptorXml: string): string[] {
+  const section = descriptorXml.match(/<ModuleReferences\b[^>]*>([\s\S]*?)<\/ModuleReferences>/);
+  if (!section) return [];
+
+  const modules: string[] = [];
+  const itemPattern = /<(?:\w+:)?string>\s*([^<]+?)\s*<\/(?:\w+:)?string>/g;
+  let match;
+  while ((match = itemPattern.exec(section[1])) !== null) {
+    if (!modules.includes(match[1])) modules.push(match[1]);
+  }
+  return modules;
+}
+
+/**
+ * Module (package) a descriptor belongs to, from <ModelModule>
+ */
+export function parseModelModule(descriptorXml: string): string | null {
+  const match = descriptorXml.match(/<ModelModule>\s*([^<]+?)\s*<\/ModelModule>/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Build the dependency graph of a set of models
+ */
+export function buildModelDependencyGraph(models: ModelDescriptor[]): ModelDependencyGraph {
+  const modelsByModule = new Map<string, string[]>();
+  for (const model of models) {
+    const moduleKey = (model.module || model.name).toLowerCase();
+    if (!modelsByModule.has(moduleKey)) modelsByModule.set(moduleKey, []);
+    modelsByModule.get(moduleKey)!.push(model.name);
+  }
+
+  const nodes = new Map<string, ModelNode>();
+  for (const model of models) {
+    if (nodes.has(model.name.toLowerCase())) continue;
+
+    const module = model.module || model.name;
+    const dependencies: string[] = [];
+    const missingModules: string[] = [];
+    for (const referencedModule of model.dependencies) {
+      // Models of the own module are compiled together, not referenced
+      if (referencedModule.toLowerCase() === module.toLowerCase()) continue;
+
+      const referencedModels = modelsByModule.get(referencedModule.toLowerCase());
+      if (!referencedModels) {
+        missingModules.push(referencedModule);
+        continue;
+      }
+      for (const referenced of referencedModels) {
+        if (!dependencies.includes(referenced)) dependencies.push(referenced);
+      }
+    }
+
+    nodes.set(model.name.toLowerCase(), { name: model.name, module, dependencies, missingModules, descriptorPath: model.descriptorPath || null });
+  }
+
+  const components = stronglyConnectedComponents(nodes);
+  const cycles = components.filter(component =>
+    component.length > 1 || nodes.get(component[0].toLowerCase())!.dependencies.some(dep => dep.toLowerCase() === component[0].toLowerCase())
+  );
+
+  // Tarjan emits components dependencies-first, which is already a valid build order
+  return { nodes, cycles, buildOrder: components.flat() };
+}
+
+/**
+ * Direct, transitive and reverse dependencies of one model, or null when the model has no descriptor
+ */
+export function getModelDependencies(graph: ModelDependencyGraph, modelName: string): ModelDependencies | null {
+  const node = graph.nodes.get(modelName.toLowerCase());
+  if (!node) return null;
+
+  const dependents = new Map<string, string[]>();
+  for (const other of graph.nodes.values()) {
+    for (const dependency of other.dependencies) {
+      const key = dependency.toLowerCase();
+      if (!dependents.has(key)) dependents.set(key, []);
+      dependents.get(key)!.push(other.name);
+    }
+  }
+
+  const transitive = walk(node.name, name => graph.nodes.get(name.toLowerCase())?.dependencies || []);
+  const reverseTransitive = walk(node.name, name => dependents.get(name.toLowerCase()) || []);
+  const affected = new Set([node.name.toLowerCase(), ...reverseTransitive.map(dep => dep.name.toLowerCase())]);
+
+  return {
+    name: node.name,
+    module: node.module,
+    direct: [...node.dependencies].sort(),
+    transitive,
+    reverseDirect: [...(dependents.get(node.name.toLowerCase()) || [])].sort(),
+    reverseTransitive,
+    missingModules: node.missingModules,
+    cycles: graph.cycles.filter(cycle => cycle.some(member => member.toLowerCase() === node.name.toLowerCase())),
+    rebuildOrder: graph.buildOrder.filter(name => affected.has(name.toLowerCase()))
+  };
+}
+
+/**
+ * Breadth-first walk over an edge function, excluding the start model
+ */
+function walk(start: string, edges: (name: string) => string[]): DependencyNode[] {
+  const result: DependencyNode[] = [];
+  const visited = new Set([start.toLowerCase()]);
+  let level: DependencyNode[] = [{ name: start, depth: 0, via: null }];
+
+  while (level.length > 0) {
+    const nextLevel: DependencyNode[] = [];
+    for (const current of level) {
+      for (const next of [...edges(current.name)].sort()) {
+        if (visited.has(next.toLowerCase())) continue;
+        visited.add(next.toLowerCase());
+        const node = { name: next, depth: current.depth + 1, via: current.depth === 0 ? null : current.name };
+        result.push(node);
+        nextLevel.push(node);
+      }
+    }
+    level = nextLevel;
+  }
+
+  return result;
+}
+
+/**
+ * Tarjan's algorithm; components come out in reverse topological order of the
+ * dependency edges, i.e. every component after the components it depends on
+ */
+function stronglyConnectedComponents(nodes: Map<string, ModelNode>): string[][] {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (key: string) => {
+    indexes.set(key, nextIndex);
+    lowLinks.set(key, nextIndex);
+    nextIndex++;
+    stack.push(key);
+    onStack.add(key);
+
+    for (const dependency of nodes.get(key)!.dependencies) {
+      const depKey = dependency.toLowerCase();
+      if (!nodes.has(depKey)) continue;
+      if (!indexes.has(depKey)) {
+        visit(depKey);
+        lowLinks.set(key, Math.min(lowLinks.get(key)!, lowLinks.get(depKey)!));
+      } else if (onStack.has(depKey)) {
+        lowLinks.set(key, Math.min(lowLinks.get(key)!, indexes.get(depKey)!));
+      }
+    }
+
+    if (lowLinks.get(key) === indexes.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(nodes.get(member)!.name);
+      } while (member !== key);
+      components.push(component.sort());
+    }
+  };
+
+  // Sorted start order keeps the build order stable between runs
+  for (const key of [...nodes.keys()].sort()) {
+    if (!indexes.has(key)) visit(key);
+  }
+
+  return components;
+}
@@ -0,0 +1,229 @@
+/**
+ * Navigation Index Module
+ *
+ * Parses menu items (AxMenuItemDisplay/Action/Output) with the object they open, and the
+ * element trees of AxMenu and AxMenuExtension, so the menu breadcrumbs leading to a form,
+ * class or report can be listed.
+ */
+
+import { readNestedElements } from "./code-index.js";
+import type { AOTFile } from "./code-index.js";
+import type { SQLiteObjectLookup } from "./sqlite-lookup.js";
+
+/**
+ * Menu item folders with the menu item type menus reference them by
+ */
+export const MENU_ITEM_FOLDERS: Record<string, string> = {
+  AxMenuItemDisplay: 'Display',
+  AxMenuItemAction: 'Action',
+  AxMenuItemOutput: 'Output'
+};
+
+export const MENU_FOLDERS = ['AxMenu', 'AxMenuExtension'];
+
+// Omitted by the metadata serializer when it has its default value
+const DEFAULT_MENU_ITEM_TYPE = 'Display';
+const DEFAULT_MENU_ITEM_OBJECT_TYPE = 'Form';
+
+// Guards against menus referencing each other and runaway submenu chains
+const MAX_NAVIGATION_DEPTH = 20;
+
+export interface MenuItemFact {
+  name: string;
+  itemType: string;
+  objectName: string | null;
+  objectType: string;
+  label: string | null;
+}
+
+/**
+ * One element of a menu tree
+ * elementType is the AxMenuElement type without its prefix (SubMenu, MenuItem, MenuReference, ...);
+ * parentName is the submenu containing the element, null at the top of the menu
+ */
+export interface MenuElementFact {
+  name: string;
+  elementType: string;
+  parentName: string | null;
+  label: string | null;
+  menuItemName: string | null;
+  menuItemType: string | null;
+  menuReference: string | null;
+  position: number;
+}
+
+/**
+ * A menu or menu extension
+ * Extensions carry the name of the menu they extend
+ */
+export interface MenuFact {
+  name: string;
+  label: string | null;
+  isExtension: boolean;
+  elements: MenuElementFact[];
+}
+
+export interface MenuItemRecord extends MenuItemFact {
+  model: string;
+  path: string;
+}
+
+export interface MenuElementRecord extends MenuElementFact {
+  menuName: string;
+  isExtension: boolean;
+  model: string;
+  path: string;
+}
+
+export interface NavigationStep {
+  kind: 'menu' | 'subMenu' | 'menuItem';
+  name: string;
+  label: string | null;
+}
+
+/**
+ * Breadcrumb from a top-level menu down to the menu element of a menu item
+ */
+export interface NavigationPath {
+  menuItem: MenuItemRecord;
+  breadcrumb: NavigationStep[];
+  // Model of the menu or menu extension placing the menu item
+  model: string;
+  viaExtension: boolean;
+}
+
+export interface NavigationResult {
+  target: string;
+  // Menu items opening the target, or the menu item itself when the target is a menu item name
+  menuItems: MenuItemRecord[];
+  paths: NavigationPath[];
+  // Menu items no menu places
+  unplaced: MenuItemRecord[];
+}
+
+/**
+ * Menu item facts of a menu item file, or null for other folders
+ */
+export function extractMenuItem(file: AOTFile, content: string): MenuItemFact | null {
+  const itemType = MENU_ITEM_FOLDERS[file.folder];
+  if (!itemType) return null;
+
+  return {
+    name: file.name,
+    itemType,
+    objectName: readElement(content, 'Object'),
+    objectType: readElement(content, 'ObjectType') || DEFAULT_MENU_ITEM_OBJECT_TYPE,
+    label: readElement(content, 'Label')
+  };
+}
+
+/**
+ * Element tree of a menu or menu extension file, or null for other folders
+ * Elements added by an extension hang below the submenu named in their <Parent>
+ */
+export function extractMenu(file: AOTFile, content: string): MenuFact | null {
+  if (!MENU_FOLDERS.includes(file.folder)) return null;
+
+  const isExtension = file.folder === 'AxMenuExtension';
+  const elements: MenuElementFact[] = [];
+  const addTree = (xml: string, topParent: string | null) => {
+    const nodes = readNestedElements(xml, ['AxMenuElement', 'MenuElement']);
+    for (const node of nodes) {
+      if (!node.name) continue;
+      const type = node.type.replace(/^AxMenuElement/, '') || 'MenuItem';
+      const menuItemName = type === 'MenuItem' ? readElement(node.own, 'MenuItemName') || node.name : null;
+      elements.push({
+        name: node.name,
+        elementType: type,
+        parentName: node.parent === null ? topParent : nodes[node.parent].name || null,
+        label: readElement(node.own, 'Label'),
+        menuItemName,
+        menuItemType: menuItemName ? readElement(node.own, 'MenuItemType') || DEFAULT_MENU_ITEM_TYPE : null,
+        menuReference: type === 'MenuReference' ? readElement(node.own, 'MenuName') || node.name : null,
+        position: elements.length
+      });
+    }
+  };
+
+  if (isExtension) {
+    for (const match of content.matchAll(/<AxMenuExtensionElement\b[^>]*>([\s\S]*?)<\/AxMenuExtensionElement>/g)) {
+      const parent = readElement(match[1].replace(/<MenuElement\b[\s\S]*<\/MenuElement>/, ''), 'Parent');
+      addTree(match[1], parent);
+    }
+  } else {
+    addTree(content, null);
+  }
+
+  // The label of the menu itself comes before its <Elements>
+  const header = content.split(/<Elements>/)[0];
+  return {
+    // Extensions are named <Menu>.<Suffix>
+    name: isExtension ? file.name.split('.')[0] : file.name,
+    label: readElement(header, 'Label'),
+    isExtension,
+    elements
+  };
+}
+
+/**
+ * Menu items opening an object (or the menu item of that name) and every menu breadcrumb leading to them
+ */
+export function findNavigationPaths(lookup: SQLiteObjectLookup, target: string, options: { objectType?: string } = {}): NavigationResult {
+  let menuItems = lookup.getMenuItemsForObject(target, options.objectType);
+  if (menuItems.length === 0) {
+    menuItems = lookup.getMenuItems(target);
+  }
+
+  const paths: NavigationPath[] = [];
+  const unplaced: MenuItemRecord[] = [];
+  for (const menuItem of menuItems) {
+    const elements = lookup.getMenuElementsForItem(menuItem.name, menuItem.itemType);
+    if (elements.length === 0) unplaced.push(menuItem);
+
+    for (const element of elements) {
+      const itemStep: NavigationStep = { kind: 'menuItem', name: element.name, label: element.label || menuItem.label };
+      for (const prefix of breadcrumbsTo(lookup, element.menuName, element.parentName, new Set())) {
+        paths.push({ menuItem, breadcrumb: [...prefix, itemStep], model: element.model, viaExtension: element.isExtension });
+      }
+    }
+  }
+
+  return { target, menuItems, paths, unplaced };
+}
+
+/**
+ * Breadcrumbs from every top-level menu down to a submenu of a menu (or the menu itself when parentName is null)
+ */
+function breadcrumbsTo(lookup: SQLiteObjectLookup, menuName: string, parentName: string | null, visitedMenus: Set<string>): NavigationStep[][] {
+  // Submenu chain inside this menu, outermost first
+  const subMenus: NavigationStep[] = [];
+  const seen = new Set<string>();
+  let current = parentName;
+  while (current && !seen.has(current.toLowerCase()) && seen.size < MAX_NAVIGATION_DEPTH) {
+    seen.add(current.toLowerCase());
+    const subMenu = lookup.getMenuSubMenu(menuName, current);
+    subMenus.unshift({ kind: 'subMenu', name: subMenu?.name || current, label: subMenu?.label || null });
+    current = subMenu?.parentName || null;
+  }
+
+  const [menu] = lookup.getMenus(menuName);
+  const menuStep: NavigationStep = { kind: 'menu', name: menu?.name || menuName, label: menu?.label || null };
+  const inside = [menuStep, ...subMenus];
+
+  const visited = new Set(visitedMenus).add(menuName.toLowerCase());
+  const references = visited.size > MAX_NAVIGATION_DEPTH ? [] : lookup.getMenuReferences(menuName);
+  const breadcrumbs: NavigationStep[][] = [];
+  for (const reference of references) {
+    if (visited.has(reference.menuName.toLowerCase())) continue;
+    for (const prefix of breadcrumbsTo(lookup, reference.menuName, reference.parentName, visited)) {
+      breadcrumbs.push([...prefix, ...inside]);
+    }
+  }
+
+  return breadcrumbs.length > 0 ? breadcrumbs : [inside];
+}
+
+function readElement(xml: string, element: string): string | null {
+  const match = xml.match(new RegExp(`<${element}>\\s*([^<]*?)\\s*</${element}>`));
+  return match && match[1] ? match[1] : null;
+}
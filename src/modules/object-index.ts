@@ -2,7 +2,47 @@ import { promises as fs } from "fs";
 import { join, relative, basename, extname, dirname } from "path";
 import { fileURLToPath } from "url";
 import { D365ServiceClient } from "./d365-service-client.js";
-import { SQLiteObjectLookup, ObjectLocation } from "./sqlite-lookup.js";
+import { SQLiteObjectLookup, ObjectLocation, LabelRecord, LabelSearchOptions, LabelSearchResult, SourceSearchOptions, SourceSearchResult, ReferenceSearchOptions, ReferenceSearchResult, ExtensionSearchOptions, ExtensionRecord, EventSubscriberOptions, EventSubscriberRecord, DelegateRecord } from "./sqlite-lookup.js";
+import { AOTFile, FileFacts, CODE_INDEX_FOLDERS, SERVICE_OBJECT_FOLDERS, SOURCE_CODE_FOLDERS, extractFileFacts, hashContent, objectTypeForFolder, toObjectLocation } from "./code-index.js";
+import { AOTStructureManager } from "./aot-structure.js";
+import { ClassHierarchy, getClassHierarchy } from "./class-hierarchy.js";
+import { SnapshotExportResult, SnapshotImportResult } from "./index-snapshot.js";
+import { IndexDiff, IndexDiffFilter, diffObjects, readObjectsFromDatabase } from "./index-diff.js";
+import { DEFAULT_LABEL_LANGUAGE, LabelFileInfo, LabelReference, ParsedLabel, annotateLabelReferences, parseLabelFileName, parseLabelReference, parseLabelText } from "./label-index.js";
+import { SecurityTrace, SecurityTraceOptions, traceSecurity } from "./security-index.js";
+import { NavigationResult, findNavigationPaths } from "./navigation-index.js";
+import { JoinPathOptions, JoinPathResult, findJoinPaths } from "./relation-index.js";
+import { EdtLevel, MAX_EDT_CHAIN_DEPTH, ResolvedEdt, parseEdt, parsePropertyModifications, parseTableField, resolveEdtLevels } from "./edt-resolution.js";
+import { EffectiveEnum, mergeEnumExtensions } from "./effective-enum.js";
+import { CodeMetricsReport, DEFAULT_METRIC_THRESHOLDS, MetricThresholds, ObjectMetrics, buildMetricsReport, measureObject } from "./code-metrics.js";
+import { LINT_CONFIG_FILE, LintConfig, LintDiagnostic, LintReport, LintRuleId, extensionTargetOf, lintObject, parseLintConfig, summarizeLint } from "./xpp-lint.js";
+import { CocBase, CocExtensionReport, checkCocExtension, readCocBaseMethods } from "./coc-checker.js";
+import { DataEntityDefinition, mergeDataEntityExtension, parseDataEntity, parseTableFieldNames, verifyFieldMappings } from "./data-entity.js";
+
+/**
+ * Result of an incremental index update
+ */
+export interface IndexUpdateSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  changedModels: string[];
+  deletedModels: string[];
+  refreshedModels: string[];
+  durationMs: number;
+}
+
+/**
+ * Per-run cache of CoC base resolution: resolved bases by extension target,
+ * and base or parent objects (folder/name) that were not found
+ */
+interface CocBaseCache {
+  bases: Map<string, CocBase | null>;
+  missing: Set<string>;
+}
+
+const createCocBaseCache = (): CocBaseCache => ({ bases: new Map(), missing: new Set() });
 
 // AOT folder cache for fast lookups
 const aotFoldersCache = new Map<string, string[]>();
@@ -23,7 +63,7 @@ export class ObjectIndexManager {
    * Note: This method is primarily for fallback scenarios - VS2022 service handles primary indexing
    */
   static async discoverAOTFolders(basePath: string, objectType?: string): Promise<Map<string, string[]>> {
-    const cacheKey = objectType || 'ALL';
+    const cacheKey = `${basePath}|${objectType || 'ALL'}`;
     
     if (aotFoldersCache.has(cacheKey)) {
       return new Map(aotFoldersCache.get(cacheKey)!.map(path => [path, []]));
@@ -55,7 +95,8 @@ export class ObjectIndexManager {
 
   /**
    * Scan packages for AOT folders using D365 F&O package structure
-   * PackageName/PackageName/AxClass, AxTable, etc.
+   * PackageName/PackageName/AxClass (double-nested), PackageName/ModelName/AxClass
+   * (packages holding several models) and PackageName/AxClass (single-level)
    */
   private static async scanPackagesForAOTFolders(
     dirPath: string,
@@ -76,21 +117,13 @@ export class ObjectIndexManager {
           
           const packageName = entry.name;
           const packagePath = join(dirPath, packageName);
-          const innerPackagePath = join(packagePath, packageName);
-          
-          try {
-            const innerStats = await fs.stat(innerPackagePath);
-            if (innerStats.isDirectory()) {
-              // Found double-nested structure! Scan inner package for AOT folders
-              // // Removed for performance
-              await this.scanDirectlyForAOTFolders(innerPackagePath, basePath, aotFolders, targetPatterns, packageName, objectType);
-            } else {
-              // Single-level package, scan normally
-              await this.scanDirectlyForAOTFolders(packagePath, basePath, aotFolders, targetPatterns, packageName, objectType);
-            }
-          } catch (error) {
-            // Inner package doesn't exist, treat as single-level
-            await this.scanDirectlyForAOTFolders(packagePath, basePath, aotFolders, targetPatterns, packageName, objectType);
+
+          // Single-level package: AOT folders directly below the package
+          await this.scanDirectlyForAOTFolders(packagePath, basePath, aotFolders, targetPatterns, packageName, objectType);
+
+          // Model folders inside the package (the package's own model and any additional models)
+          for (const modelPath of await this.getModelFolders(packagePath)) {
+            await this.scanDirectlyForAOTFolders(modelPath, basePath, aotFolders, targetPatterns, packageName, objectType);
           }
         }
       }
@@ -100,6 +133,24 @@ export class ObjectIndexManager {
     }
   }
 
+  /**
+   * Candidate model folders inside a package - every subfolder except AOT folders and build output
+   */
+  private static async getModelFolders(packagePath: string): Promise<string[]> {
+    const nonModelFolders = ['bin', 'obj', 'temp', 'descriptor', 'xppmetadata', 'resources', 'reports', 'webcontent', 'additionalfiles', 'node_modules'];
+    try {
+      const entries = await fs.readdir(packagePath, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory() &&
+          !entry.name.startsWith('.') &&
+          !entry.name.startsWith('Ax') &&
+          !nonModelFolders.includes(entry.name.toLowerCase()))
+        .map(entry => join(packagePath, entry.name));
+    } catch (error) {
+      return [];
+    }
+  }
+
   /**
    * Directly scan for AOT folders within a validated package structure
    * This is much faster as we know we're in the right location
@@ -197,7 +248,1024 @@ export class ObjectIndexManager {
     }
   }
 
-  static async buildFullIndex(forceRebuild: boolean = false): Promise<void> {
+  /**
+   * Collect every XML file inside the discovered AOT folders
+   * The model is the folder that owns the Ax* folder (PackageName/ModelName/AxClass)
+   * Modification time and size are read so incremental updates can skip unchanged files
+   */
+  static async collectAOTFiles(basePath: string, folderNames?: string[]): Promise<AOTFile[]> {
+    const aotFolders = await this.discoverAOTFolders(basePath);
+    const files: AOTFile[] = [];
+
+    for (const folderPath of aotFolders.keys()) {
+      const folder = basename(folderPath);
+      if (folderNames && !folderNames.includes(folder)) continue;
+
+      const model = basename(dirname(folderPath));
+      try {
+        const entries = await fs.readdir(folderPath, { withFileTypes: true });
+        for (const entry of entries) {
+          if (entry.isFile() && extname(entry.name).toLowerCase() === '.xml') {
+            const filePath = join(folderPath, entry.name);
+            const stats = await fs.stat(filePath);
+            files.push({
+              name: basename(entry.name, extname(entry.name)),
+              path: filePath,
+              model,
+              folder,
+              lastModified: Math.floor(stats.mtimeMs),
+              size: stats.size
+            });
+          }
+        }
+      } catch (error) {
+        // Skip folders we can't access
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Build the code index (X++ source full-text search, cross references) directly from AOT XML files
+   * Independent of the VS2022 service - only needs read access to the packages folder
+   */
+  static async buildCodeIndex(basePath?: string): Promise<{ files: number; blocks: number; references: number }> {
+    const xppPath = basePath || await this.getConfiguredXppPath();
+    if (!xppPath) {
+      console.warn('⚠️  No xppPath configured, skipping code index build');
+      return { files: 0, blocks: 0, references: 0 };
+    }
+
+    this.initializeSQLiteIndex();
+    if (!this.sqliteIndex) {
+      throw new Error('SQLite index not available for code indexing');
+    }
+
+    console.log(`📝 Building code index from ${xppPath}...`);
+    const startTime = Date.now();
+
+    // Every AOT file is recorded with its content hash (for incremental updates), only code index folders are parsed
+    const files = await this.collectAOTFiles(xppPath);
+    this.sqliteIndex.clearCodeIndex();
+
+    let blocks = 0;
+    let references = 0;
+    const batchSize = 500;
+    for (let i = 0; i < files.length; i += batchSize) {
+      const batch: Array<{ file: AOTFile; facts: FileFacts }> = [];
+      for (const file of files.slice(i, i + batchSize)) {
+        try {
+          const content = await fs.readFile(file.path, 'utf-8');
+          file.hash = hashContent(content);
+          const facts: FileFacts = CODE_INDEX_FOLDERS.includes(file.folder)
+            ? extractFileFacts(file, content)
+            : { sourceBlocks: [], references: [] };
+          blocks += facts.sourceBlocks.length;
+          references += facts.references.length;
+          batch.push({ file, facts });
+        } catch (error) {
+          // Skip files we can't read
+        }
+      }
+      // The index was cleared above, so there are no existing rows to remove per file
+      this.sqliteIndex.replaceFileFacts(batch, true);
+    }
+
+    console.log(`✅ Code index built: ${blocks} source blocks, ${references} references from ${files.length} files in ${Date.now() - startTime}ms`);
+    return { files: files.length, blocks, references };
+  }
+
+  /**
+   * Bring the code index up to date with the AOT files on disk
+   * Only files whose modification time or size changed are read; a changed file whose
+   * content hash is unchanged just gets its recorded mtime refreshed
+   */
+  static async updateCodeIndex(basePath?: string): Promise<IndexUpdateSummary> {
+    const startTime = Date.now();
+    const summary: IndexUpdateSummary = {
+      added: 0,
+      updated: 0,
+      removed: 0,
+      unchanged: 0,
+      changedModels: [],
+      deletedModels: [],
+      refreshedModels: [],
+      durationMs: 0
+    };
+
+    const xppPath = basePath || await this.getConfiguredXppPath();
+    if (!xppPath) {
+      console.warn('⚠️  No xppPath configured, skipping incremental code index update');
+      return summary;
+    }
+
+    this.initializeSQLiteIndex();
+    if (!this.sqliteIndex) {
+      throw new Error('SQLite index not available for code indexing');
+    }
+
+    console.log(`📝 Updating code index from ${xppPath}...`);
+    // Folders may have been added or removed since the last scan (e.g. after a pull)
+    aotFoldersCache.clear();
+    const files = await this.collectAOTFiles(xppPath);
+    const previous = this.sqliteIndex.getIndexedFiles();
+    const changedModels = new Set<string>();
+    const presentModels = new Set<string>();
+    const touched: AOTFile[] = [];
+    let batch: Array<{ file: AOTFile; facts: FileFacts }> = [];
+
+    for (const file of files) {
+      presentModels.add(file.model);
+      const state = previous.get(file.path);
+      previous.delete(file.path);
+
+      if (state && state.mtime === file.lastModified && state.size === file.size) {
+        summary.unchanged++;
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = await fs.readFile(file.path, 'utf-8');
+      } catch (error) {
+        // Skip files we can't read - they will be picked up by the next update
+        continue;
+      }
+
+      file.hash = hashContent(content);
+      if (state && state.hash === file.hash) {
+        touched.push(file);
+        summary.unchanged++;
+        continue;
+      }
+
+      if (state) {
+        summary.updated++;
+      } else {
+        summary.added++;
+      }
+      changedModels.add(file.model);
+      batch.push({ file, facts: extractFileFacts(file, content) });
+
+      if (batch.length >= 500) {
+        this.sqliteIndex.replaceFileFacts(batch);
+        batch = [];
+      }
+    }
+    this.sqliteIndex.replaceFileFacts(batch);
+    this.sqliteIndex.touchFiles(touched);
+
+    // Whatever is left in the previous state no longer exists on disk
+    const removed = Array.from(previous.values());
+    this.sqliteIndex.removeFiles(removed.map(state => state.path));
+    for (const state of removed) {
+      changedModels.add(state.model);
+    }
+
+    summary.removed = removed.length;
+    summary.changedModels = Array.from(changedModels).sort();
+    summary.deletedModels = summary.changedModels.filter(model => !presentModels.has(model));
+    summary.durationMs = Date.now() - startTime;
+
+    console.log(`✅ Code index updated: +${summary.added} ~${summary.updated} -${summary.removed} files (${summary.unchanged} unchanged) in ${summary.durationMs}ms`);
+    return summary;
+  }
+
+  /**
+   * Collect the label text files of every AxLabelFile folder (AxLabelFile/LabelResources/<language>/*.label.txt)
+   */
+  static async collectLabelFiles(basePath: string): Promise<LabelFileInfo[]> {
+    const aotFolders = await this.discoverAOTFolders(basePath);
+    const files: LabelFileInfo[] = [];
+
+    for (const folderPath of aotFolders.keys()) {
+      if (basename(folderPath) !== 'AxLabelFile') continue;
+
+      const model = basename(dirname(folderPath));
+      const resourcesPath = join(folderPath, 'LabelResources');
+      try {
+        const languages = await fs.readdir(resourcesPath, { withFileTypes: true });
+        for (const language of languages) {
+          if (!language.isDirectory()) continue;
+
+          for (const fileName of await fs.readdir(join(resourcesPath, language.name))) {
+            const parsed = parseLabelFileName(fileName);
+            if (!parsed) continue;
+
+            const filePath = join(resourcesPath, language.name, fileName);
+            const stats = await fs.stat(filePath);
+            files.push({ ...parsed, path: filePath, model, lastModified: Math.floor(stats.mtimeMs), size: stats.size });
+          }
+        }
+      } catch (error) {
+        // Label file descriptors without LabelResources - nothing to index
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Bring the label index up to date: only label files whose modification time or size changed are re-read
+   * Pass rebuild to drop all labels first
+   */
+  static async updateLabelIndex(basePath?: string, rebuild: boolean = false): Promise<{ files: number; updated: number; removed: number; labels: number }> {
+    const xppPath = basePath || await this.getConfiguredXppPath();
+    if (!xppPath) {
+      console.warn('⚠️  No xppPath configured, skipping label index build');
+      return { files: 0, updated: 0, removed: 0, labels: 0 };
+    }
+
+    this.initializeSQLiteIndex();
+    if (!this.sqliteIndex) {
+      throw new Error('SQLite index not available for label indexing');
+    }
+
+    console.log(`🏷️ Updating label index from ${xppPath}...`);
+    const startTime = Date.now();
+    if (rebuild) {
+      this.sqliteIndex.clearLabels();
+    }
+
+    const files = await this.collectLabelFiles(xppPath);
+    const previous = this.sqliteIndex.getLabelFiles();
+    let updated = 0;
+    let labels = 0;
+    let batch: Array<{ file: LabelFileInfo; labels: ParsedLabel[] }> = [];
+
+    for (const file of files) {
+      const state = previous.get(file.path);
+      previous.delete(file.path);
+      if (state && state.mtime === file.lastModified && state.size === file.size) continue;
+
+      try {
+        const parsed = parseLabelText(await fs.readFile(file.path, 'utf-8'));
+        batch.push({ file, labels: parsed });
+        labels += parsed.length;
+        updated++;
+      } catch (error) {
+        // Skip files we can't read - they will be picked up by the next update
+      }
+
+      // Label files are large (SYS has ~100k labels per language), keep transactions small
+      if (batch.length >= 20) {
+        this.sqliteIndex.replaceLabelFiles(batch);
+        batch = [];
+      }
+    }
+    this.sqliteIndex.replaceLabelFiles(batch);
+    this.sqliteIndex.removeLabelFiles(Array.from(previous.keys()));
+
+    console.log(`✅ Label index updated: ${updated} of ${files.length} label files read (${labels} labels), ${previous.size} removed in ${Date.now() - startTime}ms`);
+    return { files: files.length, updated, removed: previous.size, labels };
+  }
+
+  /**
+   * Texts of a label reference ("@SYS12345", "@MyLabels:Foo" or "MyLabels:Foo"), all languages unless one is given
+   */
+  static resolveLabel(reference: string, language?: string): { reference: LabelReference | null; labels: LabelRecord[] } {
+    const parsed = parseLabelReference(reference);
+    if (!parsed) {
+      return { reference: null, labels: [] };
+    }
+
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return { reference: parsed, labels: [] };
+    }
+
+    return { reference: parsed, labels: this.sqliteIndex.resolveLabel(parsed.labelFile, parsed.labelId, language) };
+  }
+
+  /**
+   * Labels whose text matches the query, best matches first
+   */
+  static searchLabels(query: string, options: LabelSearchOptions = {}): LabelSearchResult[] {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return [];
+    }
+
+    return this.sqliteIndex.searchLabels(query, options);
+  }
+
+  /**
+   * Append the label text after every label reference in a piece of text
+   */
+  static annotateLabels(text: string, language: string = DEFAULT_LABEL_LANGUAGE): string {
+    this.initializeSQLiteIndex();
+    const lookup = this.sqliteIndex;
+    if (!lookup) return text;
+
+    return annotateLabelReferences(text, reference => {
+      const parsed = parseLabelReference(reference);
+      const [label] = parsed ? lookup.resolveLabel(parsed.labelFile, parsed.labelId, language) : [];
+      return label ? label.text : null;
+    });
+  }
+
+  /**
+   * Incremental index build: update the code index from changed files and reload
+   * the object rows of changed models only (via the VS2022 service)
+   */
+  static async buildIncrementalIndex(basePath?: string, offline: boolean = false): Promise<IndexUpdateSummary> {
+    const startTime = Date.now();
+    const xppPath = basePath || await this.getConfiguredXppPath();
+    const summary = await this.updateCodeIndex(xppPath);
+    await this.updateLabelIndexSafely(xppPath);
+
+    // Models whose folders disappeared entirely lose all their objects
+    for (const model of summary.deletedModels) {
+      if (this.sqliteIndex!.replaceModelObjects(model, [])) {
+        summary.refreshedModels.push(model);
+      }
+    }
+
+    const modelsToReload = summary.changedModels.filter(model => !summary.deletedModels.includes(model));
+    if (modelsToReload.length > 0 && !offline) {
+      console.log(`🔄 Reloading objects for ${modelsToReload.length} changed models via VS2022 service...`);
+      try {
+        const chunkSize = 20;
+        for (let i = 0; i < modelsToReload.length; i += chunkSize) {
+          const results = await this.processModelsInParallel(modelsToReload.slice(i, i + chunkSize));
+          for (const result of results) {
+            if (result.success && this.sqliteIndex!.replaceModelObjects(result.modelName, result.objects)) {
+              summary.refreshedModels.push(result.modelName);
+            } else {
+              console.error(`   ❌ ${result.modelName}: ${result.error || 'object rows not refreshed'}`);
+            }
+          }
+        }
+      } catch (error) {
+        console.warn(`⚠️  Could not reload objects of changed models: ${(error as Error).message}`);
+      }
+    }
+
+    // Models the service could not reload are read from their AOT folders
+    const offlineModels = modelsToReload.filter(model => !summary.refreshedModels.includes(model));
+    if (offlineModels.length > 0 && xppPath) {
+      const objectsByModel = await this.collectOfflineObjects(xppPath, offlineModels);
+      for (const [model, objects] of objectsByModel) {
+        if (this.sqliteIndex!.replaceModelObjects(model, objects)) {
+          summary.refreshedModels.push(model);
+        }
+      }
+    }
+
+    summary.durationMs = Date.now() - startTime;
+    return summary;
+  }
+
+  /**
+   * Offline indexer: object rows read straight from the AOT folders, without the VS2022 service
+   * Produces the same ObjectLocation rows as the service-based model workers, grouped by model -
+   * configured AOT folders of object types the service does not list are skipped
+   */
+  static async collectOfflineObjects(basePath: string, modelNames?: string[]): Promise<Map<string, ObjectLocation[]>> {
+    const patterns = await this.getAOTPatterns();
+    const folders = Array.from(patterns.keys()).filter(folder => SERVICE_OBJECT_FOLDERS.includes(folder));
+    const files = await this.collectAOTFiles(basePath, folders);
+    const wantedModels = modelNames ? new Set(modelNames.map(model => model.toLowerCase())) : null;
+
+    const objectsByModel = new Map<string, ObjectLocation[]>();
+    for (const file of files) {
+      if (wantedModels && !wantedModels.has(file.model.toLowerCase())) continue;
+
+      if (!objectsByModel.has(file.model)) {
+        objectsByModel.set(file.model, []);
+      }
+      objectsByModel.get(file.model)!.push(toObjectLocation(file));
+    }
+
+    return objectsByModel;
+  }
+
+  /**
+   * Build the object index from PackagesLocalDirectory/<Package>/<Model>/Ax* folders
+   * Works without the VS2022 service (Linux build agents, containers with a checked-out codebase)
+   */
+  static async buildOfflineIndex(basePath?: string): Promise<{ models: number; objects: number }> {
+    const xppPath = basePath || await this.getConfiguredXppPath();
+    if (!xppPath) {
+      throw new Error('No xppPath configured - offline indexing needs the PackagesLocalDirectory path');
+    }
+
+    this.initializeSQLiteIndex();
+    if (!this.sqliteIndex) {
+      throw new Error('SQLite index not available for offline indexing');
+    }
+
+    console.log(`📂 Offline indexing of AOT folders in ${xppPath}...`);
+    const startTime = Date.now();
+
+    const objectsByModel = await this.collectOfflineObjects(xppPath);
+    let totalObjects = 0;
+    for (const [model, objects] of objectsByModel) {
+      this.sqliteIndex.replaceModelObjects(model, objects);
+      totalObjects += objects.length;
+      console.log(`   ✅ ${model}: ${objects.length} objects`);
+    }
+
+    console.log(`🎉 Offline indexing complete: ${totalObjects} objects from ${objectsByModel.size} models in ${Date.now() - startTime}ms`);
+    return { models: objectsByModel.size, objects: totalObjects };
+  }
+
+  /**
+   * AOT folder name -> object type for every folder in the AOT structure configuration
+   */
+  private static async getAOTPatterns(): Promise<Map<string, string>> {
+    if (!aotPatternsCache) {
+      const folders = await AOTStructureManager.getAOTDirectories();
+      aotPatternsCache = new Map(folders.map(folder => [folder, objectTypeForFolder(folder)]));
+    }
+    return aotPatternsCache;
+  }
+
+  /**
+   * Apply changes of individual AOT files to the object index and the code index
+   * Existing files are (re)inserted, missing files are deleted. Only object types the VS2022
+   * service produces get object rows, so a watched index never drifts from a service-built one
+   */
+  static async applyFileChanges(changes: Array<{ file: AOTFile; exists: boolean }>): Promise<{ inserted: number; deleted: number }> {
+    this.initializeSQLiteIndex();
+    if (!this.sqliteIndex) {
+      throw new Error('SQLite index not available for applying file changes');
+    }
+
+    let inserted = 0;
+    let deleted = 0;
+    const factsBatch: Array<{ file: AOTFile; facts: FileFacts }> = [];
+    const removedPaths: string[] = [];
+
+    for (const { file, exists } of changes) {
+      const location = toObjectLocation(file);
+      const isServiceObject = SERVICE_OBJECT_FOLDERS.includes(file.folder);
+      if (exists) {
+        if (isServiceObject && this.sqliteIndex.insertObject(location)) inserted++;
+        try {
+          const content = await fs.readFile(file.path, 'utf-8');
+          file.hash = hashContent(content);
+          factsBatch.push({ file, facts: extractFileFacts(file, content) });
+        } catch (error) {
+          // File vanished between the event and the read - the next event removes it
+        }
+      } else {
+        if (isServiceObject && this.sqliteIndex.deleteObject(location.name, location.type, location.model)) deleted++;
+        removedPaths.push(file.path);
+      }
+    }
+
+    this.sqliteIndex.replaceFileFacts(factsBatch);
+    this.sqliteIndex.removeFiles(removedPaths);
+    return { inserted, deleted };
+  }
+
+  /**
+   * Full-text search over indexed X++ method bodies
+   */
+  static searchCode(query: string, options: SourceSearchOptions = {}): SourceSearchResult[] {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return [];
+    }
+
+    return this.sqliteIndex.searchSource(query, options);
+  }
+
+  /**
+   * Find where an object is used (declarations, selects, static calls, EDT/relation properties, ...)
+   */
+  static findReferences(objectName: string, options: ReferenceSearchOptions = {}): ReferenceSearchResult[] {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return [];
+    }
+
+    return this.sqliteIndex.findReferences(objectName, options);
+  }
+
+  /**
+   * Metadata extensions and Chain-of-Command classes of an object
+   */
+  static findExtensions(baseName: string, options: ExtensionSearchOptions = {}): ExtensionRecord[] {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return [];
+    }
+
+    return this.sqliteIndex.findExtensions(baseName, options);
+  }
+
+  /**
+   * Event handler methods subscribed to an object, plus the delegates the object declares
+   */
+  static findEventSubscribers(targetName: string, options: EventSubscriberOptions = {}): { subscribers: EventSubscriberRecord[]; delegates: DelegateRecord[] } {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return { subscribers: [], delegates: [] };
+    }
+
+    return {
+      subscribers: this.sqliteIndex.findEventSubscribers(targetName, options),
+      delegates: this.sqliteIndex.findDelegates(targetName)
+    };
+  }
+
+  /**
+   * Ancestors, interfaces, subclasses and implementers of a class or interface
+   */
+  static getClassHierarchy(className: string): ClassHierarchy | null {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return null;
+    }
+
+    return getClassHierarchy(this.sqliteIndex, className);
+  }
+
+  /**
+   * Roles granting an entry point, or the entry points a role, duty or privilege grants
+   */
+  static traceSecurity(name: string, options: SecurityTraceOptions = {}): SecurityTrace | null {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return null;
+    }
+
+    return traceSecurity(this.sqliteIndex, name, options);
+  }
+
+  /**
+   * Menu items opening an object and the menu breadcrumbs leading to them
+   */
+  static findNavigationPaths(target: string, options: { objectType?: string } = {}): NavigationResult | null {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return null;
+    }
+
+    return findNavigationPaths(this.sqliteIndex, target, options);
+  }
+
+  /**
+   * Shortest relation chains joining two tables, with the matching X++ select
+   */
+  static findJoinPaths(fromTable: string, toTable: string, options: JoinPathOptions = {}): JoinPathResult | null {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      console.warn('⚠️  SQLite index not available');
+      return null;
+    }
+
+    return findJoinPaths(this.sqliteIndex, fromTable, toTable, options);
+  }
+
+  /**
+   * AOT XML file of an object, from the code index file records
+   * The packages folder is only scanned when the code index was never built - with a populated
+   * index a miss means the object has no AOT file (e.g. kernel classes)
+   */
+  static async findAOTFile(objectName: string, folder: string, basePath?: string): Promise<AOTFile | null> {
+    this.initializeSQLiteIndex();
+
+    const [indexed] = this.sqliteIndex ? this.sqliteIndex.findIndexedFiles(objectName, folder) : [];
+    if (indexed && await this.fileExists(indexed.path)) {
+      return { name: basename(indexed.path, extname(indexed.path)), path: indexed.path, model: indexed.model, folder };
+    }
+    if (this.sqliteIndex?.hasIndexedFiles()) return null;
+
+    const xppPath = basePath || await this.getConfiguredXppPath();
+    if (!xppPath) return null;
+
+    const files = await this.collectAOTFiles(xppPath, [folder]);
+    return files.find(file => file.name.toLowerCase() === objectName.toLowerCase()) || null;
+  }
+
+  /**
+   * Data entity with its extensions merged, every field resolved to its datasource table and field
+   */
+  static async getDataEntity(entityName: string, basePath?: string): Promise<(DataEntityDefinition & { model: string; path: string }) | null> {
+    const file = await this.findAOTFile(entityName, 'AxDataEntityView', basePath);
+    if (!file) return null;
+
+    const entity = parseDataEntity(file.name, await fs.readFile(file.path, 'utf-8'));
+    for (const extension of this.findExtensions(file.name, { baseType: objectTypeForFolder('AxDataEntityView') })) {
+      if (extension.kind !== 'metadata') continue;
+      try {
+        mergeDataEntityExtension(entity, extension.extensionName, await fs.readFile(extension.path, 'utf-8'));
+      } catch (error) {
+        // Extension file removed since the last index update
+      }
+    }
+
+    // Field names of every datasource table, including fields added by table extensions
+    const tableFields = new Map<string, Set<string>>();
+    const tables = new Set(entity.dataSources.map(ds => ds.table).filter((table): table is string => !!table));
+    for (const table of tables) {
+      const tableFile = await this.findAOTFile(table, 'AxTable', basePath);
+      if (!tableFile) continue;
+
+      const names = parseTableFieldNames(await fs.readFile(tableFile.path, 'utf-8'));
+      for (const extension of this.findExtensions(table, { baseType: objectTypeForFolder('AxTable') })) {
+        if (extension.kind !== 'metadata') continue;
+        try {
+          names.push(...parseTableFieldNames(await fs.readFile(extension.path, 'utf-8')));
+        } catch (error) {
+          // Extension file removed since the last index update
+        }
+      }
+      tableFields.set(table.toLowerCase(), new Set(names.map(name => name.toLowerCase())));
+    }
+
+    return { ...verifyFieldMappings(entity, tableFields), model: file.model, path: file.path };
+  }
+
+  /**
+   * Enum values merged with the values of every enum extension, with naming and value conflicts
+   */
+  static async getEffectiveEnum(enumName: string, basePath?: string): Promise<EffectiveEnum | null> {
+    const file = await this.findAOTFile(enumName, 'AxEnum', basePath);
+    if (!file) return null;
+
+    const extensions: Array<{ name: string; model: string; path: string; content: string }> = [];
+    for (const extension of this.findExtensions(file.name, { baseType: objectTypeForFolder('AxEnum') })) {
+      if (extension.kind !== 'metadata') continue;
+      try {
+        extensions.push({ name: extension.extensionName, model: extension.model, path: extension.path, content: await fs.readFile(extension.path, 'utf-8') });
+      } catch (error) {
+        // Extension file removed since the last index update
+      }
+    }
+
+    return mergeEnumExtensions({ name: file.name, model: file.model, path: file.path, content: await fs.readFile(file.path, 'utf-8') }, extensions);
+  }
+
+  /**
+   * Effective properties of an EDT, or of a table field given as Table.Field, along the Extends chain
+   * Property modifications of EDT extensions apply to the EDT they extend.
+   */
+  static async resolveEdt(name: string, basePath?: string): Promise<ResolvedEdt | null> {
+    const levels: EdtLevel[] = [];
+    let edtName: string | null = name;
+
+    const [tableName, fieldName] = name.includes('.') ? name.split('.') : [null, null];
+    if (tableName && fieldName) {
+      const tableFile = await this.findAOTFile(tableName, 'AxTable', basePath);
+      const field = tableFile ? parseTableField(await fs.readFile(tableFile.path, 'utf-8'), fieldName) : null;
+      if (!tableFile || !field) return null;
+
+      levels.push({ kind: 'field', name: `${tableFile.name}.${fieldName}`, model: tableFile.model, path: tableFile.path, ...field, extensions: [] });
+      edtName = field.extendsName;
+    }
+
+    const visited = new Set<string>();
+    let missingParent: string | null = null;
+    let cycle = false;
+    while (edtName) {
+      if (visited.has(edtName.toLowerCase()) || visited.size >= MAX_EDT_CHAIN_DEPTH) {
+        cycle = true;
+        break;
+      }
+      visited.add(edtName.toLowerCase());
+
+      const file = await this.findAOTFile(edtName, 'AxEdt', basePath);
+      if (!file) {
+        missingParent = edtName;
+        break;
+      }
+
+      const level: EdtLevel = { kind: 'edt', name: file.name, model: file.model, path: file.path, ...parseEdt(await fs.readFile(file.path, 'utf-8')), extensions: [] };
+      for (const extension of this.findExtensions(file.name, { baseType: objectTypeForFolder('AxEdt') })) {
+        if (extension.kind !== 'metadata') continue;
+        try {
+          level.extensions.push({ name: extension.extensionName, model: extension.model, properties: parsePropertyModifications(await fs.readFile(extension.path, 'utf-8')) });
+        } catch (error) {
+          // Extension file removed since the last index update
+        }
+      }
+      levels.push(level);
+      edtName = level.extendsName;
+    }
+
+    if (levels.length === 0) return null;
+    return resolveEdtLevels(name, levels, { missingParent, cycle });
+  }
+
+  /**
+   * Run the X++ lint rules on one object
+   * Without objectType the source folders are searched in order (AxClass, AxTable, AxForm, ...);
+   * with model the object is taken from that model when several models define it
+   */
+  static async lintObject(objectName: string, options: { objectType?: string; model?: string; rules?: LintRuleId[] } = {}, basePath?: string): Promise<LintReport | null> {
+    const file = await this.findSourceFile(objectName, options.objectType, options.model, basePath);
+    if (!file) return null;
+
+    const result = await this.lintFile(file, options.rules, new Map(), createCocBaseCache(), basePath);
+    return summarizeLint([{ name: file.name, objectType: file.folder, model: file.model, path: file.path }], result.diagnostics, result.suppressed);
+  }
+
+  /**
+   * Run the X++ lint rules on every object with source code in a model
+   */
+  static async lintModel(model: string, options: { rules?: LintRuleId[] } = {}, basePath?: string): Promise<LintReport> {
+    const files = await this.listSourceFiles(model, basePath);
+    const configs = new Map<string, LintConfig>();
+    const cocBases = createCocBaseCache();
+    const objects: LintReport['objects'] = [];
+    const diagnostics: LintDiagnostic[] = [];
+    let suppressed = 0;
+    for (const file of files) {
+      try {
+        const result = await this.lintFile(file, options.rules, configs, cocBases, basePath);
+        objects.push({ name: file.name, objectType: file.folder, model: file.model, path: file.path });
+        diagnostics.push(...result.diagnostics);
+        suppressed += result.suppressed;
+      } catch (error) {
+        // File removed since the last index update
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    return summarizeLint(objects, diagnostics, suppressed);
+  }
+
+  /**
+   * Lines of code, complexity, nesting depth and parameter counts of one object or every object of a model
+   * Returns null when the object is not found
+   */
+  static async getCodeMetrics(
+    options: { objectName?: string; objectType?: string; model?: string; thresholds?: Partial<MetricThresholds> },
+    basePath?: string
+  ): Promise<CodeMetricsReport | null> {
+    let files: AOTFile[];
+    if (options.objectName) {
+      const file = await this.findSourceFile(options.objectName, options.objectType, options.model, basePath);
+      if (!file) return null;
+      files = [file];
+    } else if (options.model) {
+      files = await this.listSourceFiles(options.model, basePath);
+    } else {
+      throw new Error('objectName or model is required');
+    }
+
+    const objects: ObjectMetrics[] = [];
+    for (const file of files) {
+      try {
+        objects.push(measureObject({ ...file, content: await fs.readFile(file.path, 'utf-8') }));
+      } catch (error) {
+        // File removed since the last index update
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    return buildMetricsReport(objects, { ...DEFAULT_METRIC_THRESHOLDS, ...options.thresholds });
+  }
+
+  /**
+   * AOT file of an object with X++ source
+   * Without objectType the source folders are searched in order; with model only that model's object is returned
+   */
+  private static async findSourceFile(objectName: string, objectType?: string, model?: string, basePath?: string): Promise<AOTFile | null> {
+    this.initializeSQLiteIndex();
+
+    const inModel = (candidate: { model: string }) => !model || candidate.model.toLowerCase() === model.toLowerCase();
+    for (const folder of objectType ? [objectType] : SOURCE_CODE_FOLDERS) {
+      const indexed = this.sqliteIndex?.findIndexedFiles(objectName, folder).find(inModel);
+      const file = indexed && await this.fileExists(indexed.path)
+        ? { name: basename(indexed.path, extname(indexed.path)), path: indexed.path, model: indexed.model, folder }
+        : await this.findAOTFile(objectName, folder, basePath);
+      if (file && inModel(file)) return file;
+    }
+    return null;
+  }
+
+  /**
+   * AOT files with X++ source in a model, sorted by folder and name
+   */
+  private static async listSourceFiles(model: string, basePath?: string): Promise<AOTFile[]> {
+    this.initializeSQLiteIndex();
+
+    let files: AOTFile[] = Array.from(this.sqliteIndex?.getIndexedFiles().values() || [])
+      .filter(state => state.model.toLowerCase() === model.toLowerCase() && SOURCE_CODE_FOLDERS.includes(state.folder))
+      .map(state => ({ name: basename(state.path, extname(state.path)), path: state.path, model: state.model, folder: state.folder }));
+    if (files.length === 0) {
+      const xppPath = basePath || await this.getConfiguredXppPath();
+      files = xppPath
+        ? (await this.collectAOTFiles(xppPath, SOURCE_CODE_FOLDERS)).filter(file => file.model.toLowerCase() === model.toLowerCase())
+        : [];
+    }
+    return files.sort((a, b) => a.folder.localeCompare(b.folder) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Lint one AOT file with the xpp-lint.json of its model folder
+   * Configs and CoC base methods are cached across files
+   */
+  private static async lintFile(
+    file: AOTFile,
+    rules: LintRuleId[] | undefined,
+    configs: Map<string, LintConfig>,
+    cocBases: CocBaseCache,
+    basePath?: string
+  ): Promise<{ diagnostics: LintDiagnostic[]; suppressed: number }> {
+    const content = await fs.readFile(file.path, 'utf-8');
+
+    // PackageName/ModelName/AxClass/Object.xml
+    const modelFolder = dirname(dirname(file.path));
+    if (!configs.has(modelFolder)) {
+      const configPath = join(modelFolder, LINT_CONFIG_FILE);
+      configs.set(modelFolder, await this.fileExists(configPath)
+        ? parseLintConfig(await fs.readFile(configPath, 'utf-8'), configPath)
+        : { rules: {}, suppressions: [] });
+    }
+
+    const target = file.folder === 'AxClass' ? extensionTargetOf(content) : null;
+    const cocBase = target ? await this.resolveCocBase(target, cocBases, basePath) : null;
+
+    return lintObject({ ...file, content }, { config: configs.get(modelFolder), rules, cocBase });
+  }
+
+  /**
+   * Check every [ExtensionOf] class against the class, table or form it extends
+   * Pick the classes by name, by the object they extend, by model, or a combination;
+   * returns null when className is given and not found
+   */
+  static async checkChainOfCommand(
+    options: { className?: string; baseName?: string; model?: string },
+    basePath?: string
+  ): Promise<CocExtensionReport[] | null> {
+    let files: AOTFile[];
+    if (options.className) {
+      const file = await this.findSourceFile(options.className, 'AxClass', options.model, basePath);
+      if (!file) return null;
+      files = [file];
+    } else if (options.baseName) {
+      files = this.findExtensions(options.baseName, { model: options.model })
+        .filter(extension => extension.kind === 'coc')
+        .map(extension => ({ name: extension.extensionName, path: extension.path, model: extension.model, folder: extension.extensionType }));
+    } else if (options.model) {
+      files = (await this.listSourceFiles(options.model, basePath)).filter(file => file.folder === 'AxClass');
+    } else {
+      throw new Error('className, baseName or model is required');
+    }
+
+    const cocBases = createCocBaseCache();
+    const reports: CocExtensionReport[] = [];
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await fs.readFile(file.path, 'utf-8');
+      } catch (error) {
+        // Class removed since the last index update
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw error;
+      }
+
+      const target = extensionTargetOf(content);
+      if (!target) continue;
+      const report = checkCocExtension({ ...file, content }, await this.resolveCocBase(target, cocBases, basePath));
+      if (report && (!options.baseName || report.baseName.toLowerCase() === options.baseName.toLowerCase())) reports.push(report);
+    }
+
+    return reports;
+  }
+
+  /**
+   * Methods of the object a CoC class extends: its own, those inherited from parent classes
+   * and the kernel methods of its type; null when the base object is not found
+   * Results, and objects along the parent chain that were not found, are cached in cocBases for the rest of a run
+   */
+  private static async resolveCocBase(
+    target: { baseName: string; baseType: string; baseMember: string | null },
+    cocBases: CocBaseCache,
+    basePath?: string
+  ): Promise<CocBase | null> {
+    const key = `${target.baseType}/${target.baseName}/${target.baseMember || ''}`.toLowerCase();
+    if (cocBases.bases.has(key)) return cocBases.bases.get(key) || null;
+
+    const folder = SOURCE_CODE_FOLDERS.find(candidate => objectTypeForFolder(candidate) === target.baseType);
+    const base: CocBase = new Map();
+    const visited = new Set<string>();
+    let name: string | null = folder ? target.baseName : null;
+    while (folder && name && !visited.has(name.toLowerCase())) {
+      const fileKey = `${folder}/${name}`.toLowerCase();
+      const file = cocBases.missing.has(fileKey) ? null : await this.findAOTFile(name, folder, basePath);
+      if (!file) {
+        cocBases.missing.add(fileKey);
+        break;
+      }
+      visited.add(name.toLowerCase());
+      const parent = readCocBaseMethods({ name: file.name, folder, content: await fs.readFile(file.path, 'utf-8') }, target.baseMember, base);
+      // Only classes inherit methods from indexed source; tables and forms extend kernel types
+      name = folder === 'AxClass' ? parent : null;
+    }
+
+    const resolved = visited.size > 0 ? base : null;
+    cocBases.bases.set(key, resolved);
+    return resolved;
+  }
+
+  /**
+   * Number of source blocks in the code index
+   */
+  static getCodeIndexCount(): number {
+    this.initializeSQLiteIndex();
+    return this.sqliteIndex ? this.sqliteIndex.getCodeIndexCount() : 0;
+  }
+
+  /**
+   * Write a compressed snapshot of the index that other machines can import
+   */
+  static async exportIndex(snapshotPath: string = 'cache/object-index-snapshot.db.gz'): Promise<SnapshotExportResult> {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      throw new Error('SQLite index not available');
+    }
+
+    const result = await this.sqliteIndex.exportSnapshot(snapshotPath, await this.getConfiguredXppPath() || null);
+    console.log(`📦 Exported ${result.manifest.objects} objects to ${result.path} (${result.bytes} bytes)`);
+    return result;
+  }
+
+  /**
+   * Replace the index with a snapshot, remapping indexed file paths to targetRoot (defaults to the configured xppPath)
+   */
+  static async importIndex(snapshotPath: string, targetRoot?: string): Promise<SnapshotImportResult> {
+    this.initializeSQLiteIndex();
+
+    if (!this.sqliteIndex) {
+      throw new Error('SQLite index not available');
+    }
+
+    const result = await this.sqliteIndex.importSnapshot(snapshotPath, targetRoot || await this.getConfiguredXppPath() || null);
+    aotFoldersCache.clear();
+    console.log(`📥 Imported ${result.manifest.objects} objects from ${snapshotPath} (${result.remappedRows} paths remapped)`);
+    return result;
+  }
+
+  /**
+   * Compare the objects of two indexes
+   * Each side is 'current' (the active index), 'live' (a scan of livePath or the configured xppPath),
+   * or the path of an object database or index snapshot
+   */
+  static async diffIndex(base: string, target: string = 'live', filter: IndexDiffFilter & { livePath?: string } = {}): Promise<IndexDiff> {
+    const baseObjects = await this.loadDiffSource(base, filter.livePath);
+    const targetObjects = await this.loadDiffSource(target, filter.livePath);
+    return diffObjects(baseObjects, targetObjects, { base, target }, filter);
+  }
+
+  private static async loadDiffSource(source: string, livePath?: string): Promise<ObjectLocation[]> {
+    if (source === 'current') {
+      this.initializeSQLiteIndex();
+      if (!this.sqliteIndex) {
+        throw new Error('SQLite index not available');
+      }
+      return this.sqliteIndex.getAllObjects();
+    }
+
+    if (source === 'live') {
+      const xppPath = livePath || await this.getConfiguredXppPath();
+      if (!xppPath) {
+        throw new Error('No xppPath configured - a live scan needs the PackagesLocalDirectory path');
+      }
+      const objectsByModel = await this.collectOfflineObjects(xppPath);
+      return Array.from(objectsByModel.values()).flat();
+    }
+
+    return readObjectsFromDatabase(source);
+  }
+
+  /**
+   * Resolve the configured PackagesLocalDirectory path
+   */
+  private static async getConfiguredXppPath(): Promise<string | undefined> {
+    // Import AppConfig dynamically to avoid circular dependencies
+    const { AppConfig } = await import('./app-config.js');
+    return AppConfig.getXppPath();
+  }
+
+  static async buildFullIndex(forceRebuild: boolean = false, offline: boolean = false): Promise<void> {
     try {
       this.initializeSQLiteIndex();
     } catch (error) {
@@ -218,10 +1286,20 @@ export class ObjectIndexManager {
       const totalCount = SQLiteObjectLookup.safeGetTotalCount();
       if (totalCount > 0) {
         console.log(`📊 SQLite index already has ${totalCount} objects, skipping rebuild`);
+        if (this.sqliteIndex && this.sqliteIndex.getCodeIndexCount() === 0) {
+          await this.buildCodeIndexSafely();
+        }
         return;
       }
     }
 
+    // Offline mode reads the AOT folders directly and never contacts the service
+    if (offline) {
+      await this.buildOfflineIndex();
+      await this.buildCodeIndexSafely();
+      return;
+    }
+
     // Try DLL-based indexing via VS2022 service with parallel processing
     try {
       console.log('🚀 Attempting DLL-based indexing via VS2022 service with parallel processing...');
@@ -288,7 +1366,37 @@ export class ObjectIndexManager {
       
     } catch (error) {
       console.warn(`⚠️  DLL-based indexing failed, falling back to file-based: ${(error as Error).message}`);
-      // Could add file-based fallback here if needed
+      try {
+        await this.buildOfflineIndex();
+      } catch (offlineError) {
+        console.warn(`⚠️  Offline indexing failed: ${(offlineError as Error).message}`);
+      }
+    }
+
+    // Source code index is built from the XML files and does not depend on the service
+    await this.buildCodeIndexSafely();
+  }
+
+  /**
+   * Build the code index without failing the surrounding object index build
+   */
+  private static async buildCodeIndexSafely(): Promise<void> {
+    try {
+      await this.buildCodeIndex();
+    } catch (error) {
+      console.warn(`⚠️  Code index build failed: ${(error as Error).message}`);
+    }
+    await this.updateLabelIndexSafely();
+  }
+
+  /**
+   * Update the label index without failing the surrounding index build
+   */
+  private static async updateLabelIndexSafely(basePath?: string): Promise<void> {
+    try {
+      await this.updateLabelIndex(basePath);
+    } catch (error) {
+      console.warn(`⚠️  Label index update failed: ${(error as Error).message}`);
     }
   }
 
@@ -3,6 +3,10 @@ import { basename, extname } from "path";
 import { xppObjectCache } from "./cache.js";
 import { AOTStructureManager } from "./aot-structure.js";
 import { SQLiteObjectLookup } from "./sqlite-lookup.js";
+import { AppConfig } from "./app-config.js";
+import { AotSource, parseAxClassXml, parseAxTableXml } from "./aot-xml.js";
+import { parseXppSource } from "./xpp-parser.js";
+import type { SourceSpan, XppClassDeclaration, XppTypeReference } from "./xpp-ast.js";
 
 /**
  * Determine X++ object type based on file path using dynamic structure
@@ -23,7 +27,10 @@ export function getXppObjectType(filepath: string): string {
 }
 
 /**
- * Parse X++ class file to extract methods, properties, and inheritance
+ * Parse an X++ class to extract methods, properties, and inheritance
+ * Accepts AxClass XML (declaration and method CDATA blocks) as well as plain .xpp source.
+ * Structure comes from the X++ parser, so statements and local variables inside method bodies
+ * are never mistaken for methods or class fields
  */
 export async function parseXppClass(filepath: string): Promise<any> {
   const cacheKey = `class_${filepath}`;
@@ -33,83 +40,30 @@ export async function parseXppClass(filepath: string): Promise<any> {
 
   try {
     const content = await fs.readFile(filepath, "utf-8");
-    const className = basename(filepath, ".xpp");
-    
+    const isXml = extname(filepath).toLowerCase() === ".xml";
+    const object = isXml ? parseAxClassXml(content) : null;
+    const blocks = object
+      ? [...(object.declaration ? [object.declaration] : []), ...object.methods]
+      : [{ source: content, startLine: 1 }];
+    const described = describeSourceBlocks(blocks);
+    const declaration = described.declaration;
+    const modifiers = declaration?.modifiers || [];
+
     const classInfo = {
-      name: className,
-      type: "class",
-      extends: null as string | null,
-      implements: [] as string[],
-      methods: [] as any[],
-      properties: [] as any[],
-      attributes: [] as string[],
-      isAbstract: false,
-      isFinal: false,
-      isPublic: true,
+      name: object?.name || declaration?.name || basename(filepath, extname(filepath)),
+      type: declaration?.kind || "class",
+      extends: declaration?.extends || null,
+      implements: declaration?.implements || [],
+      methods: described.methods,
+      properties: described.properties,
+      attributes: described.attributes,
+      isAbstract: modifiers.includes('abstract'),
+      isFinal: modifiers.includes('final'),
+      isPublic: isPublicMember(modifiers),
+      diagnostics: described.diagnostics,
       path: filepath
     };
 
-    // Parse class declaration
-    const classDeclarationMatch = content.match(/(?:public\s+)?(?:abstract\s+)?(?:final\s+)?class\s+(\w+)(?:\s+extends\s+(\w+))?(?:\s+implements\s+([^{]+))?/i);
-    if (classDeclarationMatch) {
-      classInfo.name = classDeclarationMatch[1];
-      classInfo.extends = classDeclarationMatch[2] || null;
-      if (classDeclarationMatch[3]) {
-        classInfo.implements = classDeclarationMatch[3].split(',').map(i => i.trim());
-      }
-    }
-
-    // Check for class modifiers
-    classInfo.isAbstract = /\babstract\s+class\b/i.test(content);
-    classInfo.isFinal = /\bfinal\s+class\b/i.test(content);
-
-    // Parse attributes
-    const attributeMatches = content.match(/\[([^\]]+)\]/g);
-    if (attributeMatches) {
-      classInfo.attributes = attributeMatches.map(attr => attr.slice(1, -1));
-    }
-
-    // Parse methods (enhanced regex for X++ method patterns)
-    const methodRegex = /(?:public|private|protected|static)?\s*(?:final\s+)?(?:static\s+)?(?:void|int|str|boolean|real|date|utcdatetime|guid|[\w\[\]]+)\s+(\w+)\s*\(([^)]*)\)(?:\s*:\s*([^{]+))?/g;
-    let methodMatch;
-    while ((methodMatch = methodRegex.exec(content)) !== null) {
-      const methodName = methodMatch[1];
-      const parameters = methodMatch[2];
-      const returnType = methodMatch[3] || 'void';
-      
-      // Parse parameters
-      const params = parameters ? parameters.split(',').map(param => {
-        const paramParts = param.trim().split(/\s+/);
-        return {
-          type: paramParts[0] || 'var',
-          name: paramParts[1] || 'unknown',
-          isOptional: param.includes('=')
-        };
-      }) : [];
-
-      classInfo.methods.push({
-        name: methodName,
-        parameters: params,
-        returnType: returnType.trim(),
-        isStatic: /\bstatic\b/i.test(methodMatch[0]),
-        isPublic: /\bpublic\b/i.test(methodMatch[0]) || !/\b(private|protected)\b/i.test(methodMatch[0]),
-        isPrivate: /\bprivate\b/i.test(methodMatch[0]),
-        isProtected: /\bprotected\b/i.test(methodMatch[0])
-      });
-    }
-
-    // Parse properties/fields
-    const propertyRegex = /(?:public|private|protected)?\s*(?:static\s+)?([\w\[\]]+)\s+(\w+)(?:\s*=\s*[^;]+)?;/g;
-    let propertyMatch;
-    while ((propertyMatch = propertyRegex.exec(content)) !== null) {
-      classInfo.properties.push({
-        type: propertyMatch[1],
-        name: propertyMatch[2],
-        isStatic: /\bstatic\b/i.test(propertyMatch[0]),
-        isPublic: /\bpublic\b/i.test(propertyMatch[0]) || !/\b(private|protected)\b/i.test(propertyMatch[0])
-      });
-    }
-
     xppObjectCache.set(cacheKey, classInfo);
     return classInfo;
   } catch (error) {
@@ -134,6 +88,7 @@ export async function parseXppTable(filepath: string): Promise<any> {
       name: tableName,
       type: "table",
       fields: [] as any[],
+      fieldGroups: [] as any[],
       indexes: [] as any[],
       relations: [] as any[],
       methods: [] as any[],
@@ -143,46 +98,30 @@ export async function parseXppTable(filepath: string): Promise<any> {
 
     // Parse XML content for table structure
     if (content.includes('<AxTable')) {
-      // Extract table properties
-      const labelMatch = content.match(/<Label>([^<]+)<\/Label>/);
-      if (labelMatch) tableInfo.properties.label = labelMatch[1];
+      const table = parseAxTableXml(content);
+      tableInfo.name = table.name || tableName;
+      tableInfo.properties = {
+        ...table.properties,
+        label: table.properties.Label,
+        helpText: table.properties.HelpText
+      };
 
-      const helpTextMatch = content.match(/<HelpText>([^<]+)<\/HelpText>/);
-      if (helpTextMatch) tableInfo.properties.helpText = helpTextMatch[1];
-
-      // Extract fields
-      const fieldMatches = content.match(/<AxTableField[^>]*>[\s\S]*?<\/AxTableField>/g);
-      if (fieldMatches) {
-        for (const fieldMatch of fieldMatches) {
-          const nameMatch = fieldMatch.match(/<Name>([^<]+)<\/Name>/);
-          const typeMatch = fieldMatch.match(/<ExtendedDataType>([^<]+)<\/ExtendedDataType>/);
-          const labelMatch = fieldMatch.match(/<Label>([^<]+)<\/Label>/);
-          
-          if (nameMatch) {
-            tableInfo.fields.push({
-              name: nameMatch[1],
-              type: typeMatch ? typeMatch[1] : 'Unknown',
-              label: labelMatch ? labelMatch[1] : ''
-            });
-          }
-        }
-      }
-
-      // Extract indexes
-      const indexMatches = content.match(/<AxTableIndex[^>]*>[\s\S]*?<\/AxTableIndex>/g);
-      if (indexMatches) {
-        for (const indexMatch of indexMatches) {
-          const nameMatch = indexMatch.match(/<Name>([^<]+)<\/Name>/);
-          const uniqueMatch = indexMatch.match(/<AllowDuplicates>([^<]+)<\/AllowDuplicates>/);
-          
-          if (nameMatch) {
-            tableInfo.indexes.push({
-              name: nameMatch[1],
-              unique: uniqueMatch ? uniqueMatch[1] === 'No' : false
-            });
-          }
-        }
-      }
+      tableInfo.fields = table.fields.map(field => ({
+        name: field.name,
+        type: field.extendedDataType || field.enumType || field.type || 'Unknown',
+        baseType: field.type,
+        label: field.properties.Label || ''
+      }));
+      tableInfo.fieldGroups = table.fieldGroups;
+      // AllowDuplicates is only written when set, so indexes are unique by default
+      tableInfo.indexes = table.indexes.map(index => ({
+        name: index.name,
+        unique: !index.allowDuplicates,
+        alternateKey: index.alternateKey,
+        fields: index.fields
+      }));
+      tableInfo.relations = table.relations;
+      tableInfo.methods = describeSourceBlocks(table.methods).methods;
     }
 
     xppObjectCache.set(cacheKey, tableInfo);
@@ -192,15 +131,109 @@ export async function parseXppTable(filepath: string): Promise<any> {
   }
 }
 
+/**
+ * Class header, fields and methods of X++ source blocks
+ * Lines are shifted by each block's start line so they point into the file the blocks came from
+ */
+function describeSourceBlocks(blocks: AotSource[]) {
+  const described = {
+    declaration: null as XppClassDeclaration | null,
+    attributes: [] as string[],
+    methods: [] as any[],
+    properties: [] as any[],
+    diagnostics: [] as any[]
+  };
+
+  for (const block of blocks) {
+    const unit = parseXppSource(block.source);
+    const lineOf = (span: SourceSpan) => block.startLine + span.line - 1;
+    const textOf = (span: SourceSpan) => block.source.slice(span.start, span.end);
+
+    const declaration = unit.classes[0];
+    if (declaration && !described.declaration) {
+      described.declaration = declaration;
+      described.attributes = declaration.attributes.map(attribute => textOf(attribute.span));
+    }
+
+    // Methods outside a class declaration count too, as the AOT stores each method on its own
+    for (const member of [...(declaration?.members || []), ...unit.methods]) {
+      if (member.kind === 'method') {
+        described.methods.push({
+          name: member.name,
+          parameters: member.parameters.map(parameter => ({
+            type: formatType(parameter.type),
+            name: parameter.name,
+            isOptional: parameter.defaultValue !== null,
+            defaultValue: parameter.defaultText
+          })),
+          returnType: formatType(member.returnType),
+          attributes: member.attributes.map(attribute => textOf(attribute.span)),
+          isStatic: member.modifiers.includes('static'),
+          isPublic: isPublicMember(member.modifiers),
+          isPrivate: member.modifiers.includes('private'),
+          isProtected: member.modifiers.includes('protected'),
+          isFinal: member.modifiers.includes('final'),
+          isAbstract: member.modifiers.includes('abstract'),
+          line: lineOf(member.span)
+        });
+      } else if (member.kind === 'field') {
+        for (const declarator of member.declarators) {
+          described.properties.push({
+            type: formatType(member.type) + (declarator.isArray ? '[]' : ''),
+            name: declarator.name,
+            isStatic: member.modifiers.includes('static'),
+            isPublic: isPublicMember(member.modifiers),
+            line: lineOf(declarator.span)
+          });
+        }
+      }
+    }
+
+    described.diagnostics.push(...unit.diagnostics.map(diagnostic => ({
+      message: diagnostic.message,
+      line: lineOf(diagnostic.span),
+      column: diagnostic.span.column
+    })));
+  }
+
+  return described;
+}
+
+// Members without an access modifier are public in X++
+function isPublicMember(modifiers: string[]): boolean {
+  return !modifiers.some(modifier => modifier === 'private' || modifier === 'protected' || modifier === 'internal');
+}
+
+function formatType(type: XppTypeReference): string {
+  return type.length !== null ? `${type.name} ${type.length}` : type.name;
+}
+
 /**
  * Find X++ object by name across the codebase using SQLite index
+ * In fuzzy mode the name may be abbreviated or misspelled; results are ranked and carry a score
  */
-export async function findXppObject(objectName: string, objectType?: string, model?: string): Promise<any[]> {
+export async function findXppObject(objectName: string, objectType?: string, model?: string, fuzzy: boolean = false): Promise<any[]> {
   const results: any[] = [];
-  
+
   // Try SQLite lookup first (fastest method)
   const lookup = new SQLiteObjectLookup();
-  if (lookup.initialize()) {
+  const indexed = lookup.initialize();
+
+  // Fuzzy ranking needs the object index - the filesystem fallback has no scores
+  if (fuzzy && !indexed) {
+    return [];
+  }
+
+  if (indexed) {
+    if (fuzzy) {
+      try {
+        const customModels = await AppConfig.getCustomModelNames();
+        return lookup.searchObjectsFuzzy(objectName, { objectType, model, limit: 25, customModels });
+      } finally {
+        lookup.close();
+      }
+    }
+
     try {
       let objects = lookup.findObject(objectName);
       
@@ -0,0 +1,197 @@
+/**
+ * Reference Extractor Module
+ *
+ * Finds the objects an AOT file refers to ("where-used" / cross references).
+ * X++ source is scanned for type declarations, select/join tables, new expressions,
+ * static calls and intrinsic functions; the XML is scanned for EDT, enum, relation,
+ * datasource and inheritance properties.
+ */
+
+import { SourceBlock, lineNumberAt } from "./code-index.js";
+
+export type ReferenceKind =
+  | 'declaration'
+  | 'select'
+  | 'new'
+  | 'static'
+  | 'intrinsic'
+  | 'extends'
+  | 'implements'
+  | 'edt'
+  | 'enum'
+  | 'relation'
+  | 'datasource';
+
+export const REFERENCE_KINDS: ReferenceKind[] = [
+  'declaration', 'select', 'new', 'static', 'intrinsic', 'extends', 'implements', 'edt', 'enum', 'relation', 'datasource'
+];
+
+export interface XppReference {
+  target: string;
+  kind: ReferenceKind;
+  method?: string;
+  member?: string;
+  line: number;
+}
+
+// Words that can appear where a type name is expected but never name an AOT object
+const NON_TYPE_WORDS = new Set([
+  'abstract', 'anytype', 'as', 'asc', 'avg', 'boolean', 'break', 'breakpoint', 'by', 'case', 'catch', 'changecompany',
+  'class', 'client', 'const', 'container', 'continue', 'count', 'crosscompany', 'date', 'default', 'delegate', 'delete_from',
+  'desc', 'display', 'div', 'do', 'edit', 'else', 'eventhandler', 'exists', 'extends', 'false', 'final', 'finally',
+  'firstfast', 'firstonly', 'firstonly1', 'firstonly10', 'firstonly100', 'firstonly1000', 'flush', 'for', 'forceliterals',
+  'forcenestedloop', 'forceplaceholders', 'forceselectorder', 'forupdate', 'from', 'generateonly', 'group', 'guid', 'if',
+  'implements', 'in', 'index', 'insert_recordset', 'int', 'int64', 'interface', 'internal', 'is', 'join', 'like', 'maxof',
+  'minof', 'mod', 'new', 'next', 'nofetch', 'notexists', 'null', 'optimisticlock', 'order', 'outer', 'pessimisticlock',
+  'print', 'private', 'protected', 'public', 'real', 'repeatableread', 'retry', 'return', 'reverse', 'select', 'server',
+  'static', 'str', 'sum', 'super', 'switch', 'this', 'throw', 'true', 'try', 'ttsabort', 'ttsbegin', 'ttscommit',
+  'update_recordset', 'using', 'utcdatetime', 'validtimestate', 'var', 'void', 'where', 'while', 'with'
+]);
+
+const INTRINSIC_FUNCTIONS = [
+  'classStr', 'classNum', 'tableStr', 'tableNum', 'formStr', 'enumStr', 'enumNum', 'extendedTypeStr', 'extendedTypeNum',
+  'queryStr', 'reportStr', 'menuItemDisplayStr', 'menuItemActionStr', 'menuItemOutputStr', 'fieldNum', 'fieldStr',
+  'methodStr', 'staticMethodStr', 'tableMethodStr', 'tableStaticMethodStr', 'formDataSourceStr', 'formControlStr',
+  'dataEntityDataSourceStr', 'tableFieldGroupStr', 'indexStr', 'literalStr'
+];
+
+// XML properties that point at other AOT objects
+const XML_REFERENCE_PROPERTIES: Array<{ element: string; kind: ReferenceKind }> = [
+  { element: 'ExtendedDataType', kind: 'edt' },
+  { element: 'EnumType', kind: 'enum' },
+  { element: 'RelatedTable', kind: 'relation' },
+  { element: 'ReferenceTable', kind: 'relation' },
+  { element: 'Table', kind: 'datasource' },
+  { element: 'Extends', kind: 'extends' }
+];
+
+/**
+ * Replace comments and string literals with spaces, keeping offsets and line breaks intact
+ */
+export function maskCommentsAndStrings(source: string): string {
+  return source.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|@"(?:[^"]|"")*"|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g,
+    match => match.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Extract references from X++ source blocks and from the XML properties of the file
+ */
+export function extractReferences(objectName: string, content: string, sourceBlocks: SourceBlock[]): XppReference[] {
+  const references: XppReference[] = [];
+
+  for (const block of sourceBlocks) {
+    references.push(...extractSourceReferences(block));
+  }
+
+  references.push(...extractXmlReferences(content));
+
+  // Drop self references and duplicates (same target, kind and line)
+  const seen = new Set<string>();
+  const lowerName = objectName.toLowerCase();
+  return references.filter(ref => {
+    if (ref.target.toLowerCase() === lowerName) return false;
+    const key = `${ref.target.toLowerCase()}|${ref.kind}|${ref.method || ''}|${ref.member || ''}|${ref.line}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Extract references from one declaration or method body
+ */
+export function extractSourceReferences(block: SourceBlock): XppReference[] {
+  const references: XppReference[] = [];
+  const code = maskCommentsAndStrings(block.source);
+  const lineAt = (offset: number) => block.startLine + lineNumberAt(code, offset) - 1;
+  const variableTypes = new Map<string, string>();
+
+  // Class header: class X extends Y implements A, B
+  const headerMatch = code.match(/\b(?:class|interface)\s+\w+\s*(?:extends\s+([\w\s,]+?))?\s*(?:implements\s+([\w\s,]+?))?\s*\{/);
+  if (headerMatch) {
+    const headerLine = lineAt(headerMatch.index || 0);
+    for (const name of splitNames(headerMatch[1])) {
+      references.push({ target: name, kind: 'extends', method: block.method, line: headerLine });
+    }
+    for (const name of splitNames(headerMatch[2])) {
+      references.push({ target: name, kind: 'implements', method: block.method, line: headerLine });
+    }
+  }
+
+  // Type declarations: fields, locals and parameters
+  const declarationRegex = /\b([A-Za-z_]\w*)(?:\s*\[\s*\])?\s+([A-Za-z_]\w*)\s*(?=[;=,)\[])/g;
+  let match;
+  while ((match = declarationRegex.exec(code)) !== null) {
+    const [, typeName, variableName] = match;
+    if (isTypeName(typeName) && !NON_TYPE_WORDS.has(variableName.toLowerCase())) {
+      variableTypes.set(variableName.toLowerCase(), typeName);
+      references.push({ target: typeName, kind: 'declaration', method: block.method, line: lineAt(match.index) });
+    }
+  }
+
+  // Tables used in select statements and joins (resolved through the declared buffer type)
+  const selectRegex = /\b(select|join|delete_from|update_recordset|insert_recordset)\b([^;{]*?)(?=\bwhere\b|\border\b|\bgroup\b|\bjoin\b|\bindex\b|\bsetting\b|;|\{)/gi;
+  while ((match = selectRegex.exec(code)) !== null) {
+    const segment = match[2];
+    const fromMatch = segment.match(/\bfrom\s+([A-Za-z_]\w*)/i);
+    const words = segment.match(/[A-Za-z_]\w*/g) || [];
+    const bufferName = fromMatch ? fromMatch[1] : words.filter(w => !NON_TYPE_WORDS.has(w.toLowerCase())).pop();
+    if (!bufferName) continue;
+
+    const tableName = variableTypes.get(bufferName.toLowerCase());
+    if (tableName) {
+      references.push({ target: tableName, kind: 'select', method: block.method, line: lineAt(match.index) });
+    }
+  }
+
+  // Object creation
+  const newRegex = /\bnew\s+([A-Za-z_]\w*)\s*\(/g;
+  while ((match = newRegex.exec(code)) !== null) {
+    if (isTypeName(match[1])) {
+      references.push({ target: match[1], kind: 'new', method: block.method, line: lineAt(match.index) });
+    }
+  }
+
+  // Static calls and enum values: Type::member
+  const staticRegex = /\b([A-Za-z_]\w*)\s*::\s*([A-Za-z_]\w*)/g;
+  while ((match = staticRegex.exec(code)) !== null) {
+    if (isTypeName(match[1])) {
+      references.push({ target: match[1], kind: 'static', member: match[2], method: block.method, line: lineAt(match.index) });
+    }
+  }
+
+  // Intrinsic functions: tableNum(CustTable), classStr(SalesFormLetter), ...
+  const intrinsicRegex = new RegExp(`\\b(${INTRINSIC_FUNCTIONS.join('|')})\\s*\\(\\s*([A-Za-z_]\\w*)`, 'gi');
+  while ((match = intrinsicRegex.exec(code)) !== null) {
+    references.push({ target: match[2], kind: 'intrinsic', member: match[1], method: block.method, line: lineAt(match.index) });
+  }
+
+  return references;
+}
+
+/**
+ * Extract references from AOT XML properties (EDT, enum, relations, datasources, inheritance)
+ */
+export function extractXmlReferences(content: string): XppReference[] {
+  const references: XppReference[] = [];
+  // Blank out source code so X++ text can't be mistaken for XML properties
+  const xml = content.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, match => match.replace(/[^\n]/g, ' '));
+
+  for (const { element, kind } of XML_REFERENCE_PROPERTIES) {
+    const regex = new RegExp(`<${element}>([A-Za-z_]\\w*)</${element}>`, 'g');
+    let match;
+    while ((match = regex.exec(xml)) !== null) {
+      references.push({ target: match[1], kind, line: lineNumberAt(xml, match.index) });
+    }
+  }
+
+  return references;
+}
+
+function isTypeName(word: string): boolean {
+  return !NON_TYPE_WORDS.has(word.toLowerCase());
+}
+
+function splitNames(list: string | undefined): string[] {
+  return list ? list.split(',').map(name => name.trim()).filter(name => /^[A-Za-z_]\w*$/.test(name)) : [];
+}
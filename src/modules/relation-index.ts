@@ -0,0 +1,396 @@
+/**
+ * Relation Index Module
+ *
+ * Parses table relations (AxTable and AxTableExtension), the EDT of every table field and the
+ * reference table of every EDT, and searches the resulting relation graph for the shortest join
+ * chains between two tables. Relations inherited through a field's EDT count as edges too.
+ */
+
+import type { AOTFile } from "./code-index.js";
+import type { SQLiteObjectLookup } from "./sqlite-lookup.js";
+
+export const TABLE_FOLDERS = ['AxTable', 'AxTableExtension'];
+
+export type RelationType = 'Relation' | 'ForeignKey' | 'Edt';
+
+// Guards against cycles in EDT Extends chains
+const MAX_EDT_DEPTH = 20;
+
+export const DEFAULT_JOIN_DEPTH = 4;
+export const DEFAULT_JOIN_PATH_LIMIT = 10;
+
+/**
+ * One constraint of a relation
+ * Field constraints carry both fields; fixed constraints carry one field and a value
+ */
+export interface RelationConstraint {
+  field: string | null;
+  relatedField: string | null;
+  value: string | null;
+}
+
+export interface TableRelationFact {
+  name: string;
+  relatedTable: string;
+  relationType: RelationType;
+  cardinality: string | null;
+  relatedCardinality: string | null;
+  constraints: RelationConstraint[];
+}
+
+export interface TableFieldFact {
+  name: string;
+  edt: string | null;
+}
+
+/**
+ * Fields and relations of a table or table extension
+ * Extensions carry the name of the table they extend
+ */
+export interface TableFact {
+  tableName: string;
+  isExtension: boolean;
+  fields: TableFieldFact[];
+  relations: TableRelationFact[];
+}
+
+export interface EdtFact {
+  name: string;
+  extendsName: string | null;
+  referenceTable: string | null;
+  relatedField: string | null;
+}
+
+export interface TableRelationRecord extends TableRelationFact {
+  tableName: string;
+  isExtension: boolean;
+  model: string;
+  path: string;
+}
+
+export interface TableFieldRecord extends TableFieldFact {
+  tableName: string;
+  isExtension: boolean;
+  model: string;
+  path: string;
+}
+
+export interface EdtRecord extends EdtFact {
+  model: string;
+  path: string;
+}
+
+/**
+ * One join of a chain, oriented from the table already selected to the table joined
+ * definedOn is the table whose metadata declares the relation (or the field with the EDT)
+ */
+export interface JoinStep {
+  fromTable: string;
+  toTable: string;
+  relation: string;
+  relationType: RelationType;
+  definedOn: string;
+  fieldPairs: Array<{ fromField: string; toField: string }>;
+  fixed: Array<{ table: string; field: string; value: string }>;
+  model: string;
+}
+
+export interface JoinPath {
+  steps: JoinStep[];
+  select: string;
+}
+
+export interface JoinPathOptions {
+  maxDepth?: number;
+  limit?: number;
+  includeEdtRelations?: boolean;
+}
+
+export interface JoinPathResult {
+  fromTable: string;
+  toTable: string;
+  // Tables without indexed fields or relations
+  unknownTables: string[];
+  maxDepth: number;
+  paths: JoinPath[];
+  // More shortest chains exist than the limit allowed
+  truncated: boolean;
+}
+
+/**
+ * Fields and relations of a table or table extension file, or null for other folders
+ */
+export function extractTableFact(file: AOTFile, content: string): TableFact | null {
+  if (!TABLE_FOLDERS.includes(file.folder)) return null;
+
+  const xml = blankSourceCode(content);
+  const fields = Array.from(xml.matchAll(/<AxTableField\b[^>]*>([\s\S]*?)<\/AxTableField>/g), match => ({
+    name: readElement(match[1], 'Name'),
+    edt: readElement(match[1], 'ExtendedDataType')
+  })).filter((field): field is TableFieldFact => !!field.name);
+
+  const relations: TableRelationFact[] = [];
+  for (const match of xml.matchAll(/<AxTableRelation\b([^>]*)>([\s\S]*?)<\/AxTableRelation>/g)) {
+    const own = match[2].replace(/<Constraints>[\s\S]*?<\/Constraints>/, '');
+    const name = readElement(own, 'Name');
+    const relatedTable = readElement(own, 'RelatedTable');
+    if (!name || !relatedTable) continue;
+
+    const constraints = Array.from(match[2].matchAll(/<AxTableRelationConstraint\b[^>]*>([\s\S]*?)<\/AxTableRelationConstraint>/g), constraint => ({
+      field: readElement(constraint[1], 'Field'),
+      relatedField: readElement(constraint[1], 'RelatedField'),
+      // ValueStr holds the enum literal, Value its integer
+      value: readElement(constraint[1], 'ValueStr') || readElement(constraint[1], 'Value')
+    }));
+
+    relations.push({
+      name,
+      relatedTable,
+      relationType: /ForeignKey/.test(match[1]) ? 'ForeignKey' : 'Relation',
+      cardinality: readElement(own, 'Cardinality'),
+      relatedCardinality: readElement(own, 'RelatedTableCardinality'),
+      constraints
+    });
+  }
+
+  const isExtension = file.folder === 'AxTableExtension';
+  return {
+    // Extensions are named <Table>.<Suffix>
+    tableName: isExtension ? file.name.split('.')[0] : file.name,
+    isExtension,
+    fields,
+    relations
+  };
+}
+
+/**
+ * Extends and reference table of an EDT file, or null for other folders
+ */
+export function extractEdtFact(file: AOTFile, content: string): EdtFact | null {
+  if (file.folder !== 'AxEdt') return null;
+
+  const xml = blankSourceCode(content);
+  // Filter references restrict lookups with a fixed value and don't name the related field
+  const reference = Array.from(xml.matchAll(/<AxEdtTableReference\b([^>]*)>([\s\S]*?)<\/AxEdtTableReference>/g))
+    .find(match => !/Filter/.test(match[1]) && readElement(match[2], 'RelatedField'));
+
+  return {
+    name: file.name,
+    extendsName: readElement(xml, 'Extends'),
+    referenceTable: readElement(xml, 'ReferenceTable') || (reference ? readElement(reference[2], 'Table') : null),
+    relatedField: reference ? readElement(reference[2], 'RelatedField') : null
+  };
+}
+
+/**
+ * Reference table and field of every EDT, inherited through Extends when the EDT sets none itself
+ */
+export function resolveEdtReferences(edts: EdtRecord[]): Map<string, { table: string; field: string }> {
+  const byName = new Map(edts.map(edt => [edt.name.toLowerCase(), edt]));
+  const resolved = new Map<string, { table: string; field: string }>();
+
+  for (const edt of edts) {
+    let current: EdtRecord | undefined = edt;
+    for (let depth = 0; current && depth < MAX_EDT_DEPTH; depth++) {
+      if (current.referenceTable && current.relatedField) {
+        resolved.set(edt.name.toLowerCase(), { table: current.referenceTable, field: current.relatedField });
+        break;
+      }
+      current = current.extendsName ? byName.get(current.extendsName.toLowerCase()) : undefined;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Shortest relation chains between two tables, each with the X++ select joining them
+ * Relations are followed in both directions; EDT relations duplicating a declared relation are dropped.
+ */
+export function findJoinPaths(lookup: SQLiteObjectLookup, fromTable: string, toTable: string, options: JoinPathOptions = {}): JoinPathResult {
+  const maxDepth = options.maxDepth ?? DEFAULT_JOIN_DEPTH;
+  const limit = options.limit ?? DEFAULT_JOIN_PATH_LIMIT;
+  const includeEdtRelations = options.includeEdtRelations ?? true;
+
+  const edtReferences = includeEdtRelations ? resolveEdtReferences(lookup.getEdts()) : new Map<string, { table: string; field: string }>();
+  const edtsByTable = new Map<string, string[]>();
+  for (const [edt, reference] of edtReferences) {
+    const key = reference.table.toLowerCase();
+    edtsByTable.set(key, [...(edtsByTable.get(key) || []), edt]);
+  }
+
+  const stepCache = new Map<string, JoinStep[]>();
+  const stepsFrom = (table: string): JoinStep[] => {
+    const key = table.toLowerCase();
+    if (!stepCache.has(key)) {
+      const relations = lookup.getTableRelations(table);
+      if (includeEdtRelations) {
+        const fields = [...lookup.getTableFields(table), ...lookup.findTableFieldsByEdt(edtsByTable.get(key) || [])];
+        relations.push(...edtRelations(fields, edtReferences, relations));
+      }
+      stepCache.set(key, relations
+        .filter(relation => relation.tableName.toLowerCase() !== relation.relatedTable.toLowerCase())
+        .map(relation => toJoinStep(relation, key))
+        .sort((a, b) => a.toTable.localeCompare(b.toTable) || a.relation.localeCompare(b.relation)));
+    }
+    return stepCache.get(key)!;
+  };
+
+  const unknownTables = [fromTable, toTable].filter(table => lookup.getTableFields(table).length === 0 && stepsFrom(table).length === 0);
+  const result: JoinPathResult = { fromTable, toTable, unknownTables, maxDepth, paths: [], truncated: false };
+  if (unknownTables.length > 0 || fromTable.toLowerCase() === toTable.toLowerCase()) return result;
+
+  // Breadth-first search keeping every step reaching a table at its shortest distance
+  const target = toTable.toLowerCase();
+  const distance = new Map([[fromTable.toLowerCase(), 0]]);
+  const reachedBy = new Map<string, JoinStep[]>();
+  let frontier = [fromTable];
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !distance.has(target); depth++) {
+    const next: string[] = [];
+    for (const table of frontier) {
+      for (const step of stepsFrom(table)) {
+        const key = step.toTable.toLowerCase();
+        if (!distance.has(key)) {
+          distance.set(key, depth);
+          next.push(step.toTable);
+        }
+        if (distance.get(key) === depth) {
+          reachedBy.set(key, [...(reachedBy.get(key) || []), step]);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  // Walk back from the target, one chain per combination of steps
+  const chainsTo = (table: string, budget: number): JoinStep[][] => {
+    if (table === fromTable.toLowerCase()) return [[]];
+    const chains: JoinStep[][] = [];
+    for (const step of reachedBy.get(table) || []) {
+      for (const chain of chainsTo(step.fromTable.toLowerCase(), budget - chains.length)) {
+        if (chains.length >= budget) {
+          result.truncated = true;
+          return chains;
+        }
+        chains.push([...chain, step]);
+      }
+    }
+    return chains;
+  };
+
+  if (distance.has(target)) {
+    result.paths = chainsTo(target, limit).map(steps => ({ steps, select: toXppSelect(steps) }));
+  }
+  return result;
+}
+
+/**
+ * X++ table buffer declarations and the select statement joining a chain of tables
+ */
+export function toXppSelect(steps: JoinStep[]): string {
+  if (steps.length === 0) return '';
+
+  const tables = [steps[0].fromTable, ...steps.map(step => step.toTable)];
+  const variables: string[] = [];
+  for (const table of tables) {
+    const base = table.charAt(0).toLowerCase() + table.slice(1);
+    let variable = base;
+    for (let suffix = 2; variables.includes(variable); suffix++) variable = `${base}${suffix}`;
+    variables.push(variable);
+  }
+
+  const lines = tables.map((table, index) => `${table} ${variables[index]};`);
+  lines.push('', `select ${variables[0]}`);
+  steps.forEach((step, index) => {
+    const from = variables[index];
+    const to = variables[index + 1];
+    const conditions = [
+      ...step.fieldPairs.map(pair => `${to}.${pair.toField} == ${from}.${pair.fromField}`),
+      ...step.fixed.map(fixed => `${fixed.table.toLowerCase() === step.toTable.toLowerCase() ? to : from}.${fixed.field} == ${fixed.value}`)
+    ];
+    lines.push(`    join ${to}`);
+    conditions.forEach((condition, position) => lines.push(`${position === 0 ? '        where ' : '           && '}${condition}`));
+  });
+  lines[lines.length - 1] += ';';
+
+  return lines.join('\n');
+}
+
+/**
+ * Relations implied by fields whose EDT references a table, unless a declared relation already joins the same fields
+ */
+function edtRelations(fields: TableFieldRecord[], references: Map<string, { table: string; field: string }>, declared: TableRelationRecord[]): TableRelationRecord[] {
+  const relations: TableRelationRecord[] = [];
+  const seen = new Set<string>();
+
+  for (const field of fields) {
+    const reference = field.edt ? references.get(field.edt.toLowerCase()) : undefined;
+    if (!reference) continue;
+
+    const pairKey = [field.tableName, field.name, reference.table, reference.field].join('|').toLowerCase();
+    const duplicate = seen.has(pairKey) || declared.some(relation =>
+      relation.tableName.toLowerCase() === field.tableName.toLowerCase() &&
+      relation.relatedTable.toLowerCase() === reference.table.toLowerCase() &&
+      relation.constraints.some(constraint =>
+        constraint.field?.toLowerCase() === field.name.toLowerCase() && constraint.relatedField?.toLowerCase() === reference.field.toLowerCase()));
+    if (duplicate) continue;
+    seen.add(pairKey);
+
+    relations.push({
+      tableName: field.tableName,
+      name: `${field.name} (${field.edt})`,
+      relatedTable: reference.table,
+      relationType: 'Edt',
+      cardinality: null,
+      relatedCardinality: null,
+      constraints: [{ field: field.name, relatedField: reference.field, value: null }],
+      isExtension: field.isExtension,
+      model: field.model,
+      path: field.path
+    });
+  }
+
+  return relations;
+}
+
+/**
+ * Join step leaving the given table through a relation declared on either end
+ */
+function toJoinStep(relation: TableRelationRecord, fromTableKey: string): JoinStep {
+  const forward = relation.tableName.toLowerCase() === fromTableKey;
+  const fieldPairs: JoinStep['fieldPairs'] = [];
+  const fixed: JoinStep['fixed'] = [];
+
+  for (const constraint of relation.constraints) {
+    if (constraint.field && constraint.relatedField) {
+      fieldPairs.push(forward
+        ? { fromField: constraint.field, toField: constraint.relatedField }
+        : { fromField: constraint.relatedField, toField: constraint.field });
+    } else if (constraint.value !== null && (constraint.field || constraint.relatedField)) {
+      fixed.push(constraint.field
+        ? { table: relation.tableName, field: constraint.field, value: constraint.value }
+        : { table: relation.relatedTable, field: constraint.relatedField!, value: constraint.value });
+    }
+  }
+
+  return {
+    fromTable: forward ? relation.tableName : relation.relatedTable,
+    toTable: forward ? relation.relatedTable : relation.tableName,
+    relation: relation.name,
+    relationType: relation.relationType,
+    definedOn: relation.tableName,
+    fieldPairs,
+    fixed,
+    model: relation.model
+  };
+}
+
+// Blank out X++ source so method bodies can't be mistaken for metadata
+function blankSourceCode(content: string): string {
+  return content.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+}
+
+function readElement(xml: string, element: string): string | null {
+  const match = xml.match(new RegExp(`<${element}>\\s*([^<]*?)\\s*</${element}>`));
+  return match && match[1] ? match[1] : null;
+}
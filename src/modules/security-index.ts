@@ -0,0 +1,391 @@
+/**
+ * Security Index Module
+ *
+ * Parses AxSecurityRole, AxSecurityDuty and AxSecurityPrivilege metadata (and role/duty extensions)
+ * and walks the stored grants in both directions: from an entry point (menu item, service
+ * operation, data entity) up to the roles granting it, and from a role down to every entry point.
+ */
+
+import type { AOTFile } from "./code-index.js";
+import type { SQLiteObjectLookup } from "./sqlite-lookup.js";
+
+export type SecurityKind = 'role' | 'duty' | 'privilege';
+
+/**
+ * AOT folders holding security objects, with the kind of object they define or extend
+ */
+export const SECURITY_FOLDERS: Record<string, SecurityKind> = {
+  AxSecurityRole: 'role',
+  AxSecurityDuty: 'duty',
+  AxSecurityPrivilege: 'privilege',
+  AxSecurityRoleExtension: 'role',
+  AxSecurityDutyExtension: 'duty'
+};
+
+export const ACCESS_LEVELS = ['Read', 'Update', 'Create', 'Correct', 'Delete', 'Invoke'] as const;
+export type AccessLevel = typeof ACCESS_LEVELS[number];
+
+// Entry point type used for <DataEntityPermissions> of a privilege
+export const DATA_ENTITY_ENTRY_POINT = 'DataEntity';
+
+// Reference sections of roles and duties, with the kind of object they reference
+const MEMBER_SECTIONS: Array<{ section: string; kind: SecurityKind }> = [
+  { section: 'SubRoles', kind: 'role' },
+  { section: 'Duties', kind: 'duty' },
+  { section: 'Privileges', kind: 'privilege' }
+];
+
+// Guards against cycles and runaway chains in inconsistent metadata
+const MAX_SECURITY_DEPTH = 20;
+
+/**
+ * An entry point a privilege grants access to
+ * objectChildName is the operation of a ServiceOperation entry point
+ */
+export interface SecurityGrant {
+  entryPoint: string;
+  objectName: string;
+  objectType: string;
+  objectChildName: string | null;
+  allowed: AccessLevel[];
+  denied: AccessLevel[];
+}
+
+export interface SecurityMember {
+  kind: SecurityKind;
+  name: string;
+}
+
+/**
+ * Security facts of one AOT file
+ * Extensions carry the name of the role or duty they extend
+ */
+export interface SecurityFact {
+  kind: SecurityKind;
+  name: string;
+  label: string | null;
+  isExtension: boolean;
+  members: SecurityMember[];
+  grants: SecurityGrant[];
+}
+
+/**
+ * A security object as stored in the index
+ */
+export interface SecurityObjectRecord {
+  kind: SecurityKind;
+  name: string;
+  label: string | null;
+  isExtension: boolean;
+  model: string;
+  path: string;
+}
+
+export interface SecurityGrantRecord extends SecurityGrant {
+  privilege: string;
+  model: string;
+  path: string;
+}
+
+export interface SecurityPathStep {
+  kind: SecurityKind;
+  name: string;
+}
+
+/**
+ * One chain through the security tree, top first
+ * role is null when the chain does not start at a role (duty or privilege no role references)
+ */
+export interface SecurityPath {
+  role: string | null;
+  chain: SecurityPathStep[];
+  grant: SecurityGrantRecord | null;
+}
+
+/**
+ * Effective access to one entry point, combined over every path (Deny wins over Allow)
+ */
+export interface EntryPointAccess {
+  objectName: string;
+  objectType: string;
+  objectChildName: string | null;
+  allowed: AccessLevel[];
+  denied: AccessLevel[];
+  paths: number;
+}
+
+export type SecurityTraceDirection = 'auto' | 'up' | 'down';
+
+export interface SecurityTraceOptions {
+  direction?: SecurityTraceDirection;
+  // Entry point type filter (MenuItemDisplay, MenuItemAction, MenuItemOutput, ServiceOperation, DataEntity)
+  objectType?: string;
+}
+
+export interface SecurityTrace {
+  name: string;
+  // 'entryPoint' when the name is not a security object
+  kind: SecurityKind | 'entryPoint';
+  found: boolean;
+  models: string[];
+  direction: 'up' | 'down' | 'both';
+  // Menu items a form, class or report name was resolved to
+  menuItems: string[];
+  paths: SecurityPath[];
+  roles: string[];
+  entryPoints: EntryPointAccess[];
+}
+
+/**
+ * Security facts of a role, duty or privilege file, or null for other folders
+ */
+export function extractSecurityFact(file: AOTFile, content: string): SecurityFact | null {
+  const kind = SECURITY_FOLDERS[file.folder];
+  if (!kind) return null;
+
+  const isExtension = file.folder.endsWith('Extension');
+
+  const members: SecurityMember[] = [];
+  for (const { section, kind: memberKind } of MEMBER_SECTIONS) {
+    // Privileges never reference other security objects
+    if (kind === 'privilege') break;
+    for (const body of readSections(content, section)) {
+      for (const name of readAll(body, 'Name')) {
+        if (!members.some(member => member.kind === memberKind && member.name.toLowerCase() === name.toLowerCase())) {
+          members.push({ kind: memberKind, name });
+        }
+      }
+    }
+  }
+
+  return {
+    kind,
+    // Extensions are named <Role>.<Suffix>
+    name: isExtension ? file.name.split('.')[0] : file.name,
+    label: readElement(content, 'Label'),
+    isExtension,
+    members,
+    grants: kind === 'privilege' ? extractGrants(content) : []
+  };
+}
+
+/**
+ * Entry point and data entity grants of a privilege
+ */
+export function extractGrants(content: string): SecurityGrant[] {
+  const grants: SecurityGrant[] = [];
+
+  for (const body of readBlocks(content, 'AxSecurityEntryPointReference')) {
+    const objectName = readElement(body, 'ObjectName');
+    if (!objectName) continue;
+    grants.push({
+      entryPoint: readElement(body, 'Name') || objectName,
+      objectName,
+      objectType: readElement(body, 'ObjectType') || 'MenuItemDisplay',
+      objectChildName: readElement(body, 'ObjectChildName'),
+      ...parseGrant(body)
+    });
+  }
+
+  for (const body of readBlocks(content, 'AxSecurityDataEntityPermission')) {
+    // Field and method permissions nest their own <Name> and <Grant> elements
+    const own = body.replace(/<(Fields|Methods)>[\s\S]*?<\/\1>/g, '');
+    const name = readElement(own, 'Name');
+    if (!name) continue;
+    grants.push({ entryPoint: name, objectName: name, objectType: DATA_ENTITY_ENTRY_POINT, objectChildName: null, ...parseGrant(own) });
+  }
+
+  return grants;
+}
+
+/**
+ * Allowed and denied access levels of the <Grant> element in a piece of XML
+ */
+export function parseGrant(xml: string): { allowed: AccessLevel[]; denied: AccessLevel[] } {
+  const grant = xml.match(/<Grant>([\s\S]*?)<\/Grant>/);
+  const allowed: AccessLevel[] = [];
+  const denied: AccessLevel[] = [];
+  if (!grant) return { allowed, denied };
+
+  for (const level of ACCESS_LEVELS) {
+    const value = readElement(grant[1], level);
+    if (value?.toLowerCase() === 'allow') allowed.push(level);
+    else if (value?.toLowerCase() === 'deny') denied.push(level);
+  }
+  return { allowed, denied };
+}
+
+/**
+ * Trace a role, duty, privilege or entry point through the security tree
+ * auto walks roles down, entry points up, and duties/privileges both ways (full role-to-entry-point paths)
+ * A form, class or report name without grants of its own is traced through the menu items opening it
+ */
+export function traceSecurity(lookup: SQLiteObjectLookup, name: string, options: SecurityTraceOptions = {}): SecurityTrace {
+  const objects = lookup.getSecurityObjects(name);
+  const definition = objects.find(object => !object.isExtension) || objects[0];
+  const requested = options.direction || 'auto';
+
+  if (!definition) {
+    // Not a security object - treat it as an entry point ("Service.operation" addresses a service operation)
+    const [objectName, childName] = name.split('.', 2);
+    const grants = lookup.findSecurityGrants(objectName, { objectType: options.objectType, objectChildName: childName });
+    // A form, class or report is granted through the menu items opening it
+    const menuItems: string[] = [];
+    if (grants.length === 0 && !childName) {
+      for (const menuItem of lookup.getMenuItemsForObject(objectName)) {
+        menuItems.push(menuItem.name);
+        grants.push(...lookup.findSecurityGrants(menuItem.name, { objectType: `MenuItem${menuItem.itemType}` }));
+      }
+    }
+    // Entry points are leaves, so they are always traced up
+    const paths: SecurityPath[] = [];
+    for (const grant of grants) {
+      for (const chain of chainsUp(lookup, { kind: 'privilege', name: grant.privilege }, new Set())) {
+        paths.push(toPath(chain, grant));
+      }
+    }
+    return summarize({
+      name: menuItems.length > 0 ? objectName : grants[0]?.objectName || objectName,
+      kind: 'entryPoint',
+      found: grants.length > 0,
+      models: unique(grants.map(grant => grant.model)),
+      direction: 'up',
+      menuItems,
+      paths
+    });
+  }
+
+  const start: SecurityPathStep = { kind: definition.kind, name: definition.name };
+  const direction = requested === 'auto' ? (definition.kind === 'role' ? 'down' : 'both') : requested;
+  const above = direction === 'down' ? [[start]] : chainsUp(lookup, start, new Set());
+  const below = direction === 'up' ? [] : chainsDown(lookup, start, new Set([key(start)]));
+
+  const paths: SecurityPath[] = [];
+  for (const upper of above) {
+    if (direction === 'up') {
+      paths.push(toPath(upper, null));
+      continue;
+    }
+    for (const lower of below) {
+      if (options.objectType && lower.grant.objectType.toLowerCase() !== options.objectType.toLowerCase()) continue;
+      paths.push(toPath([...upper, ...lower.chain.slice(1)], lower.grant));
+    }
+  }
+
+  return summarize({
+    name: definition.name,
+    kind: definition.kind,
+    found: true,
+    models: unique(objects.map(object => object.model)),
+    direction,
+    menuItems: [],
+    paths
+  });
+}
+
+/**
+ * Every chain from a role (or a top-level object no role references) down to the given object
+ * A role referenced as a sub role yields a chain of its own and one per parent role
+ */
+function chainsUp(lookup: SQLiteObjectLookup, step: SecurityPathStep, visited: Set<string>): SecurityPathStep[][] {
+  const chains: SecurityPathStep[][] = step.kind === 'role' ? [[step]] : [];
+  const path = new Set(visited).add(key(step));
+  const parents = path.size > MAX_SECURITY_DEPTH ? [] : lookup.getSecurityParents(step.name, step.kind);
+
+  for (const parent of parents) {
+    if (path.has(key(parent))) continue;
+    for (const chain of chainsUp(lookup, parent, path)) {
+      chains.push([...chain, step]);
+    }
+  }
+
+  return chains.length > 0 ? chains : [[step]];
+}
+
+/**
+ * Every chain from the given object down to a privilege grant
+ */
+function chainsDown(lookup: SQLiteObjectLookup, step: SecurityPathStep, path: Set<string>): Array<{ chain: SecurityPathStep[]; grant: SecurityGrantRecord }> {
+  if (step.kind === 'privilege') {
+    return lookup.getPrivilegeGrants(step.name).map(grant => ({ chain: [step], grant }));
+  }
+  if (path.size > MAX_SECURITY_DEPTH) return [];
+
+  const result: Array<{ chain: SecurityPathStep[]; grant: SecurityGrantRecord }> = [];
+  for (const member of lookup.getSecurityMembers(step.name, step.kind)) {
+    if (path.has(key(member))) continue;
+    for (const lower of chainsDown(lookup, member, new Set(path).add(key(member)))) {
+      result.push({ chain: [step, ...lower.chain], grant: lower.grant });
+    }
+  }
+  return result;
+}
+
+function summarize(trace: Omit<SecurityTrace, 'roles' | 'entryPoints'>): SecurityTrace {
+  const entryPoints = new Map<string, EntryPointAccess & { allowedSet: Set<AccessLevel>; deniedSet: Set<AccessLevel> }>();
+  for (const { grant } of trace.paths) {
+    if (!grant) continue;
+    const entryKey = `${grant.objectType}|${grant.objectName}|${grant.objectChildName || ''}`.toLowerCase();
+    if (!entryPoints.has(entryKey)) {
+      entryPoints.set(entryKey, {
+        objectName: grant.objectName,
+        objectType: grant.objectType,
+        objectChildName: grant.objectChildName,
+        allowed: [],
+        denied: [],
+        paths: 0,
+        allowedSet: new Set(),
+        deniedSet: new Set()
+      });
+    }
+    const entry = entryPoints.get(entryKey)!;
+    entry.paths++;
+    grant.allowed.forEach(level => entry.allowedSet.add(level));
+    grant.denied.forEach(level => entry.deniedSet.add(level));
+  }
+
+  return {
+    ...trace,
+    roles: unique(trace.paths.map(path => path.role).filter((role): role is string => role !== null)).sort(),
+    entryPoints: Array.from(entryPoints.values())
+      .map(({ allowedSet, deniedSet, ...entry }) => ({
+        ...entry,
+        allowed: ACCESS_LEVELS.filter(level => allowedSet.has(level) && !deniedSet.has(level)),
+        denied: ACCESS_LEVELS.filter(level => deniedSet.has(level))
+      }))
+      .sort((a, b) => a.objectType.localeCompare(b.objectType) || a.objectName.localeCompare(b.objectName))
+  };
+}
+
+function toPath(chain: SecurityPathStep[], grant: SecurityGrantRecord | null): SecurityPath {
+  return { role: chain[0].kind === 'role' ? chain[0].name : null, chain, grant };
+}
+
+function key(step: SecurityPathStep): string {
+  return `${step.kind}|${step.name.toLowerCase()}`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function readElement(xml: string, element: string): string | null {
+  const match = xml.match(new RegExp(`<${element}>\\s*([^<]*?)\\s*</${element}>`));
+  return match && match[1] ? match[1] : null;
+}
+
+function readAll(xml: string, element: string): string[] {
+  const values: string[] = [];
+  for (const match of xml.matchAll(new RegExp(`<${element}>\\s*([^<]+?)\\s*</${element}>`, 'g'))) {
+    values.push(match[1]);
+  }
+  return values;
+}
+
+function readSections(xml: string, section: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${section}>([\\s\\S]*?)</${section}>`, 'g')), match => match[1]);
+}
+
+function readBlocks(xml: string, element: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${element}(?:\\s[^>]*)?>([\\s\\S]*?)</${element}>`, 'g')), match => match[1]);
+}
@@ -94,6 +94,43 @@ export class ServerManager {
           case "search_objects_pattern":
             return await ToolHandlers.searchObjectsPattern(args, requestId);
           
+          case "search_xpp_code":
+            return await ToolHandlers.searchXppCode(args, requestId);
+          case "find_references":
+            return await ToolHandlers.findReferences(args, requestId);
+          case "get_class_hierarchy":
+            return await ToolHandlers.getClassHierarchy(args, requestId);
+          case "list_extensions":
+            return await ToolHandlers.listExtensions(args, requestId);
+          case "find_event_subscribers":
+            return await ToolHandlers.findEventSubscribers(args, requestId);
+          case "export_index":
+            return await ToolHandlers.exportIndex(args, requestId);
+          case "import_index":
+            return await ToolHandlers.importIndex(args, requestId);
+          case "diff_index":
+            return await ToolHandlers.diffIndex(args, requestId);
+          case "get_model_dependencies":
+            return await ToolHandlers.getModelDependencies(args, requestId);
+          case "resolve_label":
+            return await ToolHandlers.resolveLabel(args, requestId);
+          case "search_labels":
+            return await ToolHandlers.searchLabels(args, requestId);
+          case "trace_security":
+            return await ToolHandlers.traceSecurity(args, requestId);
+          case "find_navigation_path":
+            return await ToolHandlers.findNavigationPath(args, requestId);
+          case "find_join_path":
+            return await ToolHandlers.findJoinPath(args, requestId);
+          case "resolve_edt":
+            return await ToolHandlers.resolveEdt(args, requestId);
+          case "lint_xpp_object":
+            return await ToolHandlers.lintXppObject(args, requestId);
+          case "get_code_metrics":
+            return await ToolHandlers.getCodeMetrics(args, requestId);
+          case "check_chain_of_command":
+            return await ToolHandlers.checkChainOfCommand(args, requestId);
+          
           case "discover_modification_capabilities":
             return await ToolHandlers.discoverModificationCapabilities(args, requestId);
           
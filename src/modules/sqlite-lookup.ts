@@ -6,8 +6,21 @@
  */
 
 import Database from 'better-sqlite3';
-import { existsSync, mkdirSync } from 'fs';
+import { existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
 import path from 'path';
+import type { AOTFile, FileFacts } from './code-index.js';
+import { runMigrations, getSchemaVersion, CURRENT_SCHEMA_VERSION, IncompatibleSchemaError } from './sqlite-migrations.js';
+import {
+    SNAPSHOT_FORMAT, SNAPSHOT_FORMAT_VERSION, SNAPSHOT_MANIFEST_KEY, SnapshotExportResult, SnapshotImportResult, SnapshotManifest,
+    compressSnapshotFile, extractSnapshotFile, parseSnapshotManifest, pathSeparatorOf, trimRoot
+} from './index-snapshot.js';
+import { DEFAULT_MIN_FUZZY_SCORE, FuzzyMatchType, queryTrigrams, scoreName, toHumpGlob } from './fuzzy-search.js';
+import type { ClassDeclarationRow } from './class-hierarchy.js';
+import type { ExtensionMethod } from './extension-index.js';
+import type { LabelFileInfo, ParsedLabel } from './label-index.js';
+import type { AccessLevel, SecurityGrantRecord, SecurityKind, SecurityObjectRecord, SecurityPathStep } from './security-index.js';
+import type { MenuElementRecord, MenuItemRecord } from './navigation-index.js';
+import type { EdtRecord, RelationType, TableFieldRecord, TableRelationRecord } from './relation-index.js';
 
 export interface ObjectLocation {
     name: string;
@@ -39,8 +52,175 @@ export interface AOTMetadata {
     categories: Record<string, any>;
 }
 
+export interface SourceSearchOptions {
+    objectType?: string;
+    model?: string;
+    limit?: number;
+    rawQuery?: boolean;
+}
+
+export interface SourceSearchResult {
+    objectName: string;
+    objectType: string;
+    model: string;
+    method: string;
+    path: string;
+    line: number;
+    snippet: string;
+    score: number;
+}
+
+export interface IndexedFileState {
+    path: string;
+    model: string;
+    folder: string;
+    mtime: number;
+    size: number;
+    hash: string | null;
+}
+
+export interface DatabasePreparation {
+    status: 'created' | 'current' | 'migrated' | 'rebuilt';
+    fromVersion: number;
+    toVersion: number;
+    applied: string[];
+    reason?: string;
+}
+
+export interface ReferenceSearchOptions {
+    model?: string;
+    kind?: string;
+    objectType?: string;
+    limit?: number;
+}
+
+export interface ReferenceSearchResult {
+    sourceName: string;
+    sourceType: string;
+    sourceModel: string;
+    sourcePath: string;
+    method: string | null;
+    member: string | null;
+    line: number;
+    targetName: string;
+    kind: string;
+}
+
+export interface FuzzySearchOptions {
+    objectType?: string;
+    model?: string;
+    limit?: number;
+    minScore?: number;
+    // Custom models, ranked ahead of standard models at equal score
+    customModels?: string[];
+}
+
+export interface FuzzySearchResult extends ObjectLocation {
+    score: number;
+    matchType: FuzzyMatchType;
+}
+
+export interface ExtensionSearchOptions {
+    baseType?: string;
+    model?: string;
+}
+
+export interface ExtensionRecord {
+    extensionName: string;
+    extensionType: string;
+    kind: string;
+    baseName: string;
+    baseType: string;
+    baseMember: string | null;
+    model: string;
+    path: string;
+    methods: ExtensionMethod[];
+}
+
+export interface EventSubscriberOptions {
+    member?: string;
+    eventType?: string;
+    model?: string;
+}
+
+export interface EventSubscriberRecord {
+    subscriberName: string;
+    subscriberType: string;
+    subscriberMethod: string;
+    model: string;
+    path: string;
+    line: number;
+    attribute: string;
+    targetName: string;
+    targetType: string;
+    targetMember: string | null;
+    eventType: string;
+}
+
+export interface DelegateRecord {
+    objectName: string;
+    objectType: string;
+    delegateName: string;
+    model: string;
+    path: string;
+    line: number;
+}
+
+export interface LabelRecord {
+    labelFile: string;
+    labelId: string;
+    language: string;
+    text: string;
+    comment: string | null;
+    model: string;
+    path: string;
+    line: number;
+}
+
+export type LabelMatchType = 'exact' | 'prefix' | 'contains' | 'words';
+
+export interface LabelSearchResult extends LabelRecord {
+    matchType: LabelMatchType;
+}
+
+export interface LabelSearchOptions {
+    language?: string;
+    labelFile?: string;
+    model?: string;
+    limit?: number;
+}
+
 export class SQLiteObjectLookup {
     private db: Database.Database | null = null;
+
+    // Code index tables holding facts of one AOT file, with the column storing the file path
+    // (source_fts rows are removed through source_blocks, whose path column is indexed)
+    private static readonly FILE_FACT_TABLES: Array<[table: string, pathColumn: string]> = [
+        ['source_blocks', 'path'],
+        ['object_references', 'source_path'],
+        ['class_declarations', 'path'],
+        ['class_interfaces', 'path'],
+        ['object_extensions', 'path'],
+        ['extension_methods', 'path'],
+        ['event_subscribers', 'path'],
+        ['event_delegates', 'path'],
+        ['security_objects', 'path'],
+        ['security_members', 'path'],
+        ['security_grants', 'path'],
+        ['menu_items', 'path'],
+        ['menus', 'path'],
+        ['menu_elements', 'path'],
+        ['table_relations', 'path'],
+        ['table_relation_constraints', 'path'],
+        ['table_fields', 'path'],
+        ['edts', 'path']
+    ];
+
+    // Label index tables, rebuilt independently of the code index
+    private static readonly LABEL_TABLES: Array<[table: string, pathColumn: string]> = [
+        ['labels', 'path'],
+        ['label_files', 'path']
+    ];
     
     /**
      * Static method to safely check if database exists and has objects
@@ -55,6 +235,7 @@ export class SQLiteObjectLookup {
         
         let tempDb: Database.Database | null = null;
         try {
+            // Counting never migrates or rebuilds the file - corrupt or unmigrated databases count as 0
             // Try to open in read-write mode to avoid read-only issues
             tempDb = new Database(targetPath, { 
                 fileMustExist: true
@@ -65,7 +246,7 @@ export class SQLiteObjectLookup {
             const result = stmt.get() as { count: number };
             return result?.count || 0;
         } catch (error) {
-            console.log('📖 Could not read existing database, will rebuild');
+            console.warn(`⚠️ Could not count indexed objects: ${error instanceof Error ? error.message : error}`);
             return 0;
         } finally {
             if (tempDb) {
@@ -97,22 +278,16 @@ export class SQLiteObjectLookup {
 
     /**
      * Initialize the database connection and prepare statements
-     * Automatically creates the database if it doesn't exist
+     * Automatically creates the database if it doesn't exist and migrates older schemas
      */
     public initialize(): boolean {
         try {
-            // Auto-create database if it doesn't exist
-            if (!existsSync(this.dbPath)) {
-                console.log(`🔧 SQLite database not found: ${this.dbPath}`);
-                console.log('🚀 Auto-initializing database...');
-                
-                if (!this.createDatabase()) {
-                    console.error('❌ Failed to auto-create database');
-                    console.error('💡 Please run the build process to initialize the database properly');
-                    return false;
-                }
-                
-                console.log('✅ Database auto-created successfully');
+            // Auto-create, migrate or rebuild the database before opening it read-only
+            const preparation = SQLiteObjectLookup.prepareDatabase(this.dbPath);
+            if (preparation.status === 'created') {
+                console.log(`✅ Created SQLite database with schema version ${preparation.toVersion}: ${this.dbPath}`);
+            } else if (preparation.status === 'migrated') {
+                console.log(`🔧 Migrated SQLite database from schema version ${preparation.fromVersion} to ${preparation.toVersion} (${preparation.applied.join(', ')})`);
             }
 
             this.db = new Database(this.dbPath, { readonly: true });
@@ -153,62 +328,77 @@ export class SQLiteObjectLookup {
     }
 
     /**
-     * Create a new empty database with the required schema
-     * Called automatically when database doesn't exist
+     * Make sure the database exists and has the current schema
+     * Missing databases are created and older schemas are migrated in place. Corrupt databases
+     * and databases with an incompatible schema (e.g. written by a newer server) are deleted
+     * and recreated empty, so the next index build starts from a clean slate. Any other error
+     * (locked by another process, I/O or permission errors, a failing migration) is rethrown
+     * and leaves the file untouched
      */
-    private createDatabase(): boolean {
-        try {
-            // Create parent directory if it doesn't exist
-            const dir = path.dirname(this.dbPath);
-            if (!existsSync(dir)) {
-                mkdirSync(dir, { recursive: true });
-            }
+    public static prepareDatabase(dbPath: string): DatabasePreparation {
+        const dir = path.dirname(dbPath);
+        if (!existsSync(dir)) {
+            mkdirSync(dir, { recursive: true });
+        }
 
-            // Create the database with write access
-            const newDb = new Database(this.dbPath, { readonly: false });
-            
-            // Create the objects table
-            newDb.exec(`
-                CREATE TABLE IF NOT EXISTS objects (
-                    name TEXT NOT NULL,
-                    path TEXT NOT NULL,
-                    model TEXT NOT NULL,
-                    type TEXT NOT NULL,
-                    lastModified INTEGER,
-                    PRIMARY KEY (name, model, type)
-                )
-            `);
-            
-            // Create the object types cache table
-            newDb.exec(`
-                CREATE TABLE IF NOT EXISTS object_types_cache (
-                    type_name TEXT PRIMARY KEY,
-                    cached_at INTEGER DEFAULT (datetime('now'))
-                )
-            `);
-            
-            // Create basic indexes
-            newDb.exec(`
-                CREATE INDEX IF NOT EXISTS idx_objects_name ON objects(name);
-                CREATE INDEX IF NOT EXISTS idx_objects_type ON objects(type);
-                CREATE INDEX IF NOT EXISTS idx_objects_model ON objects(model);
-            `);
-            
-            newDb.close();
-            console.log('✅ Created empty SQLite database with schema');
-            return true;
+        const existed = existsSync(dbPath);
+        try {
+            const result = SQLiteObjectLookup.migrateDatabaseFile(dbPath);
+            const status = !existed ? 'created' : result.applied.length > 0 ? 'migrated' : 'current';
+            return { status, ...result };
         } catch (error) {
-            console.error('❌ Error creating database:', error);
-            return false;
+            if (!existed || !SQLiteObjectLookup.isUnrecoverable(error)) throw error;
+
+            const reason = error instanceof Error ? error.message : String(error);
+            console.warn(`⚠️ SQLite database is corrupt or incompatible (${reason}) - rebuilding ${dbPath}`);
+            SQLiteObjectLookup.removeDatabaseFiles(dbPath);
+
+            const result = SQLiteObjectLookup.migrateDatabaseFile(dbPath);
+            return { status: 'rebuilt', ...result, reason };
+        }
+    }
+
+    /**
+     * Whether a database can only be rebuilt: damaged file, or a schema this server can't migrate
+     */
+    private static isUnrecoverable(error: unknown): boolean {
+        if (error instanceof IncompatibleSchemaError) return true;
+        const code = (error as { code?: unknown })?.code;
+        return typeof code === 'string' && (code.startsWith('SQLITE_CORRUPT') || code.startsWith('SQLITE_NOTADB'));
+    }
+
+    /**
+     * Open the database file with write access and apply pending migrations
+     */
+    private static migrateDatabaseFile(dbPath: string): Omit<DatabasePreparation, 'status'> {
+        const db = new Database(dbPath, { readonly: false });
+        try {
+            // Fails fast with SQLITE_NOTADB / SQLITE_CORRUPT on damaged files
+            db.pragma('schema_version');
+            return runMigrations(db);
+        } finally {
+            db.close();
         }
     }
 
+    /**
+     * Schema version of the open database
+     */
+    public getSchemaVersion(): number {
+        return this.db ? getSchemaVersion(this.db) : 0;
+    }
+
     /**
      * Prepare all SQL statements for optimal performance
      */
     private prepareStatements(): void {
         if (!this.db) return;
 
+        // REPLACE conflicts must fire the delete trigger that keeps object_names_fts in sync
+        if (!this.db.readonly) {
+            this.db.pragma('recursive_triggers = ON');
+        }
+
         this.prepared = {
             // Find object by name (may return multiple if conflicts exist)
             findByName: this.db.prepare(`
@@ -394,8 +584,9 @@ export class SQLiteObjectLookup {
     /**
      * Delete an object from the database
      * Used to maintain cache consistency when objects are deleted
+     * When modelName is given only the row of that model is removed
      */
-    public deleteObject(objectName: string, objectType: string): boolean {
+    public deleteObject(objectName: string, objectType: string, modelName?: string): boolean {
         // Check if database needs to be reopened in write mode  
         if (!this.db || this.db.readonly) {
             console.log('🔄 Reopening database in write mode for object deletion...');
@@ -409,7 +600,9 @@ export class SQLiteObjectLookup {
         if (!this.prepared.deleteObject) return false;
 
         try {
-            const result = this.prepared.deleteObject.run(objectName, objectType);
+            const result = modelName
+                ? this.db!.prepare('DELETE FROM objects WHERE name = ? AND type = ? AND model = ?').run(objectName, objectType, modelName)
+                : this.prepared.deleteObject.run(objectName, objectType);
             
             if (result.changes > 0) {
                 console.log(`✅ Deleted object from cache: ${objectName} (${objectType})`);
@@ -484,6 +677,20 @@ export class SQLiteObjectLookup {
         }
     }
 
+    /**
+     * All object rows (used to compare whole indexes)
+     */
+    public getAllObjects(): ObjectLocation[] {
+        if (!this.db) return [];
+
+        try {
+            return this.db.prepare('SELECT name, path, model, type FROM objects').all() as ObjectLocation[];
+        } catch (error) {
+            console.error('❌ Error reading all objects:', error);
+            return [];
+        }
+    }
+
     /**
      * Find objects by model and type
      */
@@ -530,6 +737,88 @@ export class SQLiteObjectLookup {
         }
     }
 
+    /**
+     * Fuzzy object name search (camel humps, substrings, trigrams, typos)
+     * Candidates come from a hump GLOB, a LIKE substring match and the object_names_fts trigram index;
+     * they are scored in memory and ranked by score plus a small boost for custom models
+     */
+    public searchObjectsFuzzy(query: string, options: FuzzySearchOptions = {}): FuzzySearchResult[] {
+        const term = query.trim();
+        if (!this.db || !term) return [];
+
+        const { objectType, model, limit = 50, minScore = DEFAULT_MIN_FUZZY_SCORE } = options;
+        const filters: string[] = [];
+        const filterParams: string[] = [];
+        if (objectType) {
+            filters.push('o.type = ?');
+            filterParams.push(objectType);
+        }
+        if (model) {
+            filters.push('o.model = ? COLLATE NOCASE');
+            filterParams.push(model);
+        }
+        const filterSql = filters.map(filter => ` AND ${filter}`).join('');
+        const columns = 'o.name, o.path, o.model, o.type, o.lastModified';
+        const customModels = new Set((options.customModels || []).map(name => name.toLowerCase()));
+
+        try {
+            const candidates = new Map<string, ObjectLocation>();
+            const collect = (rows: ObjectLocation[]) => {
+                for (const row of rows) candidates.set(`${row.model}|${row.type}|${row.name}`, row);
+            };
+
+            const likeTerm = `%${term.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+            collect(this.db.prepare(`
+                SELECT ${columns} FROM objects o
+                WHERE o.name LIKE ? ESCAPE '\\'${filterSql}
+                ORDER BY LENGTH(o.name)
+                LIMIT 500
+            `).all(likeTerm, ...filterParams) as ObjectLocation[]);
+
+            const humpGlob = toHumpGlob(term);
+            if (humpGlob) {
+                collect(this.db.prepare(`
+                    SELECT ${columns} FROM objects o
+                    WHERE o.name GLOB ?${filterSql}
+                    ORDER BY LENGTH(o.name)
+                    LIMIT 1000
+                `).all(humpGlob, ...filterParams) as ObjectLocation[]);
+            }
+
+            const trigrams = queryTrigrams(term);
+            if (trigrams.length > 0) {
+                collect(this.db.prepare(`
+                    SELECT ${columns} FROM object_names_fts
+                    JOIN objects o ON o.rowid = object_names_fts.rowid
+                    WHERE object_names_fts MATCH ?${filterSql}
+                    ORDER BY rank
+                    LIMIT 1000
+                `).all(trigrams.map(gram => `"${gram}"`).join(' OR '), ...filterParams) as ObjectLocation[]);
+            }
+
+            const results: Array<FuzzySearchResult & { rank: number }> = [];
+            for (const candidate of candidates.values()) {
+                const match = scoreName(term, candidate.name);
+                if (!match || match.score < minScore) continue;
+
+                results.push({
+                    ...candidate,
+                    score: Math.round(match.score * 1000) / 1000,
+                    matchType: match.matchType,
+                    rank: match.score + (customModels.has(candidate.model.toLowerCase()) ? 0.01 : 0)
+                });
+            }
+
+            return results
+                .sort((a, b) => b.rank - a.rank || a.name.length - b.name.length || a.name.localeCompare(b.name))
+                .slice(0, limit)
+                .map(({ rank, ...result }) => result);
+        } catch (error) {
+            console.error('❌ Error in fuzzy object search:', error);
+            return [];
+        }
+    }
+
     /**
      * Get database statistics
      */
@@ -781,6 +1070,16 @@ export class SQLiteObjectLookup {
             // Also clear object types cache if it exists
             this.db.exec('DELETE FROM object_types_cache');
             
+            // Clear the code index (source search, references, class hierarchy)
+            this.db.exec('DELETE FROM source_fts');
+            for (const [table] of SQLiteObjectLookup.FILE_FACT_TABLES) {
+                this.db.exec(`DELETE FROM ${table}`);
+            }
+            this.db.exec('DELETE FROM indexed_files');
+            for (const [table] of SQLiteObjectLookup.LABEL_TABLES) {
+                this.db.exec(`DELETE FROM ${table}`);
+            }
+            
             // Ensure all optimized indexes exist for best performance
             console.log('� Ensuring optimized indexes exist...');
             this.createOptimizedIndexes();
@@ -899,7 +1198,1372 @@ export class SQLiteObjectLookup {
         }
     }
 
+    /**
+     * Reopen the database in write mode (creating and migrating it if it was never initialized)
+     */
+    private openForWrite(): Database.Database {
+        if (!this.db || this.db.readonly) {
+            if (!this.db) {
+                SQLiteObjectLookup.prepareDatabase(this.dbPath);
+            }
+            this.close();
+            this.db = new Database(this.dbPath, { readonly: false });
+            this.prepareStatements();
+        }
+
+        return this.db;
+    }
+
+    /**
+     * Replace the code index rows of the given files in a single transaction
+     * Existing rows for each file path are removed before the new facts are inserted, unless
+     * fresh is set because the code index was just cleared.
+     * Files carrying a modification time are recorded in indexed_files for incremental updates
+     */
+    public replaceFileFacts(entries: Array<{ file: AOTFile; facts: FileFacts }>, fresh = false): boolean {
+        if (entries.length === 0) return true;
+
+        try {
+            const db = this.openForWrite();
+            const deleteFacts = SQLiteObjectLookup.FILE_FACT_TABLES
+                .map(([table, pathColumn]) => db.prepare(`DELETE FROM ${table} WHERE ${pathColumn} = ?`));
+            const insertBlock = db.prepare('INSERT INTO source_blocks (rowid, path) VALUES (?, ?)');
+            const insertSource = db.prepare(`
+                INSERT INTO source_fts (object_name, object_type, model, method, path, start_line, source)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertReference = db.prepare(`
+                INSERT INTO object_references (source_name, source_type, source_model, source_path, method, member, line, target_name, kind)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertClass = db.prepare(`
+                INSERT INTO class_declarations (class_name, model, path, extends_name, is_interface, is_abstract, is_final)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertInterface = db.prepare('INSERT INTO class_interfaces (class_name, model, path, interface_name) VALUES (?, ?, ?, ?)');
+            const insertExtension = db.prepare(`
+                INSERT INTO object_extensions (extension_name, extension_type, kind, base_name, base_type, base_member, model, path)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertExtensionMethod = db.prepare(`
+                INSERT INTO extension_methods (extension_name, path, method_name, wraps_next, is_static, line)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const insertSubscriber = db.prepare(`
+                INSERT INTO event_subscribers (subscriber_name, subscriber_type, subscriber_method, model, path, line,
+                    attribute, target_name, target_type, target_member, event_type)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertDelegate = db.prepare(`
+                INSERT INTO event_delegates (object_name, object_type, delegate_name, model, path, line)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const insertSecurityObject = db.prepare(`
+                INSERT INTO security_objects (name, kind, label, is_extension, model, path)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const insertSecurityMember = db.prepare(`
+                INSERT INTO security_members (parent_name, parent_kind, member_name, member_kind, model, path)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const insertSecurityGrant = db.prepare(`
+                INSERT INTO security_grants (privilege_name, entry_point, object_name, object_type, object_child_name, allowed, denied, model, path)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertMenuItem = db.prepare(`
+                INSERT INTO menu_items (name, item_type, object_name, object_type, label, model, path)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertMenu = db.prepare('INSERT INTO menus (name, label, is_extension, model, path) VALUES (?, ?, ?, ?, ?)');
+            const insertMenuElement = db.prepare(`
+                INSERT INTO menu_elements (menu_name, element_name, element_type, parent_name, label, menu_item_name, menu_item_type,
+                    menu_reference, position, is_extension, model, path)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertRelation = db.prepare(`
+                INSERT INTO table_relations (table_name, relation_name, related_table, relation_type, cardinality, related_cardinality,
+                    is_extension, model, path)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertRelationConstraint = db.prepare(`
+                INSERT INTO table_relation_constraints (table_name, relation_name, field, related_field, value, position, path)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertTableField = db.prepare(`
+                INSERT INTO table_fields (table_name, field_name, edt, is_extension, model, path)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const insertEdt = db.prepare(`
+                INSERT INTO edts (name, extends_name, reference_table, related_field, model, path)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const upsertFileState = db.prepare(`
+                INSERT OR REPLACE INTO indexed_files (path, model, folder, mtime, size, hash)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+
+            const replaceMany = db.transaction((items: Array<{ file: AOTFile; facts: FileFacts }>) => {
+                for (const { file, facts } of items) {
+                    if (!fresh) {
+                        deleteFacts.forEach(statement => statement.run(file.path));
+                    }
+                    for (const block of facts.sourceBlocks) {
+                        const { lastInsertRowid } = insertSource.run(file.name, file.folder, file.model, block.method, file.path, block.startLine, block.source);
+                        insertBlock.run(lastInsertRowid, file.path);
+                    }
+                    for (const ref of facts.references) {
+                        insertReference.run(file.name, file.folder, file.model, file.path, ref.method || null, ref.member || null, ref.line, ref.target, ref.kind);
+                    }
+                    const declaration = facts.classDeclaration;
+                    if (declaration) {
+                        insertClass.run(file.name, file.model, file.path, declaration.extends,
+                            declaration.isInterface ? 1 : 0, declaration.isAbstract ? 1 : 0, declaration.isFinal ? 1 : 0);
+                        for (const interfaceName of declaration.interfaces) {
+                            insertInterface.run(file.name, file.model, file.path, interfaceName);
+                        }
+                    }
+                    const extension = facts.extension;
+                    if (extension) {
+                        insertExtension.run(file.name, file.folder, extension.kind, extension.baseName, extension.baseType,
+                            extension.baseMember, file.model, file.path);
+                        for (const method of extension.methods) {
+                            insertExtensionMethod.run(file.name, file.path, method.name, method.wrapsNext ? 1 : 0, method.isStatic ? 1 : 0, method.line);
+                        }
+                    }
+                    for (const event of facts.eventSubscriptions || []) {
+                        insertSubscriber.run(file.name, file.folder, event.method, file.model, file.path, event.line,
+                            event.attribute, event.targetName, event.targetType, event.targetMember, event.eventType);
+                    }
+                    for (const delegate of facts.delegates || []) {
+                        insertDelegate.run(file.name, file.folder, delegate.name, file.model, file.path, delegate.line);
+                    }
+                    const security = facts.security;
+                    if (security) {
+                        insertSecurityObject.run(security.name, security.kind, security.label, security.isExtension ? 1 : 0, file.model, file.path);
+                        for (const member of security.members) {
+                            insertSecurityMember.run(security.name, security.kind, member.name, member.kind, file.model, file.path);
+                        }
+                        for (const grant of security.grants) {
+                            insertSecurityGrant.run(security.name, grant.entryPoint, grant.objectName, grant.objectType, grant.objectChildName,
+                                grant.allowed.join(','), grant.denied.join(','), file.model, file.path);
+                        }
+                    }
+                    if (facts.menuItem) {
+                        const item = facts.menuItem;
+                        insertMenuItem.run(item.name, item.itemType, item.objectName, item.objectType, item.label, file.model, file.path);
+                    }
+                    const menu = facts.menu;
+                    if (menu) {
+                        insertMenu.run(menu.name, menu.label, menu.isExtension ? 1 : 0, file.model, file.path);
+                        for (const element of menu.elements) {
+                            insertMenuElement.run(menu.name, element.name, element.elementType, element.parentName, element.label, element.menuItemName,
+                                element.menuItemType, element.menuReference, element.position, menu.isExtension ? 1 : 0, file.model, file.path);
+                        }
+                    }
+                    const table = facts.table;
+                    if (table) {
+                        const isExtension = table.isExtension ? 1 : 0;
+                        for (const field of table.fields) {
+                            insertTableField.run(table.tableName, field.name, field.edt, isExtension, file.model, file.path);
+                        }
+                        for (const relation of table.relations) {
+                            insertRelation.run(table.tableName, relation.name, relation.relatedTable, relation.relationType, relation.cardinality,
+                                relation.relatedCardinality, isExtension, file.model, file.path);
+                            relation.constraints.forEach((constraint, position) => {
+                                insertRelationConstraint.run(table.tableName, relation.name, constraint.field, constraint.relatedField, constraint.value, position, file.path);
+                            });
+                        }
+                    }
+                    if (facts.edt) {
+                        const edt = facts.edt;
+                        insertEdt.run(edt.name, edt.extendsName, edt.referenceTable, edt.relatedField, file.model, file.path);
+                    }
+                    if (file.lastModified !== undefined) {
+                        upsertFileState.run(file.path, file.model, file.folder, file.lastModified, file.size || 0, file.hash || null);
+                    }
+                }
+            });
+
+            replaceMany(entries);
+            return true;
+        } catch (error) {
+            console.error('❌ Error storing code index facts:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Remove the code index rows and file state of files that no longer exist
+     */
+    public removeFiles(paths: string[]): boolean {
+        if (paths.length === 0) return true;
+
+        try {
+            const db = this.openForWrite();
+            const statements = [
+                ...SQLiteObjectLookup.FILE_FACT_TABLES.map(([table, pathColumn]) => db.prepare(`DELETE FROM ${table} WHERE ${pathColumn} = ?`)),
+                db.prepare('DELETE FROM indexed_files WHERE path = ?')
+            ];
+
+            const removeMany = db.transaction((items: string[]) => {
+                for (const filePath of items) {
+                    statements.forEach(statement => statement.run(filePath));
+                }
+            });
+
+            removeMany(paths);
+            return true;
+        } catch (error) {
+            console.error('❌ Error removing files from code index:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Update the recorded modification time of files whose content did not change
+     */
+    public touchFiles(files: AOTFile[]): void {
+        if (files.length === 0) return;
+
+        const db = this.openForWrite();
+        const touch = db.prepare('UPDATE indexed_files SET mtime = ?, size = ? WHERE path = ?');
+        db.transaction((items: AOTFile[]) => {
+            for (const file of items) {
+                touch.run(file.lastModified || 0, file.size || 0, file.path);
+            }
+        })(files);
+    }
+
+    /**
+     * File state recorded by the last code index build, keyed by path
+     */
+    public getIndexedFiles(): Map<string, IndexedFileState> {
+        const states = new Map<string, IndexedFileState>();
+        if (!this.db) return states;
+
+        try {
+            const rows = this.db.prepare('SELECT path, model, folder, mtime, size, hash FROM indexed_files').all() as IndexedFileState[];
+            for (const row of rows) {
+                states.set(row.path, row);
+            }
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+        }
+        return states;
+    }
+
+    /**
+     * Recorded AOT files of an object in one AOT folder (one per model defining it)
+     */
+    public findIndexedFiles(objectName: string, folder: string): IndexedFileState[] {
+        if (!this.db) return [];
+
+        try {
+            // "_" is a LIKE wildcard, so candidates are checked against the file name
+            const rows = this.db.prepare(`
+                SELECT path, model, folder, mtime, size, hash FROM indexed_files
+                WHERE folder = ? AND (path LIKE ? OR path LIKE ?)
+                ORDER BY model
+            `).all(folder, `%/${objectName}.xml`, `%\\${objectName}.xml`) as IndexedFileState[];
+
+            const fileName = `${objectName}.xml`.toLowerCase();
+            return rows.filter(row => path.basename(row.path.replace(/\\/g, '/')).toLowerCase() === fileName);
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Whether the code index recorded any AOT file (false before the first build)
+     */
+    public hasIndexedFiles(): boolean {
+        if (!this.db) return false;
+
+        try {
+            return this.db.prepare('SELECT 1 FROM indexed_files LIMIT 1').get() !== undefined;
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return false;
+        }
+    }
+
+    /**
+     * Replace all objects of one model in a single transaction
+     */
+    public replaceModelObjects(modelName: string, objects: ObjectLocation[]): boolean {
+        try {
+            const db = this.openForWrite();
+            const deleteModel = db.prepare('DELETE FROM objects WHERE model = ?');
+            const insert = this.prepared.insertObject!;
+
+            db.transaction(() => {
+                deleteModel.run(modelName);
+                for (const obj of objects) {
+                    const timestamp = typeof obj.lastModified === 'string'
+                        ? new Date(obj.lastModified).getTime()
+                        : (obj.lastModified || Date.now());
+                    insert.run(obj.name, obj.path, obj.model, obj.type, timestamp);
+                }
+            })();
+            return true;
+        } catch (error) {
+            console.error(`❌ Error replacing objects of model ${modelName}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Remove all code index rows (source search, cross references and file state)
+     */
+    public clearCodeIndex(): void {
+        const db = this.openForWrite();
+        // Cleared in one go, so the source_blocks delete trigger has nothing left to look up
+        db.exec('DELETE FROM source_fts');
+        for (const [table] of SQLiteObjectLookup.FILE_FACT_TABLES) {
+            db.exec(`DELETE FROM ${table}`);
+        }
+        db.exec('DELETE FROM indexed_files');
+    }
+
+    /**
+     * Number of indexed source blocks (declarations and methods)
+     */
+    public getCodeIndexCount(): number {
+        if (!this.db) return 0;
+
+        try {
+            const result = this.db.prepare('SELECT COUNT(*) as count FROM source_fts').get() as { count: number };
+            return result.count;
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return 0;
+        }
+    }
+
+    /**
+     * Full-text search over indexed X++ source
+     * By default the query is treated as a token sequence (e.g. "SalesFormLetter::construct"),
+     * set rawQuery to pass FTS5 syntax (AND/OR/NEAR, prefix*) straight through
+     */
+    public searchSource(query: string, options: SourceSearchOptions = {}): SourceSearchResult[] {
+        if (!this.db) return [];
+
+        const ftsQuery = options.rawQuery ? query : SQLiteObjectLookup.toFtsPhrase(query);
+        if (!ftsQuery) return [];
+
+        const conditions = ['source_fts MATCH ?'];
+        const params: any[] = [ftsQuery];
+        if (options.objectType) {
+            conditions.push('object_type = ?');
+            params.push(options.objectType);
+        }
+        if (options.model) {
+            conditions.push('model = ? COLLATE NOCASE');
+            params.push(options.model);
+        }
+        params.push(options.limit || 50);
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT object_name, object_type, model, method, path, start_line, source,
+                       bm25(source_fts, 5.0, 0, 0, 2.0, 0, 0, 1.0) as rank
+                FROM source_fts
+                WHERE ${conditions.join(' AND ')}
+                ORDER BY rank
+                LIMIT ?
+            `).all(...params) as any[];
+
+            const terms = (query.match(/[A-Za-z0-9_]+/g) || []).map(t => t.toLowerCase());
+
+            return rows.map(row => {
+                const { lineOffset, text } = SQLiteObjectLookup.findMatchingLine(row.source, terms);
+                return {
+                    objectName: row.object_name,
+                    objectType: row.object_type,
+                    model: row.model,
+                    method: row.method,
+                    path: row.path,
+                    line: Number(row.start_line) + lineOffset,
+                    snippet: text,
+                    score: Math.round(-row.rank * 1000) / 1000
+                };
+            });
+        } catch (error) {
+            // Raw queries are passed to FTS5 as written - report syntax errors instead of "no matches"
+            if (options.rawQuery && SQLiteObjectLookup.isFtsQueryError(error)) {
+                throw new Error(`Invalid FTS5 query "${query}": ${(error as Error).message}`);
+            }
+            console.error('❌ Error searching source:', error);
+            return [];
+        }
+    }
 
+    /**
+     * Whether a MATCH failed because of the query text (unbalanced quotes or parentheses, unknown column filter)
+     */
+    private static isFtsQueryError(error: unknown): boolean {
+        if (!(error instanceof Error) || (error as { code?: string }).code !== 'SQLITE_ERROR') return false;
+        return /fts5: syntax error|unterminated string|no such column|unknown special query/.test(error.message);
+    }
+
+    /**
+     * Find every place that refers to an object (where-used)
+     * Filters apply to the referencing side: model, AOT folder and reference kind
+     */
+    public findReferences(targetName: string, options: ReferenceSearchOptions = {}): ReferenceSearchResult[] {
+        if (!this.db) return [];
+
+        const conditions = ['target_name = ? COLLATE NOCASE'];
+        const params: any[] = [targetName];
+        if (options.model) {
+            conditions.push('source_model = ? COLLATE NOCASE');
+            params.push(options.model);
+        }
+        if (options.kind) {
+            conditions.push('kind = ?');
+            params.push(options.kind);
+        }
+        if (options.objectType) {
+            conditions.push('source_type = ?');
+            params.push(options.objectType);
+        }
+        params.push(options.limit || 200);
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT source_name, source_type, source_model, source_path, method, member, line, target_name, kind
+                FROM object_references
+                WHERE ${conditions.join(' AND ')}
+                ORDER BY source_model, source_name, line
+                LIMIT ?
+            `).all(...params) as any[];
+
+            return rows.map(row => ({
+                sourceName: row.source_name,
+                sourceType: row.source_type,
+                sourceModel: row.source_model,
+                sourcePath: row.source_path,
+                method: row.method,
+                member: row.member,
+                line: row.line,
+                targetName: row.target_name,
+                kind: row.kind
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Write a compressed, versioned snapshot of the whole database (objects, code index, AOT metadata, cached types)
+     * sourceRoot is recorded in the manifest so importing machines can remap the indexed file paths.
+     * The database is backed up to a temporary file next to the snapshot and gzip-streamed from there
+     */
+    public async exportSnapshot(snapshotPath: string, sourceRoot: string | null = null): Promise<SnapshotExportResult> {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+
+        const dir = path.dirname(snapshotPath);
+        if (!existsSync(dir)) {
+            mkdirSync(dir, { recursive: true });
+        }
+
+        const tempPath = `${snapshotPath}.export`;
+        SQLiteObjectLookup.removeDatabaseFiles(tempPath);
+        try {
+            await this.db.backup(tempPath);
+
+            const copy = new Database(tempPath);
+            let manifest: SnapshotManifest;
+            try {
+                copy.pragma('journal_mode = DELETE');
+                const count = (table: string) => (copy.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+                const metadataRow = copy.prepare('SELECT value FROM aot_metadata WHERE key = ?').get('aot_structure') as { value: string } | undefined;
+
+                manifest = {
+                    format: SNAPSHOT_FORMAT,
+                    formatVersion: SNAPSHOT_FORMAT_VERSION,
+                    schemaVersion: getSchemaVersion(copy),
+                    createdAt: new Date().toISOString(),
+                    sourceRoot: sourceRoot ? trimRoot(sourceRoot) : null,
+                    objects: count('objects'),
+                    sourceBlocks: count('source_fts'),
+                    objectTypes: (copy.prepare('SELECT type_name FROM object_types_cache ORDER BY type_name').all() as Array<{ type_name: string }>)
+                        .map(row => row.type_name),
+                    aotMetadata: metadataRow ? JSON.parse(metadataRow.value) as AOTMetadata : null
+                };
+
+                copy.prepare(`
+                    INSERT OR REPLACE INTO aot_metadata (key, value, updated_at)
+                    VALUES (?, ?, strftime('%s', 'now'))
+                `).run(SNAPSHOT_MANIFEST_KEY, JSON.stringify(manifest));
+                copy.exec('VACUUM');
+            } finally {
+                copy.close();
+            }
+
+            const uncompressedBytes = statSync(tempPath).size;
+            const bytes = await compressSnapshotFile(tempPath, snapshotPath);
+            return { path: snapshotPath, manifest, bytes, uncompressedBytes };
+        } finally {
+            SQLiteObjectLookup.removeDatabaseFiles(tempPath);
+        }
+    }
+
+    /**
+     * Replace the database with a snapshot written by exportSnapshot
+     * The snapshot is decompressed to a file next to the database, validated and migrated to the current
+     * schema there, so a bad file never replaces a working database. File paths under the snapshot's
+     * source root are moved to targetRoot
+     */
+    public async importSnapshot(snapshotPath: string, targetRoot: string | null = null): Promise<SnapshotImportResult> {
+        const tempPath = `${this.dbPath}.import`;
+        SQLiteObjectLookup.removeDatabaseFiles(tempPath);
+        try {
+            await extractSnapshotFile(snapshotPath, tempPath);
+
+            let result: SnapshotImportResult;
+            const snapshot = new Database(tempPath);
+            try {
+                snapshot.pragma('journal_mode = DELETE');
+                const check = snapshot.pragma('quick_check', { simple: true });
+                if (check !== 'ok') {
+                    throw new Error(`Snapshot database is corrupt: ${check}`);
+                }
+
+                const hasMetadata = snapshot.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'aot_metadata'`).get();
+                const manifestRow = hasMetadata
+                    ? snapshot.prepare('SELECT value FROM aot_metadata WHERE key = ?').get(SNAPSHOT_MANIFEST_KEY) as { value: string } | undefined
+                    : undefined;
+                const manifest = parseSnapshotManifest(manifestRow?.value, CURRENT_SCHEMA_VERSION);
+
+                const migration = runMigrations(snapshot);
+                const remappedRows = manifest.sourceRoot && targetRoot
+                    ? SQLiteObjectLookup.remapFileRoots(snapshot, manifest.sourceRoot, targetRoot)
+                    : 0;
+
+                result = {
+                    manifest,
+                    targetRoot,
+                    remappedRows,
+                    migratedFromVersion: migration.applied.length > 0 ? migration.fromVersion : null
+                };
+            } finally {
+                snapshot.close();
+            }
+
+            // Swap the validated file in, so readers never see a half-written database
+            this.close();
+            for (const suffix of ['-wal', '-shm', '-journal']) {
+                rmSync(`${this.dbPath}${suffix}`, { force: true });
+            }
+            renameSync(tempPath, this.dbPath);
+            this.initialize();
+
+            return result;
+        } finally {
+            SQLiteObjectLookup.removeDatabaseFiles(tempPath);
+        }
+    }
+
+    /**
+     * Delete a database file together with its journal files
+     */
+    private static removeDatabaseFiles(dbPath: string): void {
+        for (const suffix of ['', '-wal', '-shm', '-journal']) {
+            rmSync(`${dbPath}${suffix}`, { force: true });
+        }
+    }
+
+    /**
+     * Move code index file paths from one PackagesLocalDirectory root to another, converting separators
+     */
+    private static remapFileRoots(db: Database.Database, sourceRoot: string, targetRoot: string): number {
+        const from = trimRoot(sourceRoot);
+        const to = trimRoot(targetRoot);
+        const fromSeparator = pathSeparatorOf(from);
+        const toSeparator = pathSeparatorOf(to);
+
+        let changes = 0;
+        const tables = [['source_fts', 'path'], ...SQLiteObjectLookup.FILE_FACT_TABLES, ['indexed_files', 'path'], ...SQLiteObjectLookup.LABEL_TABLES];
+        db.transaction(() => {
+            for (const [table, column] of tables) {
+                changes += db.prepare(`
+                    UPDATE ${table}
+                    SET ${column} = ? || replace(substr(${column}, ?), ?, ?)
+                    WHERE lower(substr(${column}, 1, ?)) = lower(?) AND substr(${column}, ?, 1) IN ('/', '\\')
+                `).run(to, from.length + 1, fromSeparator, toSeparator, from.length, from, from.length + 1).changes;
+            }
+        })();
+        return changes;
+    }
+
+    /**
+     * Indexed class or interface declarations with the given name (one per model defining it)
+     */
+    public getClassDeclarations(className: string): ClassDeclarationRow[] {
+        return this.queryClassDeclarations('WHERE class_name = ? COLLATE NOCASE ORDER BY model', className);
+    }
+
+    /**
+     * Classes whose declaration extends the given class
+     */
+    public getSubclasses(className: string): ClassDeclarationRow[] {
+        return this.queryClassDeclarations('WHERE extends_name = ? COLLATE NOCASE ORDER BY class_name', className);
+    }
+
+    /**
+     * Interfaces a class implements (or an interface extends)
+     */
+    public getClassInterfaces(className: string): string[] {
+        if (!this.db) return [];
+
+        try {
+            return (this.db.prepare(`
+                SELECT DISTINCT interface_name FROM class_interfaces
+                WHERE class_name = ? COLLATE NOCASE
+                ORDER BY interface_name
+            `).all(className) as Array<{ interface_name: string }>).map(row => row.interface_name);
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Classes and interfaces listing the given interface directly
+     */
+    public getImplementers(interfaceName: string): ClassDeclarationRow[] {
+        return this.queryClassDeclarations(`
+            WHERE path IN (SELECT path FROM class_interfaces WHERE interface_name = ? COLLATE NOCASE)
+            ORDER BY class_name
+        `, interfaceName);
+    }
+
+    /**
+     * Metadata extensions and CoC classes of an object, ordered by model
+     */
+    public findExtensions(baseName: string, options: ExtensionSearchOptions = {}): ExtensionRecord[] {
+        if (!this.db) return [];
+
+        const conditions = ['base_name = ? COLLATE NOCASE'];
+        const params: any[] = [baseName];
+        if (options.baseType) {
+            conditions.push('base_type = ?');
+            params.push(options.baseType);
+        }
+        if (options.model) {
+            conditions.push('model = ? COLLATE NOCASE');
+            params.push(options.model);
+        }
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT extension_name, extension_type, kind, base_name, base_type, base_member, model, path
+                FROM object_extensions
+                WHERE ${conditions.join(' AND ')}
+                ORDER BY model, kind, extension_name
+            `).all(...params) as any[];
+            const methodsOf = this.db.prepare(`
+                SELECT method_name, wraps_next, is_static, line
+                FROM extension_methods
+                WHERE path = ?
+                ORDER BY line
+            `);
+
+            return rows.map(row => ({
+                extensionName: row.extension_name,
+                extensionType: row.extension_type,
+                kind: row.kind,
+                baseName: row.base_name,
+                baseType: row.base_type,
+                baseMember: row.base_member,
+                model: row.model,
+                path: row.path,
+                methods: (methodsOf.all(row.path) as any[]).map(method => ({
+                    name: method.method_name,
+                    wrapsNext: method.wraps_next === 1,
+                    isStatic: method.is_static === 1,
+                    line: method.line
+                }))
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Handler methods subscribed to events, delegates or methods of an object
+     */
+    public findEventSubscribers(targetName: string, options: EventSubscriberOptions = {}): EventSubscriberRecord[] {
+        if (!this.db) return [];
+
+        const conditions = ['target_name = ? COLLATE NOCASE'];
+        const params: any[] = [targetName];
+        if (options.member) {
+            conditions.push('target_member = ? COLLATE NOCASE');
+            params.push(options.member);
+        }
+        if (options.eventType) {
+            conditions.push('event_type = ? COLLATE NOCASE');
+            params.push(options.eventType);
+        }
+        if (options.model) {
+            conditions.push('model = ? COLLATE NOCASE');
+            params.push(options.model);
+        }
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT subscriber_name, subscriber_type, subscriber_method, model, path, line,
+                    attribute, target_name, target_type, target_member, event_type
+                FROM event_subscribers
+                WHERE ${conditions.join(' AND ')}
+                ORDER BY target_member, event_type, model, subscriber_name, subscriber_method
+            `).all(...params) as any[];
+
+            return rows.map(row => ({
+                subscriberName: row.subscriber_name,
+                subscriberType: row.subscriber_type,
+                subscriberMethod: row.subscriber_method,
+                model: row.model,
+                path: row.path,
+                line: row.line,
+                attribute: row.attribute,
+                targetName: row.target_name,
+                targetType: row.target_type,
+                targetMember: row.target_member,
+                eventType: row.event_type
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Delegates declared by an object
+     */
+    public findDelegates(objectName: string): DelegateRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT object_name, object_type, delegate_name, model, path, line
+                FROM event_delegates
+                WHERE object_name = ? COLLATE NOCASE
+                ORDER BY delegate_name
+            `).all(objectName) as any[];
+
+            return rows.map(row => ({
+                objectName: row.object_name,
+                objectType: row.object_type,
+                delegateName: row.delegate_name,
+                model: row.model,
+                path: row.path,
+                line: row.line
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Roles, duties and privileges with the given name, definitions before extensions
+     */
+    public getSecurityObjects(name: string): SecurityObjectRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT name, kind, label, is_extension, model, path
+                FROM security_objects
+                WHERE name = ? COLLATE NOCASE
+                ORDER BY is_extension, kind, model
+            `).all(name) as any[];
+
+            return rows.map(row => ({
+                kind: row.kind,
+                name: row.name,
+                label: row.label,
+                isExtension: row.is_extension === 1,
+                model: row.model,
+                path: row.path
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Sub roles, duties and privileges a role or duty references, including those added by extensions
+     */
+    public getSecurityMembers(name: string, kind: SecurityKind): SecurityPathStep[] {
+        return this.querySecurityEdges(`
+            SELECT DISTINCT member_name AS name, member_kind AS kind FROM security_members
+            WHERE parent_name = ? COLLATE NOCASE AND parent_kind = ?
+            ORDER BY member_kind, member_name
+        `, name, kind);
+    }
+
+    /**
+     * Roles and duties referencing a security object
+     */
+    public getSecurityParents(name: string, kind: SecurityKind): SecurityPathStep[] {
+        return this.querySecurityEdges(`
+            SELECT DISTINCT parent_name AS name, parent_kind AS kind FROM security_members
+            WHERE member_name = ? COLLATE NOCASE AND member_kind = ?
+            ORDER BY parent_kind, parent_name
+        `, name, kind);
+    }
+
+    /**
+     * Entry points a privilege grants
+     */
+    public getPrivilegeGrants(privilegeName: string): SecurityGrantRecord[] {
+        return this.querySecurityGrants('WHERE privilege_name = ? COLLATE NOCASE', privilegeName);
+    }
+
+    /**
+     * Privilege grants of an entry point, matched on the object or the entry point reference name
+     */
+    public findSecurityGrants(objectName: string, options: { objectType?: string; objectChildName?: string } = {}): SecurityGrantRecord[] {
+        const conditions = ['(object_name = ? COLLATE NOCASE OR entry_point = ? COLLATE NOCASE)'];
+        const params: any[] = [objectName, objectName];
+        if (options.objectType) {
+            conditions.push('object_type = ? COLLATE NOCASE');
+            params.push(options.objectType);
+        }
+        if (options.objectChildName) {
+            conditions.push('object_child_name = ? COLLATE NOCASE');
+            params.push(options.objectChildName);
+        }
+        return this.querySecurityGrants(`WHERE ${conditions.join(' AND ')}`, ...params);
+    }
+
+    /**
+     * Menu items opening an object (form, class, report, ...)
+     */
+    public getMenuItemsForObject(objectName: string, objectType?: string): MenuItemRecord[] {
+        return objectType
+            ? this.queryMenuItems('WHERE object_name = ? COLLATE NOCASE AND object_type = ? COLLATE NOCASE', objectName, objectType)
+            : this.queryMenuItems('WHERE object_name = ? COLLATE NOCASE', objectName);
+    }
+
+    /**
+     * Menu items with the given name (a display, an action and an output item may share a name)
+     */
+    public getMenuItems(name: string): MenuItemRecord[] {
+        return this.queryMenuItems('WHERE name = ? COLLATE NOCASE', name);
+    }
+
+    /**
+     * Menus and menu extensions with the given name, definitions first
+     */
+    public getMenus(name: string): Array<{ name: string; label: string | null; isExtension: boolean; model: string; path: string }> {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT name, label, is_extension, model, path FROM menus
+                WHERE name = ? COLLATE NOCASE
+                ORDER BY is_extension, model
+            `).all(name) as any[];
+
+            return rows.map(row => ({ name: row.name, label: row.label, isExtension: row.is_extension === 1, model: row.model, path: row.path }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Menu elements placing a menu item, from menus and menu extensions
+     */
+    public getMenuElementsForItem(menuItemName: string, menuItemType: string): MenuElementRecord[] {
+        return this.queryMenuElements(`
+            WHERE menu_item_name = ? COLLATE NOCASE AND menu_item_type = ? COLLATE NOCASE
+            ORDER BY menu_name, is_extension, position
+        `, menuItemName, menuItemType);
+    }
+
+    /**
+     * Submenu of a menu by name, including submenus added by menu extensions
+     */
+    public getMenuSubMenu(menuName: string, subMenuName: string): MenuElementRecord | null {
+        const [subMenu] = this.queryMenuElements(`
+            WHERE menu_name = ? COLLATE NOCASE AND element_name = ? COLLATE NOCASE AND element_type = 'SubMenu'
+            ORDER BY is_extension, position
+        `, menuName, subMenuName);
+        return subMenu || null;
+    }
+
+    /**
+     * Menu reference elements including the given menu in another menu
+     */
+    public getMenuReferences(menuName: string): MenuElementRecord[] {
+        return this.queryMenuElements(`
+            WHERE menu_reference = ? COLLATE NOCASE
+            ORDER BY menu_name, is_extension, position
+        `, menuName);
+    }
+
+    /**
+     * Relations declared on a table or pointing to it, from tables and table extensions, with their constraints
+     */
+    public getTableRelations(tableName: string): TableRelationRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const relations = this.db.prepare(`
+                SELECT table_name, relation_name, related_table, relation_type, cardinality, related_cardinality, is_extension, model, path
+                FROM table_relations
+                WHERE table_name = ? COLLATE NOCASE OR related_table = ? COLLATE NOCASE
+                ORDER BY table_name, relation_name, model
+            `).all(tableName, tableName) as any[];
+            const constraints = this.db.prepare(`
+                SELECT field, related_field, value FROM table_relation_constraints
+                WHERE path = ? AND table_name = ? AND relation_name = ?
+                ORDER BY position
+            `);
+
+            return relations.map(row => ({
+                tableName: row.table_name,
+                name: row.relation_name,
+                relatedTable: row.related_table,
+                relationType: row.relation_type as RelationType,
+                cardinality: row.cardinality,
+                relatedCardinality: row.related_cardinality,
+                constraints: (constraints.all(row.path, row.table_name, row.relation_name) as any[])
+                    .map(constraint => ({ field: constraint.field, relatedField: constraint.related_field, value: constraint.value })),
+                isExtension: row.is_extension === 1,
+                model: row.model,
+                path: row.path
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Fields of a table including fields added by table extensions
+     */
+    public getTableFields(tableName: string): TableFieldRecord[] {
+        return this.queryTableFields('WHERE table_name = ? COLLATE NOCASE', tableName);
+    }
+
+    /**
+     * Table fields typed with one of the given EDTs
+     */
+    public findTableFieldsByEdt(edtNames: string[]): TableFieldRecord[] {
+        const fields: TableFieldRecord[] = [];
+        // Stay below SQLite's bound parameter limit
+        for (let i = 0; i < edtNames.length; i += 500) {
+            const chunk = edtNames.slice(i, i + 500);
+            fields.push(...this.queryTableFields(`WHERE edt COLLATE NOCASE IN (${chunk.map(() => '?').join(', ')})`, ...chunk));
+        }
+        return fields;
+    }
+
+    /**
+     * Extends and reference table of every indexed EDT
+     */
+    public getEdts(): EdtRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT name, extends_name, reference_table, related_field, model, path FROM edts
+                ORDER BY name, model
+            `).all() as any[];
+
+            return rows.map(row => ({
+                name: row.name,
+                extendsName: row.extends_name,
+                referenceTable: row.reference_table,
+                relatedField: row.related_field,
+                model: row.model,
+                path: row.path
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Replace the labels of the given label text files and record their file state
+     */
+    public replaceLabelFiles(entries: Array<{ file: LabelFileInfo; labels: ParsedLabel[] }>): boolean {
+        if (entries.length === 0) return true;
+
+        try {
+            const db = this.openForWrite();
+            const deleteLabels = db.prepare('DELETE FROM labels WHERE path = ?');
+            const insertLabel = db.prepare(`
+                INSERT INTO labels (label_file, label_id, language, text, comment, model, path, line)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const recordFile = db.prepare(`
+                INSERT OR REPLACE INTO label_files (path, model, label_file, language, mtime, size)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+
+            db.transaction(() => {
+                for (const { file, labels } of entries) {
+                    deleteLabels.run(file.path);
+                    for (const label of labels) {
+                        insertLabel.run(file.labelFile, label.labelId, file.language, label.text, label.comment, file.model, file.path, label.line);
+                    }
+                    recordFile.run(file.path, file.model, file.labelFile, file.language, file.lastModified, file.size);
+                }
+            })();
+            return true;
+        } catch (error) {
+            console.error('❌ Error storing labels:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Remove the labels of label text files that no longer exist
+     */
+    public removeLabelFiles(paths: string[]): void {
+        if (paths.length === 0) return;
+
+        const db = this.openForWrite();
+        const statements = SQLiteObjectLookup.LABEL_TABLES.map(([table, pathColumn]) => db.prepare(`DELETE FROM ${table} WHERE ${pathColumn} = ?`));
+        db.transaction(() => {
+            for (const filePath of paths) {
+                statements.forEach(statement => statement.run(filePath));
+            }
+        })();
+    }
+
+    /**
+     * Remove all labels and label file state
+     */
+    public clearLabels(): void {
+        const db = this.openForWrite();
+        for (const [table] of SQLiteObjectLookup.LABEL_TABLES) {
+            db.exec(`DELETE FROM ${table}`);
+        }
+    }
+
+    /**
+     * Label file state recorded by the last label index build, keyed by path
+     */
+    public getLabelFiles(): Map<string, { mtime: number; size: number }> {
+        const states = new Map<string, { mtime: number; size: number }>();
+        if (!this.db) return states;
+
+        try {
+            const rows = this.db.prepare('SELECT path, mtime, size FROM label_files').all() as Array<{ path: string; mtime: number; size: number }>;
+            for (const row of rows) {
+                states.set(row.path, { mtime: row.mtime, size: row.size });
+            }
+        } catch (error) {
+            // Table doesn't exist yet - label index never built
+        }
+        return states;
+    }
+
+    /**
+     * Number of indexed labels (all languages)
+     */
+    public getLabelCount(): number {
+        if (!this.db) return 0;
+
+        try {
+            return (this.db.prepare('SELECT COUNT(*) as count FROM labels').get() as { count: number }).count;
+        } catch (error) {
+            // Table doesn't exist yet - label index never built
+            return 0;
+        }
+    }
+
+    /**
+     * Texts of one label, one row per language (and per model defining the label file)
+     */
+    public resolveLabel(labelFile: string, labelId: string, language?: string): LabelRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT label_file, label_id, language, text, comment, model, path, line
+                FROM labels
+                WHERE label_id = ? COLLATE NOCASE AND label_file = ? COLLATE NOCASE
+                ${language ? 'AND language = ? COLLATE NOCASE' : ''}
+                ORDER BY language, model
+            `).all(...[labelId, labelFile, ...(language ? [language] : [])]) as any[];
+
+            return rows.map(row => SQLiteObjectLookup.toLabelRecord(row));
+        } catch (error) {
+            // Table doesn't exist yet - label index never built
+            return [];
+        }
+    }
+
+    /**
+     * Labels whose text matches the query: exact text first, then prefix, substring and word matches
+     */
+    public searchLabels(query: string, options: LabelSearchOptions = {}): LabelSearchResult[] {
+        if (!this.db || query.trim() === '') return [];
+
+        const { language, labelFile, model, limit = 50 } = options;
+        const filters: string[] = [];
+        const params: any[] = [];
+        if (language) { filters.push('l.language = ? COLLATE NOCASE'); params.push(language); }
+        if (labelFile) { filters.push('l.label_file = ? COLLATE NOCASE'); params.push(labelFile); }
+        if (model) { filters.push('l.model = ? COLLATE NOCASE'); params.push(model); }
+        const filterClause = filters.map(filter => `AND ${filter}`).join(' ');
+
+        try {
+            const exact = this.db.prepare(`
+                SELECT l.label_file, l.label_id, l.language, l.text, l.comment, l.model, l.path, l.line
+                FROM labels l
+                WHERE l.text = ? COLLATE NOCASE ${filterClause}
+                LIMIT ?
+            `).all(query.trim(), ...params, limit) as any[];
+
+            // Every word as a prefix, so "account" also finds "accounts"
+            const words = query.match(/[\p{L}\p{N}_]+/gu) || [];
+            const wordMatches = words.length === 0 ? [] : this.db.prepare(`
+                SELECT l.label_file, l.label_id, l.language, l.text, l.comment, l.model, l.path, l.line
+                FROM labels_fts
+                JOIN labels l ON l.rowid = labels_fts.rowid
+                WHERE labels_fts MATCH ? ${filterClause}
+                ORDER BY bm25(labels_fts)
+                LIMIT ?
+            `).all(words.map(word => `"${word}"*`).join(' '), ...params, limit * 10) as any[];
+
+            const needle = query.trim().toLowerCase();
+            const rank: Record<LabelMatchType, number> = { exact: 0, prefix: 1, contains: 2, words: 3 };
+            const seen = new Set<string>();
+            const results: LabelSearchResult[] = [];
+            for (const row of [...exact, ...wordMatches]) {
+                const key = `${row.path}|${row.line}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+
+                const text = (row.text as string).toLowerCase();
+                const matchType: LabelMatchType = text === needle ? 'exact'
+                    : text.startsWith(needle) ? 'prefix'
+                    : text.includes(needle) ? 'contains'
+                    : 'words';
+                results.push({ ...SQLiteObjectLookup.toLabelRecord(row), matchType });
+            }
+
+            // Shorter texts are closer to the query within the same match type
+            return results
+                .sort((a, b) => rank[a.matchType] - rank[b.matchType] || a.text.length - b.text.length || a.labelId.localeCompare(b.labelId))
+                .slice(0, limit);
+        } catch (error) {
+            // Table doesn't exist yet - label index never built
+            return [];
+        }
+    }
+
+    private static toLabelRecord(row: any): LabelRecord {
+        return {
+            labelFile: row.label_file,
+            labelId: row.label_id,
+            language: row.language,
+            text: row.text,
+            comment: row.comment,
+            model: row.model,
+            path: row.path,
+            line: row.line
+        };
+    }
+
+    private queryClassDeclarations(whereClause: string, ...params: any[]): ClassDeclarationRow[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT class_name, model, path, extends_name, is_interface, is_abstract, is_final
+                FROM class_declarations
+                ${whereClause}
+            `).all(...params) as any[];
+
+            return rows.map(row => ({
+                name: row.class_name,
+                model: row.model,
+                path: row.path,
+                extendsName: row.extends_name,
+                isInterface: row.is_interface === 1,
+                isAbstract: row.is_abstract === 1,
+                isFinal: row.is_final === 1
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    private queryMenuItems(whereClause: string, ...params: any[]): MenuItemRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT name, item_type, object_name, object_type, label, model, path
+                FROM menu_items
+                ${whereClause}
+                ORDER BY name, item_type, model
+            `).all(...params) as any[];
+
+            return rows.map(row => ({
+                name: row.name,
+                itemType: row.item_type,
+                objectName: row.object_name,
+                objectType: row.object_type,
+                label: row.label,
+                model: row.model,
+                path: row.path
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    private queryTableFields(whereClause: string, ...params: any[]): TableFieldRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT table_name, field_name, edt, is_extension, model, path
+                FROM table_fields
+                ${whereClause}
+                ORDER BY table_name, is_extension, field_name
+            `).all(...params) as any[];
+
+            return rows.map(row => ({
+                tableName: row.table_name,
+                name: row.field_name,
+                edt: row.edt,
+                isExtension: row.is_extension === 1,
+                model: row.model,
+                path: row.path
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    private queryMenuElements(whereClause: string, ...params: any[]): MenuElementRecord[] {
+        if (!this.db) return [];
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT menu_name, element_name, element_type, parent_name, label, menu_item_name, menu_item_type,
+                    menu_reference, position, is_extension, model, path
+                FROM menu_elements
+                ${whereClause}
+            `).all(...params) as any[];
+
+            return rows.map(row => ({
+                menuName: row.menu_name,
+                name: row.element_name,
+                elementType: row.element_type,
+                parentName: row.parent_name,
+                label: row.label,
+                menuItemName: row.menu_item_name,
+                menuItemType: row.menu_item_type,
+                menuReference: row.menu_reference,
+                position: row.position,
+                isExtension: row.is_extension === 1,
+                model: row.model,
+                path: row.path
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    private querySecurityEdges(sql: string, ...params: any[]): SecurityPathStep[] {
+        if (!this.db) return [];
+
+        try {
+            return this.db.prepare(sql).all(...params) as SecurityPathStep[];
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    private querySecurityGrants(whereClause: string, ...params: any[]): SecurityGrantRecord[] {
+        if (!this.db) return [];
+
+        const levels = (value: string) => (value ? value.split(',') : []) as AccessLevel[];
+        try {
+            const rows = this.db.prepare(`
+                SELECT privilege_name, entry_point, object_name, object_type, object_child_name, allowed, denied, model, path
+                FROM security_grants
+                ${whereClause}
+                ORDER BY object_type, object_name, object_child_name, privilege_name, model
+            `).all(...params) as any[];
+
+            return rows.map(row => ({
+                privilege: row.privilege_name,
+                entryPoint: row.entry_point,
+                objectName: row.object_name,
+                objectType: row.object_type,
+                objectChildName: row.object_child_name,
+                allowed: levels(row.allowed),
+                denied: levels(row.denied),
+                model: row.model,
+                path: row.path
+            }));
+        } catch (error) {
+            // Table doesn't exist yet - code index never built
+            return [];
+        }
+    }
+
+    /**
+     * Convert free text into an FTS5 phrase of its identifier tokens
+     */
+    private static toFtsPhrase(query: string): string {
+        const tokens = query.match(/[A-Za-z0-9_]+/g);
+        return tokens ? `"${tokens.join(' ')}"` : '';
+    }
+
+    /**
+     * Locate the first line of a source block containing the search terms
+     */
+    private static findMatchingLine(source: string, terms: string[]): { lineOffset: number; text: string } {
+        const lines = source.split('\n');
+        let bestIndex = -1;
+        let bestHits = 0;
+
+        for (let i = 0; i < lines.length; i++) {
+            const lower = lines[i].toLowerCase();
+            const hits = terms.filter(t => lower.includes(t)).length;
+            if (hits > bestHits) {
+                bestHits = hits;
+                bestIndex = i;
+                if (hits === terms.length) break;
+            }
+        }
+
+        if (bestIndex === -1) {
+            bestIndex = lines.findIndex(l => l.trim().length > 0);
+            if (bestIndex === -1) bestIndex = 0;
+        }
+
+        return { lineOffset: bestIndex, text: (lines[bestIndex] || '').trim() };
+    }
 }
 
 // Convenience functions for quick usage
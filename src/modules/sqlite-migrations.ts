@@ -0,0 +1,547 @@
+/**
+ * SQLite Schema Migrations Module
+ *
+ * Ordered, versioned schema changes for the object database. Every change to the
+ * schema is appended as a new migration; applied versions are recorded in the
+ * schema_migrations table so existing databases are upgraded in place.
+ */
+
+import Database from 'better-sqlite3';
+
+export interface SchemaMigration {
+    version: number;
+    name: string;
+    up: (db: Database.Database) => void;
+}
+
+export interface MigrationResult {
+    fromVersion: number;
+    toVersion: number;
+    applied: string[];
+}
+
+/**
+ * All schema migrations in the order they must be applied
+ * Migrations use IF NOT EXISTS so databases created before versioning can be adopted
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 1,
+        name: 'initial_schema',
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS objects (
+                name TEXT NOT NULL,
+                path TEXT NOT NULL,
+                model TEXT NOT NULL,
+                type TEXT NOT NULL,
+                lastModified INTEGER,
+                PRIMARY KEY (name, model, type)
+            );
+
+            CREATE TABLE IF NOT EXISTS object_types_cache (
+                type_name TEXT PRIMARY KEY,
+                cached_at INTEGER DEFAULT (datetime('now'))
+            );
+
+            CREATE TABLE IF NOT EXISTS aot_metadata (
+                key TEXT PRIMARY KEY,
+                value TEXT,
+                updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_objects_name ON objects(name);
+            CREATE INDEX IF NOT EXISTS idx_objects_type ON objects(type);
+            CREATE INDEX IF NOT EXISTS idx_objects_model ON objects(model);
+        `)
+    },
+    {
+        version: 2,
+        name: 'optimized_object_indexes',
+        up: db => db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_objects_model_type ON objects(model, type);
+            CREATE INDEX IF NOT EXISTS idx_objects_name_type ON objects(name, type);
+            CREATE INDEX IF NOT EXISTS idx_objects_type_name ON objects(type, name);
+            CREATE INDEX IF NOT EXISTS idx_objects_name_collate ON objects(name COLLATE NOCASE);
+        `)
+    },
+    {
+        version: 3,
+        name: 'source_code_index',
+        up: db => db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS source_fts USING fts5(
+                object_name,
+                object_type UNINDEXED,
+                model UNINDEXED,
+                method,
+                path UNINDEXED,
+                start_line UNINDEXED,
+                source,
+                tokenize = "unicode61 tokenchars '_'"
+            );
+        `)
+    },
+    {
+        version: 4,
+        name: 'object_references',
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS object_references (
+                source_name TEXT NOT NULL,
+                source_type TEXT NOT NULL,
+                source_model TEXT NOT NULL,
+                source_path TEXT NOT NULL,
+                method TEXT,
+                member TEXT,
+                line INTEGER NOT NULL,
+                target_name TEXT NOT NULL,
+                kind TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_references_target ON object_references(target_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_references_path ON object_references(source_path);
+        `)
+    },
+    {
+        version: 5,
+        name: 'indexed_files',
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS indexed_files (
+                path TEXT PRIMARY KEY,
+                model TEXT NOT NULL,
+                folder TEXT NOT NULL,
+                mtime INTEGER NOT NULL,
+                size INTEGER NOT NULL,
+                hash TEXT
+            );
+        `)
+    },
+    {
+        version: 6,
+        name: 'object_name_trigrams',
+        // Trigram index over object names for fuzzy search, kept in sync with objects by triggers
+        up: db => db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS object_names_fts USING fts5(
+                name,
+                content = 'objects',
+                content_rowid = 'rowid',
+                tokenize = 'trigram'
+            );
+
+            CREATE TRIGGER IF NOT EXISTS objects_names_ai AFTER INSERT ON objects BEGIN
+                INSERT INTO object_names_fts (rowid, name) VALUES (new.rowid, new.name);
+            END;
+
+            CREATE TRIGGER IF NOT EXISTS objects_names_ad AFTER DELETE ON objects BEGIN
+                INSERT INTO object_names_fts (object_names_fts, rowid, name) VALUES ('delete', old.rowid, old.name);
+            END;
+
+            CREATE TRIGGER IF NOT EXISTS objects_names_au AFTER UPDATE OF name ON objects BEGIN
+                INSERT INTO object_names_fts (object_names_fts, rowid, name) VALUES ('delete', old.rowid, old.name);
+                INSERT INTO object_names_fts (rowid, name) VALUES (new.rowid, new.name);
+            END;
+
+            INSERT INTO object_names_fts (object_names_fts) VALUES ('rebuild');
+        `)
+    },
+    {
+        version: 7,
+        name: 'class_hierarchy',
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS class_declarations (
+                class_name TEXT NOT NULL,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL,
+                extends_name TEXT,
+                is_interface INTEGER NOT NULL DEFAULT 0,
+                is_abstract INTEGER NOT NULL DEFAULT 0,
+                is_final INTEGER NOT NULL DEFAULT 0
+            );
+
+            CREATE TABLE IF NOT EXISTS class_interfaces (
+                class_name TEXT NOT NULL,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL,
+                interface_name TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_class_declarations_name ON class_declarations(class_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_class_declarations_extends ON class_declarations(extends_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_class_declarations_path ON class_declarations(path);
+            CREATE INDEX IF NOT EXISTS idx_class_interfaces_class ON class_interfaces(class_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_class_interfaces_interface ON class_interfaces(interface_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_class_interfaces_path ON class_interfaces(path);
+
+            -- Files indexed before this version carry no class facts; force the next update to re-read them
+            DELETE FROM indexed_files;
+        `)
+    },
+    {
+        version: 8,
+        name: 'object_extensions',
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS object_extensions (
+                extension_name TEXT NOT NULL,
+                extension_type TEXT NOT NULL,
+                kind TEXT NOT NULL,
+                base_name TEXT NOT NULL,
+                base_type TEXT NOT NULL,
+                base_member TEXT,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS extension_methods (
+                extension_name TEXT NOT NULL,
+                path TEXT NOT NULL,
+                method_name TEXT NOT NULL,
+                wraps_next INTEGER NOT NULL DEFAULT 0,
+                is_static INTEGER NOT NULL DEFAULT 0,
+                line INTEGER NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_object_extensions_base ON object_extensions(base_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_object_extensions_path ON object_extensions(path);
+            CREATE INDEX IF NOT EXISTS idx_extension_methods_path ON extension_methods(path);
+
+            -- Extension folders and CoC classes indexed before this version must be re-read
+            DELETE FROM indexed_files;
+        `)
+    },
+    {
+        version: 9,
+        name: 'event_subscribers',
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS event_subscribers (
+                subscriber_name TEXT NOT NULL,
+                subscriber_type TEXT NOT NULL,
+                subscriber_method TEXT NOT NULL,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL,
+                line INTEGER NOT NULL,
+                attribute TEXT NOT NULL,
+                target_name TEXT NOT NULL,
+                target_type TEXT NOT NULL,
+                target_member TEXT,
+                event_type TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS event_delegates (
+                object_name TEXT NOT NULL,
+                object_type TEXT NOT NULL,
+                delegate_name TEXT NOT NULL,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL,
+                line INTEGER NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_event_subscribers_target ON event_subscribers(target_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_event_subscribers_path ON event_subscribers(path);
+            CREATE INDEX IF NOT EXISTS idx_event_delegates_object ON event_delegates(object_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_event_delegates_path ON event_delegates(path);
+
+            -- Source files indexed before this version carry no event facts
+            DELETE FROM indexed_files;
+        `)
+    },
+    {
+        version: 10,
+        name: 'labels',
+        // Label text files (AxLabelFile/LabelResources/<language>/<LabelFile>.<language>.label.txt)
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS labels (
+                label_file TEXT NOT NULL,
+                label_id TEXT NOT NULL,
+                language TEXT NOT NULL,
+                text TEXT NOT NULL,
+                comment TEXT,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL,
+                line INTEGER NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS label_files (
+                path TEXT PRIMARY KEY,
+                model TEXT NOT NULL,
+                label_file TEXT NOT NULL,
+                language TEXT NOT NULL,
+                mtime INTEGER NOT NULL,
+                size INTEGER NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_labels_id ON labels(label_id COLLATE NOCASE, label_file COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_labels_text ON labels(text COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_labels_path ON labels(path);
+
+            -- Word search over label text, kept in sync with labels by triggers
+            CREATE VIRTUAL TABLE IF NOT EXISTS labels_fts USING fts5(
+                text,
+                content = 'labels',
+                content_rowid = 'rowid',
+                tokenize = 'unicode61 remove_diacritics 2'
+            );
+
+            CREATE TRIGGER IF NOT EXISTS labels_ai AFTER INSERT ON labels BEGIN
+                INSERT INTO labels_fts (rowid, text) VALUES (new.rowid, new.text);
+            END;
+
+            CREATE TRIGGER IF NOT EXISTS labels_ad AFTER DELETE ON labels BEGIN
+                INSERT INTO labels_fts (labels_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+            END;
+
+            CREATE TRIGGER IF NOT EXISTS labels_au AFTER UPDATE OF text ON labels BEGIN
+                INSERT INTO labels_fts (labels_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+                INSERT INTO labels_fts (rowid, text) VALUES (new.rowid, new.text);
+            END;
+        `)
+    },
+    {
+        version: 11,
+        name: 'security',
+        // Roles, duties and privileges with the objects they reference and the entry points privileges grant
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS security_objects (
+                name TEXT NOT NULL,
+                kind TEXT NOT NULL,
+                label TEXT,
+                is_extension INTEGER NOT NULL DEFAULT 0,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS security_members (
+                parent_name TEXT NOT NULL,
+                parent_kind TEXT NOT NULL,
+                member_name TEXT NOT NULL,
+                member_kind TEXT NOT NULL,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS security_grants (
+                privilege_name TEXT NOT NULL,
+                entry_point TEXT NOT NULL,
+                object_name TEXT NOT NULL,
+                object_type TEXT NOT NULL,
+                object_child_name TEXT,
+                allowed TEXT NOT NULL,
+                denied TEXT NOT NULL,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_security_objects_name ON security_objects(name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_security_objects_path ON security_objects(path);
+            CREATE INDEX IF NOT EXISTS idx_security_members_parent ON security_members(parent_name COLLATE NOCASE, parent_kind);
+            CREATE INDEX IF NOT EXISTS idx_security_members_member ON security_members(member_name COLLATE NOCASE, member_kind);
+            CREATE INDEX IF NOT EXISTS idx_security_members_path ON security_members(path);
+            CREATE INDEX IF NOT EXISTS idx_security_grants_privilege ON security_grants(privilege_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_security_grants_object ON security_grants(object_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_security_grants_path ON security_grants(path);
+
+            -- Security folders were not read by the code index before this version
+            DELETE FROM indexed_files;
+        `)
+    },
+    {
+        version: 12,
+        name: 'navigation',
+        // Menu item targets and the element trees of menus and menu extensions
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS menu_items (
+                name TEXT NOT NULL,
+                item_type TEXT NOT NULL,
+                object_name TEXT,
+                object_type TEXT NOT NULL,
+                label TEXT,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS menus (
+                name TEXT NOT NULL,
+                label TEXT,
+                is_extension INTEGER NOT NULL DEFAULT 0,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS menu_elements (
+                menu_name TEXT NOT NULL,
+                element_name TEXT NOT NULL,
+                element_type TEXT NOT NULL,
+                parent_name TEXT,
+                label TEXT,
+                menu_item_name TEXT,
+                menu_item_type TEXT,
+                menu_reference TEXT,
+                position INTEGER NOT NULL,
+                is_extension INTEGER NOT NULL DEFAULT 0,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_menu_items_name ON menu_items(name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_menu_items_object ON menu_items(object_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_menu_items_path ON menu_items(path);
+            CREATE INDEX IF NOT EXISTS idx_menus_name ON menus(name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_menus_path ON menus(path);
+            CREATE INDEX IF NOT EXISTS idx_menu_elements_item ON menu_elements(menu_item_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_menu_elements_menu ON menu_elements(menu_name COLLATE NOCASE, element_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_menu_elements_reference ON menu_elements(menu_reference COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_menu_elements_path ON menu_elements(path);
+
+            -- Menu folders were not read by the code index before this version
+            DELETE FROM indexed_files;
+        `)
+    },
+    {
+        version: 13,
+        name: 'relations',
+        // Table relations with their constraints, table field EDTs and EDT reference tables for the relation graph
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS table_relations (
+                table_name TEXT NOT NULL,
+                relation_name TEXT NOT NULL,
+                related_table TEXT NOT NULL,
+                relation_type TEXT NOT NULL,
+                cardinality TEXT,
+                related_cardinality TEXT,
+                is_extension INTEGER NOT NULL DEFAULT 0,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS table_relation_constraints (
+                table_name TEXT NOT NULL,
+                relation_name TEXT NOT NULL,
+                field TEXT,
+                related_field TEXT,
+                value TEXT,
+                position INTEGER NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS table_fields (
+                table_name TEXT NOT NULL,
+                field_name TEXT NOT NULL,
+                edt TEXT,
+                is_extension INTEGER NOT NULL DEFAULT 0,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS edts (
+                name TEXT NOT NULL,
+                extends_name TEXT,
+                reference_table TEXT,
+                related_field TEXT,
+                model TEXT NOT NULL,
+                path TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_table_relations_table ON table_relations(table_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_table_relations_related ON table_relations(related_table COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_table_relations_path ON table_relations(path);
+            CREATE INDEX IF NOT EXISTS idx_table_relation_constraints_relation ON table_relation_constraints(path, relation_name);
+            CREATE INDEX IF NOT EXISTS idx_table_fields_table ON table_fields(table_name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_table_fields_edt ON table_fields(edt COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_table_fields_path ON table_fields(path);
+            CREATE INDEX IF NOT EXISTS idx_edts_name ON edts(name COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_edts_path ON edts(path);
+
+            -- Relations and field EDTs were not extracted by the code index before this version
+            DELETE FROM indexed_files;
+        `)
+    },
+    {
+        version: 14,
+        name: 'source_blocks',
+        // Path of every source_fts row - FTS5 can't index its UNINDEXED path column, so per-file
+        // deletes go through this table and the trigger removes the matching rows by rowid
+        up: db => db.exec(`
+            CREATE TABLE IF NOT EXISTS source_blocks (
+                rowid INTEGER PRIMARY KEY,
+                path TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_source_blocks_path ON source_blocks(path);
+
+            CREATE TRIGGER IF NOT EXISTS source_blocks_ad AFTER DELETE ON source_blocks BEGIN
+                DELETE FROM source_fts WHERE rowid = old.rowid;
+            END;
+
+            INSERT INTO source_blocks (rowid, path) SELECT rowid, path FROM source_fts;
+        `)
+    }
+];
+
+/**
+ * The database schema can't be migrated by this version of the server
+ * (written by a newer schema, or an objects table without the required columns)
+ */
+export class IncompatibleSchemaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IncompatibleSchemaError';
+    }
+}
+
+export const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// Columns the lookup queries rely on - a database without them can't be migrated in place
+const REQUIRED_OBJECT_COLUMNS = ['name', 'path', 'model', 'type', 'lastModified'];
+
+/**
+ * Highest applied migration version (0 for databases created before versioning)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+    const table = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`).get();
+    if (!table) return 0;
+
+    const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+    return row.version || 0;
+}
+
+/**
+ * Apply all pending migrations in order, each in its own transaction
+ * Throws when the database was written by a newer schema or has an incompatible objects table
+ */
+export function runMigrations(db: Database.Database): MigrationResult {
+    const fromVersion = getSchemaVersion(db);
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new IncompatibleSchemaError(`database schema version ${fromVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`);
+    }
+
+    assertCompatibleObjectsTable(db);
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+
+    const applied: string[] = [];
+    const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+    for (const migration of SCHEMA_MIGRATIONS) {
+        if (migration.version <= fromVersion) continue;
+
+        db.transaction(() => {
+            migration.up(db);
+            record.run(migration.version, migration.name, new Date().toISOString());
+        })();
+        applied.push(`${migration.version}_${migration.name}`);
+    }
+
+    return { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied };
+}
+
+function assertCompatibleObjectsTable(db: Database.Database): void {
+    const columns = (db.prepare('PRAGMA table_info(objects)').all() as Array<{ name: string }>).map(c => c.name);
+    if (columns.length === 0) return; // Not created yet
+
+    const missing = REQUIRED_OBJECT_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+        throw new IncompatibleSchemaError(`objects table is missing columns: ${missing.join(', ')}`);
+    }
+}
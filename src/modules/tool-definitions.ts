@@ -278,6 +278,11 @@ export class ToolDefinitions {
                 type: "string",
                 description: "Optional filter by D365 model/package name (e.g., ApplicationSuite, CaseManagement, ApplicationPlatform). Leave empty to search all models.",
               },
+              fuzzy: {
+                type: "boolean",
+                description: "Fuzzy name matching: camel-hump abbreviations ('CustInvJour', 'SFL'), trigram similarity and typo tolerance. Results are ranked by score with custom (non-Microsoft or custom-layer) models boosted. Default: false (exact name).",
+                default: false,
+              },
             },
             required: ["objectName"],
           },
@@ -298,8 +303,8 @@ export class ToolDefinitions {
               },
               inspectionMode: {
                 type: "string",
-                enum: ["summary", "properties", "collection", "xppcode"],
-                description: "Controls inspection detail level: 'summary' = Fast overview with collection counts (~50ms, agent-friendly), 'properties' = All object properties without collections (~100ms), 'collection' = Specific collection items without limits (requires collectionName), 'xppcode' = Extract X++ source code from methods (requires codeTarget). Default: 'summary'.",
+                enum: ["summary", "properties", "collection", "xppcode", "dataentity", "effective"],
+                description: "Controls inspection detail level: 'summary' = Fast overview with collection counts (~50ms, agent-friendly), 'properties' = All object properties without collections (~100ms), 'collection' = Specific collection items without limits (requires collectionName), 'xppcode' = Extract X++ source code from methods (requires codeTarget), 'dataentity' = Data entity field mapping read from the AxDataEntityView XML: every field resolved to its datasource table and field, staging table, public entity/collection names, keys and OData/DMF flags, with unmapped, computed and virtual fields flagged (works without the VS2022 service), 'effective' = AxEnum values merged with the values every AxEnumExtension adds: integer value, name, label and contributing model, with warnings for duplicate names, duplicate values and extensions of non-extensible enums (works without the VS2022 service). Default: 'summary'.",
               },
               collectionName: {
                 type: "string",
@@ -322,6 +327,14 @@ export class ToolDefinitions {
                 type: "string",
                 description: "Filter results with wildcards (*=any chars, ?=single char). Examples: '*validate*' (methods containing 'validate'), 'cust*' (items starting with 'cust'), '*Address*'. Applies to property/method/field names to reduce response size.",
               },
+              resolveLabels: {
+                type: "boolean",
+                description: "Append the label text after every label reference in the output, e.g. @SYS7149 (\"Customer account\"). Uses the label index built by build_object_index (default: false).",
+              },
+              labelLanguage: {
+                type: "string",
+                description: "Language used by resolveLabels (default: 'en-US').",
+              },
             },
             required: ["objectName", "objectType"],
             examples: [
@@ -397,6 +410,22 @@ export class ToolDefinitions {
                   maxCodeLines: 50
                 }
               },
+              {
+                description: "🧾 DATA ENTITY MAPPING: Entity fields with their datasource table fields, keys and OData/DMF names",
+                parameters: {
+                  objectName: "CustCustomerV3Entity",
+                  objectType: "AxDataEntityView",
+                  inspectionMode: "dataentity"
+                }
+              },
+              {
+                description: "🔢 EFFECTIVE ENUM: Base enum values plus values added by enum extensions in other models",
+                parameters: {
+                  objectName: "SalesStatus",
+                  objectType: "AxEnum",
+                  inspectionMode: "effective"
+                }
+              },
               {
                 description: "🔍 FILTERED SEARCH: Find validation methods only", 
                 parameters: {
@@ -459,6 +488,16 @@ export class ToolDefinitions {
                 description: "Force a complete rebuild of the index",
                 default: false,
               },
+              incremental: {
+                type: "boolean",
+                description: "Only re-index files whose modification time or content hash changed since the last build, remove entries for deleted files and reload objects of changed models. Reports added, updated and removed counts. Ignored when forceRebuild is true.",
+                default: false,
+              },
+              offline: {
+                type: "boolean",
+                description: "Index by reading the AOT XML folders (PackagesLocalDirectory/<Package>/<Model>/Ax*) directly instead of asking the VS2022 service. Use on machines without Visual Studio, e.g. Linux build agents. The service-based build falls back to this automatically when the service is unavailable.",
+                default: false,
+              },
             },
           },
         },
@@ -538,6 +577,11 @@ export class ToolDefinitions {
                 description: "Output format: 'text' for human-readable results (default), 'json' for structured data suitable for AOT tree building and programmatic use.",
                 default: "text",
               },
+              fuzzy: {
+                type: "boolean",
+                description: "Treat the pattern as a fuzzy query instead of wildcards: camel-hump abbreviations ('CustInvJour' → CustInvoiceJour, 'SFL' → SalesFormLetter), trigram similarity and typo tolerance. Results are ranked by score with custom (non-Microsoft or custom-layer) models boosted. Default: false.",
+                default: false,
+              },
             },
             required: ["pattern"],
             examples: [
@@ -574,6 +618,705 @@ export class ToolDefinitions {
                 model: "ApplicationSuite",
                 format: "json",
                 description: "Get all objects in ApplicationSuite as structured JSON grouped by model and type"
+              },
+              {
+                pattern: "CustInvJour",
+                fuzzy: true,
+                description: "Ranked fuzzy search using a camel-hump abbreviation"
+              }
+            ]
+          },
+        },
+        {
+          name: "search_xpp_code",
+          description: "Full-text search over indexed X++ source code (class declarations and method bodies of classes, tables, forms, queries, views, maps and data entities). Answers questions like 'which methods call SalesFormLetter::construct' without walking the file system. Results are ranked by relevance and include object, method, line and a snippet. The code index is built from the AOT XML files during build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Text to search for. By default the identifiers in the query are matched as a sequence (e.g. 'SalesFormLetter::construct', 'ttsbegin', 'CustTable.AccountNum'). Matching is case-insensitive.",
+              },
+              objectType: {
+                type: "string",
+                description: "Optional filter by AOT folder type (e.g., 'AxClass', 'AxTable', 'AxForm', 'AxQuery', 'AxView', 'AxMap', 'AxDataEntityView').",
+              },
+              model: {
+                type: "string",
+                description: "Optional filter by D365 model name (e.g., 'ApplicationSuite', 'Foundation').",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of results to return. Default is 50.",
+                default: 50,
+              },
+              rawQuery: {
+                type: "boolean",
+                description: "Pass the query to SQLite FTS5 unchanged, enabling operators such as AND, OR, NOT, NEAR() and prefix matching (e.g. 'ttsbegin AND doUpdate', 'SalesLine*'). Default false.",
+                default: false,
+              },
+            },
+            required: ["query"],
+            examples: [
+              {
+                query: "SalesFormLetter::construct",
+                description: "Find every method that calls SalesFormLetter::construct"
+              },
+              {
+                query: "doUpdate",
+                objectType: "AxClass",
+                model: "ApplicationSuite",
+                description: "Find classes in ApplicationSuite that call doUpdate"
+              },
+              {
+                query: "ttsbegin AND select*",
+                rawQuery: true,
+                description: "FTS5 syntax: methods containing ttsbegin and a word starting with 'select'"
+              }
+            ]
+          },
+        },
+        {
+          name: "find_references",
+          description: "Where-used / cross-reference lookup. Lists every object, method and line that refers to the given object: type declarations, select/join buffers, new expressions, static calls (Type::member), intrinsic functions (tableNum, classStr, ...), extends/implements, and XML properties such as ExtendedDataType, EnumType, RelatedTable and form datasources. References are collected from the AOT XML files during build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              objectName: {
+                type: "string",
+                description: "Name of the referenced object (e.g., 'CustTable', 'SalesFormLetter', 'NoYes'). Case-insensitive.",
+              },
+              model: {
+                type: "string",
+                description: "Optional filter by the model that contains the referencing code (e.g., 'ApplicationSuite', 'MyCustomModel').",
+              },
+              kind: {
+                type: "string",
+                enum: ["declaration", "select", "new", "static", "intrinsic", "extends", "implements", "edt", "enum", "relation", "datasource"],
+                description: "Optional filter by reference kind.",
+              },
+              objectType: {
+                type: "string",
+                description: "Optional filter by AOT folder type of the referencing object (e.g., 'AxClass', 'AxTable', 'AxForm').",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of references to return. Default is 200.",
+                default: 200,
+              },
+            },
+            required: ["objectName"],
+            examples: [
+              {
+                objectName: "CustTable",
+                kind: "select",
+                description: "Find all code that selects from CustTable"
+              },
+              {
+                objectName: "SalesFormLetter",
+                model: "MyCustomModel",
+                description: "Find usages of SalesFormLetter in a custom model"
+              }
+            ]
+          },
+        },
+        {
+          name: "get_class_hierarchy",
+          description: "Class hierarchy lookup from the code index. For a class: the full ancestor chain, the interfaces it implements (including inherited and base interfaces), and all direct and transitive subclasses. For an interface: every implementing class, directly, through derived interfaces or by inheriting from an implementer. Each entry shows the model it lives in. Inheritance is read from the AxClass declarations during build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              className: {
+                type: "string",
+                description: "Name of the class or interface (e.g., 'SalesFormLetter', 'SysPackable'). Case-insensitive.",
+              },
+              direction: {
+                type: "string",
+                enum: ["both", "ancestors", "descendants"],
+                description: "'ancestors' = base classes and interfaces, 'descendants' = subclasses and implementers, 'both' (default).",
+                default: "both",
+              },
+              maxDepth: {
+                type: "number",
+                description: "Only list subclasses/implementers up to this depth (1 = direct only). Default: unlimited.",
+              },
+            },
+            required: ["className"],
+            examples: [
+              {
+                className: "SalesFormLetter",
+                description: "Show base classes and all subclasses of SalesFormLetter"
+              },
+              {
+                className: "SysPackable",
+                direction: "descendants",
+                description: "List all classes implementing SysPackable"
+              }
+            ]
+          },
+        },
+        {
+          name: "list_extensions",
+          description: "Extension discovery - answers 'who extends SalesTable?'. Lists every metadata extension (AxTableExtension, AxFormExtension, AxEnumExtension, AxEdtExtension, AxViewExtension, AxDataEntityViewExtension) and every Chain-of-Command class ([ExtensionOf(...)]) of an object, grouped by model. For CoC classes the methods wrapped with next and the methods added are listed. Extensions are indexed from the AOT XML files during build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              objectName: {
+                type: "string",
+                description: "Name of the extended object (e.g., 'SalesTable', 'CustTable', 'SalesFormLetter'). Case-insensitive.",
+              },
+              objectType: {
+                type: "string",
+                description: "Optional filter by the type of the extended object (e.g., 'AxTable', 'AxForm', 'AxEnum', 'AxEdt', 'AxClass').",
+              },
+              model: {
+                type: "string",
+                description: "Optional filter by the model containing the extensions (e.g., 'MyCustomModel').",
+              },
+              kind: {
+                type: "string",
+                enum: ["metadata", "coc"],
+                description: "Optional filter: 'metadata' = AOT extension objects only, 'coc' = Chain-of-Command classes only.",
+              },
+            },
+            required: ["objectName"],
+            examples: [
+              {
+                objectName: "SalesTable",
+                description: "List all table extensions and CoC classes of SalesTable"
+              },
+              {
+                objectName: "SalesTable",
+                objectType: "AxForm",
+                kind: "coc",
+                description: "List CoC classes on the SalesTable form and its datasources/controls"
+              }
+            ]
+          },
+        },
+        {
+          name: "find_event_subscribers",
+          description: "Event subscriber lookup. Given a table, form, class or delegate, lists every handler method subscribed to it - [SubscribesTo] delegate handlers, [DataEventHandler], [FormEventHandler], [FormDataSourceEventHandler], [FormControlEventHandler], [FormDataFieldEventHandler], [PreHandlerFor] and [PostHandlerFor] - with its class, event type and model. Also lists the delegates the object declares. Handlers are indexed from the X++ source of all models (including ISV models) during build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              objectName: {
+                type: "string",
+                description: "Publishing table, form or class (e.g., 'CustTable', 'SalesTable'). A delegate can be given as 'Class.delegate' (e.g., 'SalesFormLetter.postRunDelegate'). Case-insensitive.",
+              },
+              member: {
+                type: "string",
+                description: "Optional delegate, method, datasource or control name to narrow the subscribers (e.g., 'insert', 'CustTable', 'OKButton').",
+              },
+              eventType: {
+                type: "string",
+                description: "Optional event type filter: an event enum value (e.g., 'Inserted', 'ValidatedWrite', 'Initialized', 'Clicked'), 'Delegate', 'Pre' or 'Post'.",
+              },
+              model: {
+                type: "string",
+                description: "Optional filter by the model containing the handler classes.",
+              },
+            },
+            required: ["objectName"],
+            examples: [
+              {
+                objectName: "CustTable",
+                eventType: "Inserted",
+                description: "Find all handlers of the CustTable Inserted data event"
+              },
+              {
+                objectName: "SalesFormLetter.postRunDelegate",
+                description: "Find all subscribers of a class delegate"
+              }
+            ]
+          },
+        },
+        {
+          name: "export_index",
+          description: "Export the object index as a portable snapshot: a gzip-compressed SQLite database with a versioned manifest (schema version, source PackagesLocalDirectory, object counts, cached object types and AOT metadata). Build the index once and share the snapshot with the team instead of every developer running build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              outputPath: {
+                type: "string",
+                description: "Optional snapshot file path (default: cache/object-index-snapshot.db.gz).",
+              },
+            },
+            examples: [
+              {
+                outputPath: "C:\\Shared\\object-index-snapshot.db.gz",
+                description: "Export the index to a shared folder"
+              }
+            ]
+          },
+        },
+        {
+          name: "import_index",
+          description: "Replace the local object index with a snapshot created by export_index. The snapshot is validated and migrated to the current schema before it replaces the database, and indexed file paths are remapped from the snapshot's PackagesLocalDirectory to the local one.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              snapshotPath: {
+                type: "string",
+                description: "Snapshot file created by export_index.",
+              },
+              targetRoot: {
+                type: "string",
+                description: "Optional local PackagesLocalDirectory to remap file paths to (default: the configured xppPath).",
+              },
+            },
+            required: ["snapshotPath"],
+            examples: [
+              {
+                snapshotPath: "C:\\Shared\\object-index-snapshot.db.gz",
+                description: "Import a shared snapshot, remapping paths to the configured xppPath"
+              }
+            ]
+          },
+        },
+        {
+          name: "diff_index",
+          description: "Compare two object indexes and report which objects were added, removed or relocated to another model, grouped by object type and model. Each side can be an object database file, an index snapshot from export_index, 'current' (the active index) or 'live' (a scan of the AOT folders in PackagesLocalDirectory). Use it after a platform update to see what changed in the standard application.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              base: {
+                type: "string",
+                description: "Older side: path of an object database (.db) or snapshot (.db.gz), 'current' or 'live'.",
+              },
+              target: {
+                type: "string",
+                description: "Newer side: path of an object database or snapshot, 'current' or 'live' (default: 'live').",
+              },
+              livePath: {
+                type: "string",
+                description: "Optional PackagesLocalDirectory to scan for 'live' (default: the configured xppPath).",
+              },
+              objectType: {
+                type: "string",
+                description: "Optional object type filter (e.g., 'AxTable', 'AxClass').",
+              },
+              model: {
+                type: "string",
+                description: "Optional model filter. Relocations into or out of the model are included.",
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "json"],
+                description: "Output format (default: markdown).",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum objects listed per section in markdown output (default: 100). JSON output is never cut.",
+              },
+            },
+            required: ["base"],
+            examples: [
+              {
+                base: "C:\\Snapshots\\10.0.40.db.gz",
+                target: "live",
+                description: "Compare a snapshot taken before a platform update with the updated PackagesLocalDirectory"
+              },
+              {
+                base: "C:\\Snapshots\\10.0.40.db.gz",
+                target: "current",
+                objectType: "AxTable",
+                format: "json",
+                description: "List table changes between a snapshot and the active index as JSON"
+              }
+            ]
+          },
+        },
+        {
+          name: "get_model_dependencies",
+          description: "Model dependency graph built from the ModuleReferences of every model descriptor in PackagesLocalDirectory. For one model it returns the direct and transitive dependencies, the models that reference it directly or transitively, and the order in which the model and its dependents must be rebuilt after a change. Without a model it returns the build order of all models and any reference cycles.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              modelName: {
+                type: "string",
+                description: "Model to analyze (e.g., 'ApplicationSuite', 'MyISVModel'). Omit for the whole graph.",
+              },
+              transitive: {
+                type: "boolean",
+                description: "Include transitive dependencies, dependents and the rebuild order (default: true).",
+              },
+              format: {
+                type: "string",
+                enum: ["text", "json"],
+                description: "Output format (default: text).",
+              },
+            },
+            examples: [
+              {
+                modelName: "MyISVModel",
+                description: "Show what MyISVModel depends on and which models must be rebuilt after changing it"
+              },
+              {
+                description: "Show the build order of all models and any reference cycles"
+              }
+            ]
+          },
+        },
+        {
+          name: "resolve_label",
+          description: "Resolve a label reference to its text in every language (or one language). Accepts legacy ids like '@SYS7149' and '@LabelFile:LabelId' references like '@MyLabels:CustomerName'. Labels are indexed from the AxLabelFile label text files of all models during build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              labelId: {
+                type: "string",
+                description: "Label reference (e.g., '@SYS7149', '@MyLabels:CustomerName'). The leading '@' is optional.",
+              },
+              language: {
+                type: "string",
+                description: "Optional language (e.g., 'en-US', 'de'). Omit to get all languages.",
+              },
+            },
+            required: ["labelId"],
+            examples: [
+              {
+                labelId: "@SYS7149",
+                description: "Show the text of a standard label in all languages"
+              }
+            ]
+          },
+        },
+        {
+          name: "search_labels",
+          description: "Find existing labels by text, so an existing label can be reused instead of creating a duplicate. Labels with exactly the given text come first, followed by labels starting with or containing it and labels containing all of its words.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              text: {
+                type: "string",
+                description: "Label text to look for (e.g., 'Customer account'). Case-insensitive.",
+              },
+              language: {
+                type: "string",
+                description: "Language to search in (default: 'en-US').",
+              },
+              labelFile: {
+                type: "string",
+                description: "Optional label file filter (e.g., 'SYS', 'MyLabels').",
+              },
+              model: {
+                type: "string",
+                description: "Optional filter by the model containing the label file.",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of labels returned (default: 25).",
+              },
+            },
+            required: ["text"],
+            examples: [
+              {
+                text: "Customer account",
+                description: "Find labels to reuse for a customer account field"
+              }
+            ]
+          },
+        },
+        {
+          name: "trace_security",
+          description: "Trace security from AxSecurityRole, AxSecurityDuty and AxSecurityPrivilege metadata. For an entry point (menu item, service operation or data entity) it lists every role granting it and the role → duty → privilege paths. For a role it lists every entry point it grants with the effective access level (Read, Update, Create, Correct, Delete, Invoke). Forms, classes and reports are traced through the menu items opening them, so 'which roles can open form X' works directly. Duties and privileges are traced both ways. Role and duty extensions are included.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Role, duty, privilege or entry point name (e.g., 'AccountsReceivableClerk', 'CustTable', 'CustCustomerV3Entity'). Service operations are addressed as 'Service.operation'. A form, class or report name resolves to the menu items opening it.",
+              },
+              direction: {
+                type: "string",
+                enum: ["auto", "up", "down"],
+                description: "'up' lists the roles above, 'down' the entry points below, 'auto' picks down for roles, up for entry points and both for duties and privileges (default: auto).",
+              },
+              objectType: {
+                type: "string",
+                description: "Optional entry point type filter: MenuItemDisplay, MenuItemAction, MenuItemOutput, ServiceOperation or DataEntity.",
+              },
+              format: {
+                type: "string",
+                enum: ["text", "json"],
+                description: "Output format (default: text).",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of paths and entry points listed (default: 100).",
+              },
+            },
+            required: ["name"],
+            examples: [
+              {
+                name: "CustTable",
+                description: "Find every role that can open the CustTable menu item"
+              },
+              {
+                name: "AccountsReceivableClerk",
+                description: "List every entry point the AccountsReceivableClerk role grants, with access levels"
+              }
+            ]
+          },
+        },
+        {
+          name: "find_navigation_path",
+          description: "Find how users reach a form, class or report: the display, action and output menu items opening it and the full menu breadcrumb (e.g., Accounts receivable > Customers > All customers) of every place AxMenu or AxMenuExtension puts those menu items, including menus referenced from other menus. Also accepts a menu item name.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              objectName: {
+                type: "string",
+                description: "Form, class, report or menu item name (e.g., 'CustTable', 'SalesFormLetter_Invoice').",
+              },
+              objectType: {
+                type: "string",
+                description: "Optional menu item object type filter: Form, Class, SSRSReport, Query.",
+              },
+              language: {
+                type: "string",
+                description: "Language for menu labels in the breadcrumb (default: 'en-US').",
+              },
+            },
+            required: ["objectName"],
+            examples: [
+              {
+                objectName: "CustTable",
+                description: "Show the menu items and menu paths that open the CustTable form"
+              }
+            ]
+          },
+        },
+        {
+          name: "find_join_path",
+          description: "Find how two tables join: the shortest chains of table relations (declared on the tables or their extensions, including foreign keys and relations implied by a field's EDT reference table) with the exact field pairs of every join, plus the X++ select ... join statement for each chain. Relations are followed in both directions. Built from the AOT XML during build_object_index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              fromTable: {
+                type: "string",
+                description: "Table to start from (e.g., 'SalesLine').",
+              },
+              toTable: {
+                type: "string",
+                description: "Table to reach (e.g., 'CustGroup').",
+              },
+              maxDepth: {
+                type: "number",
+                description: "Maximum number of joins in a chain (default: 4, max: 6).",
+                minimum: 1,
+                maximum: 6
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of shortest chains returned (default: 10).",
+                minimum: 1,
+                maximum: 50
+              },
+              includeEdtRelations: {
+                type: "boolean",
+                description: "Also follow relations implied by EDT reference tables of fields (default: true).",
+              },
+              format: {
+                type: "string",
+                enum: ["text", "json"],
+                description: "Output format (default: 'text').",
+              },
+            },
+            required: ["fromTable", "toTable"],
+            examples: [
+              {
+                fromTable: "SalesLine",
+                toTable: "CustGroup",
+                description: "Show how sales lines join to customer groups, with the X++ select"
+              }
+            ]
+          },
+        },
+        {
+          name: "resolve_edt",
+          description: "Resolve the effective properties of an extended data type (EDT) by walking its Extends chain in the indexed AOT XML: string size, label, help text, reference table, enum type and every other property, each with the EDT (or EDT extension) that sets it and the values it overrides, plus the base primitive type. Pass Table.Field to start from a table field, so field-level overrides are included. Label references are resolved to text.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "EDT name (e.g., 'CustAccount') or table field as Table.Field (e.g., 'CustTable.AccountNum').",
+              },
+              language: {
+                type: "string",
+                description: "Language for label text (default: 'en-US').",
+              },
+              format: {
+                type: "string",
+                enum: ["text", "json"],
+                description: "Output format (default: 'text').",
+              },
+            },
+            required: ["name"],
+            examples: [
+              {
+                name: "CustTable.AccountNum",
+                description: "Show where the label and string size of CustTable.AccountNum come from"
+              }
+            ]
+          },
+        },
+        {
+          name: "lint_xpp_object",
+          description: "Run X++ best-practice rules on the parsed source of an AOT object (class, table, form, query, view, map, data entity) or on every object of a model: unbalanced ttsbegin/ttscommit, select inside loops, doInsert/doUpdate/doDelete calls, hard-coded message strings, Chain-of-Command methods that skip next, empty catch blocks and unparsable source. Each diagnostic has its rule, severity, object, method and line. Severities can be changed or rules switched off per model in an xpp-lint.json file in the model folder, which can also hold suppressions; single findings are suppressed with an '// xpp-lint-disable-next-line rule -- reason' comment or the SuppressBPWarning attribute.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              objectName: {
+                type: "string",
+                description: "Object to lint (e.g., 'SalesFormLetter'). Omit together with model to lint the whole model.",
+              },
+              objectType: {
+                type: "string",
+                enum: ["AxClass", "AxTable", "AxForm", "AxQuery", "AxView", "AxMap", "AxDataEntityView", "AxCompositeDataEntityView"],
+                description: "AOT type of the object. Without it classes, tables, forms, queries, views, maps and data entities are searched in that order.",
+              },
+              model: {
+                type: "string",
+                description: "Model name. With objectName it picks the object from that model; without objectName every object of the model is linted.",
+              },
+              rules: {
+                type: "array",
+                items: {
+                  type: "string",
+                  enum: ["unbalancedTts", "selectInLoop", "doMethodCall", "hardcodedString", "cocMissingNext", "emptyCatch", "parseError"],
+                },
+                description: "Only run these rules (default: all rules enabled in the model's xpp-lint.json).",
+              },
+              minSeverity: {
+                type: "string",
+                enum: ["info", "warning", "error"],
+                description: "Leave out diagnostics below this severity (default: 'info').",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of diagnostics listed (default: 200). Counts always cover all diagnostics.",
+              },
+              format: {
+                type: "string",
+                enum: ["text", "json"],
+                description: "Output format (default: 'text').",
+              },
+            },
+            examples: [
+              {
+                objectName: "SalesFormLetter_Extension",
+                description: "Check a CoC extension class, including methods that skip next"
+              },
+              {
+                model: "ContosoExtensions",
+                minSeverity: "warning",
+                description: "List warnings and errors across a custom model"
+              }
+            ]
+          },
+        },
+        {
+          name: "get_code_metrics",
+          description: "Compute code metrics from the parsed X++ of an object (class, table, form, query, view, map, data entity) or of every object in a model: lines of code, cyclomatic complexity, nesting depth and parameter count per method, method count per object. Results are aggregated per object and per model, and methods or objects above the thresholds are flagged as outliers. Adds code-level depth to the per-type object counts reported by build_object_index and get_current_config.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              objectName: {
+                type: "string",
+                description: "Object to measure (e.g., 'SalesFormLetter'). Omit together with model to measure the whole model.",
+              },
+              objectType: {
+                type: "string",
+                enum: ["AxClass", "AxTable", "AxForm", "AxQuery", "AxView", "AxMap", "AxDataEntityView", "AxCompositeDataEntityView"],
+                description: "AOT type of the object. Without it classes, tables, forms, queries, views, maps and data entities are searched in that order.",
+              },
+              model: {
+                type: "string",
+                description: "Model name. With objectName it picks the object from that model; without objectName every object of the model is measured.",
+              },
+              thresholds: {
+                type: "object",
+                properties: {
+                  complexity: { type: "number", description: "Cyclomatic complexity per method (default: 10)" },
+                  nestingDepth: { type: "number", description: "Nesting depth per method (default: 4)" },
+                  parameters: { type: "number", description: "Parameters per method (default: 7)" },
+                  methodLines: { type: "number", description: "Lines of code per method (default: 80)" },
+                  methodCount: { type: "number", description: "Methods per object (default: 50)" },
+                },
+                description: "Values above these thresholds are reported as outliers.",
+              },
+              sortBy: {
+                type: "string",
+                enum: ["complexity", "lines", "methods", "name"],
+                description: "Order of objects in model mode and of methods in object mode (default: 'complexity').",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of objects, methods and outliers listed (default: 25).",
+              },
+              format: {
+                type: "string",
+                enum: ["text", "json"],
+                description: "Output format (default: 'text').",
+              },
+            },
+            examples: [
+              {
+                objectName: "SalesFormLetter",
+                description: "Complexity and size of each method of SalesFormLetter"
+              },
+              {
+                model: "ContosoExtensions",
+                thresholds: { complexity: 15 },
+                description: "Model totals and the most complex objects and methods of a custom model"
+              }
+            ]
+          },
+        },
+        {
+          name: "check_chain_of_command",
+          description: "Check Chain-of-Command classes ([ExtensionOf]) against the class, table or form they extend, resolved through the index - the checks the X++ compiler only runs on a build VM. For each extension: every wrapped method must exist in the base (own, inherited or kernel method) with a matching signature and without repeated default values, must call next exactly once on every path (Replaceable methods may skip it), and must not wrap private, final or Hookable(false)/Wrappable(false) methods; the class must be final. Results are reported per extension with method and line.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              className: {
+                type: "string",
+                description: "CoC class to check (e.g., 'SalesFormLetter_Contoso_Extension').",
+              },
+              baseName: {
+                type: "string",
+                description: "Check every CoC class extending this class, table or form (e.g., 'SalesTable').",
+              },
+              model: {
+                type: "string",
+                description: "Only check CoC classes in this model; on its own, checks every CoC class of the model.",
+              },
+              onlyIssues: {
+                type: "boolean",
+                description: "List only extensions with issues (default: false).",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of extensions listed (default: 50).",
+              },
+              format: {
+                type: "string",
+                enum: ["text", "json"],
+                description: "Output format (default: 'text').",
+              },
+            },
+            examples: [
+              {
+                baseName: "SalesTable",
+                description: "Verify every CoC extension of SalesTable (table and form)"
+              },
+              {
+                model: "ContosoExtensions",
+                onlyIssues: true,
+                description: "Find CoC mistakes across a custom model before building"
               }
             ]
           },
@@ -6,10 +6,19 @@ import { AppConfig } from "./app-config.js";
 import { AOTStructureManager } from "./aot-structure.js";
 import { ObjectIndexManager } from "./object-index.js";
 import { findXppObject } from "./parsers.js";
+import { REFERENCE_KINDS } from "./reference-extractor.js";
+import { SOURCE_CODE_FOLDERS, objectTypeForFolder } from "./code-index.js";
+import { LINT_RULES, LintRuleId, filterBySeverity } from "./xpp-lint.js";
+import { IndexWatcher } from "./index-watcher.js";
+import { formatIndexDiffMarkdown } from "./index-diff.js";
+import { buildModelDependencyGraph, getModelDependencies } from "./model-dependencies.js";
+import { DEFAULT_LABEL_LANGUAGE, formatLabelReference } from "./label-index.js";
 import { getServerStartTime } from "../index.js";
+import { CUSTOM_LAYERS } from "./config.js";
+import { isCustomModel } from "./utils.js";
 
 import { ObjectCreators } from "./object-creators.js";
-import { SQLiteObjectLookup, ObjectLocation } from "./sqlite-lookup.js";
+import { SQLiteObjectLookup, ObjectLocation, ReferenceSearchResult, FuzzySearchResult, EventSubscriberRecord } from "./sqlite-lookup.js";
 
 /**
  * Tool handlers for all MCP tools
@@ -625,11 +634,12 @@ export class ToolHandlers {
       objectName: z.string(),
       objectType: z.string().optional(),
       model: z.string().optional(),
+      fuzzy: z.boolean().optional().default(false),
     });
-    const { objectName, objectType, model } = schema.parse(args);
+    const { objectName, objectType, model, fuzzy } = schema.parse(args);
     
     // No need to check XPP path - findXppObject uses SQLite first, filesystem fallback
-    const results = await findXppObject(objectName, objectType, model);
+    const results = await findXppObject(objectName, objectType, model, fuzzy);
     
     let content = `Search results for X++ object "${objectName}"`;
     if (objectType) content += ` of type "${objectType}"`;
@@ -638,6 +648,8 @@ export class ToolHandlers {
     
     if (results.length === 0) {
       content += "No objects found. The object does not exist in the codebase.\n";
+      if (!fuzzy) content += "Tip: use fuzzy: true to match abbreviations and misspelled names.\n";
+      else content += "Fuzzy search uses the object index - run build_object_index if it was never built.\n";
     } else {
       content += `Found ${results.length} object(s):\n\n`;
       for (const result of results) {
@@ -645,6 +657,7 @@ export class ToolHandlers {
         content += `   Type: ${result.type}\n`;
         content += `   Path: ${result.path}\n`;
         if (result.model) content += `   Model: ${result.model}\n`;
+        if (typeof result.score === 'number') content += `   Score: ${result.score.toFixed(2)} (${result.matchType})\n`;
         content += `\n`;
       }
     }
@@ -683,12 +696,14 @@ export class ToolHandlers {
     const schema = z.object({
       objectName: z.string(),
       objectType: z.string().optional(),
-      inspectionMode: z.enum(["summary", "properties", "collection", "xppcode"]).optional().default("summary"),
+      inspectionMode: z.enum(["summary", "properties", "collection", "xppcode", "dataentity", "effective"]).optional().default("summary"),
       collectionName: z.string().optional(),
       codeTarget: z.enum(["methods", "specific-method", "event-handlers"]).optional(),
       methodName: z.string().optional(),
       maxCodeLines: z.number().optional(),
       filterPattern: z.string().optional(),
+      resolveLabels: z.boolean().optional().default(false),
+      labelLanguage: z.string().optional().default(DEFAULT_LABEL_LANGUAGE),
     });
     const { 
       objectName, 
@@ -698,7 +713,9 @@ export class ToolHandlers {
       codeTarget,
       methodName,
       maxCodeLines,
-      filterPattern 
+      filterPattern,
+      resolveLabels,
+      labelLanguage
     } = schema.parse(args);
     
     // Validate collectionName is provided when inspectionMode is "collection"
@@ -728,6 +745,16 @@ export class ToolHandlers {
       );
     }
     
+    // Data entity mode reads the AOT XML directly - no VS2022 service round trip
+    if (inspectionMode === "dataentity") {
+      return await this.inspectDataEntity(objectName, filterPattern, resolveLabels, labelLanguage, requestId);
+    }
+
+    // Effective enum values merge the AxEnum with its AxEnumExtension files, also read from the AOT XML
+    if (inspectionMode === "effective") {
+      return await this.inspectEffectiveEnum(objectName, filterPattern, resolveLabels, labelLanguage, requestId);
+    }
+
     try {
       const client = ObjectCreators['getServiceClient'](15000); // Use longer timeout for inspection
       await client.connect();
@@ -778,6 +805,9 @@ export class ToolHandlers {
       
       // Format output based on inspection mode (filtering handled internally by C# service)
       let content = this.formatInspectionResult(inspectionMode, objectName, data, filterPattern, collectionName);
+      if (resolveLabels) {
+        content = ObjectIndexManager.annotateLabels(content, labelLanguage);
+      }
       
       return await createLoggedResponse(content, requestId, "inspect_xpp_object");
       
@@ -791,6 +821,135 @@ export class ToolHandlers {
     }
   }
 
+  // Field mapping of a data entity, read from its AxDataEntityView XML and extensions
+  static async inspectDataEntity(objectName: string, filterPattern: string | undefined, resolveLabels: boolean, labelLanguage: string, requestId: string): Promise<any> {
+    try {
+      const entity = await ObjectIndexManager.getDataEntity(objectName);
+      if (!entity) {
+        return await createLoggedResponse(
+          `❌ Data entity "${objectName}" not found. Check the name (AxDataEntityView) and that xppPath points to PackagesLocalDirectory (get_current_config).`,
+          requestId,
+          "inspect_xpp_object"
+        );
+      }
+
+      const yesNo = (value: boolean) => value ? 'Yes' : 'No';
+      let content = `🧾 Data Entity: ${entity.name} [${entity.model}]`;
+      if (filterPattern) content += ` (fields filtered by: ${filterPattern})`;
+      content += `\n\n`;
+      if (entity.label) content += `🏷️ Label: ${entity.label}\n`;
+      content += `🌐 OData: public ${yesNo(entity.isPublic)}`;
+      if (entity.publicEntityName) content += `, entity ${entity.publicEntityName}`;
+      if (entity.publicCollectionName) content += `, collection ${entity.publicCollectionName}`;
+      content += `\n`;
+      content += `📦 Data management: enabled ${yesNo(entity.dataManagementEnabled)}, staging table ${entity.stagingTable || 'none'}\n`;
+      if (entity.entityCategory) content += `🗂️ Category: ${entity.entityCategory}\n`;
+      if (entity.isReadOnly) content += `🔒 Read-only entity\n`;
+      if (entity.extensions.length > 0) content += `🧩 Extensions: ${entity.extensions.join(', ')}\n`;
+      content += `\n`;
+
+      content += `🗄️ Datasources (${entity.dataSources.length}):\n`;
+      for (const ds of entity.dataSources) {
+        content += `   • ${ds.name} → ${ds.table || '(no table)'}`;
+        if (ds.parent) content += ` (under ${ds.parent}${ds.joinMode ? `, ${ds.joinMode}` : ''})`;
+        if (ds.source !== entity.name) content += ` [${ds.source}]`;
+        content += `\n`;
+      }
+      content += `\n`;
+
+      if (entity.keys.length > 0) {
+        content += `🔑 Keys:\n`;
+        for (const key of entity.keys) {
+          content += `   • ${key.name}${key.name === entity.primaryKey ? ' (primary)' : ''}: ${key.fields.join(', ')}\n`;
+        }
+        content += `\n`;
+      }
+
+      const fields = filterPattern ? entity.fields.filter(field => this.matchesPattern(field.name, filterPattern)) : entity.fields;
+      const counts = (mapping: string) => entity.fields.filter(field => field.mapping === mapping).length;
+      content += `📋 Fields (${fields.length}): ${counts('mapped')} mapped, ${counts('computed')} computed, ${counts('virtual')} virtual, ${counts('unresolved')} unresolved\n`;
+      for (const field of fields) {
+        const flags = [field.mandatory && 'mandatory', field.readOnly && 'read-only', field.source !== entity.name && field.source].filter(Boolean);
+        const suffix = flags.length > 0 ? ` (${flags.join(', ')})` : '';
+        switch (field.mapping) {
+          case 'mapped':
+            content += `   • ${field.name} → ${field.table}.${field.dataField} [${field.dataSource}]${suffix}\n`;
+            break;
+          case 'computed':
+            content += `   🧮 ${field.name} → computed${field.computedMethod ? ` by ${field.computedMethod}()` : ''}${suffix}\n`;
+            break;
+          case 'virtual':
+            content += `   👻 ${field.name} → virtual (set in X++)${suffix}\n`;
+            break;
+          default:
+            content += `   ⚠️ ${field.name} → unmapped: ${field.dataSource ? `${field.dataSource}${field.table ? ` (${field.table})` : ' (unknown datasource)'}` : 'no datasource'}.${field.dataField || '?'}${suffix}\n`;
+        }
+      }
+
+      if (resolveLabels) {
+        content = ObjectIndexManager.annotateLabels(content, labelLanguage);
+      }
+      return await createLoggedResponse(content, requestId, "inspect_xpp_object");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Failed to inspect data entity "${objectName}": ${errorMsg}`,
+        requestId,
+        "inspect_xpp_object"
+      );
+    }
+  }
+
+  // Enum values merged with every enum extension, with the contributing model and value conflicts
+  static async inspectEffectiveEnum(objectName: string, filterPattern: string | undefined, resolveLabels: boolean, labelLanguage: string, requestId: string): Promise<any> {
+    try {
+      const effective = await ObjectIndexManager.getEffectiveEnum(objectName);
+      if (!effective) {
+        return await createLoggedResponse(
+          `❌ Enum "${objectName}" not found. Check the name (AxEnum) and that xppPath points to PackagesLocalDirectory (get_current_config).`,
+          requestId,
+          "inspect_xpp_object"
+        );
+      }
+
+      let content = `🔢 Effective Enum: ${effective.name} [${effective.model}]`;
+      if (filterPattern) content += ` (values filtered by: ${filterPattern})`;
+      content += `\n\n`;
+      if (effective.label) content += `🏷️ Label: ${effective.label}\n`;
+      content += `🧩 Extensible: ${effective.isExtensible ? 'Yes' : 'No'}`;
+      content += effective.extensions.length > 0
+        ? `, extended by ${effective.extensions.map(extension => `${extension.name} [${extension.model}]`).join(', ')}\n\n`
+        : `, no extensions\n\n`;
+
+      const values = filterPattern ? effective.values.filter(value => this.matchesPattern(value.name, filterPattern)) : effective.values;
+      content += `📋 Values (${values.length}):\n`;
+      for (const value of values) {
+        content += `   • ${value.value !== null ? value.value : '(assigned at sync)'} ${value.name}`;
+        if (value.label) content += ` - ${value.label}`;
+        content += ` [${value.model}${value.isExtension ? `, ${value.source}` : ''}]\n`;
+      }
+
+      if (effective.conflicts.length > 0) {
+        content += `\n⚠️ Conflicts (${effective.conflicts.length}):\n`;
+        for (const conflict of effective.conflicts) {
+          content += `   • ${conflict.message}\n`;
+        }
+      }
+
+      if (resolveLabels) {
+        content = ObjectIndexManager.annotateLabels(content, labelLanguage);
+      }
+      return await createLoggedResponse(content, requestId, "inspect_xpp_object");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Failed to inspect enum "${objectName}": ${errorMsg}`,
+        requestId,
+        "inspect_xpp_object"
+      );
+    }
+  }
+
   // Format inspection results based on inspection mode
   static formatInspectionResult(inspectionMode: string, objectName: string, data: any, filterPattern?: string, collectionName?: string): string {
     let content = `🔍 Object Inspection for "${objectName}" (${inspectionMode} mode)`;
@@ -918,17 +1077,42 @@ export class ToolHandlers {
     const schema = z.object({
       objectType: z.string().optional(),
       forceRebuild: z.boolean().optional().default(false),
+      incremental: z.boolean().optional().default(false),
+      offline: z.boolean().optional().default(false),
     });
-    const { objectType, forceRebuild } = schema.parse(args);
+    const { objectType, forceRebuild, incremental, offline } = schema.parse(args);
     
     // Note: xppPath no longer required for index building - VS2022 service provides all data
     let content = "";
+
+    // Incremental update: only changed files and models are re-indexed
+    if (incremental && !forceRebuild) {
+      const summary = await ObjectIndexManager.buildIncrementalIndex(undefined, offline);
+      const stats = ObjectIndexManager.getStats();
+      content = `Incremental index update complete (${summary.durationMs}ms):\n`;
+      content += `- Added files: ${summary.added}\n`;
+      content += `- Updated files: ${summary.updated}\n`;
+      content += `- Removed files: ${summary.removed}\n`;
+      content += `- Unchanged files: ${summary.unchanged}\n`;
+      content += `- Changed models: ${summary.changedModels.length > 0 ? summary.changedModels.join(', ') : 'none'}\n`;
+      content += `- Reloaded models: ${summary.refreshedModels.length > 0 ? summary.refreshedModels.join(', ') : 'none'}\n`;
+
+      const notReloaded = summary.changedModels.filter(model => !summary.refreshedModels.includes(model));
+      if (notReloaded.length > 0) {
+        content += `⚠️ Object rows not reloaded: ${notReloaded.join(', ')}\n`;
+      }
+
+      content += `\n- Total objects: ${stats.totalObjects}\n`;
+      content += `- Indexed source blocks: ${ObjectIndexManager.getCodeIndexCount()}\n`;
+      return await createLoggedResponse(content, requestId, "build_object_index");
+    }
   
     // Build file object index
-    await ObjectIndexManager.buildFullIndex(forceRebuild);
+    await ObjectIndexManager.buildFullIndex(forceRebuild, offline);
     const stats = ObjectIndexManager.getStats();
     content = `Full index build complete:\n`;
-    content += `- Total objects: ${stats.totalObjects}\n\n`;
+    content += `- Total objects: ${stats.totalObjects}\n`;
+    content += `- Indexed source blocks: ${ObjectIndexManager.getCodeIndexCount()}\n\n`;
     content += "By type:\n";
     for (const [type, count] of Object.entries(stats.byType)) {
       content += `- ${type}: ${count}\n`;
@@ -1119,6 +1303,10 @@ export class ToolHandlers {
         applicationInfo: config.applicationInfo,
         systemInfo: config.systemInfo,
         vs2022Service: vs2022ServiceInfo,
+        indexWatcher: {
+          enabled: AppConfig.isIndexWatchEnabled(),
+          ...IndexWatcher.getStatus()
+        },
         summary: {
           totalModels: config.models.length,
           customModels: groupedModels.custom.length,
@@ -1139,20 +1327,14 @@ export class ToolHandlers {
    * Group models by custom vs standard based on layer and publisher
    */
   private static groupModelsByType(models: any[]): { custom: any[], standard: any[], summary: any } {
-    const customLayers = ['usr', 'cus', 'var', 'isv'];
-    const microsoftPublishers = ['Microsoft Corporation', 'Microsoft', 'Microsoft Dynamics'];
-    
     const custom: any[] = [];
     const standard: any[] = [];
     
     for (const model of models) {
-      const isCustomLayer = customLayers.includes(model.layer?.toLowerCase());
-      const isMicrosoftPublisher = microsoftPublishers.some(pub => 
-        model.publisher?.toLowerCase().includes(pub.toLowerCase())
-      );
+      const isCustomLayer = CUSTOM_LAYERS.includes(model.layer?.toLowerCase());
       
       // Consider it custom if it's in a custom layer OR not published by Microsoft
-      if (isCustomLayer || !isMicrosoftPublisher) {
+      if (isCustomModel(model)) {
         custom.push({
           ...model,
           modelType: 'custom',
@@ -1332,8 +1514,11 @@ export class ToolHandlers {
       model: z.string().optional(),
       limit: z.number().optional().default(50),
       format: z.enum(["text", "json"]).optional().default("text"),
+      fuzzy: z.boolean().optional().default(false),
     });
-    const { pattern, objectType, model, limit, format } = schema.parse(args);
+    const { pattern, objectType, model, limit, format, fuzzy: fuzzyRequested } = schema.parse(args);
+    // The browse-all pattern keeps its LIKE semantics
+    const fuzzy = fuzzyRequested && pattern !== "*";
 
     let lookup: SQLiteObjectLookup | null = null;
     
@@ -1349,10 +1534,14 @@ export class ToolHandlers {
       }
 
       const startTime = Date.now();
-      let results;
+      let results: ObjectLocation[];
       
       // Determine search strategy based on parameters
-      if (pattern === "*" && model && !objectType) {
+      if (fuzzy) {
+        // Ranked camel-hump / trigram / typo-tolerant search
+        const customModels = await AppConfig.getCustomModelNames();
+        results = lookup.searchObjectsFuzzy(pattern, { objectType, model, limit: Math.max(limit, 500), customModels });
+      } else if (pattern === "*" && model && !objectType) {
         // Browse all objects in a specific model
         results = lookup.findObjectsByModel(model);
       } else if (pattern === "*" && model && objectType) {
@@ -1382,7 +1571,7 @@ export class ToolHandlers {
       if (format === "json") {
         const jsonResponse = {
           meta: {
-            queryType: pattern === "*" && model ? "modelBrowse" : "patternSearch",
+            queryType: fuzzy ? "fuzzySearch" : pattern === "*" && model ? "modelBrowse" : "patternSearch",
             pattern,
             objectType: objectType || null,
             model: model || null,
@@ -1392,7 +1581,10 @@ export class ToolHandlers {
             returnedResults: limitedResults.length,
             limitApplied: limitedResults.length < results.length
           },
-          data: ToolHandlers.buildStructuredObjectData(limitedResults, pattern === "*" && !!model)
+          // Fuzzy results stay in rank order
+          data: fuzzy
+            ? (limitedResults as FuzzySearchResult[]).map(({ name, path, model, type, score, matchType }) => ({ name, path, model, type, score, matchType }))
+            : ToolHandlers.buildStructuredObjectData(limitedResults, pattern === "*" && !!model)
         };
         
         return await createLoggedResponse(JSON.stringify(jsonResponse, null, 2), requestId, "search_objects_pattern");
@@ -1404,7 +1596,7 @@ export class ToolHandlers {
         content = `📦 Model Browser: "${model}"`;
         if (objectType) content += ` (${objectType} objects only)`;
       } else {
-        content = `🔍 Pattern Search: "${pattern}"`;
+        content = fuzzy ? `🔍 Fuzzy Search: "${pattern}"` : `🔍 Pattern Search: "${pattern}"`;
         if (objectType) content += ` (${objectType} only)`;
         if (model) content += ` in ${model}`;
       }
@@ -1429,6 +1621,9 @@ export class ToolHandlers {
           content += `   • "*Invoice*" - objects containing "Invoice"\n`;
           content += `   • "Sales?" - "Sales" + one character\n`;
           content += `   • "*" + model filter - browse entire model\n`;
+          if (!fuzzy) {
+            content += `   • fuzzy: true - abbreviations ("CustInvJour", "SFL") and misspelled names\n`;
+          }
         }
       } else {
         content += `✅ Found ${results.length} matches`;
@@ -1460,6 +1655,10 @@ export class ToolHandlers {
             content += `${i + 1}. ${obj.name}\n`;
             content += `   📦 ${obj.model} → ${obj.type}\n`;
             content += `   📁 ${obj.path}\n`;
+            if (fuzzy) {
+              const match = obj as FuzzySearchResult;
+              content += `   🎯 Score: ${match.score.toFixed(2)} (${match.matchType})\n`;
+            }
             content += `\n`;
           });
         }
@@ -1493,6 +1692,1326 @@ export class ToolHandlers {
     }
   }
 
+  static async searchXppCode(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      query: z.string().min(1),
+      objectType: z.string().optional(),
+      model: z.string().optional(),
+      limit: z.number().optional().default(50),
+      rawQuery: z.boolean().optional().default(false),
+    });
+    const { query, objectType, model, limit, rawQuery } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const results = ObjectIndexManager.searchCode(query, { objectType, model, limit, rawQuery });
+      const duration = Date.now() - startTime;
+
+      let content = `🔎 Code Search: "${query}"`;
+      if (objectType) content += ` (${objectType} only)`;
+      if (model) content += ` in ${model}`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      if (results.length === 0) {
+        content += `❌ No source code matches found for "${query}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        content += `   • Use rawQuery=true with a prefix query, e.g. "${query.split(/\W+/).filter(Boolean)[0] || query}*"\n`;
+        content += `   • Remove the objectType/model filters\n`;
+        return await createLoggedResponse(content, requestId, "search_xpp_code");
+      }
+
+      content += `✅ Found ${results.length} matches (ranked by relevance)\n\n`;
+      results.forEach((result, i) => {
+        content += `${i + 1}. ${result.objectName}.${result.method} (line ${result.line})\n`;
+        content += `   📦 ${result.model} → ${result.objectType}\n`;
+        content += `   💻 ${result.snippet}\n`;
+        content += `   📁 ${result.path}\n`;
+        content += `   🎯 Score: ${result.score}\n\n`;
+      });
+
+      if (results.length === limit) {
+        content += `💡 Result limit reached - use a higher limit or add filters to narrow the search\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "search_xpp_code");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      const hint = rawQuery ? `\n\n💡 rawQuery=true expects FTS5 syntax - balance quotes and parentheses, or set rawQuery=false to search for the text as written` : '';
+      return await createLoggedResponse(
+        `Error in code search: ${errorMsg}${hint}`,
+        requestId,
+        "search_xpp_code"
+      );
+    }
+  }
+
+  static async findReferences(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      objectName: z.string().min(1),
+      model: z.string().optional(),
+      kind: z.enum(REFERENCE_KINDS as [string, ...string[]]).optional(),
+      objectType: z.string().optional(),
+      limit: z.number().optional().default(200),
+    });
+    const { objectName, model, kind, objectType, limit } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const references = ObjectIndexManager.findReferences(objectName, { model, kind, objectType, limit });
+      const duration = Date.now() - startTime;
+
+      let content = `🔗 References to "${objectName}"`;
+      if (kind) content += ` (${kind} only)`;
+      if (objectType) content += ` from ${objectType}`;
+      if (model) content += ` in ${model}`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      if (references.length === 0) {
+        content += `❌ No references found for "${objectName}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        content += `   • Check the object name spelling with find_xpp_object\n`;
+        content += `   • Remove the model/kind/objectType filters\n`;
+        return await createLoggedResponse(content, requestId, "find_references");
+      }
+
+      // Group by referencing object so each caller is listed once
+      const bySource = new Map<string, ReferenceSearchResult[]>();
+      for (const ref of references) {
+        const key = `${ref.sourceModel}|${ref.sourceType}|${ref.sourceName}`;
+        if (!bySource.has(key)) bySource.set(key, []);
+        bySource.get(key)!.push(ref);
+      }
+
+      const kindCounts: Record<string, number> = {};
+      for (const ref of references) {
+        kindCounts[ref.kind] = (kindCounts[ref.kind] || 0) + 1;
+      }
+
+      content += `✅ Found ${references.length} references in ${bySource.size} objects\n`;
+      content += `📊 By kind: ${Object.entries(kindCounts).map(([k, count]) => `${k} (${count})`).join(', ')}\n\n`;
+
+      let index = 1;
+      for (const refs of bySource.values()) {
+        const first = refs[0];
+        content += `${index++}. ${first.sourceName} (${first.sourceType})\n`;
+        content += `   📦 ${first.sourceModel}\n`;
+        content += `   📁 ${first.sourcePath}\n`;
+        for (const ref of refs) {
+          const location = ref.method ? `${ref.method}, line ${ref.line}` : `line ${ref.line}`;
+          const member = ref.member ? ` ${ref.member}` : '';
+          content += `   • [${ref.kind}${member}] ${location}\n`;
+        }
+        content += `\n`;
+      }
+
+      if (references.length === limit) {
+        content += `💡 Result limit reached - use a higher limit or add filters to narrow the search\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "find_references");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error finding references: ${errorMsg}`,
+        requestId,
+        "find_references"
+      );
+    }
+  }
+
+  static async listExtensions(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      objectName: z.string().min(1),
+      objectType: z.string().optional(),
+      model: z.string().optional(),
+      kind: z.enum(["metadata", "coc"]).optional(),
+    });
+    const { objectName, objectType, model, kind } = schema.parse(args);
+    // Accept AOT folder names (AxTable) as well as object types (Tables)
+    const baseType = objectType && /^Ax/.test(objectType) ? objectTypeForFolder(objectType) : objectType;
+
+    try {
+      const startTime = Date.now();
+      const extensions = ObjectIndexManager.findExtensions(objectName, { baseType, model })
+        .filter(extension => !kind || extension.kind === kind);
+      const duration = Date.now() - startTime;
+
+      let content = `🧩 Extensions of "${objectName}"`;
+      if (objectType) content += ` (${objectType})`;
+      if (model) content += ` in ${model}`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      if (extensions.length === 0) {
+        content += `❌ No extensions found for "${objectName}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        content += `   • Check the object name spelling with find_xpp_object\n`;
+        content += `   • Remove the objectType/model/kind filters\n`;
+        return await createLoggedResponse(content, requestId, "list_extensions");
+      }
+
+      const byModel = new Map<string, typeof extensions>();
+      for (const extension of extensions) {
+        if (!byModel.has(extension.model)) byModel.set(extension.model, []);
+        byModel.get(extension.model)!.push(extension);
+      }
+
+      const cocCount = extensions.filter(e => e.kind === 'coc').length;
+      content += `✅ Found ${extensions.length} extensions in ${byModel.size} models`;
+      content += ` (${extensions.length - cocCount} metadata, ${cocCount} CoC)\n\n`;
+
+      for (const [modelName, modelExtensions] of byModel) {
+        content += `📦 ${modelName} (${modelExtensions.length}):\n`;
+        for (const extension of modelExtensions) {
+          const target = extension.baseMember ? ` → ${extension.baseName}.${extension.baseMember}` : '';
+          const label = extension.kind === 'coc' ? `CoC class on ${extension.baseType}` : extension.extensionType;
+          content += `   • ${extension.extensionName} [${label}]${target}\n`;
+          content += `     📁 ${extension.path}\n`;
+
+          if (extension.kind === 'coc') {
+            const describe = (m: { name: string; isStatic: boolean }) => m.isStatic ? `${m.name} (static)` : m.name;
+            const wrapped = extension.methods.filter(m => m.wrapsNext);
+            const added = extension.methods.filter(m => !m.wrapsNext);
+            content += `     🔁 Wraps: ${wrapped.length > 0 ? wrapped.map(describe).join(', ') : '(none)'}\n`;
+            if (added.length > 0) {
+              content += `     ➕ Adds: ${added.map(describe).join(', ')}\n`;
+            }
+          }
+        }
+        content += `\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "list_extensions");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error listing extensions: ${errorMsg}`,
+        requestId,
+        "list_extensions"
+      );
+    }
+  }
+
+  static async findEventSubscribers(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      objectName: z.string().min(1),
+      member: z.string().optional(),
+      eventType: z.string().optional(),
+      model: z.string().optional(),
+    });
+    const parsed = schema.parse(args);
+    // "Class.delegate" addresses a single delegate
+    const [objectName, memberFromName] = parsed.objectName.split('.', 2);
+    const member = parsed.member || memberFromName;
+    const { eventType, model } = parsed;
+
+    try {
+      const startTime = Date.now();
+      const { subscribers, delegates } = ObjectIndexManager.findEventSubscribers(objectName, { member, eventType, model });
+      const duration = Date.now() - startTime;
+
+      let content = `📡 Event Subscribers: "${objectName}${member ? `.${member}` : ''}"`;
+      if (eventType) content += ` (${eventType} only)`;
+      if (model) content += ` in ${model}`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      const declared = member ? delegates.filter(d => d.delegateName.toLowerCase() === member.toLowerCase()) : delegates;
+      if (declared.length > 0) {
+        content += `📣 Delegates declared (${declared.length}):\n`;
+        for (const delegate of declared) {
+          content += `   • ${delegate.delegateName} [${delegate.model}] line ${delegate.line}\n`;
+        }
+        content += `\n`;
+      }
+
+      if (subscribers.length === 0) {
+        content += `❌ No event subscribers found\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        content += `   • Remove the member/eventType/model filters\n`;
+        content += `   • Check for Chain-of-Command wrappers instead: list_extensions\n`;
+        return await createLoggedResponse(content, requestId, "find_event_subscribers");
+      }
+
+      // Group by the event each handler listens to
+      const byEvent = new Map<string, EventSubscriberRecord[]>();
+      for (const subscriber of subscribers) {
+        const key = subscriber.targetMember ? `${subscriber.eventType} → ${subscriber.targetMember}` : subscriber.eventType;
+        if (!byEvent.has(key)) byEvent.set(key, []);
+        byEvent.get(key)!.push(subscriber);
+      }
+
+      const models = new Set(subscribers.map(s => s.model));
+      content += `✅ Found ${subscribers.length} subscribers in ${models.size} models\n\n`;
+
+      for (const [event, eventSubscribers] of byEvent) {
+        content += `🎯 ${event} (${eventSubscribers.length}):\n`;
+        for (const subscriber of eventSubscribers) {
+          content += `   • ${subscriber.subscriberName}.${subscriber.subscriberMethod} [${subscriber.model}]\n`;
+          content += `     🏷️ ${subscriber.attribute}, line ${subscriber.line}\n`;
+        }
+        content += `\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "find_event_subscribers");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error finding event subscribers: ${errorMsg}`,
+        requestId,
+        "find_event_subscribers"
+      );
+    }
+  }
+
+  static async exportIndex(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      outputPath: z.string().min(1).optional(),
+    });
+    const { outputPath } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const result = await ObjectIndexManager.exportIndex(outputPath);
+      const duration = Date.now() - startTime;
+      const { manifest } = result;
+
+      let content = `📦 Index Snapshot Exported\n`;
+      content += `⚡ Export time: ${duration}ms\n\n`;
+      content += `📁 File: ${result.path}\n`;
+      content += `💾 Size: ${(result.bytes / 1024 / 1024).toFixed(2)} MB (${(result.uncompressedBytes / 1024 / 1024).toFixed(2)} MB uncompressed)\n`;
+      content += `🔢 Schema version: ${manifest.schemaVersion}\n`;
+      content += `📊 Objects: ${manifest.objects.toLocaleString()}, source blocks: ${manifest.sourceBlocks.toLocaleString()}, object types: ${manifest.objectTypes.length}\n`;
+      content += `📂 Source root: ${manifest.sourceRoot || '(unknown - paths will not be remapped on import)'}\n\n`;
+      content += `💡 Import on another machine with: import_index snapshotPath="${result.path}"\n`;
+
+      return await createLoggedResponse(content, requestId, "export_index");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error exporting index: ${errorMsg}`,
+        requestId,
+        "export_index"
+      );
+    }
+  }
+
+  static async importIndex(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      snapshotPath: z.string().min(1),
+      targetRoot: z.string().min(1).optional(),
+    });
+    const { snapshotPath, targetRoot } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const result = await ObjectIndexManager.importIndex(snapshotPath, targetRoot);
+      const duration = Date.now() - startTime;
+      const { manifest } = result;
+
+      let content = `📥 Index Snapshot Imported\n`;
+      content += `⚡ Import time: ${duration}ms\n\n`;
+      content += `📁 File: ${snapshotPath} (created ${manifest.createdAt})\n`;
+      content += `🔢 Schema version: ${manifest.schemaVersion}`;
+      if (result.migratedFromVersion !== null) {
+        content += ` (migrated from ${result.migratedFromVersion})`;
+      }
+      content += `\n`;
+      content += `📊 Objects: ${manifest.objects.toLocaleString()}, source blocks: ${manifest.sourceBlocks.toLocaleString()}, object types: ${manifest.objectTypes.length}\n`;
+
+      if (manifest.sourceRoot && result.targetRoot) {
+        content += `🔀 Remapped ${result.remappedRows.toLocaleString()} paths: ${manifest.sourceRoot} → ${result.targetRoot}\n`;
+      } else {
+        content += `⚠️ Paths not remapped (${manifest.sourceRoot ? 'no local xppPath configured' : 'snapshot has no source root'})\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "import_index");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error importing index: ${errorMsg}`,
+        requestId,
+        "import_index"
+      );
+    }
+  }
+
+  static async diffIndex(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      base: z.string().min(1),
+      target: z.string().min(1).optional().default("live"),
+      livePath: z.string().optional(),
+      objectType: z.string().optional(),
+      model: z.string().optional(),
+      format: z.enum(["markdown", "json"]).optional().default("markdown"),
+      limit: z.number().int().positive().optional().default(100),
+    });
+    const { base, target, livePath, objectType, model, format, limit } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      // Accept AOT folder names (AxTable) as well as index types (Tables)
+      const type = objectType && objectType.startsWith('Ax') ? objectTypeForFolder(objectType) : objectType;
+      const diff = await ObjectIndexManager.diffIndex(base, target, { objectType: type, model, livePath });
+      const duration = Date.now() - startTime;
+
+      if (format === "json") {
+        const jsonResponse = {
+          meta: {
+            queryType: "indexDiff",
+            base,
+            target,
+            objectType: type || null,
+            model: model || null,
+            timestamp: new Date().toISOString(),
+            duration: `${duration}ms`
+          },
+          data: diff
+        };
+        return await createLoggedResponse(JSON.stringify(jsonResponse, null, 2), requestId, "diff_index");
+      }
+
+      let content = formatIndexDiffMarkdown(diff, limit);
+      content += `\n⚡ Compared in ${duration}ms\n`;
+      return await createLoggedResponse(content, requestId, "diff_index");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error comparing indexes: ${errorMsg}`,
+        requestId,
+        "diff_index"
+      );
+    }
+  }
+
+  static async getModelDependencies(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      modelName: z.string().optional(),
+      transitive: z.boolean().optional().default(true),
+      format: z.enum(["text", "json"]).optional().default("text"),
+    });
+    const { modelName, transitive, format } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const models = await AppConfig.getAvailableModels();
+      if (models.length === 0) {
+        return await createLoggedResponse(
+          `❌ No model descriptors found. Check that xppPath points to PackagesLocalDirectory (get_current_config).`,
+          requestId,
+          "get_model_dependencies"
+        );
+      }
+
+      const graph = buildModelDependencyGraph(models);
+      const duration = Date.now() - startTime;
+
+      if (!modelName) {
+        if (format === "json") {
+          return await createLoggedResponse(JSON.stringify({
+            meta: { queryType: "modelDependencyGraph", timestamp: new Date().toISOString(), duration: `${duration}ms` },
+            data: {
+              models: Array.from(graph.nodes.values()),
+              cycles: graph.cycles,
+              buildOrder: graph.buildOrder
+            }
+          }, null, 2), requestId, "get_model_dependencies");
+        }
+
+        let content = `🧬 Model Dependency Graph\n`;
+        content += `⚡ Parsed ${graph.nodes.size} descriptors in ${duration}ms\n\n`;
+        if (graph.cycles.length > 0) {
+          content += `🔄 Reference cycles (${graph.cycles.length}):\n`;
+          for (const cycle of graph.cycles) {
+            content += `   • ${cycle.join(' ↔ ')}\n`;
+          }
+          content += `\n`;
+        }
+        content += `🛠️ Build order (${graph.buildOrder.length}):\n`;
+        graph.buildOrder.forEach((name, index) => {
+          content += `   ${index + 1}. ${name}\n`;
+        });
+        content += `\n💡 Pass modelName to see one model's dependencies and the models to rebuild after changing it\n`;
+        return await createLoggedResponse(content, requestId, "get_model_dependencies");
+      }
+
+      const dependencies = getModelDependencies(graph, modelName);
+      if (!dependencies) {
+        const similar = Array.from(graph.nodes.values())
+          .map(node => node.name)
+          .filter(name => name.toLowerCase().includes(modelName.toLowerCase()))
+          .slice(0, 10);
+        let content = `❌ No descriptor found for model "${modelName}"\n`;
+        if (similar.length > 0) {
+          content += `\n💡 Similar models: ${similar.join(', ')}\n`;
+        }
+        return await createLoggedResponse(content, requestId, "get_model_dependencies");
+      }
+
+      if (format === "json") {
+        return await createLoggedResponse(JSON.stringify({
+          meta: { queryType: "modelDependencies", modelName, timestamp: new Date().toISOString(), duration: `${duration}ms` },
+          data: dependencies
+        }, null, 2), requestId, "get_model_dependencies");
+      }
+
+      let content = `🧬 Model Dependencies: ${dependencies.name}`;
+      if (dependencies.module.toLowerCase() !== dependencies.name.toLowerCase()) {
+        content += ` (module ${dependencies.module})`;
+      }
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      content += `⬇️ Depends on (${dependencies.direct.length}): ${dependencies.direct.join(', ') || 'none'}\n`;
+      if (transitive) {
+        const indirect = dependencies.transitive.filter(dep => dep.depth > 1);
+        content += `🔗 Indirect dependencies (${indirect.length}):\n`;
+        for (const dep of indirect) {
+          content += `   • ${dep.name} (depth ${dep.depth}, via ${dep.via})\n`;
+        }
+      }
+      content += `\n⬆️ Referenced by (${dependencies.reverseDirect.length}): ${dependencies.reverseDirect.join(', ') || 'none'}\n`;
+      if (transitive) {
+        const indirect = dependencies.reverseTransitive.filter(dep => dep.depth > 1);
+        content += `🔗 Indirectly referenced by (${indirect.length}):\n`;
+        for (const dep of indirect) {
+          content += `   • ${dep.name} (depth ${dep.depth}, via ${dep.via})\n`;
+        }
+        content += `\n🛠️ Rebuild after changing ${dependencies.name} (${dependencies.rebuildOrder.length} models, in order):\n`;
+        dependencies.rebuildOrder.forEach((name, index) => {
+          content += `   ${index + 1}. ${name}\n`;
+        });
+      }
+
+      if (dependencies.missingModules.length > 0) {
+        content += `\n⚠️ Referenced modules without a descriptor: ${dependencies.missingModules.join(', ')}\n`;
+      }
+      if (dependencies.cycles.length > 0) {
+        content += `\n🔄 Reference cycles:\n`;
+        for (const cycle of dependencies.cycles) {
+          content += `   • ${cycle.join(' ↔ ')}\n`;
+        }
+      }
+
+      return await createLoggedResponse(content, requestId, "get_model_dependencies");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error reading model dependencies: ${errorMsg}`,
+        requestId,
+        "get_model_dependencies"
+      );
+    }
+  }
+
+  static async resolveLabel(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      labelId: z.string().min(1),
+      language: z.string().optional(),
+    });
+    const { labelId, language } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const { reference, labels } = ObjectIndexManager.resolveLabel(labelId, language);
+      const duration = Date.now() - startTime;
+
+      if (!reference) {
+        return await createLoggedResponse(
+          `❌ "${labelId}" is not a label reference. Use @LabelFile:LabelId (e.g., @MyLabels:CustomerName) or a legacy id (e.g., @SYS7149).`,
+          requestId,
+          "resolve_label"
+        );
+      }
+
+      let content = `🏷️ Label: ${reference.reference}`;
+      if (language) content += ` (${language})`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      if (labels.length === 0) {
+        content += `❌ Label not found in label file "${reference.labelFile}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the label index is built: build_object_index\n`;
+        content += `   • Remove the language filter\n`;
+        content += `   • Search by text instead: search_labels\n`;
+        return await createLoggedResponse(content, requestId, "resolve_label");
+      }
+
+      content += `📁 Label file: ${reference.labelFile} [${Array.from(new Set(labels.map(label => label.model))).join(', ')}]\n`;
+      content += `🌐 Languages: ${labels.length}\n\n`;
+      for (const label of labels) {
+        content += `   • ${label.language}: ${label.text}\n`;
+        if (label.comment) {
+          content += `     💭 ${label.comment}\n`;
+        }
+      }
+
+      return await createLoggedResponse(content, requestId, "resolve_label");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error resolving label: ${errorMsg}`,
+        requestId,
+        "resolve_label"
+      );
+    }
+  }
+
+  static async searchLabels(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      text: z.string().min(1),
+      language: z.string().optional().default(DEFAULT_LABEL_LANGUAGE),
+      labelFile: z.string().optional(),
+      model: z.string().optional(),
+      limit: z.number().int().positive().optional().default(25),
+    });
+    const { text, language, labelFile, model, limit } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const results = ObjectIndexManager.searchLabels(text, { language, labelFile, model, limit });
+      const duration = Date.now() - startTime;
+
+      let content = `🔍 Label Search: "${text}" (${language})`;
+      if (labelFile) content += ` in ${labelFile}`;
+      if (model) content += ` [${model}]`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      if (results.length === 0) {
+        content += `❌ No labels found\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the label index is built: build_object_index\n`;
+        content += `   • Use fewer or different words\n`;
+        content += `   • Check the language (e.g., en-US, de)\n`;
+        return await createLoggedResponse(content, requestId, "search_labels");
+      }
+
+      const exact = results.filter(result => result.matchType === 'exact').length;
+      content += `✅ Found ${results.length} labels`;
+      if (exact > 0) content += ` (${exact} with exactly this text - reuse one of them)`;
+      content += `\n\n`;
+
+      for (const result of results) {
+        content += `🏷️ ${formatLabelReference(result.labelFile, result.labelId)} [${result.model}] (${result.matchType})\n`;
+        content += `   ${result.text}\n`;
+        if (result.comment) {
+          content += `   💭 ${result.comment}\n`;
+        }
+      }
+
+      return await createLoggedResponse(content, requestId, "search_labels");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error searching labels: ${errorMsg}`,
+        requestId,
+        "search_labels"
+      );
+    }
+  }
+
+  static async traceSecurity(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      name: z.string().min(1),
+      direction: z.enum(["auto", "up", "down"]).optional().default("auto"),
+      objectType: z.string().optional(),
+      format: z.enum(["text", "json"]).optional().default("text"),
+      limit: z.number().int().positive().optional().default(100),
+    });
+    const { name, direction, objectType, format, limit } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const trace = ObjectIndexManager.traceSecurity(name, { direction, objectType });
+      const duration = Date.now() - startTime;
+
+      if (!trace) {
+        return await createLoggedResponse(
+          `SQLite object database not available. Build the index first: build_object_index`,
+          requestId,
+          "trace_security"
+        );
+      }
+
+      if (format === "json") {
+        return await createLoggedResponse(JSON.stringify({
+          meta: { queryType: "securityTrace", name, direction: trace.direction, timestamp: new Date().toISOString(), duration: `${duration}ms` },
+          data: { ...trace, paths: trace.paths.slice(0, limit), truncated: trace.paths.length > limit }
+        }, null, 2), requestId, "trace_security");
+      }
+
+      const kindLabel = trace.kind === 'entryPoint' ? 'entry point' : trace.kind;
+      let content = `🔐 Security Trace: "${trace.name}" (${kindLabel}${trace.models.length > 0 ? `, ${trace.models.join(', ')}` : ''})`;
+      if (objectType) content += ` [${objectType} only]`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      if (!trace.found) {
+        content += `❌ No role, duty, privilege or privilege grant found for "${name}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        content += `   • Use a menu item, service, data entity, or the form, class or report a menu item opens\n`;
+        content += `   • Address a service operation as Service.operation\n`;
+        return await createLoggedResponse(content, requestId, "trace_security");
+      }
+
+      const describeStep = (step: { kind: string; name: string }) => step.kind === 'role' ? step.name : `${step.name} (${step.kind})`;
+      const describeAccess = (entry: { allowed: string[]; denied: string[] }) =>
+        `${entry.allowed.join(', ') || 'no access'}${entry.denied.length > 0 ? ` (denied: ${entry.denied.join(', ')})` : ''}`;
+      const entryPointName = (entry: { objectName: string; objectChildName: string | null }) =>
+        entry.objectChildName ? `${entry.objectName}.${entry.objectChildName}` : entry.objectName;
+
+      if (trace.menuItems.length > 0) {
+        content += `🧭 Opened through menu items: ${trace.menuItems.join(', ')}\n\n`;
+      }
+      if (trace.direction !== 'down') {
+        const unassigned = trace.paths.filter(path => path.role === null);
+        content += `👤 Roles (${trace.roles.length}): ${trace.roles.join(', ') || 'none'}\n`;
+        if (unassigned.length > 0) {
+          content += `⚠️ ${unassigned.length} paths do not reach any role\n`;
+        }
+        content += `\n`;
+      }
+      if (trace.direction !== 'up') {
+        content += `🎯 Entry points (${trace.entryPoints.length}):\n`;
+        for (const entry of trace.entryPoints.slice(0, limit)) {
+          content += `   • ${entry.objectType} ${entryPointName(entry)}: ${describeAccess(entry)}\n`;
+        }
+        if (trace.entryPoints.length > limit) {
+          content += `   … ${trace.entryPoints.length - limit} more (raise limit to see them)\n`;
+        }
+        content += `\n`;
+      }
+
+      content += `🔗 Paths (${trace.paths.length}):\n`;
+      for (const path of trace.paths.slice(0, limit)) {
+        content += `   • ${path.chain.map(describeStep).join(' → ')}`;
+        if (path.grant) {
+          content += ` → ${path.grant.objectType} ${entryPointName(path.grant)}: ${describeAccess(path.grant)}`;
+        }
+        content += `\n`;
+      }
+      if (trace.paths.length > limit) {
+        content += `   … ${trace.paths.length - limit} more (raise limit to see them)\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "trace_security");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error tracing security: ${errorMsg}`,
+        requestId,
+        "trace_security"
+      );
+    }
+  }
+
+  static async findNavigationPath(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      objectName: z.string().min(1),
+      objectType: z.string().optional(),
+      language: z.string().optional().default(DEFAULT_LABEL_LANGUAGE),
+    });
+    const { objectName, objectType, language } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const result = ObjectIndexManager.findNavigationPaths(objectName, { objectType });
+      const duration = Date.now() - startTime;
+
+      if (!result) {
+        return await createLoggedResponse(
+          `SQLite object database not available. Build the index first: build_object_index`,
+          requestId,
+          "find_navigation_path"
+        );
+      }
+
+      let content = `🧭 Navigation Paths: "${objectName}"`;
+      if (objectType) content += ` (${objectType})`;
+      content += `\n⚡ Query time: ${duration}ms\n\n`;
+
+      if (result.menuItems.length === 0) {
+        content += `❌ No menu item opens "${objectName}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        content += `   • Check the object type filter (Form, Class, SSRSReport, Query)\n`;
+        content += `   • The object may only be opened from code or from another form\n`;
+        return await createLoggedResponse(content, requestId, "find_navigation_path");
+      }
+
+      // Label text when the label index knows the reference, the literal label otherwise
+      const labelText = (label: string | null) => {
+        if (!label) return null;
+        const { reference, labels } = ObjectIndexManager.resolveLabel(label, language);
+        return reference ? labels[0]?.text || null : label;
+      };
+      const describeStep = (step: { name: string; label: string | null }) => {
+        const text = labelText(step.label);
+        return text && text !== step.name ? `${text} (${step.name})` : step.name;
+      };
+
+      content += `🔗 Menu items (${result.menuItems.length}):\n`;
+      for (const item of result.menuItems) {
+        content += `   • ${item.name} [${item.itemType}, ${item.model}] → ${item.objectType} ${item.objectName || '(no object)'}\n`;
+      }
+      content += `\n`;
+
+      if (result.paths.length > 0) {
+        content += `📍 Menu paths (${result.paths.length}):\n`;
+        for (const path of result.paths) {
+          content += `   • ${path.breadcrumb.map(describeStep).join(' > ')}\n`;
+          content += `     🔗 ${path.menuItem.name} [${path.model}${path.viaExtension ? ', menu extension' : ''}]\n`;
+        }
+        content += `\n`;
+      }
+
+      if (result.unplaced.length > 0) {
+        content += `⚠️ Not placed in any menu: ${result.unplaced.map(item => item.name).join(', ')}\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "find_navigation_path");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error finding navigation paths: ${errorMsg}`,
+        requestId,
+        "find_navigation_path"
+      );
+    }
+  }
+
+  static async findJoinPath(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      fromTable: z.string().min(1),
+      toTable: z.string().min(1),
+      maxDepth: z.number().int().min(1).max(6).optional().default(4),
+      limit: z.number().int().min(1).max(50).optional().default(10),
+      includeEdtRelations: z.boolean().optional().default(true),
+      format: z.enum(["text", "json"]).optional().default("text"),
+    });
+    const { fromTable, toTable, maxDepth, limit, includeEdtRelations, format } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const result = ObjectIndexManager.findJoinPaths(fromTable, toTable, { maxDepth, limit, includeEdtRelations });
+      const duration = Date.now() - startTime;
+
+      if (!result) {
+        return await createLoggedResponse(
+          `SQLite object database not available. Build the index first: build_object_index`,
+          requestId,
+          "find_join_path"
+        );
+      }
+
+      if (format === "json") {
+        return await createLoggedResponse(JSON.stringify({
+          meta: { queryType: "joinPath", fromTable, toTable, maxDepth, timestamp: new Date().toISOString(), duration: `${duration}ms` },
+          data: result
+        }, null, 2), requestId, "find_join_path");
+      }
+
+      let content = `🔗 Join Paths: ${fromTable} → ${toTable}\n`;
+      content += `⚡ Query time: ${duration}ms\n\n`;
+
+      if (result.unknownTables.length > 0) {
+        content += `❌ No fields or relations indexed for: ${result.unknownTables.join(', ')}\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Check the table names (search_objects_pattern with objectType AxTable)\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        return await createLoggedResponse(content, requestId, "find_join_path");
+      }
+
+      if (result.paths.length === 0) {
+        content += fromTable.toLowerCase() === toTable.toLowerCase()
+          ? `ℹ️ Both tables are the same - no join needed\n`
+          : `❌ No relation chain of up to ${maxDepth} joins connects ${fromTable} and ${toTable}\n\n💡 Try a larger maxDepth${includeEdtRelations ? '' : ' or includeEdtRelations: true'}\n`;
+        return await createLoggedResponse(content, requestId, "find_join_path");
+      }
+
+      const joins = result.paths[0].steps.length;
+      content += `📍 ${result.paths.length}${result.truncated ? '+' : ''} shortest chain(s) with ${joins} join(s):\n\n`;
+      result.paths.forEach((path, index) => {
+        content += `${index + 1}. ${[path.steps[0].fromTable, ...path.steps.map(step => step.toTable)].join(' → ')}\n`;
+        for (const step of path.steps) {
+          const type = step.relationType === 'Edt' ? 'EDT relation' : step.relationType === 'ForeignKey' ? 'foreign key' : 'relation';
+          content += `   • ${step.fromTable} → ${step.toTable} via ${type} ${step.definedOn}.${step.relation} [${step.model}]\n`;
+          for (const pair of step.fieldPairs) {
+            content += `       ${step.fromTable}.${pair.fromField} == ${step.toTable}.${pair.toField}\n`;
+          }
+          for (const fixed of step.fixed) {
+            content += `       ${fixed.table}.${fixed.field} == ${fixed.value}\n`;
+          }
+        }
+        content += `\n   \`\`\`xpp\n${path.select.split('\n').map(line => line ? `   ${line}` : line).join('\n')}\n   \`\`\`\n\n`;
+      });
+
+      if (result.truncated) {
+        content += `⚠️ More chains of the same length exist - raise limit to see them\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "find_join_path");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error finding join paths: ${errorMsg}`,
+        requestId,
+        "find_join_path"
+      );
+    }
+  }
+
+  static async resolveEdt(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      name: z.string().min(1),
+      language: z.string().optional().default(DEFAULT_LABEL_LANGUAGE),
+      format: z.enum(["text", "json"]).optional().default("text"),
+    });
+    const { name, language, format } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const resolved = await ObjectIndexManager.resolveEdt(name);
+      const duration = Date.now() - startTime;
+
+      if (!resolved) {
+        let content = `❌ ${name.includes('.') ? `Table field "${name}"` : `EDT "${name}"`} not found\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Check the name (search_objects_pattern with objectType AxEdt or AxTable)\n`;
+        content += `   • Make sure the code index is built (build_object_index) and xppPath is configured\n`;
+        return await createLoggedResponse(content, requestId, "resolve_edt");
+      }
+
+      if (format === "json") {
+        return await createLoggedResponse(JSON.stringify({
+          meta: { queryType: "edtResolution", name, timestamp: new Date().toISOString(), duration: `${duration}ms` },
+          data: resolved
+        }, null, 2), requestId, "resolve_edt");
+      }
+
+      let content = `🧬 EDT Resolution: ${resolved.name}\n`;
+      content += `⚡ Query time: ${duration}ms\n\n`;
+
+      content += `🔗 Chain: ${resolved.levels.map(level => {
+        let text = `${level.name} [${level.kind === 'field' ? 'field, ' : ''}${level.model}]`;
+        if (level.extensions.length > 0) text += ` + ${level.extensions.join(', ')}`;
+        return text;
+      }).join(' → ')}\n`;
+      content += `🧱 Base type: ${resolved.baseType ? `${resolved.baseType.value} (from ${resolved.baseType.setBy})` : 'unknown'}\n\n`;
+
+      content += `📋 Effective properties (${resolved.properties.length}):\n`;
+      for (const property of resolved.properties) {
+        content += `   • ${property.name} = ${property.value} ← ${property.setBy}`;
+        if (property.extension) content += ` via extension ${property.extension} [${property.model}]`;
+        content += `\n`;
+        for (const hidden of property.overridden) {
+          content += `       overrides ${hidden.value} from ${hidden.extension ? `extension ${hidden.extension}` : hidden.setBy}\n`;
+        }
+      }
+
+      if (resolved.missingParent) {
+        content += `\n⚠️ EDT "${resolved.missingParent}" is not in the index - properties it sets are missing\n`;
+      }
+      if (resolved.cycle) {
+        content += `\n⚠️ The Extends chain loops back on itself - resolution stopped\n`;
+      }
+
+      return await createLoggedResponse(ObjectIndexManager.annotateLabels(content, language), requestId, "resolve_edt");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error resolving EDT: ${errorMsg}`,
+        requestId,
+        "resolve_edt"
+      );
+    }
+  }
+
+  static async lintXppObject(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      objectName: z.string().min(1).optional(),
+      objectType: z.enum(SOURCE_CODE_FOLDERS as [string, ...string[]]).optional(),
+      model: z.string().min(1).optional(),
+      rules: z.array(z.enum(Object.keys(LINT_RULES) as [LintRuleId, ...LintRuleId[]])).optional(),
+      minSeverity: z.enum(["info", "warning", "error"]).optional().default("info"),
+      limit: z.number().int().positive().optional().default(200),
+      format: z.enum(["text", "json"]).optional().default("text"),
+    });
+    const { objectName, objectType, model, rules, minSeverity, limit, format } = schema.parse(args);
+
+    if (!objectName && !model) {
+      throw new McpError(ErrorCode.InvalidParams, "lint_xpp_object needs objectName, model or both");
+    }
+
+    try {
+      const startTime = Date.now();
+      const report = objectName
+        ? await ObjectIndexManager.lintObject(objectName, { objectType, model, rules })
+        : await ObjectIndexManager.lintModel(model!, { rules });
+      const duration = Date.now() - startTime;
+
+      if (!report || report.objects.length === 0) {
+        let content = objectName
+          ? `❌ Object "${objectName}"${model ? ` in model ${model}` : ''} not found\n\n`
+          : `❌ No objects with X++ source found in model "${model}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Check the name with search_objects_pattern${objectName ? '' : ' or list models with get_model_dependencies'}\n`;
+        content += `   • Only ${SOURCE_CODE_FOLDERS.join(', ')} objects carry X++ source\n`;
+        content += `   • Make sure the code index is built (build_object_index) and xppPath is configured\n`;
+        return await createLoggedResponse(content, requestId, "lint_xpp_object");
+      }
+
+      const diagnostics = filterBySeverity(report.diagnostics, minSeverity);
+      const listed = diagnostics.slice(0, limit);
+
+      if (format === "json") {
+        return await createLoggedResponse(JSON.stringify({
+          meta: {
+            queryType: "xppLint",
+            objectName: objectName || null,
+            model: model || null,
+            minSeverity,
+            totalDiagnostics: diagnostics.length,
+            truncated: listed.length < diagnostics.length,
+            timestamp: new Date().toISOString(),
+            duration: `${duration}ms`
+          },
+          data: { ...report, diagnostics: listed }
+        }, null, 2), requestId, "lint_xpp_object");
+      }
+
+      const icons: Record<string, string> = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+      let content = `🧹 X++ Lint: ${objectName ? `${report.objects[0].name} (${report.objects[0].objectType}, ${report.objects[0].model})` : `model ${model} (${report.objects.length} objects)`}\n`;
+      content += `⚡ Query time: ${duration}ms\n\n`;
+      content += `📊 ${report.counts.error} errors, ${report.counts.warning} warnings, ${report.counts.info} info`;
+      if (report.suppressed > 0) content += `, ${report.suppressed} suppressed`;
+      content += `\n`;
+      const ruleCounts = Object.entries(report.byRule).map(([rule, count]) => `${rule} ${count}`);
+      if (ruleCounts.length > 0) content += `📋 By rule: ${ruleCounts.join(', ')}\n`;
+
+      if (diagnostics.length === 0) {
+        content += `\n✅ No ${minSeverity === 'info' ? '' : `${minSeverity}-level or higher `}findings\n`;
+        return await createLoggedResponse(content, requestId, "lint_xpp_object");
+      }
+
+      let currentObject = '';
+      for (const diagnostic of listed) {
+        const key = `${diagnostic.objectType}/${diagnostic.object}`;
+        if (key !== currentObject) {
+          currentObject = key;
+          content += `\n📄 ${diagnostic.object} (${diagnostic.objectType}, ${diagnostic.model})\n`;
+        }
+        content += `   ${icons[diagnostic.severity]} ${diagnostic.method}:${diagnostic.line} [${diagnostic.rule}] ${diagnostic.message}\n`;
+      }
+      if (listed.length < diagnostics.length) {
+        content += `\n... ${diagnostics.length - listed.length} more (raise limit or filter with minSeverity/rules)\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "lint_xpp_object");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error linting X++: ${errorMsg}`,
+        requestId,
+        "lint_xpp_object"
+      );
+    }
+  }
+
+  static async getCodeMetrics(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      objectName: z.string().min(1).optional(),
+      objectType: z.enum(SOURCE_CODE_FOLDERS as [string, ...string[]]).optional(),
+      model: z.string().min(1).optional(),
+      thresholds: z.object({
+        complexity: z.number().positive().optional(),
+        nestingDepth: z.number().positive().optional(),
+        parameters: z.number().positive().optional(),
+        methodLines: z.number().positive().optional(),
+        methodCount: z.number().positive().optional(),
+      }).optional(),
+      sortBy: z.enum(["complexity", "lines", "methods", "name"]).optional().default("complexity"),
+      limit: z.number().int().positive().optional().default(25),
+      format: z.enum(["text", "json"]).optional().default("text"),
+    });
+    const { objectName, objectType, model, thresholds, sortBy, limit, format } = schema.parse(args);
+
+    if (!objectName && !model) {
+      throw new McpError(ErrorCode.InvalidParams, "get_code_metrics needs objectName, model or both");
+    }
+
+    try {
+      const startTime = Date.now();
+      const report = await ObjectIndexManager.getCodeMetrics({ objectName, objectType, model, thresholds });
+      const duration = Date.now() - startTime;
+
+      if (!report || report.objects.length === 0) {
+        let content = objectName
+          ? `❌ Object "${objectName}"${model ? ` in model ${model}` : ''} not found\n\n`
+          : `❌ No objects with X++ source found in model "${model}"\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Check the name with search_objects_pattern\n`;
+        content += `   • Only ${SOURCE_CODE_FOLDERS.join(', ')} objects carry X++ source\n`;
+        content += `   • Make sure the code index is built (build_object_index) and xppPath is configured\n`;
+        return await createLoggedResponse(content, requestId, "get_code_metrics");
+      }
+
+      // Methods have no method count, so sortBy "methods" orders them by complexity
+      const sorted = <T extends { name: string; linesOfCode: number }>(items: T[], complexity: (item: T) => number, methods: (item: T) => number) =>
+        [...items].sort((a, b) => sortBy === "name" ? a.name.localeCompare(b.name)
+          : sortBy === "lines" ? b.linesOfCode - a.linesOfCode
+          : sortBy === "methods" ? methods(b) - methods(a)
+          : complexity(b) - complexity(a));
+      const objects = sorted(report.objects, object => object.totalComplexity, object => object.methodCount);
+
+      if (format === "json") {
+        return await createLoggedResponse(JSON.stringify({
+          meta: {
+            queryType: "codeMetrics",
+            objectName: objectName || null,
+            model: model || null,
+            sortBy,
+            totalObjects: report.objects.length,
+            totalOutliers: report.outliers.length,
+            timestamp: new Date().toISOString(),
+            duration: `${duration}ms`
+          },
+          data: { ...report, objects: objects.slice(0, limit), outliers: report.outliers.slice(0, limit) }
+        }, null, 2), requestId, "get_code_metrics");
+      }
+
+      const metricLine = (linesOfCode: number, complexity: number, nestingDepth: number) =>
+        `${linesOfCode} LOC, complexity ${complexity}, depth ${nestingDepth}`;
+      let content = "";
+
+      if (objectName) {
+        const object = report.objects[0];
+        const methods = sorted(object.methods, method => method.complexity, method => method.complexity);
+        content += `📏 Code Metrics: ${object.name} (${object.objectType}, ${object.model})\n`;
+        content += `⚡ Query time: ${duration}ms\n\n`;
+        content += `📊 ${object.methodCount} methods, ${object.linesOfCode} LOC, total complexity ${object.totalComplexity}, average ${object.averageComplexity}, max ${object.maxComplexity}, max depth ${object.maxNestingDepth}\n\n`;
+        content += `🔧 Methods (${methods.length}):\n`;
+        for (const method of methods.slice(0, limit)) {
+          content += `   • ${method.name}:${method.line} - ${metricLine(method.linesOfCode, method.complexity, method.nestingDepth)}, ${method.parameters} parameters\n`;
+        }
+        if (methods.length > limit) content += `   ... ${methods.length - limit} more\n`;
+      } else {
+        const totals = report.models[0];
+        content += `📏 Code Metrics: model ${totals.model}\n`;
+        content += `⚡ Query time: ${duration}ms\n\n`;
+        content += `📊 ${totals.objectCount} objects, ${totals.methodCount} methods, ${totals.linesOfCode} LOC\n`;
+        content += `🧮 Total complexity ${totals.totalComplexity}, average ${totals.averageComplexity} per method, ${totals.averageMethodLines} LOC per method\n`;
+        if (totals.maxComplexity) {
+          content += `🔝 Most complex method: ${totals.maxComplexity.object}.${totals.maxComplexity.method} (${totals.maxComplexity.value})\n`;
+        }
+        content += `\n📦 Objects (${objects.length}, by ${sortBy}):\n`;
+        for (const object of objects.slice(0, limit)) {
+          content += `   • ${object.name} [${object.objectType}] - ${object.methodCount} methods, ${metricLine(object.linesOfCode, object.totalComplexity, object.maxNestingDepth)} (max ${object.maxComplexity})\n`;
+        }
+        if (objects.length > limit) content += `   ... ${objects.length - limit} more\n`;
+      }
+
+      const limits = report.thresholds;
+      content += `\n🚩 Outliers (${report.outliers.length}; complexity > ${limits.complexity}, depth > ${limits.nestingDepth}, parameters > ${limits.parameters}, method LOC > ${limits.methodLines}, methods > ${limits.methodCount}):\n`;
+      if (report.outliers.length === 0) content += `   ✅ None\n`;
+      for (const outlier of report.outliers.slice(0, limit)) {
+        const location = outlier.method ? `${outlier.object}.${outlier.method}:${outlier.line}` : outlier.object;
+        content += `   ⚠️ ${location} - ${outlier.metric} ${outlier.value} (threshold ${outlier.threshold})\n`;
+      }
+      if (report.outliers.length > limit) content += `   ... ${report.outliers.length - limit} more\n`;
+
+      return await createLoggedResponse(content, requestId, "get_code_metrics");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error computing code metrics: ${errorMsg}`,
+        requestId,
+        "get_code_metrics"
+      );
+    }
+  }
+
+  static async checkChainOfCommand(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      className: z.string().min(1).optional(),
+      baseName: z.string().min(1).optional(),
+      model: z.string().min(1).optional(),
+      onlyIssues: z.boolean().optional().default(false),
+      limit: z.number().int().positive().optional().default(50),
+      format: z.enum(["text", "json"]).optional().default("text"),
+    });
+    const { className, baseName, model, onlyIssues, limit, format } = schema.parse(args);
+
+    if (!className && !baseName && !model) {
+      throw new McpError(ErrorCode.InvalidParams, "check_chain_of_command needs className, baseName or model");
+    }
+
+    try {
+      const startTime = Date.now();
+      const reports = await ObjectIndexManager.checkChainOfCommand({ className, baseName, model });
+      const duration = Date.now() - startTime;
+
+      if (!reports || reports.length === 0) {
+        let content = !reports
+          ? `❌ Class "${className}"${model ? ` in model ${model}` : ''} not found\n\n`
+          : className
+            ? `❌ Class "${className}" is not a Chain-of-Command class (no [ExtensionOf] attribute)\n\n`
+            : `❌ No Chain-of-Command classes found${baseName ? ` for ${baseName}` : ''}${model ? ` in model ${model}` : ''}\n\n`;
+        content += `💡 Suggestions:\n`;
+        content += `   • Use list_extensions to see the CoC classes of an object\n`;
+        content += `   • Make sure the code index is built (build_object_index) and xppPath is configured\n`;
+        return await createLoggedResponse(content, requestId, "check_chain_of_command");
+      }
+
+      const withIssues = reports.filter(report => report.issues.length > 0);
+      const listed = (onlyIssues ? withIssues : reports).slice(0, limit);
+      const errors = reports.reduce((sum, report) => sum + report.issues.filter(issue => issue.severity === 'error').length, 0);
+      const warnings = reports.reduce((sum, report) => sum + report.issues.filter(issue => issue.severity === 'warning').length, 0);
+
+      if (format === "json") {
+        return await createLoggedResponse(JSON.stringify({
+          meta: {
+            queryType: "chainOfCommandCheck",
+            className: className || null,
+            baseName: baseName || null,
+            model: model || null,
+            totalExtensions: reports.length,
+            extensionsWithIssues: withIssues.length,
+            errors,
+            warnings,
+            timestamp: new Date().toISOString(),
+            duration: `${duration}ms`
+          },
+          data: listed
+        }, null, 2), requestId, "check_chain_of_command");
+      }
+
+      let content = `🔗 Chain-of-Command Check: ${className || [baseName, model && `model ${model}`].filter(Boolean).join(', ')}\n`;
+      content += `⚡ Query time: ${duration}ms\n\n`;
+      content += `📊 ${reports.length} extensions, ${withIssues.length} with issues: ${errors} errors, ${warnings} warnings\n`;
+
+      for (const report of listed) {
+        const target = report.baseMember ? `${report.baseName}.${report.baseMember}` : report.baseName;
+        const wrappers = report.methods.filter(method => method.role === 'wrapper').length;
+        content += `\n${report.issues.length > 0 ? '❌' : '✅'} ${report.extension} [${report.model}] → ${report.baseType} ${target}`;
+        content += ` (${wrappers} wrapped, ${report.methods.length - wrappers} added)\n`;
+        for (const issue of report.issues) {
+          content += `   ${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.method ? `${issue.method}:` : ''}${issue.line} [${issue.kind}] ${issue.message}\n`;
+        }
+      }
+      const hidden = (onlyIssues ? withIssues : reports).length - listed.length;
+      if (hidden > 0) content += `\n... ${hidden} more extensions (raise limit)\n`;
+
+      return await createLoggedResponse(content, requestId, "check_chain_of_command");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error checking Chain of Command: ${errorMsg}`,
+        requestId,
+        "check_chain_of_command"
+      );
+    }
+  }
+
+  static async getClassHierarchy(args: any, requestId: string): Promise<any> {
+    const schema = z.object({
+      className: z.string().min(1),
+      direction: z.enum(["both", "ancestors", "descendants"]).optional().default("both"),
+      maxDepth: z.number().int().positive().optional(),
+    });
+    const { className, direction, maxDepth } = schema.parse(args);
+
+    try {
+      const startTime = Date.now();
+      const hierarchy = ObjectIndexManager.getClassHierarchy(className);
+      const duration = Date.now() - startTime;
+
+      if (!hierarchy) {
+        return await createLoggedResponse(
+          `SQLite object database not available. Build the index first: build_object_index`,
+          requestId,
+          "get_class_hierarchy"
+        );
+      }
+
+      const withinDepth = <T extends { depth: number }>(nodes: T[]) => maxDepth ? nodes.filter(n => n.depth <= maxDepth) : nodes;
+      const modelOf = (model: string | null) => model || 'not indexed';
+
+      let content = `🌳 Class Hierarchy: "${hierarchy.name}"`;
+      if (hierarchy.found) {
+        const modifiers = [hierarchy.isAbstract && 'abstract', hierarchy.isFinal && 'final'].filter(Boolean).join(' ');
+        content += ` (${modifiers ? `${modifiers} ` : ''}${hierarchy.isInterface ? 'interface' : 'class'})`;
+      }
+      content += `\n⚡ Query time: ${duration}ms\n`;
+      if (hierarchy.model) content += `📦 ${hierarchy.model}\n`;
+      content += `\n`;
+
+      if (!hierarchy.found) {
+        content += `⚠️ "${className}" is not in the class index - showing edges that point at it\n\n`;
+      }
+
+      if (direction !== "descendants") {
+        if (!hierarchy.isInterface) {
+          content += `⬆️  Ancestors (${hierarchy.ancestors.length}):\n`;
+          if (hierarchy.ancestors.length === 0) content += `   (none - extends Object)\n`;
+          for (const ancestor of hierarchy.ancestors) {
+            content += `${'   '.repeat(ancestor.depth)}↳ ${ancestor.name} [${modelOf(ancestor.model)}]\n`;
+          }
+          content += `\n`;
+        }
+
+        content += `🔌 ${hierarchy.isInterface ? 'Base interfaces' : 'Interfaces'} (${hierarchy.interfaces.length}):\n`;
+        if (hierarchy.interfaces.length === 0) content += `   (none)\n`;
+        for (const iface of hierarchy.interfaces) {
+          const inherited = iface.inheritedFrom ? ` via ${iface.inheritedFrom}` : '';
+          content += `   • ${iface.name} [${modelOf(iface.model)}]${inherited}\n`;
+        }
+        content += `\n`;
+      }
+
+      if (direction !== "ancestors") {
+        const descendants = withinDepth(hierarchy.descendants);
+        if (!hierarchy.isInterface || descendants.length > 0) {
+          const direct = descendants.filter(d => d.depth === 1).length;
+          content += `⬇️  Subclasses (${descendants.length}, ${direct} direct):\n`;
+          if (descendants.length === 0) content += `   (none)\n`;
+          for (const subclass of descendants) {
+            const parent = subclass.depth > 1 ? ` extends ${subclass.parent}` : '';
+            content += `${'   '.repeat(subclass.depth)}↳ ${subclass.name} [${subclass.model}]${parent}\n`;
+          }
+          content += `\n`;
+        }
+
+        if (hierarchy.isInterface || !hierarchy.found) {
+          const implementers = withinDepth(hierarchy.implementers);
+          content += `🧩 Implementers (${implementers.length}, ${implementers.filter(i => i.depth === 1).length} direct):\n`;
+          if (implementers.length === 0) content += `   (none)\n`;
+          for (const implementer of implementers) {
+            const via = implementer.via ? ` via ${implementer.via}` : '';
+            content += `   • ${implementer.name} [${implementer.model}]${via}\n`;
+          }
+          content += `\n`;
+        }
+      }
+
+      if (!hierarchy.found && hierarchy.descendants.length === 0 && hierarchy.implementers.length === 0) {
+        content += `💡 Suggestions:\n`;
+        content += `   • Make sure the code index is built: build_object_index\n`;
+        content += `   • Check the class name spelling with find_xpp_object (fuzzy: true)\n`;
+      }
+
+      return await createLoggedResponse(content, requestId, "get_class_hierarchy");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return await createLoggedResponse(
+        `Error building class hierarchy: ${errorMsg}`,
+        requestId,
+        "get_class_hierarchy"
+      );
+    }
+  }
+
   static async discoverModificationCapabilities(args: any, requestId: string): Promise<any> {
     console.log('🔍 Starting discoverModificationCapabilities with args:', JSON.stringify(args, null, 2));
     
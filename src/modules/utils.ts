@@ -1,5 +1,5 @@
 import { extname } from "path";
-import { XPP_EXTENSIONS, PACKAGE_PRIORITY, XPP_PRIORITY_EXTENSIONS } from "./config.js";
+import { XPP_EXTENSIONS, PACKAGE_PRIORITY, XPP_PRIORITY_EXTENSIONS, CUSTOM_LAYERS, MICROSOFT_PUBLISHERS } from "./config.js";
 
 /**
  * Enhanced helper function to check if a file has an X++ related extension
@@ -31,3 +31,15 @@ export function getPackagePriority(packagePath: string): number {
   }
   return 0;
 }
+
+/**
+ * Custom (customer, partner or ISV) model helper
+ * A model is custom when it lives in a custom layer or is not published by Microsoft
+ */
+export function isCustomModel(model: { layer?: string; publisher?: string }): boolean {
+  const isCustomLayer = CUSTOM_LAYERS.includes(model.layer?.toLowerCase() || '');
+  const isMicrosoftPublisher = MICROSOFT_PUBLISHERS.some(pub =>
+    model.publisher?.toLowerCase().includes(pub.toLowerCase())
+  );
+  return isCustomLayer || !isMicrosoftPublisher;
+}
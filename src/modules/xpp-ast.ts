@@ -0,0 +1,511 @@
+/**
+ * X++ AST Module
+ *
+ * Node types produced by the X++ parser. Every node carries its kind and the source span it
+ * covers; walkXpp visits nodes depth-first for analysis tools (linting, metrics, CoC checks).
+ */
+
+import type { XppComment } from './xpp-lexer.js';
+
+/**
+ * Offsets into the parsed source plus 1-based line and column of both ends
+ * end/endLine/endColumn point just past the last character of the node
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface XppNodeBase {
+  kind: string;
+  span: SourceSpan;
+}
+
+export interface XppDiagnostic {
+  message: string;
+  span: SourceSpan;
+}
+
+export interface XppAttribute extends XppNodeBase {
+  kind: 'attribute';
+  name: string;
+  arguments: XppExpression[];
+}
+
+/**
+ * A type as written: int, str 20, CustTable, System.Collections.ArrayList
+ */
+export interface XppTypeReference extends XppNodeBase {
+  kind: 'type';
+  name: string;
+  // Declared length of a str type
+  length: number | null;
+}
+
+export interface XppParameter extends XppNodeBase {
+  kind: 'parameter';
+  name: string;
+  type: XppTypeReference;
+  defaultValue: XppExpression | null;
+  // Source text of the default value
+  defaultText: string | null;
+}
+
+export interface XppVariableDeclarator extends XppNodeBase {
+  kind: 'declarator';
+  name: string;
+  // Array size expression; an empty [] gives a dynamic array with arraySize null
+  isArray: boolean;
+  arraySize: XppExpression | null;
+  initializer: XppExpression | null;
+}
+
+export interface XppFieldDeclaration extends XppNodeBase {
+  kind: 'field';
+  modifiers: string[];
+  attributes: XppAttribute[];
+  type: XppTypeReference;
+  declarators: XppVariableDeclarator[];
+}
+
+export interface XppMethodDeclaration extends XppNodeBase {
+  kind: 'method';
+  name: string;
+  modifiers: string[];
+  attributes: XppAttribute[];
+  returnType: XppTypeReference;
+  parameters: XppParameter[];
+  // null for abstract, interface and delegate declarations without a body
+  body: XppBlock | null;
+}
+
+export interface XppMacroDirective extends XppNodeBase {
+  kind: 'macroDirective';
+  text: string;
+}
+
+export type XppMember = XppFieldDeclaration | XppMethodDeclaration | XppMacroDirective;
+
+export interface XppClassDeclaration extends XppNodeBase {
+  kind: 'class' | 'interface';
+  name: string;
+  modifiers: string[];
+  attributes: XppAttribute[];
+  extends: string | null;
+  implements: string[];
+  members: XppMember[];
+}
+
+/**
+ * Parsed source: class and interface declarations plus methods outside any class
+ * (the AOT stores each method of a class as its own source block)
+ */
+export interface XppCompilationUnit extends XppNodeBase {
+  kind: 'compilationUnit';
+  classes: XppClassDeclaration[];
+  methods: XppMethodDeclaration[];
+  macros: XppMacroDirective[];
+  comments: XppComment[];
+  diagnostics: XppDiagnostic[];
+}
+
+// ---------------------------------------------------------------------------------------------
+// Statements
+// ---------------------------------------------------------------------------------------------
+
+export interface XppBlock extends XppNodeBase {
+  kind: 'block';
+  statements: XppStatement[];
+}
+
+export interface XppEmptyStatement extends XppNodeBase {
+  kind: 'empty';
+}
+
+export interface XppLocalDeclaration extends XppNodeBase {
+  kind: 'localDeclaration';
+  isConst: boolean;
+  type: XppTypeReference;
+  declarators: XppVariableDeclarator[];
+}
+
+export interface XppLocalFunction extends XppNodeBase {
+  kind: 'localFunction';
+  method: XppMethodDeclaration;
+}
+
+export interface XppExpressionStatement extends XppNodeBase {
+  kind: 'expressionStatement';
+  expression: XppExpression;
+}
+
+export interface XppIfStatement extends XppNodeBase {
+  kind: 'if';
+  condition: XppExpression;
+  then: XppStatement;
+  else: XppStatement | null;
+}
+
+export interface XppWhileStatement extends XppNodeBase {
+  kind: 'while';
+  condition: XppExpression;
+  body: XppStatement;
+}
+
+export interface XppDoWhileStatement extends XppNodeBase {
+  kind: 'doWhile';
+  body: XppStatement;
+  condition: XppExpression;
+}
+
+export interface XppForStatement extends XppNodeBase {
+  kind: 'for';
+  initializer: XppLocalDeclaration | XppExpression | null;
+  condition: XppExpression | null;
+  update: XppExpression[];
+  body: XppStatement;
+}
+
+export interface XppSwitchCase extends XppNodeBase {
+  kind: 'case';
+  // Empty for the default case
+  labels: XppExpression[];
+  isDefault: boolean;
+  statements: XppStatement[];
+}
+
+export interface XppSwitchStatement extends XppNodeBase {
+  kind: 'switch';
+  expression: XppExpression;
+  cases: XppSwitchCase[];
+}
+
+export interface XppJumpStatement extends XppNodeBase {
+  kind: 'break' | 'continue' | 'retry';
+}
+
+export interface XppReturnStatement extends XppNodeBase {
+  kind: 'return';
+  expression: XppExpression | null;
+}
+
+export interface XppThrowStatement extends XppNodeBase {
+  kind: 'throw';
+  expression: XppExpression | null;
+}
+
+export interface XppCatchClause extends XppNodeBase {
+  kind: 'catch';
+  // Exception filter, e.g. Exception::Deadlock, an exception variable or System.Exception ex; null catches everything
+  exception: XppExpression | XppLocalDeclaration | null;
+  body: XppBlock;
+}
+
+export interface XppTryStatement extends XppNodeBase {
+  kind: 'try';
+  body: XppBlock;
+  catches: XppCatchClause[];
+  finally: XppBlock | null;
+}
+
+export interface XppTransactionStatement extends XppNodeBase {
+  kind: 'transaction';
+  action: 'ttsbegin' | 'ttscommit' | 'ttsabort';
+}
+
+export interface XppSelectTable extends XppNodeBase {
+  kind: 'selectTable';
+  // Table buffer variable
+  table: string;
+  // null for the first table, 'join', 'exists', 'notexists' or 'outer' for joined tables
+  joinType: string | null;
+  fields: XppExpression[];
+  where: XppExpression | null;
+  orderBy: XppExpression[];
+  groupBy: XppExpression[];
+  index: string | null;
+}
+
+export interface XppSelect extends XppNodeBase {
+  kind: 'select';
+  // Find options such as firstonly, forupdate, crosscompany
+  options: string[];
+  tables: XppSelectTable[];
+}
+
+export interface XppSelectStatement extends XppNodeBase {
+  kind: 'selectStatement';
+  select: XppSelect;
+}
+
+export interface XppWhileSelectStatement extends XppNodeBase {
+  kind: 'whileSelect';
+  select: XppSelect;
+  body: XppStatement;
+}
+
+/**
+ * Set-based statements: delete_from, update_recordset, insert_recordset
+ */
+export interface XppRecordsetStatement extends XppNodeBase {
+  kind: 'recordset';
+  operation: 'delete_from' | 'update_recordset' | 'insert_recordset';
+  table: string | null;
+  // Field assignments of update_recordset (setting) and the field list of insert_recordset
+  assignments: XppExpression[];
+  select: XppSelect | null;
+  where: XppExpression | null;
+}
+
+export interface XppChangeCompanyStatement extends XppNodeBase {
+  kind: 'changeCompany';
+  company: XppExpression;
+  body: XppStatement;
+}
+
+export interface XppUsingStatement extends XppNodeBase {
+  kind: 'using';
+  resource: XppLocalDeclaration | XppExpression;
+  body: XppStatement;
+}
+
+/**
+ * next buffer; - fetches the next record of a select (not the CoC next call)
+ */
+export interface XppNextRecordStatement extends XppNodeBase {
+  kind: 'nextRecord';
+  table: string;
+}
+
+/**
+ * Legacy statements taking a plain argument list: print, pause, breakpoint, flush, window
+ */
+export interface XppKeywordStatement extends XppNodeBase {
+  kind: 'keywordStatement';
+  keyword: string;
+  arguments: XppExpression[];
+}
+
+export interface XppMacroStatement extends XppNodeBase {
+  kind: 'macroStatement';
+  text: string;
+}
+
+/**
+ * Source the parser could not make sense of; a diagnostic is reported with it
+ */
+export interface XppUnknownStatement extends XppNodeBase {
+  kind: 'unknown';
+  text: string;
+}
+
+export type XppStatement =
+  | XppBlock
+  | XppEmptyStatement
+  | XppLocalDeclaration
+  | XppLocalFunction
+  | XppExpressionStatement
+  | XppIfStatement
+  | XppWhileStatement
+  | XppDoWhileStatement
+  | XppForStatement
+  | XppSwitchStatement
+  | XppJumpStatement
+  | XppReturnStatement
+  | XppThrowStatement
+  | XppTryStatement
+  | XppTransactionStatement
+  | XppSelectStatement
+  | XppWhileSelectStatement
+  | XppRecordsetStatement
+  | XppChangeCompanyStatement
+  | XppUsingStatement
+  | XppNextRecordStatement
+  | XppKeywordStatement
+  | XppMacroStatement
+  | XppUnknownStatement;
+
+// ---------------------------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------------------------
+
+export interface XppLiteral extends XppNodeBase {
+  kind: 'literal';
+  literalType: 'string' | 'number' | 'date' | 'boolean' | 'null';
+  // Unescaped string contents, or the literal text
+  value: string;
+  raw: string;
+}
+
+export interface XppIdentifier extends XppNodeBase {
+  kind: 'identifier';
+  name: string;
+}
+
+export interface XppThisExpression extends XppNodeBase {
+  kind: 'this' | 'super';
+}
+
+export interface XppMemberExpression extends XppNodeBase {
+  kind: 'member';
+  object: XppExpression;
+  name: string;
+}
+
+/**
+ * Type::member - static method, enum value or static field
+ */
+export interface XppStaticMemberExpression extends XppNodeBase {
+  kind: 'staticMember';
+  typeName: string;
+  name: string;
+}
+
+export interface XppCallExpression extends XppNodeBase {
+  kind: 'call';
+  callee: XppExpression;
+  arguments: XppExpression[];
+}
+
+/**
+ * Chain-of-Command call of the wrapped method: next method(arguments)
+ */
+export interface XppNextCallExpression extends XppNodeBase {
+  kind: 'nextCall';
+  method: string;
+  arguments: XppExpression[];
+}
+
+export interface XppNewExpression extends XppNodeBase {
+  kind: 'new';
+  type: string;
+  arguments: XppExpression[];
+}
+
+export interface XppIndexExpression extends XppNodeBase {
+  kind: 'index';
+  object: XppExpression;
+  index: XppExpression;
+}
+
+export interface XppUnaryExpression extends XppNodeBase {
+  kind: 'unary';
+  operator: string;
+  prefix: boolean;
+  operand: XppExpression;
+}
+
+export interface XppBinaryExpression extends XppNodeBase {
+  kind: 'binary';
+  // Operators including the keyword operators like, is, as, div, mod, in
+  operator: string;
+  left: XppExpression;
+  right: XppExpression;
+}
+
+export interface XppAssignmentExpression extends XppNodeBase {
+  kind: 'assignment';
+  operator: string;
+  target: XppExpression;
+  value: XppExpression;
+}
+
+export interface XppConditionalExpression extends XppNodeBase {
+  kind: 'conditional';
+  condition: XppExpression;
+  whenTrue: XppExpression;
+  whenFalse: XppExpression;
+}
+
+/**
+ * Container literal [a, b], also the target of container unpacking [a, b] = con
+ */
+export interface XppContainerExpression extends XppNodeBase {
+  kind: 'container';
+  elements: XppExpression[];
+}
+
+/**
+ * (select ... ).Field used as a value
+ */
+export interface XppSelectExpression extends XppNodeBase {
+  kind: 'selectExpression';
+  select: XppSelect;
+}
+
+export interface XppMacroExpression extends XppNodeBase {
+  kind: 'macro';
+  text: string;
+}
+
+export interface XppErrorExpression extends XppNodeBase {
+  kind: 'error';
+  text: string;
+}
+
+export type XppExpression =
+  | XppLiteral
+  | XppIdentifier
+  | XppThisExpression
+  | XppMemberExpression
+  | XppStaticMemberExpression
+  | XppCallExpression
+  | XppNextCallExpression
+  | XppNewExpression
+  | XppIndexExpression
+  | XppUnaryExpression
+  | XppBinaryExpression
+  | XppAssignmentExpression
+  | XppConditionalExpression
+  | XppContainerExpression
+  | XppSelectExpression
+  | XppMacroExpression
+  | XppErrorExpression;
+
+export type XppNode =
+  | XppCompilationUnit
+  | XppClassDeclaration
+  | XppMember
+  | XppAttribute
+  | XppTypeReference
+  | XppParameter
+  | XppVariableDeclarator
+  | XppStatement
+  | XppSwitchCase
+  | XppCatchClause
+  | XppSelect
+  | XppSelectTable
+  | XppExpression;
+
+/**
+ * Visit a node and its descendants depth-first in source order
+ * Returning false from the visitor skips the children of that node
+ */
+export function walkXpp(node: XppNode, visitor: (node: XppNode, parent: XppNode | null) => boolean | void, parent: XppNode | null = null): void {
+  if (visitor(node, parent) === false) return;
+
+  const children: XppNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'span' || key === 'diagnostics' || key === 'comments') continue;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) children.push(item);
+      }
+    } else if (isNode(value)) {
+      children.push(value);
+    }
+  }
+
+  children.sort((a, b) => a.span.start - b.span.start);
+  for (const child of children) {
+    walkXpp(child, visitor, node);
+  }
+}
+
+function isNode(value: unknown): value is XppNode {
+  return typeof value === 'object' && value !== null && typeof (value as XppNode).kind === 'string' && typeof (value as XppNode).span === 'object';
+}
@@ -0,0 +1,209 @@
+/**
+ * X++ Lexer Module
+ *
+ * Splits X++ source into tokens with their offsets and 1-based line/column positions.
+ * Keywords and identifiers are case-insensitive in X++, so keywords carry their lower-case form.
+ * Comments are returned separately so analysis tools can read suppressions from them.
+ */
+
+export type XppTokenKind = 'identifier' | 'keyword' | 'number' | 'string' | 'symbol' | 'macro' | 'eof';
+
+export interface XppToken {
+  kind: XppTokenKind;
+  // Source text of the token
+  text: string;
+  // Lower-case keyword, or the unescaped contents of a string literal
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+export interface XppComment {
+  text: string;
+  block: boolean;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+export interface XppLexDiagnostic {
+  message: string;
+  start: number;
+  line: number;
+  column: number;
+}
+
+export interface XppLexResult {
+  tokens: XppToken[];
+  comments: XppComment[];
+  diagnostics: XppLexDiagnostic[];
+}
+
+export const XPP_KEYWORDS = new Set([
+  'abstract', 'anytype', 'as', 'asc', 'avg', 'boolean', 'break', 'breakpoint', 'by', 'case', 'catch', 'changecompany',
+  'class', 'client', 'const', 'container', 'continue', 'count', 'crosscompany', 'date', 'default', 'delegate', 'delete_from',
+  'desc', 'display', 'div', 'do', 'edit', 'else', 'exists', 'extends', 'false', 'final', 'finally', 'firstfast', 'firstonly',
+  'firstonly1', 'firstonly10', 'firstonly100', 'firstonly1000', 'flush', 'for', 'forceliterals', 'forcenestedloop',
+  'forceplaceholders', 'forceselectorder', 'forupdate', 'from', 'generateonly', 'group', 'guid', 'if', 'implements', 'in',
+  'index', 'insert_recordset', 'int', 'int64', 'interface', 'internal', 'is', 'join', 'like', 'maxof', 'minof', 'mod', 'new',
+  'next', 'nofetch', 'notexists', 'null', 'optimisticlock', 'order', 'outer', 'pause', 'pessimisticlock', 'print', 'private',
+  'protected', 'public', 'readonly', 'real', 'repeatableread', 'retry', 'return', 'reverse', 'select', 'server', 'setting',
+  'static', 'str', 'sum', 'super', 'switch', 'this', 'throw', 'true', 'try', 'ttsabort', 'ttsbegin', 'ttscommit',
+  'update_recordset', 'using', 'utcdatetime', 'validtimestate', 'var', 'void', 'where', 'while', 'window'
+]);
+
+// Longest first, so "::" wins over ":" and "==" over "="
+const SYMBOLS = [
+  '::', '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '<<', '>>',
+  '{', '}', '(', ')', '[', ']', ';', ',', '.', ':', '?', '=', '<', '>', '+', '-', '*', '/', '%', '!', '&', '|', '^', '~'
+];
+
+/**
+ * Tokenize X++ source; the token list always ends with an eof token
+ */
+export function tokenizeXpp(source: string): XppLexResult {
+  const tokens: XppToken[] = [];
+  const comments: XppComment[] = [];
+  const diagnostics: XppLexDiagnostic[] = [];
+
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  // Advance over text that may contain line breaks, keeping line bookkeeping right
+  const advanceTo = (end: number) => {
+    for (let i = pos; i < end; i++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    pos = end;
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+    const start = pos;
+    const startLine = line;
+    const column = pos - lineStart + 1;
+    const push = (kind: XppTokenKind, end: number, value?: string) => {
+      const text = source.slice(start, end);
+      advanceTo(end);
+      tokens.push({ kind, text, value: value ?? text, start, end, line: startLine, column });
+    };
+
+    if (/\s/.test(char)) {
+      advanceTo(pos + 1);
+      continue;
+    }
+
+    if (source.startsWith('//', pos)) {
+      const end = source.indexOf('\n', pos);
+      const commentEnd = end === -1 ? source.length : end;
+      comments.push({ text: source.slice(pos, commentEnd), block: false, start, end: commentEnd, line: startLine, column });
+      advanceTo(commentEnd);
+      continue;
+    }
+
+    if (source.startsWith('/*', pos)) {
+      const close = source.indexOf('*/', pos + 2);
+      const commentEnd = close === -1 ? source.length : close + 2;
+      if (close === -1) diagnostics.push({ message: 'Unterminated block comment', start, line: startLine, column });
+      comments.push({ text: source.slice(pos, commentEnd), block: true, start, end: commentEnd, line: startLine, column });
+      advanceTo(commentEnd);
+      continue;
+    }
+
+    // Verbatim strings: @"..." with "" as an escaped quote, may span lines
+    if (char === '@' && (source[pos + 1] === '"' || source[pos + 1] === "'")) {
+      const quote = source[pos + 1];
+      let end = pos + 2;
+      let value = '';
+      while (end < source.length) {
+        if (source[end] === quote) {
+          if (source[end + 1] === quote) {
+            value += quote;
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[end++];
+      }
+      if (end >= source.length) diagnostics.push({ message: 'Unterminated string literal', start, line: startLine, column });
+      push('string', Math.min(end + 1, source.length), value);
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let end = pos + 1;
+      let value = '';
+      while (end < source.length && source[end] !== char && source[end] !== '\n') {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          const escaped = source[end + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          end += 2;
+          continue;
+        }
+        value += source[end++];
+      }
+      if (source[end] !== char) diagnostics.push({ message: 'Unterminated string literal', start, line: startLine, column });
+      push('string', source[end] === char ? end + 1 : end, value);
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      // Hex, date (day\month\year), real with exponent, or integer with int64 suffix
+      const match = source.slice(pos).match(/^(?:0[xX][0-9a-fA-F]+[uU]?|\d+\\\d+\\\d+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?[uU]?)/)!;
+      push('number', pos + match[0].length);
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(pos).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+      const lower = match[0].toLowerCase();
+      if (XPP_KEYWORDS.has(lower)) {
+        push('keyword', pos + match[0].length, lower);
+      } else {
+        push('identifier', pos + match[0].length);
+      }
+      continue;
+    }
+
+    // Macro usage and directives: #MacroName, #define.Name(value), #if.Name, #endmacro
+    if (char === '#') {
+      let end = pos + 1;
+      while (end < source.length && /[A-Za-z0-9_.]/.test(source[end])) end++;
+      if (source[end] === '(') {
+        let depth = 0;
+        for (; end < source.length; end++) {
+          if (source[end] === '(') depth++;
+          else if (source[end] === ')' && --depth === 0) {
+            end++;
+            break;
+          } else if (source[end] === '\n') {
+            // Unbalanced arguments end with the line
+            break;
+          }
+        }
+      }
+      push('macro', end);
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, pos));
+    if (symbol) {
+      push('symbol', pos + symbol.length);
+      continue;
+    }
+
+    diagnostics.push({ message: `Unexpected character '${char}'`, start, line: startLine, column });
+    push('symbol', pos + 1);
+  }
+
+  tokens.push({ kind: 'eof', text: '', value: '', start: source.length, end: source.length, line, column: source.length - lineStart + 1 });
+  return { tokens, comments, diagnostics };
+}
@@ -0,0 +1,381 @@
+/**
+ * X++ Lint Module
+ *
+ * Best-practice rules run on the parsed X++ of an AOT object, one source block at a time.
+ * Every rule has a default severity that a model can change or switch off in an xpp-lint.json
+ * file in its model folder. Findings can be suppressed in that file, with an
+ * "// xpp-lint-disable-next-line rule" or "// xpp-lint-disable rule" comment, or with the
+ * SuppressBPWarning attribute on the method.
+ */
+
+import { AotMethodOwner, parseXmlDocument, readSourceCode } from './aot-xml.js';
+import { DECLARATION_BLOCK_NAME } from './code-index.js';
+import { parseExtensionOf } from './extension-index.js';
+import { parseXppSource } from './xpp-parser.js';
+import { SourceSpan, XppCompilationUnit, XppExpression, XppMethodDeclaration, XppNode, walkXpp } from './xpp-ast.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRuleId = 'unbalancedTts' | 'selectInLoop' | 'doMethodCall' | 'hardcodedString' | 'cocMissingNext' | 'emptyCatch' | 'parseError';
+
+export const LINT_RULES: Record<LintRuleId, { severity: LintSeverity; description: string }> = {
+  unbalancedTts: { severity: 'error', description: 'ttsbegin without a matching ttscommit/ttsabort in the same method, or the other way round' },
+  selectInLoop: { severity: 'warning', description: 'select or while select inside a loop runs one query per iteration' },
+  doMethodCall: { severity: 'warning', description: 'doInsert, doUpdate and doDelete skip the table methods and their event handlers' },
+  hardcodedString: { severity: 'warning', description: 'User-facing message text that is not a label (info, warning, error, checkFailed, Box)' },
+  cocMissingNext: { severity: 'error', description: 'Chain-of-Command method wrapping a base method without calling next' },
+  emptyCatch: { severity: 'warning', description: 'Empty catch block swallows the exception' },
+  parseError: { severity: 'info', description: 'Source the X++ parser could not read; other rules may miss findings there' }
+};
+
+export const LINT_CONFIG_FILE = 'xpp-lint.json';
+
+const SEVERITY_RANK: Record<LintSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+// Calls whose first argument is shown to the user
+const MESSAGE_FUNCTIONS = new Set(['info', 'warning', 'error', 'checkfailed', 'setprefix']);
+const MESSAGE_BOX_METHODS = new Set(['info', 'infoonce', 'warning', 'stop', 'yesno', 'yesnocancel', 'yesnoall', 'okcancel']);
+
+const DO_METHODS = new Set(['doinsert', 'doupdate', 'dodelete']);
+
+/**
+ * A suppression in xpp-lint.json; object and method accept * wildcards and default to all
+ */
+export interface LintSuppression {
+  rule: string;
+  object?: string;
+  method?: string;
+  justification?: string;
+}
+
+export interface LintConfig {
+  rules: Partial<Record<LintRuleId, LintSeverity | 'off'>>;
+  suppressions: LintSuppression[];
+}
+
+export interface LintDiagnostic {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  object: string;
+  // AOT folder of the object (AxClass, AxTable, ...)
+  objectType: string;
+  model: string;
+  // Method name, classDeclaration for the declaration; form methods are prefixed with their datasource or control
+  method: string;
+  // Line and column in the AOT XML file
+  line: number;
+  column: number;
+  path: string;
+}
+
+export interface LintTarget {
+  name: string;
+  folder: string;
+  model: string;
+  path: string;
+  content: string;
+}
+
+/**
+ * Methods of the object a Chain-of-Command class extends, keyed by lower-case name
+ * Replaceable methods may skip the next call
+ */
+export type CocBaseMethods = Map<string, { replaceable: boolean }>;
+
+export interface LintOptions {
+  config?: LintConfig;
+  // Only run these rules
+  rules?: LintRuleId[];
+  // Base methods of the CoC target; null when the object is not a CoC class or its base is not indexed
+  cocBase?: CocBaseMethods | null;
+}
+
+export interface LintReport {
+  objects: Array<{ name: string; objectType: string; model: string; path: string }>;
+  diagnostics: LintDiagnostic[];
+  counts: Record<LintSeverity, number>;
+  byRule: Partial<Record<LintRuleId, number>>;
+  // Findings dropped by suppressions
+  suppressed: number;
+}
+
+interface Finding {
+  rule: LintRuleId;
+  message: string;
+  span: SourceSpan;
+}
+
+/**
+ * Read an xpp-lint.json file
+ * {"rules": {"hardcodedString": "off", "selectInLoop": "error"}, "suppressions": [{"rule": "doMethodCall", "object": "MyTable"}]}
+ */
+export function parseLintConfig(json: string, source: string = LINT_CONFIG_FILE): LintConfig {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const rules: LintConfig['rules'] = {};
+  for (const [rule, severity] of Object.entries(raw?.rules || {})) {
+    if (!(rule in LINT_RULES)) throw new Error(`Invalid ${source}: unknown rule "${rule}"`);
+    if (!['error', 'warning', 'info', 'off'].includes(severity as string)) {
+      throw new Error(`Invalid ${source}: severity of "${rule}" must be error, warning, info or off`);
+    }
+    rules[rule as LintRuleId] = severity as LintSeverity | 'off';
+  }
+
+  const suppressions = Array.isArray(raw?.suppressions) ? raw.suppressions.filter((entry: any) => typeof entry?.rule === 'string') : [];
+  return { rules, suppressions };
+}
+
+/**
+ * Target of the [ExtensionOf(...)] attribute of an AxClass file, null for other classes
+ */
+export function extensionTargetOf(content: string): { baseName: string; baseType: string; baseMember: string | null } | null {
+  const { declaration } = readSourceCode(parseXmlDocument(content));
+  return declaration ? parseExtensionOf(declaration.source) : null;
+}
+
+/**
+ * Run the lint rules on every source block of an AOT object
+ */
+export function lintObject(target: LintTarget, options: LintOptions = {}): { diagnostics: LintDiagnostic[]; suppressed: number } {
+  const config = options.config || { rules: {}, suppressions: [] };
+  const { declaration, methods } = readSourceCode(parseXmlDocument(target.content));
+  const isCocClass = !!declaration && !!parseExtensionOf(declaration.source);
+
+  const blocks = [
+    ...(declaration ? [{ name: DECLARATION_BLOCK_NAME, source: declaration.source, startLine: declaration.startLine, owner: null as AotMethodOwner | null }] : []),
+    ...methods
+  ];
+
+  const diagnostics: LintDiagnostic[] = [];
+  let suppressed = 0;
+  for (const block of blocks) {
+    const unit = parseXppSource(block.source);
+    const methodName = block.owner ? `${block.owner.name}.${block.name}` : block.name;
+    const method = unit.methods[0] || null;
+    const findings = checkBlock(unit, method, isCocClass && !block.owner ? options.cocBase ?? null : null);
+    const disabled = readSuppressionComments(unit);
+
+    for (const finding of findings) {
+      const severity = config.rules[finding.rule] ?? LINT_RULES[finding.rule].severity;
+      if (severity === 'off' || (options.rules && !options.rules.includes(finding.rule))) continue;
+
+      if (isSuppressed(finding, { target, methodName, method, config, disabled })) {
+        suppressed++;
+        continue;
+      }
+
+      diagnostics.push({
+        rule: finding.rule,
+        severity,
+        message: finding.message,
+        object: target.name,
+        objectType: target.folder,
+        model: target.model,
+        method: methodName,
+        line: block.startLine + finding.span.line - 1,
+        column: finding.span.column,
+        path: target.path
+      });
+    }
+  }
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { diagnostics, suppressed };
+}
+
+/**
+ * Diagnostics at or above a severity
+ */
+export function filterBySeverity(diagnostics: LintDiagnostic[], minSeverity: LintSeverity): LintDiagnostic[] {
+  return diagnostics.filter(diagnostic => SEVERITY_RANK[diagnostic.severity] >= SEVERITY_RANK[minSeverity]);
+}
+
+/**
+ * Report with counts per severity and rule
+ */
+export function summarizeLint(objects: LintReport['objects'], diagnostics: LintDiagnostic[], suppressed: number): LintReport {
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  const byRule: LintReport['byRule'] = {};
+  for (const diagnostic of diagnostics) {
+    counts[diagnostic.severity]++;
+    byRule[diagnostic.rule] = (byRule[diagnostic.rule] || 0) + 1;
+  }
+  return { objects, diagnostics, counts, byRule, suppressed };
+}
+
+// ---------------------------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------------------------
+
+function checkBlock(unit: XppCompilationUnit, method: XppMethodDeclaration | null, cocBase: CocBaseMethods | null): Finding[] {
+  const findings: Finding[] = unit.diagnostics.map(diagnostic => ({ rule: 'parseError', message: `X++ parse error: ${diagnostic.message}`, span: diagnostic.span }));
+
+  const transactions: Array<{ action: string; span: SourceSpan }> = [];
+  const loopBodies: SourceSpan[] = [];
+  const selects: Array<{ kind: string; span: SourceSpan }> = [];
+  const nextCalls: string[] = [];
+
+  walkXpp(unit, node => {
+    switch (node.kind) {
+      case 'transaction':
+        transactions.push({ action: node.action, span: node.span });
+        break;
+      case 'while':
+      case 'doWhile':
+      case 'for':
+        loopBodies.push(node.body.span);
+        break;
+      case 'whileSelect':
+        selects.push(node);
+        loopBodies.push(node.body.span);
+        break;
+      case 'selectStatement':
+      case 'selectExpression':
+        selects.push(node);
+        break;
+      case 'catch':
+        if (node.body.statements.length === 0) {
+          findings.push({ rule: 'emptyCatch', message: 'Empty catch block swallows the exception; handle it, log it or rethrow', span: node.span });
+        }
+        break;
+      case 'nextCall':
+        nextCalls.push(node.method.toLowerCase());
+        break;
+      case 'call':
+        findings.push(...checkCall(node));
+        break;
+    }
+  });
+
+  // Transactions pair up in source order within a method
+  let depth = 0;
+  const open: SourceSpan[] = [];
+  for (const transaction of transactions) {
+    if (transaction.action === 'ttsbegin') {
+      depth++;
+      open.push(transaction.span);
+    } else if (depth === 0) {
+      findings.push({ rule: 'unbalancedTts', message: `${transaction.action} without a matching ttsbegin`, span: transaction.span });
+    } else {
+      depth--;
+      open.pop();
+    }
+  }
+  for (const span of open) {
+    findings.push({ rule: 'unbalancedTts', message: 'ttsbegin without a matching ttscommit or ttsabort in this method', span });
+  }
+
+  for (const select of selects) {
+    if (loopBodies.some(body => select.span.start >= body.start && select.span.end <= body.end)) {
+      findings.push({
+        rule: 'selectInLoop',
+        message: select.kind === 'whileSelect'
+          ? 'Nested while select runs one query per outer record; join the tables or use a set-based operation'
+          : 'select inside a loop runs one query per iteration; join the tables or read the records before the loop',
+        span: select.span
+      });
+    }
+  }
+
+  if (method && cocBase) {
+    const base = cocBase.get(method.name.toLowerCase());
+    if (base && !base.replaceable && !nextCalls.includes(method.name.toLowerCase())) {
+      findings.push({ rule: 'cocMissingNext', message: `${method.name} wraps the base method but never calls next ${method.name}(); the base logic and other extensions are skipped`, span: method.span });
+    }
+  }
+
+  return findings;
+}
+
+function checkCall(node: Extract<XppNode, { kind: 'call' }>): Finding[] {
+  const findings: Finding[] = [];
+  const callee = node.callee;
+
+  if (callee.kind === 'member' && DO_METHODS.has(callee.name.toLowerCase())) {
+    findings.push({ rule: 'doMethodCall', message: `${callee.name}() skips the table's ${callee.name.slice(2)}() method and its event handlers`, span: node.span });
+  }
+
+  const isMessageCall = (callee.kind === 'identifier' && MESSAGE_FUNCTIONS.has(callee.name.toLowerCase()))
+    || (callee.kind === 'staticMember' && callee.typeName.toLowerCase() === 'box' && MESSAGE_BOX_METHODS.has(callee.name.toLowerCase()))
+    || (callee.kind === 'staticMember' && callee.typeName.toLowerCase() === 'global' && MESSAGE_FUNCTIONS.has(callee.name.toLowerCase()));
+  const text = isMessageCall ? messageLiteral(node.arguments[0]) : null;
+  if (text) {
+    findings.push({ rule: 'hardcodedString', message: `Message text "${text.value}" is not a label; move it to a label file`, span: text.span });
+  }
+
+  return findings;
+}
+
+// Literal message text, also as the format string of strFmt("...", ...)
+function messageLiteral(argument: XppExpression | undefined): { value: string; span: SourceSpan } | null {
+  if (!argument) return null;
+  if (argument.kind === 'call' && argument.callee.kind === 'identifier' && argument.callee.name.toLowerCase() === 'strfmt') {
+    return messageLiteral(argument.arguments[0]);
+  }
+  if (argument.kind !== 'literal' || argument.literalType !== 'string') return null;
+  // Label references and text without words (separators, format strings like "%1") are fine
+  if (argument.value.trim().startsWith('@') || !/[A-Za-z]{2}/.test(argument.value.replace(/%\d/g, ''))) return null;
+  return { value: argument.value, span: argument.span };
+}
+
+// ---------------------------------------------------------------------------------------------
+// Suppressions
+// ---------------------------------------------------------------------------------------------
+
+interface DisabledRules {
+  // Rules disabled for the whole block; all disables every rule
+  block: { all: boolean; rules: Set<string> };
+  // Line (relative to the block) to the rules disabled on it
+  lines: Map<number, { all: boolean; rules: Set<string> }>;
+}
+
+// "// xpp-lint-disable-next-line selectInLoop -- reason" or "// xpp-lint-disable" for the whole block
+function readSuppressionComments(unit: XppCompilationUnit): DisabledRules {
+  const disabled: DisabledRules = { block: { all: false, rules: new Set() }, lines: new Map() };
+  for (const comment of unit.comments) {
+    const match = comment.text.match(/xpp-lint-disable(-next-line)?(?![\w-])([^\n]*)/);
+    if (!match) continue;
+
+    const rules = match[2].split('--')[0].replace(/\*\/\s*$/, '').split(/[\s,]+/).filter(Boolean).map(rule => rule.toLowerCase());
+    if (match[1]) {
+      disabled.lines.set(comment.line + 1, { all: rules.length === 0, rules: new Set(rules) });
+    } else {
+      disabled.block.all ||= rules.length === 0;
+      rules.forEach(rule => disabled.block.rules.add(rule));
+    }
+  }
+  return disabled;
+}
+
+function isSuppressed(
+  finding: Finding,
+  context: { target: LintTarget; methodName: string; method: XppMethodDeclaration | null; config: LintConfig; disabled: DisabledRules }
+): boolean {
+  const rule = finding.rule.toLowerCase();
+  const matches = (entry: { all: boolean; rules: Set<string> } | undefined) => !!entry && (entry.all || entry.rules.has(rule));
+  if (matches(context.disabled.block) || matches(context.disabled.lines.get(finding.span.line))) return true;
+
+  // [SuppressBPWarning('selectInLoop', 'Justification')]
+  const attributes = context.method?.attributes || [];
+  if (attributes.some(attribute => attribute.name.toLowerCase() === 'suppressbpwarning'
+    && attribute.arguments[0]?.kind === 'literal' && attribute.arguments[0].value.toLowerCase() === rule)) {
+    return true;
+  }
+
+  return context.config.suppressions.some(suppression =>
+    (suppression.rule === '*' || suppression.rule.toLowerCase() === rule)
+    && matchesWildcard(context.target.name, suppression.object)
+    && matchesWildcard(context.methodName, suppression.method));
+}
+
+function matchesWildcard(value: string, pattern: string | undefined): boolean {
+  if (!pattern) return true;
+  const regex = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`, 'i');
+  return regex.test(value);
+}
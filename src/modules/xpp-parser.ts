@@ -0,0 +1,1029 @@
+/**
+ * X++ Parser Module
+ *
+ * Recursive-descent parser turning X++ source into the AST in xpp-ast.ts. It accepts a full
+ * class or interface (an .xpp file or an AOT Declaration block) as well as standalone method
+ * source blocks, which is how the AOT stores each method.
+ *
+ * The parser never throws: source it cannot make sense of is reported as a diagnostic and
+ * skipped up to the next ';' or '}', so one bad statement doesn't lose the rest of the file.
+ */
+
+import { tokenizeXpp, XppComment, XppToken } from './xpp-lexer.js';
+import type {
+  SourceSpan,
+  XppAttribute,
+  XppBlock,
+  XppCatchClause,
+  XppClassDeclaration,
+  XppCompilationUnit,
+  XppDiagnostic,
+  XppExpression,
+  XppFieldDeclaration,
+  XppLocalDeclaration,
+  XppMacroDirective,
+  XppMember,
+  XppMethodDeclaration,
+  XppParameter,
+  XppSelect,
+  XppSelectTable,
+  XppStatement,
+  XppSwitchCase,
+  XppTypeReference,
+  XppVariableDeclarator
+} from './xpp-ast.js';
+
+const MODIFIERS = new Set(['public', 'private', 'protected', 'internal', 'static', 'final', 'abstract', 'client', 'server', 'display', 'edit', 'delegate']);
+
+const TYPE_KEYWORDS = new Set(['int', 'int64', 'real', 'str', 'date', 'utcdatetime', 'boolean', 'container', 'anytype', 'guid', 'var', 'void']);
+
+const SELECT_OPTIONS = new Set([
+  'firstonly', 'firstonly1', 'firstonly10', 'firstonly100', 'firstonly1000', 'firstfast', 'forupdate', 'nofetch', 'crosscompany',
+  'forceliterals', 'forceplaceholders', 'forcenestedloop', 'forceselectorder', 'reverse', 'optimisticlock', 'pessimisticlock',
+  'repeatableread', 'generateonly', 'validtimestate'
+]);
+
+const JOIN_TYPES = new Set(['join', 'exists', 'notexists', 'outer']);
+
+// Tokens that end a field list scan without a 'from', meaning the select names its table directly
+const SELECT_CLAUSE_KEYWORDS = new Set(['where', 'join', 'exists', 'notexists', 'outer', 'order', 'group', 'index']);
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=']);
+
+// Binary operator precedence, higher binds tighter
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '<': 3, '>': 3, '<=': 3, '>=': 3, 'like': 3, 'in': 3, 'is': 3, 'as': 3,
+  '|': 4,
+  '^': 5,
+  '&': 6,
+  '<<': 7, '>>': 7,
+  '+': 8, '-': 8,
+  '*': 9, '/': 9, '%': 9, 'div': 9, 'mod': 9
+};
+
+const MACRO_DIRECTIVES = new Set(['define', 'undef', 'if', 'ifnot', 'else', 'endif', 'localmacro', 'globalmacro', 'endmacro', 'macrolib', 'globaldefine']);
+
+/**
+ * Parse X++ source into a compilation unit
+ */
+export function parseXppSource(source: string): XppCompilationUnit {
+  return new XppParser(source).parseCompilationUnit();
+}
+
+class XppParser {
+  private tokens: XppToken[];
+  private pos = 0;
+  private diagnostics: XppDiagnostic[] = [];
+  private lineStarts: number[] = [0];
+  private comments: XppComment[];
+  private lastSkipped = -1;
+
+  constructor(private source: string) {
+    const lexed = tokenizeXpp(source);
+    this.tokens = lexed.tokens;
+    this.comments = lexed.comments;
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+    for (const diagnostic of lexed.diagnostics) {
+      this.diagnostics.push({ message: diagnostic.message, span: this.spanOf(diagnostic.start, diagnostic.start + 1) });
+    }
+  }
+
+  parseCompilationUnit(): XppCompilationUnit {
+    const start = this.peek();
+    const classes: XppClassDeclaration[] = [];
+    const methods: XppMethodDeclaration[] = [];
+    const macros: XppMacroDirective[] = [];
+
+    while (!this.atEnd()) {
+      const before = this.pos;
+      if (this.peek().kind === 'macro') {
+        macros.push(this.parseMacroDirective());
+        continue;
+      }
+
+      const attributes = this.parseAttributes();
+      const modifiers = this.parseModifiers();
+      if (this.isKeyword('class') || this.isKeyword('interface')) {
+        classes.push(this.parseClass(this.tokens[before], attributes, modifiers));
+      } else {
+        const member = this.parseMember(this.tokens[before], attributes, modifiers);
+        if (member?.kind === 'method') methods.push(member);
+        else if (member) this.report('Field declaration outside a class', member.span);
+      }
+
+      if (this.pos === before) this.skipUnexpected();
+    }
+
+    this.diagnostics.sort((a, b) => a.span.start - b.span.start);
+    return { kind: 'compilationUnit', classes, methods, macros, comments: this.comments, diagnostics: this.diagnostics, span: this.finish(start) };
+  }
+
+  // -------------------------------------------------------------------------------------------
+  // Declarations
+  // -------------------------------------------------------------------------------------------
+
+  private parseClass(start: XppToken, attributes: XppAttribute[], modifiers: string[]): XppClassDeclaration {
+    const kind = this.next().value as 'class' | 'interface';
+    const name = this.expectName('class name');
+    let extendsName: string | null = null;
+    const implementsNames: string[] = [];
+
+    if (this.acceptKeyword('extends')) {
+      extendsName = this.parseQualifiedName();
+      // Interfaces extend a list of interfaces
+      while (kind === 'interface' && this.accept(',')) implementsNames.push(this.parseQualifiedName());
+    }
+    if (this.acceptKeyword('implements')) {
+      do {
+        implementsNames.push(this.parseQualifiedName());
+      } while (this.accept(','));
+    }
+
+    const members: XppMember[] = [];
+    if (this.expect('{')) {
+      while (!this.atEnd() && !this.is('}')) {
+        const before = this.pos;
+        if (this.peek().kind === 'macro') {
+          members.push(this.parseMacroDirective());
+          continue;
+        }
+        if (this.accept(';')) continue;
+
+        const memberAttributes = this.parseAttributes();
+        const memberModifiers = this.parseModifiers();
+        const member = this.parseMember(this.tokens[before], memberAttributes, memberModifiers);
+        if (member) members.push(member);
+        if (this.pos === before) this.skipUnexpected();
+      }
+      this.expect('}');
+    }
+
+    return { kind, name, modifiers, attributes, extends: extendsName, implements: implementsNames, members, span: this.finish(start) };
+  }
+
+  /**
+   * Field or method after its attributes and modifiers; null when no type starts here
+   */
+  private parseMember(start: XppToken, attributes: XppAttribute[], modifiers: string[]): XppFieldDeclaration | XppMethodDeclaration | null {
+    const isConst = this.acceptKeyword('const');
+    if (!this.isTypeStart()) {
+      if (attributes.length > 0 || modifiers.length > 0 || isConst) this.report(`Expected a declaration, found '${this.peek().text}'`);
+      return null;
+    }
+
+    const type = this.parseType();
+    // Method names may be keywords: new, next and so on
+    if (this.isWord() && this.peekAt(1).text === '(') {
+      return this.parseMethodRest(start, attributes, modifiers, type);
+    }
+
+    const declarators = this.parseDeclarators();
+    this.expectSemicolon();
+    return { kind: 'field', modifiers: isConst ? [...modifiers, 'const'] : modifiers, attributes, type, declarators, span: this.finish(start) };
+  }
+
+  private parseMethodRest(start: XppToken, attributes: XppAttribute[], modifiers: string[], returnType: XppTypeReference): XppMethodDeclaration {
+    const name = this.next().text;
+    const parameters = this.parseParameters();
+    let body: XppBlock | null = null;
+    if (this.is('{')) {
+      body = this.parseBlock();
+    } else {
+      this.expectSemicolon();
+    }
+    return { kind: 'method', name, modifiers, attributes, returnType, parameters, body, span: this.finish(start) };
+  }
+
+  private parseParameters(): XppParameter[] {
+    const parameters: XppParameter[] = [];
+    this.expect('(');
+    while (!this.atEnd() && !this.is(')')) {
+      const start = this.peek();
+      if (!this.isTypeStart()) {
+        this.report(`Expected a parameter, found '${start.text}'`);
+        this.skipUntil(token => token.text === ',' || token.text === ')' || token.text === '{');
+      } else {
+        const type = this.parseType();
+        const name = this.expectName('parameter name');
+        let defaultValue: XppExpression | null = null;
+        let defaultText: string | null = null;
+        if (this.accept('=')) {
+          defaultValue = this.parseExpression();
+          defaultText = this.source.slice(defaultValue.span.start, defaultValue.span.end);
+        }
+        parameters.push({ kind: 'parameter', name, type, defaultValue, defaultText, span: this.finish(start) });
+      }
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+    return parameters;
+  }
+
+  private parseAttributes(): XppAttribute[] {
+    const attributes: XppAttribute[] = [];
+    while (this.is('[') && (this.peekAt(1).kind === 'identifier' || this.peekAt(1).kind === 'keyword')) {
+      this.next();
+      do {
+        const start = this.peek();
+        const name = this.parseQualifiedName();
+        const args = this.is('(') ? this.parseArguments() : [];
+        attributes.push({ kind: 'attribute', name, arguments: args, span: this.finish(start) });
+      } while (this.accept(','));
+      this.expect(']');
+    }
+    return attributes;
+  }
+
+  private parseModifiers(): string[] {
+    const modifiers: string[] = [];
+    while (this.peek().kind === 'keyword' && MODIFIERS.has(this.peek().value)) {
+      modifiers.push(this.next().value);
+    }
+    return modifiers;
+  }
+
+  private parseType(): XppTypeReference {
+    const start = this.peek();
+    let name: string;
+    let length: number | null = null;
+    if (start.kind === 'keyword' && TYPE_KEYWORDS.has(start.value)) {
+      name = this.next().value;
+      if (name === 'str' && this.peek().kind === 'number') length = Number(this.next().text);
+    } else {
+      name = this.parseQualifiedName();
+    }
+    return { kind: 'type', name, length, span: this.finish(start) };
+  }
+
+  private parseDeclarators(): XppVariableDeclarator[] {
+    const declarators: XppVariableDeclarator[] = [];
+    do {
+      const start = this.peek();
+      const name = this.expectName('variable name');
+      let isArray = false;
+      let arraySize: XppExpression | null = null;
+      let initializer: XppExpression | null = null;
+      if (this.accept('[')) {
+        isArray = true;
+        if (!this.is(']')) arraySize = this.parseExpression();
+        // Optional number of elements held in memory
+        if (this.accept(',')) this.parseExpression();
+        this.expect(']');
+      }
+      if (this.accept('=')) initializer = this.parseExpression();
+      declarators.push({ kind: 'declarator', name, isArray, arraySize, initializer, span: this.finish(start) });
+    } while (this.accept(','));
+    return declarators;
+  }
+
+  private parseMacroDirective(): XppMacroDirective {
+    const start = this.next();
+    const directive = start.text.slice(1).split(/[.(]/)[0].toLowerCase();
+    // Macro bodies are not X++ until expanded
+    if (directive === 'localmacro' || directive === 'globalmacro') {
+      while (!this.atEnd() && !(this.peek().kind === 'macro' && this.peek().text.toLowerCase().startsWith('#endmacro'))) this.next();
+      if (this.atEnd()) this.report(`Missing #endmacro for ${start.text}`, this.spanOf(start.start, start.end));
+      else this.next();
+    }
+    this.accept(';');
+    const span = this.finish(start);
+    return { kind: 'macroDirective', text: this.source.slice(span.start, span.end), span };
+  }
+
+  // -------------------------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------------------------
+
+  private parseBlock(): XppBlock {
+    const start = this.peek();
+    const statements: XppStatement[] = [];
+    this.expect('{');
+    while (!this.atEnd() && !this.is('}')) {
+      statements.push(this.parseStatementWithProgress());
+    }
+    this.expect('}');
+    return { kind: 'block', statements, span: this.finish(start) };
+  }
+
+  private parseStatementWithProgress(): XppStatement {
+    const before = this.pos;
+    const statement = this.parseStatement();
+    if (this.pos === before) {
+      this.skipUnexpected();
+      return { kind: 'unknown', text: this.tokens[before].text, span: this.finish(this.tokens[before]) };
+    }
+    return statement;
+  }
+
+  private parseStatement(): XppStatement {
+    const start = this.peek();
+
+    if (this.is('{')) return this.parseBlock();
+    if (this.accept(';')) return { kind: 'empty', span: this.finish(start) };
+    if (start.kind === 'macro') return this.parseMacroStatement();
+
+    if (start.kind === 'keyword') {
+      switch (start.value) {
+        case 'if': {
+          this.next();
+          const condition = this.parseParenthesized();
+          const then = this.parseStatementWithProgress();
+          const otherwise = this.acceptKeyword('else') ? this.parseStatementWithProgress() : null;
+          return { kind: 'if', condition, then, else: otherwise, span: this.finish(start) };
+        }
+        case 'while': {
+          this.next();
+          if (this.isKeyword('select')) {
+            const select = this.parseSelect();
+            const body = this.parseStatementWithProgress();
+            return { kind: 'whileSelect', select, body, span: this.finish(start) };
+          }
+          const condition = this.parseParenthesized();
+          const body = this.parseStatementWithProgress();
+          return { kind: 'while', condition, body, span: this.finish(start) };
+        }
+        case 'do': {
+          this.next();
+          const body = this.parseStatementWithProgress();
+          this.expectKeyword('while');
+          const condition = this.parseParenthesized();
+          this.expectSemicolon();
+          return { kind: 'doWhile', body, condition, span: this.finish(start) };
+        }
+        case 'for':
+          return this.parseFor();
+        case 'switch':
+          return this.parseSwitch();
+        case 'break':
+        case 'continue':
+        case 'retry':
+          this.next();
+          this.expectSemicolon();
+          return { kind: start.value as 'break' | 'continue' | 'retry', span: this.finish(start) };
+        case 'return':
+        case 'throw': {
+          this.next();
+          const expression = this.is(';') ? null : this.parseExpression();
+          this.expectSemicolon();
+          return { kind: start.value as 'return' | 'throw', expression, span: this.finish(start) };
+        }
+        case 'try':
+          return this.parseTry();
+        case 'ttsbegin':
+        case 'ttscommit':
+        case 'ttsabort':
+          this.next();
+          this.expectSemicolon();
+          return { kind: 'transaction', action: start.value as 'ttsbegin' | 'ttscommit' | 'ttsabort', span: this.finish(start) };
+        case 'select': {
+          const select = this.parseSelect();
+          this.expectSemicolon();
+          return { kind: 'selectStatement', select, span: this.finish(start) };
+        }
+        case 'delete_from':
+        case 'update_recordset':
+        case 'insert_recordset':
+          return this.parseRecordset();
+        case 'changecompany': {
+          this.next();
+          const company = this.parseParenthesized();
+          const body = this.parseStatementWithProgress();
+          return { kind: 'changeCompany', company, body, span: this.finish(start) };
+        }
+        case 'using': {
+          this.next();
+          this.expect('(');
+          const resource = this.isDeclarationStart() ? this.parseLocalDeclaration(false) : this.parseExpression();
+          this.expect(')');
+          const body = this.parseStatementWithProgress();
+          return { kind: 'using', resource, body, span: this.finish(start) };
+        }
+        case 'next':
+          // "next buffer;" fetches the next record; "next method()" is a Chain-of-Command call
+          if (this.peekAt(1).kind === 'identifier' && this.peekAt(2).text === ';') {
+            this.next();
+            const table = this.next().text;
+            this.next();
+            return { kind: 'nextRecord', table, span: this.finish(start) };
+          }
+          break;
+        case 'print':
+        case 'pause':
+        case 'breakpoint':
+        case 'flush':
+        case 'window': {
+          this.next();
+          const args: XppExpression[] = [];
+          if (!this.is(';')) {
+            do {
+              args.push(this.parseExpression());
+            } while (this.accept(','));
+          }
+          this.expectSemicolon();
+          return { kind: 'keywordStatement', keyword: start.value, arguments: args, span: this.finish(start) };
+        }
+        case 'const': {
+          this.next();
+          const declaration = this.parseLocalDeclaration(true);
+          this.expectSemicolon();
+          return { ...declaration, span: this.finish(start) };
+        }
+      }
+    }
+
+    if (this.isDeclarationStart()) {
+      const type = this.parseType();
+      if (this.peekAt(1).text === '(') {
+        const method = this.parseMethodRest(start, [], [], type);
+        return { kind: 'localFunction', method, span: method.span };
+      }
+      const declarators = this.parseDeclarators();
+      this.expectSemicolon();
+      return { kind: 'localDeclaration', isConst: false, type, declarators, span: this.finish(start) };
+    }
+
+    const expression = this.parseExpression();
+    this.expectSemicolon();
+    return { kind: 'expressionStatement', expression, span: this.finish(start) };
+  }
+
+  private parseLocalDeclaration(isConst: boolean): XppLocalDeclaration {
+    const start = this.peek();
+    const type = this.parseType();
+    const declarators = this.parseDeclarators();
+    return { kind: 'localDeclaration', isConst, type, declarators, span: this.finish(start) };
+  }
+
+  private parseFor(): XppStatement {
+    const start = this.next();
+    this.expect('(');
+    let initializer: XppLocalDeclaration | XppExpression | null = null;
+    if (!this.is(';')) initializer = this.isDeclarationStart() ? this.parseLocalDeclaration(false) : this.parseExpression();
+    this.expect(';');
+    const condition = this.is(';') ? null : this.parseExpression();
+    this.expect(';');
+    const update: XppExpression[] = [];
+    if (!this.is(')')) {
+      do {
+        update.push(this.parseExpression());
+      } while (this.accept(','));
+    }
+    this.expect(')');
+    const body = this.parseStatementWithProgress();
+    return { kind: 'for', initializer, condition, update, body, span: this.finish(start) };
+  }
+
+  private parseSwitch(): XppStatement {
+    const start = this.next();
+    const expression = this.parseParenthesized();
+    const cases: XppSwitchCase[] = [];
+    this.expect('{');
+    while (!this.atEnd() && !this.is('}')) {
+      const caseStart = this.peek();
+      const labels: XppExpression[] = [];
+      let isDefault = false;
+      if (this.acceptKeyword('case')) {
+        do {
+          labels.push(this.parseExpression());
+        } while (this.accept(','));
+      } else if (this.acceptKeyword('default')) {
+        isDefault = true;
+      } else {
+        this.report(`Expected 'case' or 'default', found '${caseStart.text}'`);
+        this.synchronize();
+        continue;
+      }
+      this.expect(':');
+
+      const statements: XppStatement[] = [];
+      while (!this.atEnd() && !this.is('}') && !this.isKeyword('case') && !this.isKeyword('default')) {
+        statements.push(this.parseStatementWithProgress());
+      }
+      cases.push({ kind: 'case', labels, isDefault, statements, span: this.finish(caseStart) });
+    }
+    this.expect('}');
+    return { kind: 'switch', expression, cases, span: this.finish(start) };
+  }
+
+  private parseTry(): XppStatement {
+    const start = this.next();
+    const body = this.parseBlock();
+    const catches: XppCatchClause[] = [];
+    while (this.isKeyword('catch')) {
+      const catchStart = this.next();
+      let exception: XppExpression | XppLocalDeclaration | null = null;
+      if (this.accept('(')) {
+        exception = this.isDeclarationStart() ? this.parseLocalDeclaration(false) : this.parseExpression();
+        this.expect(')');
+      }
+      catches.push({ kind: 'catch', exception, body: this.parseBlock(), span: this.finish(catchStart) });
+    }
+    const finallyBlock = this.acceptKeyword('finally') ? this.parseBlock() : null;
+    return { kind: 'try', body, catches, finally: finallyBlock, span: this.finish(start) };
+  }
+
+  private parseRecordset(): XppStatement {
+    const start = this.next();
+    const operation = start.value as 'delete_from' | 'update_recordset' | 'insert_recordset';
+    let table: string | null = null;
+    const assignments: XppExpression[] = [];
+    let select: XppSelect | null = null;
+    let where: XppExpression | null = null;
+
+    if (operation === 'insert_recordset') {
+      table = this.expectName('table buffer');
+      this.expect('(');
+      if (!this.is(')')) {
+        do {
+          assignments.push(this.parseExpression());
+        } while (this.accept(','));
+      }
+      this.expect(')');
+      select = this.parseSelect();
+    } else {
+      // delete_from and update_recordset share the select grammar for their table, where and joins
+      select = this.parseSelectTables(start, [], operation === 'update_recordset');
+      table = select.tables[0]?.table ?? null;
+      where = select.tables[0]?.where ?? null;
+      if (operation === 'update_recordset') {
+        const setting = select.tables[0];
+        assignments.push(...(setting?.fields ?? []));
+        if (setting) setting.fields = [];
+      }
+    }
+
+    this.expectSemicolon();
+    return { kind: 'recordset', operation, table, assignments, select, where, span: this.finish(start) };
+  }
+
+  private parseMacroStatement(): XppStatement {
+    const start = this.peek();
+    const directive = start.text.slice(1).split(/[.(]/)[0].toLowerCase();
+    // A macro used as a value or target: #Macro.method(), x = #Value is handled by the expression parser
+    if (!MACRO_DIRECTIVES.has(directive) && ['.', '=', '+=', '-=', '(', '[', '::', '++', '--'].includes(this.peekAt(1).text)) {
+      const expression = this.parseExpression();
+      this.expectSemicolon();
+      return { kind: 'expressionStatement', expression, span: this.finish(start) };
+    }
+    const directiveNode = this.parseMacroDirective();
+    return { kind: 'macroStatement', text: directiveNode.text, span: directiveNode.span };
+  }
+
+  // -------------------------------------------------------------------------------------------
+  // Select statements
+  // -------------------------------------------------------------------------------------------
+
+  private parseSelect(): XppSelect {
+    const start = this.next();
+    const options: string[] = [];
+    while (this.peek().kind === 'keyword' && SELECT_OPTIONS.has(this.peek().value)) {
+      const option = this.next().value;
+      options.push(option);
+      if (option === 'crosscompany' && this.accept(':')) this.parseUnary();
+      if (option === 'validtimestate' && this.is('(')) this.parseArguments();
+    }
+    return this.parseSelectTables(start, options, false);
+  }
+
+  private parseSelectTables(start: XppToken, options: string[], hasSetting: boolean): XppSelect {
+    const tables: XppSelectTable[] = [this.parseSelectTable(null, hasSetting)];
+    while (this.peek().kind === 'keyword' && JOIN_TYPES.has(this.peek().value)) {
+      const joinType = this.next().value;
+      if (joinType !== 'join') this.expectKeyword('join');
+      tables.push(this.parseSelectTable(joinType, false));
+    }
+    return { kind: 'select', options, tables, span: this.finish(start) };
+  }
+
+  private parseSelectTable(joinType: string | null, hasSetting: boolean): XppSelectTable {
+    const start = this.peek();
+    const fields: XppExpression[] = [];
+    if (this.hasFieldList()) {
+      do {
+        fields.push(this.parseUnary());
+      } while (this.accept(','));
+      this.expectKeyword('from');
+    }
+
+    const table = this.expectName('table buffer');
+    let where: XppExpression | null = null;
+    let index: string | null = null;
+    const orderBy: XppExpression[] = [];
+    const groupBy: XppExpression[] = [];
+
+    if (hasSetting && this.acceptKeyword('setting')) {
+      do {
+        fields.push(this.parseExpression());
+      } while (this.accept(','));
+    }
+
+    for (;;) {
+      if (this.acceptKeyword('index')) {
+        if (this.peek().text.toLowerCase() === 'hint' && this.peekAt(1).kind === 'identifier') this.next();
+        index = this.expectName('index name');
+      } else if (this.isKeyword('order') || this.isKeyword('group')) {
+        const target = this.next().value === 'order' ? orderBy : groupBy;
+        this.acceptKeyword('by');
+        do {
+          target.push(this.parsePostfix());
+          if (this.isKeyword('asc') || this.isKeyword('desc')) this.next();
+        } while (this.accept(','));
+      } else if (this.acceptKeyword('where')) {
+        where = this.parseExpression();
+      } else {
+        break;
+      }
+    }
+
+    return { kind: 'selectTable', table, joinType, fields, where, orderBy, groupBy, index, span: this.finish(start) };
+  }
+
+  // A field list runs up to 'from' before any clause keyword: select sum(Amount), Qty from custTrans
+  private hasFieldList(): boolean {
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.text === '(') depth++;
+      else if (token.text === ')' && --depth < 0) return false;
+      if (depth > 0) continue;
+      if (token.kind === 'keyword' && token.value === 'from') return true;
+      if (token.kind === 'eof' || [';', '{', '}'].includes(token.text)) return false;
+      if (token.kind === 'keyword' && (SELECT_CLAUSE_KEYWORDS.has(token.value) || token.value === 'setting')) return false;
+    }
+    return false;
+  }
+
+  // -------------------------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------------------------
+
+  private parseExpression(): XppExpression {
+    const start = this.peek();
+    const target = this.parseConditional();
+    if (this.peek().kind === 'symbol' && ASSIGNMENT_OPERATORS.has(this.peek().text)) {
+      const operator = this.next().text;
+      const value = this.parseExpression();
+      return { kind: 'assignment', operator, target, value, span: this.finish(start) };
+    }
+    return target;
+  }
+
+  private parseConditional(): XppExpression {
+    const start = this.peek();
+    const condition = this.parseBinary(1);
+    if (!this.accept('?')) return condition;
+    const whenTrue = this.parseExpression();
+    this.expect(':');
+    const whenFalse = this.parseExpression();
+    return { kind: 'conditional', condition, whenTrue, whenFalse, span: this.finish(start) };
+  }
+
+  private parseBinary(minPrecedence: number): XppExpression {
+    const start = this.peek();
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const operator = token.kind === 'keyword' ? token.value : token.kind === 'symbol' ? token.text : '';
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (!precedence || precedence < minPrecedence) return left;
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', operator, left, right, span: this.finish(start) };
+    }
+  }
+
+  private parseUnary(): XppExpression {
+    const start = this.peek();
+    if (start.kind === 'symbol' && ['!', '-', '+', '~', '++', '--'].includes(start.text)) {
+      this.next();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: start.text, prefix: true, operand, span: this.finish(start) };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): XppExpression {
+    const start = this.peek();
+    let expression = this.parsePrimary();
+    for (;;) {
+      if (this.accept('.')) {
+        if (this.accept('(')) {
+          // Field access by id: buffer.(fieldNum)
+          const index = this.parseExpression();
+          this.expect(')');
+          expression = { kind: 'index', object: expression, index, span: this.finish(start) };
+        } else {
+          const name = this.expectName('member name');
+          expression = { kind: 'member', object: expression, name, span: this.finish(start) };
+        }
+      } else if (this.accept('::')) {
+        const name = this.expectName('static member name');
+        const typeName = this.source.slice(expression.span.start, expression.span.end);
+        expression = { kind: 'staticMember', typeName, name, span: this.finish(start) };
+      } else if (this.is('(')) {
+        const args = this.parseArguments();
+        expression = { kind: 'call', callee: expression, arguments: args, span: this.finish(start) };
+      } else if (this.is('[') && expression.kind !== 'container') {
+        this.next();
+        const index = this.parseExpression();
+        this.expect(']');
+        expression = { kind: 'index', object: expression, index, span: this.finish(start) };
+      } else if (this.is('++') || this.is('--')) {
+        const operator = this.next().text;
+        expression = { kind: 'unary', operator, prefix: false, operand: expression, span: this.finish(start) };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): XppExpression {
+    const start = this.peek();
+
+    switch (start.kind) {
+      case 'string':
+        this.next();
+        return { kind: 'literal', literalType: 'string', value: start.value, raw: start.text, span: this.finish(start) };
+      case 'number':
+        this.next();
+        return { kind: 'literal', literalType: start.text.includes('\\') ? 'date' : 'number', value: start.text, raw: start.text, span: this.finish(start) };
+      case 'identifier':
+        this.next();
+        return { kind: 'identifier', name: start.text, span: this.finish(start) };
+      case 'macro':
+        this.next();
+        return { kind: 'macro', text: start.text, span: this.finish(start) };
+      case 'symbol':
+        if (start.text === '(') {
+          this.next();
+          if (this.isKeyword('select')) {
+            const select = this.parseSelect();
+            this.expect(')');
+            return { kind: 'selectExpression', select, span: this.finish(start) };
+          }
+          const inner = this.parseExpression();
+          this.expect(')');
+          return { ...inner, span: this.finish(start) };
+        }
+        if (start.text === '[') {
+          this.next();
+          const elements: XppExpression[] = [];
+          if (!this.is(']')) {
+            do {
+              elements.push(this.parseExpression());
+            } while (this.accept(','));
+          }
+          this.expect(']');
+          return { kind: 'container', elements, span: this.finish(start) };
+        }
+        break;
+      case 'keyword':
+        switch (start.value) {
+          case 'true':
+          case 'false':
+            this.next();
+            return { kind: 'literal', literalType: 'boolean', value: start.value, raw: start.text, span: this.finish(start) };
+          case 'null':
+            this.next();
+            return { kind: 'literal', literalType: 'null', value: start.value, raw: start.text, span: this.finish(start) };
+          case 'this':
+          case 'super':
+            this.next();
+            return { kind: start.value as 'this' | 'super', span: this.finish(start) };
+          case 'new': {
+            this.next();
+            const type = this.parseQualifiedName();
+            const args = this.is('(') ? this.parseArguments() : [];
+            return { kind: 'new', type, arguments: args, span: this.finish(start) };
+          }
+          case 'next':
+            if (this.isWordAt(1) && this.peekAt(2).text === '(') {
+              this.next();
+              const method = this.next().text;
+              const args = this.parseArguments();
+              return { kind: 'nextCall', method, arguments: args, span: this.finish(start) };
+            }
+            break;
+          case 'select':
+            break;
+          default:
+            // Keywords double as function and member names: count(RecId), str2int, maxof(Qty)
+            if (!isStatementKeyword(start.value)) {
+              this.next();
+              return { kind: 'identifier', name: start.text, span: this.finish(start) };
+            }
+        }
+        break;
+    }
+
+    this.report(start.kind === 'eof' ? 'Unexpected end of source' : `Unexpected '${start.text}'`);
+    if (start.kind !== 'eof' && ![';', '}', '{', ')', ']'].includes(start.text)) this.next();
+    return { kind: 'error', text: start.text, span: this.finish(start) };
+  }
+
+  private parseArguments(): XppExpression[] {
+    const args: XppExpression[] = [];
+    this.expect('(');
+    if (!this.is(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.accept(','));
+    }
+    this.expect(')');
+    return args;
+  }
+
+  private parseParenthesized(): XppExpression {
+    this.expect('(');
+    const expression = this.parseExpression();
+    this.expect(')');
+    return expression;
+  }
+
+  private parseQualifiedName(): string {
+    let name = this.expectName('type name');
+    while (this.is('.') && this.isWordAt(1)) {
+      this.next();
+      name += '.' + this.next().text;
+    }
+    return name;
+  }
+
+  // -------------------------------------------------------------------------------------------
+  // Lookahead helpers
+  // -------------------------------------------------------------------------------------------
+
+  private isTypeStart(): boolean {
+    const token = this.peek();
+    return token.kind === 'identifier' || (token.kind === 'keyword' && TYPE_KEYWORDS.has(token.value));
+  }
+
+  // A type followed by a name: CustTable custTable, str 20 name, System.Text.StringBuilder sb
+  private isDeclarationStart(): boolean {
+    let i = this.pos;
+    const token = this.tokens[i];
+    if (token.kind === 'keyword' && TYPE_KEYWORDS.has(token.value)) {
+      i++;
+      if (token.value === 'str' && this.tokens[i].kind === 'number') i++;
+      // Local functions may have keyword names, e.g. void new()
+      return this.tokens[i].kind === 'identifier' || (this.tokens[i].kind === 'keyword' && this.tokens[i + 1].text === '(');
+    }
+    if (token.kind !== 'identifier') return false;
+    i++;
+    while (this.tokens[i].text === '.' && this.tokens[i + 1].kind === 'identifier') i += 2;
+    return this.tokens[i].kind === 'identifier';
+  }
+
+  private isWord(): boolean {
+    return this.isWordAt(0);
+  }
+
+  private isWordAt(offset: number): boolean {
+    const kind = this.peekAt(offset).kind;
+    return kind === 'identifier' || kind === 'keyword';
+  }
+
+  // -------------------------------------------------------------------------------------------
+  // Token helpers
+  // -------------------------------------------------------------------------------------------
+
+  private peek(): XppToken {
+    return this.tokens[this.pos];
+  }
+
+  private peekAt(offset: number): XppToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): XppToken {
+    const token = this.tokens[this.pos];
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
+
+  private atEnd(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  private is(symbol: string): boolean {
+    const token = this.peek();
+    return token.kind === 'symbol' && token.text === symbol;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.kind === 'keyword' && token.value === keyword;
+  }
+
+  private accept(symbol: string): boolean {
+    if (!this.is(symbol)) return false;
+    this.next();
+    return true;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.next();
+    return true;
+  }
+
+  private expect(symbol: string): boolean {
+    if (this.accept(symbol)) return true;
+    this.report(`Expected '${symbol}', found '${this.peek().text || 'end of source'}'`);
+    return false;
+  }
+
+  private expectKeyword(keyword: string): boolean {
+    if (this.acceptKeyword(keyword)) return true;
+    this.report(`Expected '${keyword}', found '${this.peek().text || 'end of source'}'`);
+    return false;
+  }
+
+  private expectName(what: string): string {
+    if (this.isWord()) return this.next().text;
+    this.report(`Expected ${what}, found '${this.peek().text || 'end of source'}'`);
+    return '';
+  }
+
+  private expectSemicolon(): void {
+    if (this.accept(';')) return;
+    this.report(`Expected ';', found '${this.peek().text || 'end of source'}'`);
+    this.synchronize();
+  }
+
+  // Skip to the end of the statement: past the next ';', or up to the '}' closing the current block
+  private synchronize(): void {
+    let depth = 0;
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (token.text === '{') depth++;
+      else if (token.text === '}') {
+        if (depth === 0) return;
+        depth--;
+      } else if (token.text === ';' && depth === 0) {
+        this.next();
+        return;
+      }
+      this.next();
+    }
+  }
+
+  private skipUntil(stop: (token: XppToken) => boolean): void {
+    while (!this.atEnd() && !stop(this.peek())) this.next();
+  }
+
+  // Consecutive unexpected tokens share the diagnostic of the first
+  private skipUnexpected(): void {
+    if (this.atEnd()) return;
+    if (this.lastSkipped !== this.pos - 1) this.report(`Unexpected '${this.peek().text}'`);
+    this.lastSkipped = this.pos;
+    this.next();
+  }
+
+  // -------------------------------------------------------------------------------------------
+  // Spans and diagnostics
+  // -------------------------------------------------------------------------------------------
+
+  private report(message: string, span?: SourceSpan): void {
+    const at = span ?? this.spanOf(this.peek().start, this.peek().end);
+    // One diagnostic per position keeps a single mistake from cascading
+    if (this.diagnostics.some(diagnostic => diagnostic.span.start === at.start)) return;
+    this.diagnostics.push({ message, span: at });
+  }
+
+  // Span from the start token to the end of the last consumed token
+  private finish(start: XppToken): SourceSpan {
+    const last = this.pos > 0 ? this.tokens[this.pos - 1] : start;
+    return this.spanOf(start.start, Math.max(start.start, last.end));
+  }
+
+  private spanOf(start: number, end: number): SourceSpan {
+    const from = this.position(start);
+    const to = this.position(end);
+    return { start, end, line: from.line, column: from.column, endLine: to.line, endColumn: to.column };
+  }
+
+  private position(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+}
+
+function isStatementKeyword(keyword: string): boolean {
+  return [
+    'if', 'else', 'while', 'do', 'for', 'switch', 'case', 'default', 'break', 'continue', 'retry', 'return', 'throw', 'try',
+    'catch', 'finally', 'ttsbegin', 'ttscommit', 'ttsabort', 'select', 'delete_from', 'update_recordset', 'insert_recordset',
+    'changecompany', 'using', 'class', 'interface', 'where', 'join', 'exists', 'notexists', 'outer', 'order', 'group', 'from',
+    'extends', 'implements', 'const', 'like', 'is', 'as', 'div', 'mod', 'in', 'setting'
+  ].includes(keyword) || MODIFIERS.has(keyword);
+}
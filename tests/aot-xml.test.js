@@ -0,0 +1,361 @@
+/**
+ * 🧾 AOT XML TESTS
+ * Tests for the XML-aware AxClass, AxTable, AxForm and AxQuery parsers
+ * Focus: declaration and method CDATA blocks, XML line numbers, metadata, parseXppClass/parseXppTable on AOT files (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseXmlDocument, parseAxClassXml, parseAxTableXml, parseAxFormXml, parseAxQueryXml } from '../build/modules/aot-xml.js';
+import { extractSourceBlocks } from '../build/modules/code-index.js';
+import { parseXppClass, parseXppTable } from '../build/modules/parsers.js';
+
+const CLASS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>MyPosting</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+[SysObsolete('Use MyPostingV2', false)]
+public class MyPosting extends RunBase
+{
+    SalesTable salesTable;
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>run</Name>
+				<Source><![CDATA[
+    public void run(boolean _preview = false)
+    {
+        int lines;
+        if (_preview)
+        {
+            info("<Method>]]]]><![CDATA[>");
+        }
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+</AxClass>
+`;
+
+const TABLE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>MyCustTable</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+public class MyCustTable extends common
+{
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>find</Name>
+				<Source><![CDATA[
+    public static MyCustTable find(CustAccount _accountNum, boolean _forUpdate = false)
+    {
+        MyCustTable table;
+        return table;
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+	<Label>@My:CustTable</Label>
+	<TableGroup>Main</TableGroup>
+	<Fields>
+		<AxTableField xmlns="" i:type="AxTableFieldString">
+			<Name>AccountNum</Name>
+			<ExtendedDataType>CustAccount</ExtendedDataType>
+			<Label>@SYS7149</Label>
+		</AxTableField>
+		<AxTableField xmlns="" i:type="AxTableFieldEnum">
+			<Name>Blocked</Name>
+			<EnumType>CustVendorBlocked</EnumType>
+		</AxTableField>
+	</Fields>
+	<FieldGroups>
+		<AxTableFieldGroup>
+			<Name>Overview</Name>
+			<Fields>
+				<AxTableFieldGroupField>
+					<DataField>AccountNum</DataField>
+				</AxTableFieldGroupField>
+			</Fields>
+		</AxTableFieldGroup>
+	</FieldGroups>
+	<Indexes>
+		<AxTableIndex>
+			<Name>AccountIdx</Name>
+			<AlternateKey>Yes</AlternateKey>
+			<Fields>
+				<AxTableIndexField>
+					<DataField>AccountNum</DataField>
+				</AxTableIndexField>
+			</Fields>
+		</AxTableIndex>
+		<AxTableIndex>
+			<Name>BlockedIdx</Name>
+			<AllowDuplicates>Yes</AllowDuplicates>
+			<Fields />
+		</AxTableIndex>
+	</Indexes>
+	<Relations>
+		<AxTableRelation xmlns="" i:type="AxTableRelationForeignKey">
+			<Name>CustGroup</Name>
+			<RelatedTable>CustGroup</RelatedTable>
+			<Constraints>
+				<AxTableRelationConstraint xmlns="" i:type="AxTableRelationConstraintField">
+					<Name>CustGroup</Name>
+					<Field>CustGroup</Field>
+					<RelatedField>CustGroup</RelatedField>
+				</AxTableRelationConstraint>
+			</Constraints>
+		</AxTableRelation>
+	</Relations>
+</AxTable>
+`;
+
+const FORM_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxForm xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+	<Name>MyCustForm</Name>
+	<SourceCode>
+		<Methods xmlns="">
+			<Method>
+				<Name>classDeclaration</Name>
+				<Source><![CDATA[
+[Form]
+public class MyCustForm extends FormRun
+{
+}
+]]></Source>
+			</Method>
+		</Methods>
+		<DataSources xmlns="">
+			<DataSource>
+				<Name>MyCustTable</Name>
+				<Methods>
+					<Method>
+						<Name>init</Name>
+						<Source><![CDATA[
+        public void init()
+        {
+            super();
+        }
+]]></Source>
+					</Method>
+				</Methods>
+				<Fields>
+					<Field>
+						<DataField>AccountNum</DataField>
+						<Methods>
+							<Method>
+								<Name>modified</Name>
+								<Source><![CDATA[
+            public void modified()
+            {
+                super();
+            }
+]]></Source>
+							</Method>
+						</Methods>
+					</Field>
+				</Fields>
+			</DataSource>
+		</DataSources>
+		<DataControls xmlns="">
+			<Control>
+				<Name>PostButton</Name>
+				<Type>Button</Type>
+				<Methods>
+					<Method>
+						<Name>clicked</Name>
+						<Source><![CDATA[
+        public void clicked()
+        {
+            super();
+        }
+]]></Source>
+					</Method>
+				</Methods>
+			</Control>
+		</DataControls>
+		<Members xmlns="" />
+	</SourceCode>
+	<DataSources>
+		<AxFormDataSource xmlns="">
+			<Name>MyCustTable</Name>
+			<Table>MyCustTable</Table>
+			<Fields />
+		</AxFormDataSource>
+		<AxFormDataSource xmlns="">
+			<Name>CustGroup</Name>
+			<Table>CustGroup</Table>
+			<JoinSource>MyCustTable</JoinSource>
+			<LinkType>InnerJoin</LinkType>
+		</AxFormDataSource>
+	</DataSources>
+	<Design>
+		<Caption xmlns="">@My:Customers &amp; groups</Caption>
+		<Pattern xmlns="">SimpleList</Pattern>
+	</Design>
+</AxForm>
+`;
+
+const QUERY_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxQuery xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="" i:type="AxQuerySimple">
+	<Name>MyCustQuery</Name>
+	<SourceCode>
+		<Methods />
+	</SourceCode>
+	<Title>@My:Customers</Title>
+	<DataSources>
+		<AxQuerySimpleRootDataSource>
+			<Name>MyCustTable_1</Name>
+			<Table>MyCustTable</Table>
+			<DataSources>
+				<AxQuerySimpleEmbeddedDataSource>
+					<Name>CustGroup_1</Name>
+					<Table>CustGroup</Table>
+					<JoinMode>ExistsJoin</JoinMode>
+					<Fields />
+					<Ranges />
+				</AxQuerySimpleEmbeddedDataSource>
+			</DataSources>
+			<Fields>
+				<AxQuerySimpleDataSourceField>
+					<Name>AccountNum</Name>
+					<Field>AccountNum</Field>
+				</AxQuerySimpleDataSourceField>
+			</Fields>
+			<Ranges>
+				<AxQuerySimpleDataSourceRange>
+					<Name>Blocked</Name>
+					<Field>Blocked</Field>
+					<Value>No</Value>
+				</AxQuerySimpleDataSourceRange>
+			</Ranges>
+		</AxQuerySimpleRootDataSource>
+	</DataSources>
+</AxQuery>
+`;
+
+const lineOf = (xml, text) => xml.split('\n').findIndex(line => line.includes(text)) + 1;
+
+let workDir;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-aot-xml-'));
+});
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🧾 XML Elements', () => {
+  test('should join split CDATA sections, decode entities and track lines', () => {
+    const root = parseXmlDocument('<?xml version="1.0"?>\n<!-- note -->\n<Root a="1 &gt; 0">\n  <Text>a &amp; b</Text>\n  <Code><![CDATA[x]]]]><![CDATA[>y]]></Code>\n  <Empty />\n</Root>');
+
+    expect(root).toMatchObject({ name: 'Root', attributes: { a: '1 > 0' }, line: 3 });
+    expect(root.children.map(child => [child.name, child.text, child.line])).toEqual([
+      ['Text', 'a & b', 4],
+      ['Code', 'x]]>y', 5],
+      ['Empty', '', 6]
+    ]);
+  });
+});
+
+describe('📄 AOT Objects', () => {
+  test('should read class declaration and methods with XML line numbers', () => {
+    const parsed = parseAxClassXml(CLASS_XML);
+
+    expect(parsed.name).toBe('MyPosting');
+    expect(parsed.declaration.source).toContain('public class MyPosting extends RunBase');
+    expect(parsed.methods.map(method => [method.name, method.owner])).toEqual([['run', null]]);
+    expect(parsed.methods[0].source).toContain('info("<Method>]]>");');
+    expect(parsed.methods[0].startLine + parsed.methods[0].source.split('\n').findIndex(line => line.includes('public void run'))).toBe(lineOf(CLASS_XML, 'public void run'));
+  });
+
+  test('should read table fields, field groups, indexes, relations and properties', () => {
+    const table = parseAxTableXml(TABLE_XML);
+
+    expect(table.properties).toEqual({ Label: '@My:CustTable', TableGroup: 'Main' });
+    expect(table.fields.map(field => [field.name, field.type, field.extendedDataType, field.enumType])).toEqual([
+      ['AccountNum', 'String', 'CustAccount', null],
+      ['Blocked', 'Enum', null, 'CustVendorBlocked']
+    ]);
+    expect(table.fieldGroups).toEqual([{ name: 'Overview', label: null, fields: ['AccountNum'] }]);
+    expect(table.indexes).toEqual([
+      { name: 'AccountIdx', allowDuplicates: false, alternateKey: true, fields: ['AccountNum'] },
+      { name: 'BlockedIdx', allowDuplicates: true, alternateKey: false, fields: [] }
+    ]);
+    expect(table.relations).toEqual([{
+      name: 'CustGroup',
+      relatedTable: 'CustGroup',
+      type: 'ForeignKey',
+      cardinality: null,
+      relatedCardinality: null,
+      constraints: [{ type: 'Field', field: 'CustGroup', relatedField: 'CustGroup', value: null }]
+    }]);
+  });
+
+  test('should read form methods with their datasource, field or control', () => {
+    const form = parseAxFormXml(FORM_XML);
+
+    expect(form.declaration.source).toContain('public class MyCustForm extends FormRun');
+    expect(form.methods.map(method => [method.name, method.owner])).toEqual([
+      ['init', { kind: 'dataSource', name: 'MyCustTable' }],
+      ['modified', { kind: 'dataSourceField', name: 'MyCustTable.AccountNum' }],
+      ['clicked', { kind: 'control', name: 'PostButton' }]
+    ]);
+    expect(form.dataSources.map(dataSource => [dataSource.name, dataSource.table, dataSource.joinSource, dataSource.linkType])).toEqual([
+      ['MyCustTable', 'MyCustTable', null, null],
+      ['CustGroup', 'CustGroup', 'MyCustTable', 'InnerJoin']
+    ]);
+    expect(form.controls).toEqual([{ name: 'PostButton', type: 'Button' }]);
+    expect(form.design).toEqual({ Caption: '@My:Customers & groups', Pattern: 'SimpleList' });
+    expect(extractSourceBlocks(FORM_XML).map(block => block.method)).toEqual(['classDeclaration', 'init', 'modified', 'clicked']);
+  });
+
+  test('should flatten nested query datasources with their parent, fields and ranges', () => {
+    const query = parseAxQueryXml(QUERY_XML);
+
+    expect(query.properties).toEqual({ Title: '@My:Customers' });
+    expect(query.dataSources).toEqual([
+      { name: 'MyCustTable_1', table: 'MyCustTable', parent: null, joinMode: null, fetchMode: null, fields: ['AccountNum'], ranges: [{ field: 'Blocked', value: 'No' }] },
+      { name: 'CustGroup_1', table: 'CustGroup', parent: 'MyCustTable_1', joinMode: 'ExistsJoin', fetchMode: null, fields: [], ranges: [] }
+    ]);
+  });
+});
+
+describe('🔍 Object Parsers', () => {
+  test('should parse AxClass XML with parseXppClass', async () => {
+    const path = join(workDir, 'MyPosting.xml');
+    writeFileSync(path, CLASS_XML);
+    const classInfo = await parseXppClass(path);
+
+    expect(classInfo).toMatchObject({ name: 'MyPosting', extends: 'RunBase', attributes: ["SysObsolete('Use MyPostingV2', false)"], diagnostics: [] });
+    expect(classInfo.properties.map(property => property.name)).toEqual(['salesTable']);
+    expect(classInfo.methods.map(method => [method.name, method.line])).toEqual([['run', lineOf(CLASS_XML, 'public void run')]]);
+    expect(classInfo.methods[0].parameters).toEqual([{ type: 'boolean', name: '_preview', isOptional: true, defaultValue: 'false' }]);
+  });
+
+  test('should read table-level properties and methods with parseXppTable', async () => {
+    const path = join(workDir, 'MyCustTable.xml');
+    writeFileSync(path, TABLE_XML);
+    const tableInfo = await parseXppTable(path);
+
+    expect(tableInfo.properties).toMatchObject({ label: '@My:CustTable', TableGroup: 'Main' });
+    expect(tableInfo.fields).toEqual([
+      { name: 'AccountNum', type: 'CustAccount', baseType: 'String', label: '@SYS7149' },
+      { name: 'Blocked', type: 'CustVendorBlocked', baseType: 'Enum', label: '' }
+    ]);
+    expect(tableInfo.indexes.map(index => [index.name, index.unique])).toEqual([['AccountIdx', true], ['BlockedIdx', false]]);
+    expect(tableInfo.methods).toEqual([expect.objectContaining({ name: 'find', isStatic: true, returnType: 'MyCustTable', line: lineOf(TABLE_XML, 'public static MyCustTable find') })]);
+  });
+});
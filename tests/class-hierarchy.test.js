@@ -0,0 +1,123 @@
+/**
+ * 🌳 CLASS HIERARCHY TESTS
+ * Tests for the class inheritance and interface index
+ * Focus: declaration parsing, ancestor chains, transitive subclasses and interface implementers (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { extractFileFacts } from '../build/modules/code-index.js';
+import { extractClassDeclaration } from '../build/modules/class-hierarchy.js';
+
+const CLASS_XML = (name, header) => `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+/// <summary>
+/// class Commented extends Nothing
+/// </summary>
+${header}
+{
+}
+]]></Declaration>
+	</SourceCode>
+</AxClass>
+`;
+
+// Model, class name and declaration header of every fixture class
+const CLASSES = [
+  ['ApplicationPlatform', 'SysPackable', 'public interface SysPackable'],
+  ['ApplicationPlatform', 'SysSaveable', 'interface SysSaveable extends SysPackable'],
+  ['ApplicationPlatform', 'RunBase', 'abstract class RunBase implements SysSaveable'],
+  ['ApplicationPlatform', 'RunBaseBatch', 'abstract class RunBaseBatch extends RunBase'],
+  ['ApplicationSuite', 'FormLetter', 'abstract class FormLetter extends RunBaseBatch implements SysPackable'],
+  ['ApplicationSuite', 'SalesFormLetter', 'class SalesFormLetter extends FormLetter'],
+  ['ApplicationSuite', 'SalesFormLetter_Invoice', 'class SalesFormLetter_Invoice extends SalesFormLetter'],
+  ['MyModel', 'MySalesFormLetter_Invoice', 'final class MySalesFormLetter_Invoice extends SalesFormLetter_Invoice'],
+  ['MyModel', 'MyPackableData', 'class MyPackableData implements SysPackable, SysSaveable']
+];
+
+let workDir;
+let lookup;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-class-hierarchy-'));
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+
+  lookup.replaceFileFacts(CLASSES.map(([model, name, header]) => {
+    const file = { name, model, folder: 'AxClass', path: join(workDir, model, 'AxClass', `${name}.xml`) };
+    return { file, facts: extractFileFacts(file, CLASS_XML(name, header)) };
+  }));
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📜 Declarations', () => {
+  test('should parse modifiers, base class and interfaces', () => {
+    const declaration = extractClassDeclaration({ method: 'classDeclaration', startLine: 1, source: '[Attr("class X")]\npublic final class MyClass extends Base implements IOne, ITwo\n{\n}' });
+    expect(declaration).toEqual({ name: 'MyClass', isInterface: false, isAbstract: false, isFinal: true, extends: 'Base', interfaces: ['IOne', 'ITwo'] });
+  });
+
+  test('should treat interface extends as base interfaces', () => {
+    const declaration = extractClassDeclaration({ method: 'classDeclaration', startLine: 1, source: 'interface IChild extends IOne, ITwo\n{\n}' });
+    expect(declaration).toMatchObject({ isInterface: true, extends: null, interfaces: ['IOne', 'ITwo'] });
+  });
+});
+
+describe('🌳 Hierarchy', () => {
+  test('should return the ancestor chain with models', () => {
+    const hierarchy = ObjectIndexManager.getClassHierarchy('salesformletter');
+
+    expect(hierarchy).toMatchObject({ name: 'SalesFormLetter', found: true, model: 'ApplicationSuite', isInterface: false });
+    expect(hierarchy.ancestors).toEqual([
+      { name: 'FormLetter', model: 'ApplicationSuite', depth: 1 },
+      { name: 'RunBaseBatch', model: 'ApplicationPlatform', depth: 2 },
+      { name: 'RunBase', model: 'ApplicationPlatform', depth: 3 }
+    ]);
+    expect(hierarchy.interfaces.map(i => [i.name, i.inheritedFrom])).toEqual([
+      ['SysPackable', 'FormLetter'],
+      ['SysSaveable', 'RunBase']
+    ]);
+  });
+
+  test('should list direct and transitive subclasses', () => {
+    const hierarchy = ObjectIndexManager.getClassHierarchy('FormLetter');
+
+    expect(hierarchy.descendants).toEqual([
+      { name: 'SalesFormLetter', model: 'ApplicationSuite', depth: 1, parent: 'FormLetter' },
+      { name: 'SalesFormLetter_Invoice', model: 'ApplicationSuite', depth: 2, parent: 'SalesFormLetter' },
+      { name: 'MySalesFormLetter_Invoice', model: 'MyModel', depth: 3, parent: 'SalesFormLetter_Invoice' }
+    ]);
+    expect(ObjectIndexManager.getClassHierarchy('MySalesFormLetter_Invoice')).toMatchObject({ isFinal: true, descendants: [] });
+  });
+
+  test('should find implementers through derived interfaces and base classes', () => {
+    const hierarchy = ObjectIndexManager.getClassHierarchy('SysPackable');
+    const implementers = Object.fromEntries(hierarchy.implementers.map(i => [i.name, i.via]));
+
+    expect(hierarchy.isInterface).toBe(true);
+    expect(implementers).toMatchObject({
+      FormLetter: null,
+      MyPackableData: null,
+      RunBase: 'SysSaveable',
+      RunBaseBatch: 'RunBase',
+      MySalesFormLetter_Invoice: 'SalesFormLetter_Invoice'
+    });
+    expect(hierarchy.implementers).toHaveLength(7);
+  });
+
+  test('should drop hierarchy rows when files are removed', () => {
+    lookup.removeFiles([join(workDir, 'MyModel', 'AxClass', 'MySalesFormLetter_Invoice.xml')]);
+    expect(ObjectIndexManager.getClassHierarchy('SalesFormLetter').descendants.map(d => d.name)).toEqual(['SalesFormLetter_Invoice']);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * 🔗 CHAIN-OF-COMMAND CHECKER TESTS
+ * Tests for check_chain_of_command
+ * Focus: base resolution (classes, tables, form datasources, kernel methods), signatures, next on every path, wrappability (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+
+const OBJECT_XML = (root, name, declaration, methods) => `<?xml version="1.0" encoding="utf-8"?>
+<${root} xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+${declaration}
+{
+}
+]]></Declaration>
+		<Methods>${Object.entries(methods).map(([method, source]) => `
+			<Method>
+				<Name>${method}</Name>
+				<Source><![CDATA[
+${source}
+
+]]></Source>
+			</Method>`).join('')}
+		</Methods>
+	</SourceCode>
+</${root}>
+`;
+
+const FORM_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxForm xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+	<Name>SalesTable</Name>
+	<SourceCode>
+		<Methods xmlns="">
+			<Method>
+				<Name>classDeclaration</Name>
+				<Source><![CDATA[
+[Form]
+public class SalesTable extends FormRun
+{
+}
+]]></Source>
+			</Method>
+		</Methods>
+		<DataSources xmlns="">
+			<DataSource>
+				<Name>SalesLine</Name>
+				<Methods>
+					<Method>
+						<Name>linkActive</Name>
+						<Source><![CDATA[
+        public void linkActive()
+        {
+            super();
+        }
+]]></Source>
+					</Method>
+				</Methods>
+			</DataSource>
+		</DataSources>
+	</SourceCode>
+	<DataSources>
+		<AxFormDataSource xmlns="">
+			<Name>SalesLine</Name>
+			<Table>SalesLine</Table>
+		</AxFormDataSource>
+	</DataSources>
+</AxForm>
+`;
+
+// Method source from a body; the signature is written out per method
+const method = (signature, ...body) => `    ${signature}\n    {\n${body.map(line => `        ${line}`).join('\n')}\n    }`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+const issuesOf = report => report.issues.map(issue => [issue.kind, issue.method]);
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-coc-checker-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationSuite', 'AxClass', 'FormLetter', OBJECT_XML('AxClass', 'FormLetter', 'abstract class FormLetter', {
+    run: method('public void run()'),
+    validate: method('[Replaceable]\n    public boolean validate()', 'return true;'),
+    secret: method('private void secret()'),
+    lock: method('public final void lock()'),
+    sealed: method('[Wrappable(true)]\n    public final void sealed()'),
+    hidden: method('[Hookable(false)]\n    public void hidden()')
+  }));
+  writeAOT('ApplicationSuite', 'AxClass', 'SalesFormLetter', OBJECT_XML('AxClass', 'SalesFormLetter', 'class SalesFormLetter extends FormLetter', {
+    post: method('public void post(NoYes _print = NoYes::No)'),
+    construct: method('public static SalesFormLetter construct(DocumentStatus _status)', 'return new SalesFormLetter();')
+  }));
+  writeAOT('ApplicationSuite', 'AxTable', 'SalesTable', OBJECT_XML('AxTable', 'SalesTable', 'public class SalesTable extends common', {
+    find: method('public static SalesTable find(SalesId _salesId, boolean _forUpdate = false)', 'SalesTable salesTable;', 'return salesTable;')
+  }));
+  writeAOT('ApplicationSuite', 'AxForm', 'SalesTable', FORM_XML);
+
+  writeAOT('Contoso', 'AxClass', 'SalesFormLetter_Good_Extension', OBJECT_XML('AxClass', 'SalesFormLetter_Good_Extension',
+    '[ExtensionOf(classStr(SalesFormLetter))]\nfinal class SalesFormLetter_Good_Extension', {
+      post: method('public void post(NoYes _print)', 'this.helper();', 'next post(_print);'),
+      run: method('public void run()', 'try', '{', '    next run();', '}', 'catch (Exception::Deadlock)', '{', '    retry;', '}'),
+      validate: method('public boolean validate()', 'return true;'),
+      sealed: method('public void sealed()', 'if (this.isBatch())', '{', '    info("@SYS1");', '}', 'next sealed();'),
+      helper: method('private void helper()')
+    }));
+  writeAOT('Contoso', 'AxClass', 'SalesFormLetter_Bad_Extension', OBJECT_XML('AxClass', 'SalesFormLetter_Bad_Extension',
+    '[ExtensionOf(classStr(SalesFormLetter))]\nclass SalesFormLetter_Bad_Extension', {
+      post: method('public void post(NoYes _print = NoYes::No)', 'if (_print)', '{', '    next post(_print);', '}'),
+      run: method('public void run()', 'next run();', 'while (this.more())', '{', '    next run();', '}'),
+      secret: method('private void secret()', 'next secret();'),
+      lock: method('public void lock()', 'next lock();'),
+      hidden: method('public void hidden()', 'next hidden();'),
+      construct: method('public static SalesFormLetter construct(int _status)', 'return next construct(_status);'),
+      missing: method('public void missing()', 'next missing();'),
+      notify: method('public void notify()', 'info("@SYS2");')
+    }));
+  writeAOT('Contoso', 'AxClass', 'SalesTable_Contoso_Extension', OBJECT_XML('AxClass', 'SalesTable_Contoso_Extension',
+    '[ExtensionOf(tableStr(SalesTable))]\nfinal class SalesTable_Contoso_Extension', {
+      validateWrite: method('public boolean validateWrite()', 'boolean ret = next validateWrite();', 'return ret && this.SalesId != "";'),
+      insert: method('public void insert()', 'this.SalesName = "x";'),
+      find: method('public static SalesTable find(SalesId _salesId, boolean _forUpdate)', 'return next find(_salesId, _forUpdate);')
+    }));
+  writeAOT('Contoso', 'AxClass', 'SalesTableForm_SalesLine_Extension', OBJECT_XML('AxClass', 'SalesTableForm_SalesLine_Extension',
+    '[ExtensionOf(formDataSourceStr(SalesTable, SalesLine))]\nfinal class SalesTableForm_SalesLine_Extension', {
+      linkActive: method('public void linkActive()', 'next linkActive();'),
+      executeQuery: method('public void executeQuery()', 'next executeQuery();'),
+      clicked: method('public void clicked()', 'next clicked();')
+    }));
+  writeAOT('Contoso', 'AxClass', 'NoSuchClass_Extension', OBJECT_XML('AxClass', 'NoSuchClass_Extension',
+    '[ExtensionOf(classStr(NoSuchClass))]\nfinal class NoSuchClass_Extension', {
+      run: method('public void run()', 'next run();')
+    }));
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('✅ Correct Extensions', () => {
+  test('should accept wrappers of own and inherited methods, retry in catch, skipped next on Replaceable methods', async () => {
+    const [report] = await ObjectIndexManager.checkChainOfCommand({ className: 'SalesFormLetter_Good_Extension' });
+
+    expect(report).toMatchObject({ extension: 'SalesFormLetter_Good_Extension', model: 'Contoso', baseName: 'SalesFormLetter', baseType: 'Classes', baseFound: true });
+    expect(report.issues).toEqual([]);
+    expect(report.methods.map(m => [m.name, m.role, m.declaredIn, m.nextCalls])).toEqual([
+      ['post', 'wrapper', 'SalesFormLetter', { min: 1, max: 1 }],
+      ['run', 'wrapper', 'FormLetter', { min: 1, max: 1 }],
+      ['validate', 'wrapper', 'FormLetter', { min: 0, max: 0 }],
+      ['sealed', 'wrapper', 'FormLetter', { min: 1, max: 1 }],
+      ['helper', 'added', null, { min: 0, max: 0 }]
+    ]);
+  });
+});
+
+describe('❌ Compile Errors', () => {
+  test('should report signature, next and wrappability problems per method', async () => {
+    const [report] = await ObjectIndexManager.checkChainOfCommand({ className: 'SalesFormLetter_Bad_Extension' });
+
+    expect(issuesOf(report)).toEqual([
+      ['notFinal', null],
+      ['signatureMismatch', 'post'],
+      ['nextNotOnAllPaths', 'post'],
+      ['nextMultiple', 'run'],
+      ['wrapsPrivate', 'secret'],
+      ['wrapsFinal', 'lock'],
+      ['notWrappable', 'hidden'],
+      ['signatureMismatch', 'construct'],
+      ['methodNotInBase', 'missing']
+    ]);
+    expect(report.issues.every(issue => issue.severity === 'error')).toBe(true);
+    expect(report.issues[1].message).toContain('repeats the default value of parameter _print');
+    expect(report.issues[7].message).toContain('SalesFormLetter construct(int) but the base method is SalesFormLetter construct(DocumentStatus)');
+  });
+});
+
+describe('🧱 Tables, Forms and Kernel Methods', () => {
+  test('should resolve table methods and kernel xRecord methods', async () => {
+    const [report] = await ObjectIndexManager.checkChainOfCommand({ className: 'SalesTable_Contoso_Extension' });
+
+    expect(issuesOf(report)).toEqual([['nextMissing', 'insert']]);
+    expect(report.methods.map(m => [m.name, m.declaredIn])).toEqual([
+      ['validateWrite', 'xRecord'],
+      ['insert', 'xRecord'],
+      ['find', 'SalesTable']
+    ]);
+  });
+
+  test('should resolve form datasource methods and FormDataSource kernel methods only', async () => {
+    const [report] = await ObjectIndexManager.checkChainOfCommand({ className: 'SalesTableForm_SalesLine_Extension' });
+
+    expect(report.baseMember).toBe('SalesLine');
+    expect(report.methods.map(m => [m.name, m.declaredIn])).toEqual([
+      ['linkActive', 'SalesTable.SalesLine'],
+      ['executeQuery', 'FormDataSource'],
+      ['clicked', null]
+    ]);
+    expect(issuesOf(report)).toEqual([['methodNotInBase', 'clicked']]);
+  });
+
+  test('should warn when the base is not indexed', async () => {
+    const [report] = await ObjectIndexManager.checkChainOfCommand({ className: 'NoSuchClass_Extension' });
+
+    expect(report.baseFound).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({ kind: 'baseNotFound', severity: 'warning' })]);
+    expect(report.methods[0]).toMatchObject({ name: 'run', role: 'wrapper' });
+  });
+
+  test('should not scan the packages folder for bases missing from a populated index', async () => {
+    const collect = vi.spyOn(ObjectIndexManager, 'collectAOTFiles');
+    try {
+      await ObjectIndexManager.checkChainOfCommand({ className: 'NoSuchClass_Extension' });
+      expect(await ObjectIndexManager.findAOTFile('NoSuchClass', 'AxClass')).toBeNull();
+      expect(collect).not.toHaveBeenCalled();
+    } finally {
+      collect.mockRestore();
+    }
+  });
+
+  test('should share the base lookup with the lint cocMissingNext rule', async () => {
+    const lint = await ObjectIndexManager.lintObject('SalesTable_Contoso_Extension', { rules: ['cocMissingNext'] });
+
+    expect(lint.diagnostics.map(diagnostic => diagnostic.method)).toEqual(['insert']);
+  });
+});
+
+describe('🔎 Selection', () => {
+  test('should check every extension of a base object or a model', async () => {
+    const byBase = await ObjectIndexManager.checkChainOfCommand({ baseName: 'SalesFormLetter' });
+    const byModel = await ObjectIndexManager.checkChainOfCommand({ model: 'contoso' });
+
+    expect(byBase.map(report => report.extension)).toEqual(['SalesFormLetter_Bad_Extension', 'SalesFormLetter_Good_Extension']);
+    expect(byModel.map(report => report.extension)).toEqual([
+      'NoSuchClass_Extension',
+      'SalesFormLetter_Bad_Extension',
+      'SalesFormLetter_Good_Extension',
+      'SalesTable_Contoso_Extension',
+      'SalesTableForm_SalesLine_Extension'
+    ]);
+  });
+
+  test('should return null for unknown classes and nothing for classes without ExtensionOf', async () => {
+    expect(await ObjectIndexManager.checkChainOfCommand({ className: 'NoSuchClass' })).toBeNull();
+    expect(await ObjectIndexManager.checkChainOfCommand({ className: 'FormLetter' })).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * 📝 CODE INDEX TESTS
+ * Tests for the file-based code index built from AOT XML files
+ * Focus: source extraction, cross references, SQLite storage, full-text search and incremental updates (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { extractFileFacts, extractSourceBlocks } from '../build/modules/code-index.js';
+import { extractSourceReferences } from '../build/modules/reference-extractor.js';
+
+// =============================================================================
+// 🗂️ FIXTURES
+// =============================================================================
+
+const SALES_CLASS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>MySalesPosting</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+class MySalesPosting extends RunBase
+{
+    SalesTable salesTable;
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>run</Name>
+				<Source><![CDATA[
+    public void run()
+    {
+        SalesFormLetter salesFormLetter = SalesFormLetter::construct(DocumentStatus::Invoice);
+        salesFormLetter.update(salesTable);
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+</AxClass>
+`;
+
+const CUST_TABLE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>MyCustTable</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+public class MyCustTable extends common
+{
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>validateWrite</Name>
+				<Source><![CDATA[
+    public boolean validateWrite()
+    {
+        boolean ret = super();
+        ttsbegin;
+        this.doUpdate();
+        ttscommit;
+        return ret;
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+</AxTable>
+`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-code-index-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  const classDir = join(packagesDir, 'MyModel', 'MyModel', 'AxClass');
+  const tableDir = join(packagesDir, 'MyModel', 'MyModel', 'AxTable');
+  mkdirSync(classDir, { recursive: true });
+  mkdirSync(tableDir, { recursive: true });
+  writeFileSync(join(classDir, 'MySalesPosting.xml'), SALES_CLASS_XML);
+  writeFileSync(join(tableDir, 'MyCustTable.xml'), CUST_TABLE_XML);
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// 📄 SOURCE EXTRACTION
+// =============================================================================
+
+describe('📄 Source Extraction', () => {
+  test('should extract declaration and methods with XML line numbers', () => {
+    const blocks = extractSourceBlocks(SALES_CLASS_XML);
+
+    expect(blocks.map(b => b.method)).toEqual(['classDeclaration', 'run']);
+    expect(blocks[0].source).toContain('class MySalesPosting extends RunBase');
+
+    const runLine = SALES_CLASS_XML.split('\n').findIndex(l => l.includes('SalesFormLetter::construct')) + 1;
+    const runBlock = blocks[1];
+    const offset = runBlock.source.split('\n').findIndex(l => l.includes('SalesFormLetter::construct'));
+    expect(runBlock.startLine + offset).toBe(runLine);
+  });
+
+  test('should ignore folders without X++ source', () => {
+    const facts = extractFileFacts({ name: 'X', path: 'X.xml', model: 'M', folder: 'AxEnum' }, SALES_CLASS_XML);
+    expect(facts.sourceBlocks).toHaveLength(0);
+  });
+});
+
+// =============================================================================
+// 🔎 SOURCE SEARCH
+// =============================================================================
+
+describe('🔎 Source Search', () => {
+  beforeAll(async () => {
+    const files = await ObjectIndexManager.collectAOTFiles(packagesDir);
+    const entries = [];
+    for (const file of files) {
+      entries.push({ file, facts: extractFileFacts(file, readFileSync(file.path, 'utf-8')) });
+    }
+    expect(lookup.replaceFileFacts(entries)).toBe(true);
+  });
+
+  test('should discover AOT files with model names', async () => {
+    const files = await ObjectIndexManager.collectAOTFiles(packagesDir);
+    expect(files.map(f => `${f.model}/${f.folder}/${f.name}`).sort()).toEqual([
+      'MyModel/AxClass/MySalesPosting',
+      'MyModel/AxTable/MyCustTable'
+    ]);
+  });
+
+  test('should find static calls by qualified name', () => {
+    const results = lookup.searchSource('SalesFormLetter::construct');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].objectName).toBe('MySalesPosting');
+    expect(results[0].method).toBe('run');
+    expect(results[0].model).toBe('MyModel');
+    expect(results[0].snippet).toContain('SalesFormLetter::construct');
+  });
+
+  test('should support filters and raw FTS5 queries', () => {
+    expect(lookup.searchSource('doUpdate', { objectType: 'AxClass' })).toHaveLength(0);
+    expect(lookup.searchSource('doUpdate', { objectType: 'AxTable' })).toHaveLength(1);
+    expect(lookup.searchSource('ttsbegin AND doUpdate', { rawQuery: true })[0].method).toBe('validateWrite');
+  });
+
+  test('should reject raw queries with FTS5 syntax errors', () => {
+    expect(() => lookup.searchSource('"doUpdate', { rawQuery: true })).toThrow(/Invalid FTS5 query/);
+    expect(() => lookup.searchSource('ttsbegin AND', { rawQuery: true })).toThrow(/Invalid FTS5 query/);
+    expect(lookup.searchSource('"doUpdate')).toHaveLength(1);
+  });
+
+  test('should replace rows when a file is re-indexed', () => {
+    const file = { name: 'MyCustTable', path: join(packagesDir, 'MyModel', 'MyModel', 'AxTable', 'MyCustTable.xml'), model: 'MyModel', folder: 'AxTable' };
+    lookup.replaceFileFacts([{ file, facts: { sourceBlocks: [], references: [] } }]);
+
+    expect(lookup.searchSource('doUpdate')).toHaveLength(0);
+    expect(lookup.getCodeIndexCount()).toBe(2);
+  });
+
+  test('should remove source rows of deleted files', () => {
+    const file = { name: 'MyTempClass', path: join(packagesDir, 'MyModel', 'MyModel', 'AxClass', 'MyTempClass.xml'), model: 'MyModel', folder: 'AxClass' };
+    lookup.replaceFileFacts([{ file, facts: { sourceBlocks: [{ method: 'run', startLine: 1, source: 'void run() { tempMarker(); }' }], references: [] } }]);
+    expect(lookup.searchSource('tempMarker')).toHaveLength(1);
+
+    expect(lookup.removeFiles([file.path])).toBe(true);
+    expect(lookup.searchSource('tempMarker')).toHaveLength(0);
+    expect(lookup.getCodeIndexCount()).toBe(2);
+  });
+});
+
+// =============================================================================
+// 🔗 CROSS REFERENCES
+// =============================================================================
+
+describe('🔗 Cross References', () => {
+  test('should extract declarations, selects, static calls and intrinsics', () => {
+    const refs = extractSourceReferences({
+      method: 'run',
+      startLine: 10,
+      source: [
+        'void run()',
+        '{',
+        '    CustTable custTable;',
+        '    // InventTable ignored in comments',
+        '    select firstonly custTable where custTable.AccountNum == "InventTable";',
+        '    info(tableStr(SalesLine));',
+        '    NoYes flag = NoYes::Yes;',
+        '}'
+      ].join('\n')
+    });
+
+    const summary = refs.map(r => `${r.kind}:${r.target}@${r.line}`);
+    expect(summary).toContain('declaration:CustTable@12');
+    expect(summary).toContain('select:CustTable@14');
+    expect(summary).toContain('intrinsic:SalesLine@15');
+    expect(summary).toContain('static:NoYes@16');
+    expect(refs.some(r => r.target === 'InventTable')).toBe(false);
+  });
+
+  test('should store references and filter by model and kind', async () => {
+    const files = await ObjectIndexManager.collectAOTFiles(packagesDir);
+    lookup.replaceFileFacts(files.map(file => ({ file, facts: extractFileFacts(file, readFileSync(file.path, 'utf-8')) })));
+
+    const refs = lookup.findReferences('salesformletter');
+    expect(refs.map(r => r.kind).sort()).toEqual(['declaration', 'static']);
+    expect(refs.every(r => r.sourceName === 'MySalesPosting' && r.method === 'run')).toBe(true);
+    expect(refs.find(r => r.kind === 'static').member).toBe('construct');
+
+    expect(lookup.findReferences('RunBase', { kind: 'extends' })).toHaveLength(1);
+    expect(lookup.findReferences('SalesTable', { model: 'OtherModel' })).toHaveLength(0);
+    expect(lookup.findReferences('SalesTable', { model: 'MyModel', kind: 'declaration' })[0].line).toBe(8);
+  });
+});
+
+// =============================================================================
+// 🔄 INCREMENTAL UPDATES
+// =============================================================================
+
+describe('🔄 Incremental Updates', () => {
+  let incrementalDir;
+
+  beforeAll(async () => {
+    incrementalDir = join(workDir, 'IncrementalPackages');
+    const classDir = join(incrementalDir, 'OtherModel', 'OtherModel', 'AxClass');
+    mkdirSync(classDir, { recursive: true });
+    writeFileSync(join(classDir, 'MySalesPosting.xml'), SALES_CLASS_XML);
+    writeFileSync(join(classDir, 'MyObsoleteClass.xml'), SALES_CLASS_XML.replace(/MySalesPosting/g, 'MyObsoleteClass'));
+    // Recorded, but not parsed by the code index
+    const enumDir = join(incrementalDir, 'OtherModel', 'OtherModel', 'AxEnum');
+    mkdirSync(enumDir, { recursive: true });
+    writeFileSync(join(enumDir, 'MyStatus.xml'), '<?xml version="1.0" encoding="utf-8"?>\n<AxEnum><Name>MyStatus</Name></AxEnum>\n');
+
+    // Use the test database for the manager's code index
+    ObjectIndexManager.sqliteIndex = lookup;
+    await ObjectIndexManager.buildCodeIndex(incrementalDir);
+  });
+
+  test('should report nothing when no file changed', async () => {
+    const summary = await ObjectIndexManager.updateCodeIndex(incrementalDir);
+    expect(summary).toMatchObject({ added: 0, updated: 0, removed: 0, unchanged: 3, changedModels: [] });
+  });
+
+  test('should ignore touched files whose content is unchanged', async () => {
+    const filePath = join(incrementalDir, 'OtherModel', 'OtherModel', 'AxClass', 'MySalesPosting.xml');
+    const later = new Date(Date.now() + 60000);
+    utimesSync(filePath, later, later);
+
+    const summary = await ObjectIndexManager.updateCodeIndex(incrementalDir);
+    expect(summary).toMatchObject({ added: 0, updated: 0, removed: 0, unchanged: 3 });
+  });
+
+  test('should ignore touched files outside the code index folders', async () => {
+    const filePath = join(incrementalDir, 'OtherModel', 'OtherModel', 'AxEnum', 'MyStatus.xml');
+    const later = new Date(Date.now() + 60000);
+    utimesSync(filePath, later, later);
+
+    const summary = await ObjectIndexManager.updateCodeIndex(incrementalDir);
+    expect(summary).toMatchObject({ added: 0, updated: 0, removed: 0, unchanged: 3, changedModels: [] });
+  });
+
+  test('should count added, updated and removed files', async () => {
+    const classDir = join(incrementalDir, 'OtherModel', 'OtherModel', 'AxClass');
+    writeFileSync(join(classDir, 'MySalesPosting.xml'), SALES_CLASS_XML.replace('salesFormLetter.update', 'salesFormLetter.reprint'));
+    writeFileSync(join(classDir, 'MyNewClass.xml'), SALES_CLASS_XML.replace(/MySalesPosting/g, 'MyNewClass'));
+    rmSync(join(classDir, 'MyObsoleteClass.xml'));
+    const tableDir = join(incrementalDir, 'OtherModel', 'OtherModel', 'AxTable');
+    mkdirSync(tableDir, { recursive: true });
+    writeFileSync(join(tableDir, 'MyCustTable.xml'), CUST_TABLE_XML);
+
+    const summary = await ObjectIndexManager.updateCodeIndex(incrementalDir);
+    expect(summary).toMatchObject({ added: 2, updated: 1, removed: 1, unchanged: 1, changedModels: ['OtherModel'], deletedModels: [] });
+
+    expect(lookup.searchSource('salesFormLetter.reprint', { model: 'OtherModel' })[0].objectName).toBe('MySalesPosting');
+    expect(lookup.searchSource('salesFormLetter.update', { model: 'OtherModel' }).map(r => r.objectName)).toEqual(['MyNewClass']);
+    expect(lookup.findReferences('RunBase', { model: 'OtherModel' }).map(r => r.sourceName).sort()).toEqual(['MyNewClass', 'MySalesPosting']);
+  });
+
+  test('should report models whose folders were deleted', async () => {
+    rmSync(join(incrementalDir, 'OtherModel'), { recursive: true, force: true });
+
+    const summary = await ObjectIndexManager.updateCodeIndex(incrementalDir);
+    expect(summary).toMatchObject({ removed: 4, changedModels: ['OtherModel'], deletedModels: ['OtherModel'] });
+    expect(lookup.searchSource('salesFormLetter', { model: 'OtherModel' })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * 📏 CODE METRICS TESTS
+ * Tests for get_code_metrics
+ * Focus: lines of code, cyclomatic complexity, nesting depth, aggregation per object and model, outliers (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+
+const OBJECT_XML = (root, name, declaration, methods) => `<?xml version="1.0" encoding="utf-8"?>
+<${root} xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+${declaration}
+{
+}
+]]></Declaration>
+		<Methods>${Object.entries(methods).map(([method, source]) => `
+			<Method>
+				<Name>${method}</Name>
+				<Source><![CDATA[
+${source}
+
+]]></Source>
+			</Method>`).join('')}
+		</Methods>
+	</SourceCode>
+</${root}>
+`;
+
+const CLASSIFY = `    public int classify(int _a, int _b, boolean _flag = false)
+    {
+        // Only a comment
+
+        int result;
+        if (_a > 0 && _b > 0)
+        {
+            while (_a > 0)
+            {
+                _a--;
+                switch (_b)
+                {
+                    case 1, 2:
+                        result = 1;
+                        break;
+                    case 3:
+                        result = _flag ? 3 : 4;
+                        break;
+                    default:
+                        result = 0;
+                }
+            }
+        }
+        else if (_a < 0 || _b < 0)
+        {
+            try
+            {
+                result = -1;
+            }
+            catch (Exception::Error)
+            {
+                result = -2;
+            }
+        }
+        return result;
+    }`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-code-metrics-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('Contoso', 'AxClass', 'ContosoClassifier', OBJECT_XML('AxClass', 'ContosoClassifier', 'class ContosoClassifier', {
+    classify: CLASSIFY,
+    simple: '    public void simple()\n    {\n    }'
+  }));
+  writeAOT('Contoso', 'AxTable', 'ContosoTable', OBJECT_XML('AxTable', 'ContosoTable', 'public class ContosoTable extends common', {
+    validateWrite: '    public boolean validateWrite()\n    {\n        return super() && this.Name != "";\n    }'
+  }));
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🔧 Method Metrics', () => {
+  test('should count code lines, branches, nesting and parameters', async () => {
+    const report = await ObjectIndexManager.getCodeMetrics({ objectName: 'ContosoClassifier' });
+    const [object] = report.objects;
+
+    expect(object.methods).toEqual([
+      { name: 'classify', line: 14, linesOfCode: 34, complexity: 11, nestingDepth: 3, parameters: 3 },
+      { name: 'simple', line: 56, linesOfCode: 3, complexity: 1, nestingDepth: 0, parameters: 0 }
+    ]);
+    expect(object).toMatchObject({
+      name: 'ContosoClassifier',
+      objectType: 'AxClass',
+      model: 'Contoso',
+      methodCount: 2,
+      linesOfCode: 40,
+      totalComplexity: 12,
+      maxComplexity: 11,
+      averageComplexity: 6,
+      maxNestingDepth: 3
+    });
+  });
+});
+
+describe('📦 Aggregation', () => {
+  test('should total every object of a model', async () => {
+    const report = await ObjectIndexManager.getCodeMetrics({ model: 'contoso' });
+
+    expect(report.objects.map(object => [object.name, object.objectType])).toEqual([['ContosoClassifier', 'AxClass'], ['ContosoTable', 'AxTable']]);
+    expect(report.models).toEqual([{
+      model: 'Contoso',
+      objectCount: 2,
+      methodCount: 3,
+      linesOfCode: 47,
+      totalComplexity: 14,
+      averageComplexity: 4.67,
+      averageMethodLines: 13.67,
+      maxComplexity: { object: 'ContosoClassifier', method: 'classify', value: 11 },
+      outliers: 1
+    }]);
+  });
+
+  test('should return null for objects that are not found', async () => {
+    expect(await ObjectIndexManager.getCodeMetrics({ objectName: 'NoSuchClass' })).toBeNull();
+    expect((await ObjectIndexManager.getCodeMetrics({ model: 'NoSuchModel' })).objects).toEqual([]);
+  });
+});
+
+describe('🚩 Outliers', () => {
+  test('should flag values above the default thresholds', async () => {
+    const report = await ObjectIndexManager.getCodeMetrics({ objectName: 'ContosoClassifier' });
+
+    expect(report.outliers).toEqual([
+      { object: 'ContosoClassifier', objectType: 'AxClass', model: 'Contoso', method: 'classify', line: 14, metric: 'complexity', value: 11, threshold: 10 }
+    ]);
+  });
+
+  test('should use configured thresholds and order by distance above them', async () => {
+    const report = await ObjectIndexManager.getCodeMetrics({ model: 'Contoso', thresholds: { complexity: 2, parameters: 2, methodCount: 1 } });
+
+    expect(report.thresholds).toMatchObject({ complexity: 2, parameters: 2, methodCount: 1, nestingDepth: 4 });
+    expect(report.outliers.map(outlier => [outlier.object, outlier.method, outlier.metric, outlier.value])).toEqual([
+      ['ContosoClassifier', 'classify', 'complexity', 11],
+      ['ContosoClassifier', null, 'methodCount', 2],
+      ['ContosoClassifier', 'classify', 'parameters', 3]
+    ]);
+  });
+});
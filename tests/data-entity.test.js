@@ -0,0 +1,227 @@
+/**
+ * 🧾 DATA ENTITY TESTS
+ * Tests for data entity field mapping used by inspect_xpp_object in dataentity mode
+ * Focus: datasource trees, mapped/computed/virtual fields, extensions, table field verification (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { parseDataEntity, mergeDataEntityExtension } from '../build/modules/data-entity.js';
+
+const mappedField = (name, dataSource, dataField, extra = '') => `
+		<AxDataEntityViewField xmlns="" i:type="AxDataEntityViewMappedField">
+			<Name>${name}</Name>
+			${extra}
+			<DataField>${dataField}</DataField>
+			<DataSource>${dataSource}</DataSource>
+		</AxDataEntityViewField>`;
+
+const ENTITY_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxDataEntityView xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>CustCustomerEntity</Name>
+	<SourceCode>
+		<Methods>
+			<Method>
+				<Name>nameComputed</Name>
+				<Source><![CDATA[
+	private static server str nameComputed()
+	{
+		// <Name>NotAField</Name>
+		return SysComputedColumn::returnField(tableStr(CustCustomerEntity), dataEntityDataSourceStr(CustCustomerEntity, CustTable), fieldStr(CustTable, AccountNum));
+	}
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+	<DataManagementEnabled>Yes</DataManagementEnabled>
+	<DataManagementStagingTable>CustCustomerStaging</DataManagementStagingTable>
+	<EntityCategory>Master</EntityCategory>
+	<IsPublic>Yes</IsPublic>
+	<Label>@SYS7149</Label>
+	<PrimaryKey>EntityKey</PrimaryKey>
+	<PublicCollectionName>Customers</PublicCollectionName>
+	<PublicEntityName>Customer</PublicEntityName>
+	<Fields>${mappedField('CustomerAccount', 'CustTable', 'AccountNum', '<Mandatory>Yes</Mandatory>')}${mappedField('CustomerGroup', 'CustTable', 'CustGroup')}${mappedField('Name', 'DirPartyTable', 'Name', '<AllowEdit>No</AllowEdit>')}${mappedField('CreditLimit', 'CustTable', 'CreditMax')}${mappedField('Orphan', 'MissingDataSource', 'Value')}
+		<AxDataEntityViewField xmlns="" i:type="AxDataEntityViewUnmappedFieldString">
+			<Name>NameAlias</Name>
+			<ComputedFieldMethod>nameComputed</ComputedFieldMethod>
+		</AxDataEntityViewField>
+		<AxDataEntityViewField xmlns="" i:type="AxDataEntityViewUnmappedFieldString">
+			<Name>ImportNote</Name>
+			<IsComputedField>No</IsComputedField>
+		</AxDataEntityViewField>
+	</Fields>
+	<FieldGroups>
+		<AxTableFieldGroup>
+			<Name>AutoReport</Name>
+			<Fields>
+				<AxTableFieldGroupField>
+					<DataField>CustomerAccount</DataField>
+				</AxTableFieldGroupField>
+			</Fields>
+		</AxTableFieldGroup>
+	</FieldGroups>
+	<Keys>
+		<AxDataEntityViewKey>
+			<Name>EntityKey</Name>
+			<Fields>
+				<AxDataEntityViewKeyField>
+					<DataField>CustomerAccount</DataField>
+				</AxDataEntityViewKeyField>
+			</Fields>
+		</AxDataEntityViewKey>
+	</Keys>
+	<ViewMetadata>
+		<Name>Metadata</Name>
+		<DataSources>
+			<AxQuerySimpleRootDataSource>
+				<Name>CustTable</Name>
+				<DataSources>
+					<AxQuerySimpleEmbeddedDataSource>
+						<Name>DirPartyTable</Name>
+						<JoinMode>InnerJoin</JoinMode>
+						<Table>DirPartyTable</Table>
+					</AxQuerySimpleEmbeddedDataSource>
+				</DataSources>
+				<Table>CustTable</Table>
+			</AxQuerySimpleRootDataSource>
+		</DataSources>
+	</ViewMetadata>
+</AxDataEntityView>
+`;
+
+const ENTITY_EXTENSION_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxDataEntityViewExtension xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>CustCustomerEntity.IsvModel</Name>
+	<DataSources>
+		<AxQuerySimpleDataSourceExtension>
+			<Name>IsvCustRating</Name>
+			<Parent>CustTable</Parent>
+			<JoinMode>OuterJoin</JoinMode>
+			<Table>IsvCustRating</Table>
+		</AxQuerySimpleDataSourceExtension>
+	</DataSources>
+	<Fields>${mappedField('IsvRating', 'IsvCustRating', 'Rating')}${mappedField('IsvSegment', 'CustTable', 'IsvSegment')}
+	</Fields>
+</AxDataEntityViewExtension>
+`;
+
+const TABLE_XML = (root, name, fields) => `<?xml version="1.0" encoding="utf-8"?>
+<${root} xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<Fields>${fields.map(field => `
+		<AxTableField xmlns="" i:type="AxTableFieldString">
+			<Name>${field}</Name>
+		</AxTableField>`).join('')}
+	</Fields>
+</${root}>
+`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-data-entity-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationSuite', 'AxDataEntityView', 'CustCustomerEntity', ENTITY_XML);
+  // CreditMax is not a CustTable field: the mapping is broken
+  writeAOT('ApplicationSuite', 'AxTable', 'CustTable', TABLE_XML('AxTable', 'CustTable', ['AccountNum', 'CustGroup', 'Party']));
+  writeAOT('ApplicationFoundation', 'AxTable', 'DirPartyTable', TABLE_XML('AxTable', 'DirPartyTable', ['Name']));
+
+  writeAOT('IsvModel', 'AxDataEntityViewExtension', 'CustCustomerEntity.IsvModel', ENTITY_EXTENSION_XML);
+  writeAOT('IsvModel', 'AxTableExtension', 'CustTable.IsvModel', TABLE_XML('AxTableExtension', 'CustTable.IsvModel', ['IsvSegment']));
+  writeAOT('IsvModel', 'AxTable', 'IsvCustRating', TABLE_XML('AxTable', 'IsvCustRating', ['Rating']));
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 Entity Metadata', () => {
+  test('should read OData and data management settings, keys and the datasource tree', () => {
+    const entity = parseDataEntity('CustCustomerEntity', ENTITY_XML);
+
+    expect(entity).toMatchObject({
+      label: '@SYS7149',
+      publicEntityName: 'Customer',
+      publicCollectionName: 'Customers',
+      stagingTable: 'CustCustomerStaging',
+      isPublic: true,
+      dataManagementEnabled: true,
+      isReadOnly: false,
+      entityCategory: 'Master',
+      primaryKey: 'EntityKey'
+    });
+    expect(entity.keys).toEqual([{ name: 'EntityKey', fields: ['CustomerAccount'] }]);
+    expect(entity.dataSources.map(ds => [ds.name, ds.table, ds.parent, ds.joinMode])).toEqual([
+      ['CustTable', 'CustTable', null, null],
+      ['DirPartyTable', 'DirPartyTable', 'CustTable', 'InnerJoin']
+    ]);
+  });
+
+  test('should classify mapped, computed, virtual and unresolved fields', () => {
+    const entity = parseDataEntity('CustCustomerEntity', ENTITY_XML);
+
+    expect(entity.fields.map(field => [field.name, field.mapping, field.table, field.dataField])).toEqual([
+      ['CustomerAccount', 'mapped', 'CustTable', 'AccountNum'],
+      ['CustomerGroup', 'mapped', 'CustTable', 'CustGroup'],
+      ['Name', 'mapped', 'DirPartyTable', 'Name'],
+      ['CreditLimit', 'mapped', 'CustTable', 'CreditMax'],
+      ['Orphan', 'unresolved', null, 'Value'],
+      ['NameAlias', 'computed', null, null],
+      ['ImportNote', 'virtual', null, null]
+    ]);
+    expect(entity.fields.find(field => field.name === 'NameAlias')).toMatchObject({ computedMethod: 'nameComputed', readOnly: true });
+    expect(entity.fields.find(field => field.name === 'CustomerAccount').mandatory).toBe(true);
+    expect(entity.fields.find(field => field.name === 'Name').readOnly).toBe(true);
+  });
+
+  test('should resolve extension fields against extension and base datasources', () => {
+    const entity = mergeDataEntityExtension(parseDataEntity('CustCustomerEntity', ENTITY_XML), 'CustCustomerEntity.IsvModel', ENTITY_EXTENSION_XML);
+
+    expect(entity.extensions).toEqual(['CustCustomerEntity.IsvModel']);
+    expect(entity.dataSources.at(-1)).toEqual({ name: 'IsvCustRating', table: 'IsvCustRating', parent: 'CustTable', joinMode: 'OuterJoin', source: 'CustCustomerEntity.IsvModel' });
+    expect(entity.fields.slice(-2).map(field => [field.name, field.mapping, field.table, field.source])).toEqual([
+      ['IsvRating', 'mapped', 'IsvCustRating', 'CustCustomerEntity.IsvModel'],
+      ['IsvSegment', 'mapped', 'CustTable', 'CustCustomerEntity.IsvModel']
+    ]);
+  });
+});
+
+describe('🔗 Indexed Entities', () => {
+  test('should merge indexed extensions and verify mappings against table and table extension fields', async () => {
+    const entity = await ObjectIndexManager.getDataEntity('custcustomerentity', packagesDir);
+
+    expect(entity).toMatchObject({ name: 'CustCustomerEntity', model: 'ApplicationSuite', extensions: ['CustCustomerEntity.IsvModel'] });
+    const mappings = Object.fromEntries(entity.fields.map(field => [field.name, field.mapping]));
+    expect(mappings).toMatchObject({
+      CustomerAccount: 'mapped',
+      Name: 'mapped',
+      CreditLimit: 'unresolved',
+      IsvRating: 'mapped',
+      IsvSegment: 'mapped'
+    });
+  });
+
+  test('should return null for unknown entities', async () => {
+    expect(await ObjectIndexManager.getDataEntity('NoSuchEntity', packagesDir)).toBeNull();
+  });
+});
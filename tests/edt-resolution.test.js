@@ -0,0 +1,152 @@
+/**
+ * 🧬 EDT RESOLUTION TESTS
+ * Tests for effective EDT properties along Extends chains
+ * Focus: inherited and overridden properties, EDT extensions, table field starts, broken chains (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { parseEdt } from '../build/modules/edt-resolution.js';
+
+const EDT_XML = (name, type, body) => `<?xml version="1.0" encoding="utf-8"?>
+<AxEdt xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="" i:type="AxEdt${type}">
+	<Name>${name}</Name>${body}
+	<ArrayElements />
+	<Relations />
+</AxEdt>
+`;
+
+const CUST_ACCOUNT_XML = EDT_XML('CustAccount', 'String', `
+	<Label>@SYS7149</Label>
+	<Extends>CustVendAC</Extends>
+	<ReferenceTable>CustTable</ReferenceTable>
+	<TableReferences>
+		<AxEdtTableReference>
+			<RelatedField>AccountNum</RelatedField>
+			<Table>CustTable</Table>
+		</AxEdtTableReference>
+	</TableReferences>`);
+
+const CUST_TABLE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>CustTable</Name>
+	<Fields>
+		<AxTableField xmlns="" i:type="AxTableFieldString">
+			<Name>AccountNum</Name>
+			<ExtendedDataType>CustAccount</ExtendedDataType>
+			<HelpText>@SYS300</HelpText>
+			<Mandatory>Yes</Mandatory>
+		</AxTableField>
+	</Fields>
+</AxTable>
+`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+const propertiesOf = resolved => Object.fromEntries(resolved.properties.map(property => [property.name, `${property.value} <- ${property.extension || property.setBy}`]));
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-edt-resolution-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationFoundation', 'AxEdt', 'CustVendAC', EDT_XML('CustVendAC', 'String', `
+	<HelpText>@SYS1996</HelpText>
+	<Label>@SYS1997</Label>
+	<StringSize>20</StringSize>`));
+  writeAOT('ApplicationSuite', 'AxEdt', 'CustAccount', CUST_ACCOUNT_XML);
+  writeAOT('ApplicationSuite', 'AxTable', 'CustTable', CUST_TABLE_XML);
+  writeAOT('ApplicationSuite', 'AxEdt', 'OrphanAccount', EDT_XML('OrphanAccount', 'String', `
+	<Extends>NoSuchEdt</Extends>`));
+  writeAOT('ApplicationSuite', 'AxEdt', 'LoopA', EDT_XML('LoopA', 'Int', '<Extends>LoopB</Extends>'));
+  writeAOT('ApplicationSuite', 'AxEdt', 'LoopB', EDT_XML('LoopB', 'Int', '<Extends>LoopA</Extends>'));
+
+  writeAOT('IsvModel', 'AxEdtExtension', 'CustVendAC.IsvModel', `<?xml version="1.0" encoding="utf-8"?>
+<AxEdtExtension xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>CustVendAC.IsvModel</Name>
+	<PropertyModifications>
+		<AxPropertyModification>
+			<Name>StringSize</Name>
+			<Value>30</Value>
+		</AxPropertyModification>
+	</PropertyModifications>
+</AxEdtExtension>
+`);
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 EDT Properties', () => {
+  test('should read the primitive type, parent and top-level properties only', () => {
+    expect(parseEdt(CUST_ACCOUNT_XML)).toEqual({
+      baseType: 'String',
+      extendsName: 'CustVendAC',
+      properties: { Label: '@SYS7149', ReferenceTable: 'CustTable', RelatedField: 'AccountNum' }
+    });
+  });
+});
+
+describe('🧬 Extends Chains', () => {
+  test('should report each effective property with the level or extension setting it', async () => {
+    const resolved = await ObjectIndexManager.resolveEdt('custaccount', packagesDir);
+
+    expect(resolved.levels.map(level => [level.name, level.model, level.extensions])).toEqual([
+      ['CustAccount', 'ApplicationSuite', []],
+      ['CustVendAC', 'ApplicationFoundation', ['CustVendAC.IsvModel']]
+    ]);
+    expect(resolved.baseType).toEqual({ value: 'String', setBy: 'CustVendAC' });
+    expect(propertiesOf(resolved)).toEqual({
+      HelpText: '@SYS1996 <- CustVendAC',
+      Label: '@SYS7149 <- CustAccount',
+      ReferenceTable: 'CustTable <- CustAccount',
+      RelatedField: 'AccountNum <- CustAccount',
+      StringSize: '30 <- CustVendAC.IsvModel'
+    });
+    expect(resolved.properties.find(property => property.name === 'StringSize')).toMatchObject({
+      model: 'IsvModel',
+      overridden: [{ setBy: 'CustVendAC', value: '20', extension: null }]
+    });
+    expect(resolved.properties.find(property => property.name === 'Label').overridden).toEqual([{ setBy: 'CustVendAC', value: '@SYS1997', extension: null }]);
+  });
+
+  test('should start from a table field and apply its overrides first', async () => {
+    const resolved = await ObjectIndexManager.resolveEdt('CustTable.AccountNum', packagesDir);
+
+    expect(resolved.levels.map(level => [level.kind, level.name])).toEqual([
+      ['field', 'CustTable.AccountNum'],
+      ['edt', 'CustAccount'],
+      ['edt', 'CustVendAC']
+    ]);
+    expect(propertiesOf(resolved)).toMatchObject({ HelpText: '@SYS300 <- CustTable.AccountNum', Mandatory: 'Yes <- CustTable.AccountNum', StringSize: '30 <- CustVendAC.IsvModel' });
+    expect(await ObjectIndexManager.resolveEdt('CustTable.NoSuchField', packagesDir)).toBeNull();
+  });
+
+  test('should flag missing parents and Extends cycles', async () => {
+    expect(await ObjectIndexManager.resolveEdt('OrphanAccount', packagesDir)).toMatchObject({ missingParent: 'NoSuchEdt', cycle: false });
+
+    const loop = await ObjectIndexManager.resolveEdt('LoopA', packagesDir);
+    expect(loop).toMatchObject({ cycle: true, baseType: { value: 'Int', setBy: 'LoopB' } });
+    expect(loop.levels.map(level => level.name)).toEqual(['LoopA', 'LoopB']);
+
+    expect(await ObjectIndexManager.resolveEdt('NoSuchEdt', packagesDir)).toBeNull();
+  });
+});
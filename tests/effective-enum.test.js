@@ -0,0 +1,108 @@
+/**
+ * 🔢 EFFECTIVE ENUM TESTS
+ * Tests for merging enum values with enum extensions used by inspect_xpp_object in effective mode
+ * Focus: default values, contributing models, duplicate names and values, non-extensible enums (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { parseEnum } from '../build/modules/effective-enum.js';
+
+const enumValue = (name, label, value) => `
+		<AxEnumValue>
+			<Name>${name}</Name>
+			${label ? `<Label>${label}</Label>` : ''}
+			${value !== undefined ? `<Value>${value}</Value>` : ''}
+		</AxEnumValue>`;
+
+const ENUM_XML = (root, name, header, values) => `<?xml version="1.0" encoding="utf-8"?>
+<${root} xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>${header}
+	<EnumValues>${values}
+	</EnumValues>
+</${root}>
+`;
+
+const SALES_STATUS_XML = ENUM_XML('AxEnum', 'SalesStatus', `
+	<Label>@SYS25587</Label>
+	<IsExtensible>true</IsExtensible>`, enumValue('None', '@SYS1369') + enumValue('Backorder', '@SYS7107', 1) + enumValue('Delivered', '@SYS4055', 2));
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-effective-enum-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationSuite', 'AxEnum', 'SalesStatus', SALES_STATUS_XML);
+  writeAOT('IsvModel', 'AxEnumExtension', 'SalesStatus.IsvModel', ENUM_XML('AxEnumExtension', 'SalesStatus.IsvModel', '', enumValue('IsvOnHold', '@Isv:OnHold')));
+  writeAOT('PartnerModel', 'AxEnumExtension', 'SalesStatus.PartnerModel', ENUM_XML('AxEnumExtension', 'SalesStatus.PartnerModel', '',
+    enumValue('IsvOnHold', '@Partner:OnHold') + enumValue('PartnerShipped', null, 2)));
+
+  writeAOT('ApplicationSuite', 'AxEnum', 'NoYes', ENUM_XML('AxEnum', 'NoYes', '', enumValue('No') + enumValue('Yes', null, 1)));
+  writeAOT('IsvModel', 'AxEnumExtension', 'NoYes.IsvModel', ENUM_XML('AxEnumExtension', 'NoYes.IsvModel', '', enumValue('Maybe')));
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 Enum Values', () => {
+  test('should default omitted base values to 0 and leave extension values unassigned', () => {
+    expect(parseEnum(SALES_STATUS_XML)).toEqual({
+      label: '@SYS25587',
+      isExtensible: true,
+      values: [
+        { name: 'None', value: 0, label: '@SYS1369' },
+        { name: 'Backorder', value: 1, label: '@SYS7107' },
+        { name: 'Delivered', value: 2, label: '@SYS4055' }
+      ]
+    });
+    expect(parseEnum(ENUM_XML('AxEnumExtension', 'SalesStatus.IsvModel', '', enumValue('IsvOnHold')), true).values).toEqual([{ name: 'IsvOnHold', value: null, label: null }]);
+  });
+});
+
+describe('🧩 Effective Enums', () => {
+  test('should append extension values with their model and report conflicts', async () => {
+    const effective = await ObjectIndexManager.getEffectiveEnum('salesstatus', packagesDir);
+
+    expect(effective.extensions.map(extension => extension.name)).toEqual(['SalesStatus.IsvModel', 'SalesStatus.PartnerModel']);
+    expect(effective.values.map(value => [value.value, value.name, value.label, value.model, value.isExtension])).toEqual([
+      [0, 'None', '@SYS1369', 'ApplicationSuite', false],
+      [1, 'Backorder', '@SYS7107', 'ApplicationSuite', false],
+      [2, 'Delivered', '@SYS4055', 'ApplicationSuite', false],
+      [null, 'IsvOnHold', '@Isv:OnHold', 'IsvModel', true],
+      [null, 'IsvOnHold', '@Partner:OnHold', 'PartnerModel', true],
+      [2, 'PartnerShipped', null, 'PartnerModel', true]
+    ]);
+    expect(effective.conflicts.map(conflict => [conflict.kind, conflict.sources])).toEqual([
+      ['duplicateName', ['SalesStatus.IsvModel', 'SalesStatus.PartnerModel']],
+      ['duplicateValue', ['SalesStatus', 'SalesStatus.PartnerModel']]
+    ]);
+  });
+
+  test('should flag extensions of enums that are not extensible', async () => {
+    const effective = await ObjectIndexManager.getEffectiveEnum('NoYes', packagesDir);
+
+    expect(effective.isExtensible).toBe(false);
+    expect(effective.conflicts).toEqual([expect.objectContaining({ kind: 'notExtensible', sources: ['NoYes.IsvModel'] })]);
+    expect(await ObjectIndexManager.getEffectiveEnum('NoSuchEnum', packagesDir)).toBeNull();
+  });
+});
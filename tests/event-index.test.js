@@ -0,0 +1,178 @@
+/**
+ * 📡 EVENT INDEX TESTS
+ * Tests for event handler and delegate indexing
+ * Focus: handler attribute parsing, delegate declarations, subscriber lookup (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { extractFileFacts } from '../build/modules/code-index.js';
+import { extractEventSubscriptions } from '../build/modules/event-index.js';
+
+const HANDLER_CLASS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>IsvCustTableEventHandler</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+class IsvCustTableEventHandler
+{
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>CustTable_onInserted</Name>
+				<Source><![CDATA[
+    /// <summary>
+    /// [DataEventHandler(tableStr(VendTable), DataEventType::Deleted)] in a comment is ignored
+    /// </summary>
+    [DataEventHandler(tableStr(CustTable), DataEventType::Inserted),
+     DataEventHandler(tableStr(CustTable), DataEventType::Updated)]
+    public static void CustTable_onInserted(Common sender, DataEventArgs e)
+    {
+    }
+
+]]></Source>
+			</Method>
+			<Method>
+				<Name>CustTable_Post_insert</Name>
+				<Source><![CDATA[
+    [PostHandlerFor(tableStr(CustTable), tableMethodStr(CustTable, insert))]
+    public static void CustTable_Post_insert(XppPrePostArgs args)
+    {
+    }
+
+]]></Source>
+			</Method>
+			<Method>
+				<Name>CustTable_DS_written</Name>
+				<Source><![CDATA[
+    [FormDataSourceEventHandler(formDataSourceStr(CustTable, CustTable), FormDataSourceEventType::Written)]
+    public static void CustTable_DS_written(FormDataSource sender, FormDataSourceEventArgs e)
+    {
+    }
+
+]]></Source>
+			</Method>
+			<Method>
+				<Name>postRunSubscriber</Name>
+				<Source><![CDATA[
+    [SubscribesTo(classStr(SalesFormLetter), delegateStr(SalesFormLetter, postRunDelegate))]
+    public static void postRunSubscriber(SalesFormLetter _formLetter)
+    {
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+</AxClass>
+`;
+
+const PUBLISHER_CLASS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>SalesFormLetter</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+class SalesFormLetter
+{
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>postRunDelegate</Name>
+				<Source><![CDATA[
+    delegate void postRunDelegate(SalesFormLetter _formLetter)
+    {
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+</AxClass>
+`;
+
+let workDir;
+let lookup;
+
+const fileOf = (name, model) => ({ name, model, folder: 'AxClass', path: join(workDir, model, 'AxClass', `${name}.xml`) });
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-event-index-'));
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+
+  const handler = fileOf('IsvCustTableEventHandler', 'IsvModel');
+  const publisher = fileOf('SalesFormLetter', 'ApplicationSuite');
+  lookup.replaceFileFacts([
+    { file: handler, facts: extractFileFacts(handler, HANDLER_CLASS_XML) },
+    { file: publisher, facts: extractFileFacts(publisher, PUBLISHER_CLASS_XML) }
+  ]);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🏷️ Handler Attributes', () => {
+  test('should extract every handler attribute with event type and member', () => {
+    const facts = extractFileFacts(fileOf('IsvCustTableEventHandler', 'IsvModel'), HANDLER_CLASS_XML);
+
+    expect(facts.eventSubscriptions.map(s => [s.method, s.targetName, s.targetType, s.targetMember, s.eventType])).toEqual([
+      ['CustTable_onInserted', 'CustTable', 'Tables', null, 'Inserted'],
+      ['CustTable_onInserted', 'CustTable', 'Tables', null, 'Updated'],
+      ['CustTable_Post_insert', 'CustTable', 'Tables', 'insert', 'Post'],
+      ['CustTable_DS_written', 'CustTable', 'Forms', 'CustTable', 'Written'],
+      ['postRunSubscriber', 'SalesFormLetter', 'Classes', 'postRunDelegate', 'Delegate']
+    ]);
+    expect(facts.eventSubscriptions[0].line).toBe(17);
+  });
+
+  test('should match handler attributes regardless of casing', () => {
+    const subscriptions = extractEventSubscriptions([{
+      method: 'postRunSubscriber',
+      startLine: 1,
+      source: [
+        '[subscribesTo(classstr(SalesFormLetter), delegatestr(SalesFormLetter, postRunDelegate))]',
+        '[POSTHANDLERFOR(tablestr(CustTable), tablemethodstr(CustTable, insert))]',
+        'public static void postRunSubscriber()',
+        '{',
+        '}'
+      ].join('\n')
+    }]);
+
+    expect(subscriptions.map(s => [s.attribute, s.targetName, s.targetMember, s.eventType, s.line])).toEqual([
+      ['SubscribesTo', 'SalesFormLetter', 'postRunDelegate', 'Delegate', 1],
+      ['PostHandlerFor', 'CustTable', 'insert', 'Post', 2]
+    ]);
+  });
+
+  test('should extract delegate declarations', () => {
+    const facts = extractFileFacts(fileOf('SalesFormLetter', 'ApplicationSuite'), PUBLISHER_CLASS_XML);
+    expect(facts.delegates).toEqual([{ name: 'postRunDelegate', line: 14 }]);
+  });
+});
+
+describe('📡 Subscribers', () => {
+  test('should list table and form subscribers with their model', () => {
+    const { subscribers } = ObjectIndexManager.findEventSubscribers('custtable');
+
+    expect(subscribers).toHaveLength(4);
+    expect(subscribers.every(s => s.model === 'IsvModel' && s.subscriberName === 'IsvCustTableEventHandler')).toBe(true);
+    expect(ObjectIndexManager.findEventSubscribers('CustTable', { eventType: 'post', member: 'INSERT' }).subscribers)
+      .toEqual([expect.objectContaining({ subscriberMethod: 'CustTable_Post_insert', attribute: 'PostHandlerFor' })]);
+  });
+
+  test('should list delegate subscribers and the declared delegate', () => {
+    const { subscribers, delegates } = ObjectIndexManager.findEventSubscribers('SalesFormLetter', { member: 'postRunDelegate' });
+
+    expect(subscribers.map(s => `${s.subscriberName}.${s.subscriberMethod}`)).toEqual(['IsvCustTableEventHandler.postRunSubscriber']);
+    expect(delegates).toEqual([expect.objectContaining({ delegateName: 'postRunDelegate', model: 'ApplicationSuite' })]);
+  });
+});
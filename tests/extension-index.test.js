@@ -0,0 +1,128 @@
+/**
+ * 🧩 EXTENSION INDEX TESTS
+ * Tests for metadata extension and Chain-of-Command discovery
+ * Focus: base object linking, [ExtensionOf] targets, wrapped methods (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { parseExtensionOf } from '../build/modules/extension-index.js';
+
+const COC_CLASS_XML = (name, attribute) => `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+${attribute}
+final class ${name}
+{
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>validateWrite</Name>
+				<Source><![CDATA[
+    public boolean validateWrite()
+    {
+        boolean ret = next validateWrite();
+        return ret;
+    }
+
+]]></Source>
+			</Method>
+			<Method>
+				<Name>find</Name>
+				<Source><![CDATA[
+    public static SalesTable find(SalesId _salesId, boolean _forUpdate = false)
+    {
+        return next find(_salesId, _forUpdate);
+    }
+
+]]></Source>
+			</Method>
+			<Method>
+				<Name>myHelper</Name>
+				<Source><![CDATA[
+    public void myHelper()
+    {
+        // next validateWrite() is only mentioned here
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+</AxClass>
+`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const addFile = (relativeFolder, name, content) => {
+  const folder = join(packagesDir, ...relativeFolder.split('/'));
+  mkdirSync(folder, { recursive: true });
+  writeFileSync(join(folder, `${name}.xml`), content);
+};
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-extension-index-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  addFile('ModelA/ModelA/AxTableExtension', 'SalesTable.ModelA', '<AxTableExtension><Name>SalesTable.ModelA</Name></AxTableExtension>');
+  addFile('ModelA/ModelA/AxClass', 'SalesTableModelA_Extension', COC_CLASS_XML('SalesTableModelA_Extension', '[ExtensionOf(tableStr(SalesTable))]'));
+  addFile('ModelB/ModelB/AxFormExtension', 'SalesTable.ModelB', '<AxFormExtension><Name>SalesTable.ModelB</Name></AxFormExtension>');
+  addFile('ModelB/ModelB/AxClass', 'SalesTableFormDS_Extension', COC_CLASS_XML('SalesTableFormDS_Extension', '[ExtensionOf(formDataSourceStr(SalesTable, SalesLine))]'));
+  addFile('ModelB/ModelB/AxEnumExtension', 'SalesStatus.ModelB', '<AxEnumExtension><Name>SalesStatus.ModelB</Name></AxEnumExtension>');
+  addFile('ModelB/ModelB/AxEdtExtension', 'SalesId.ModelB', '<AxEdtExtension><Name>SalesId.ModelB</Name></AxEdtExtension>');
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🏷️ ExtensionOf', () => {
+  test('should resolve the target of ExtensionOf attributes', () => {
+    expect(parseExtensionOf('[ExtensionOf(classStr(SalesFormLetter))]\nfinal class X {}')).toEqual({ baseName: 'SalesFormLetter', baseType: 'Classes', baseMember: null });
+    expect(parseExtensionOf('[ExtensionOf(formControlStr(SalesTable, LineView))]')).toEqual({ baseName: 'SalesTable', baseType: 'Forms', baseMember: 'LineView' });
+    expect(parseExtensionOf('// [ExtensionOf(tableStr(SalesTable))]\nclass X {}')).toBeNull();
+  });
+});
+
+describe('🧩 Extensions', () => {
+  test('should link metadata extensions and CoC classes to their base object', () => {
+    const extensions = ObjectIndexManager.findExtensions('salestable');
+
+    expect(extensions.map(e => [e.model, e.extensionName, e.kind, e.baseType, e.baseMember])).toEqual([
+      ['ModelA', 'SalesTableModelA_Extension', 'coc', 'Tables', null],
+      ['ModelA', 'SalesTable.ModelA', 'metadata', 'Tables', null],
+      ['ModelB', 'SalesTableFormDS_Extension', 'coc', 'Forms', 'SalesLine'],
+      ['ModelB', 'SalesTable.ModelB', 'metadata', 'Forms', null]
+    ]);
+  });
+
+  test('should record wrapped and added CoC methods', () => {
+    const [coc] = ObjectIndexManager.findExtensions('SalesTable', { baseType: 'Tables', model: 'ModelA' }).filter(e => e.kind === 'coc');
+
+    expect(coc.methods.map(m => [m.name, m.wrapsNext, m.isStatic])).toEqual([
+      ['validateWrite', true, false],
+      ['find', true, true],
+      ['myHelper', false, false]
+    ]);
+  });
+
+  test('should index enum and EDT extensions', () => {
+    expect(ObjectIndexManager.findExtensions('SalesStatus')).toEqual([expect.objectContaining({ extensionType: 'AxEnumExtension', baseType: 'Enums' })]);
+    expect(ObjectIndexManager.findExtensions('SalesId')).toEqual([expect.objectContaining({ extensionType: 'AxEdtExtension', baseType: 'Edts' })]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * 🎯 FUZZY SEARCH TESTS
+ * Tests for ranked fuzzy object name search
+ * Focus: camel-hump abbreviations, trigram candidates, typo tolerance, custom model boost (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { splitHumps, camelHumpScore, editDistance, scoreName } from '../build/modules/fuzzy-search.js';
+import { isCustomModel } from '../build/modules/utils.js';
+import { findXppObject } from '../build/modules/parsers.js';
+
+const object = (name, model, type = 'Classes') => ({ name, model, type, path: `${model}/${type}/${name}` });
+
+let workDir;
+let lookup;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-fuzzy-search-'));
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  lookup.insertObjectsBulk([
+    object('SalesFormLetter', 'ApplicationSuite'),
+    object('SalesFormLetter_Invoice', 'ApplicationSuite'),
+    object('SysFieldList', 'ApplicationPlatform'),
+    object('CustInvoiceJour', 'ApplicationSuite', 'Tables'),
+    object('CustInvoiceTrans', 'ApplicationSuite', 'Tables'),
+    object('CustTable', 'ApplicationSuite', 'Tables'),
+    object('CustTable', 'FleetManagement', 'Tables'),
+    object('CustTable', 'ContosoExtensions', 'Tables'),
+    object('VendInvoiceJour', 'ApplicationSuite', 'Tables'),
+    object('InventTable', 'ApplicationSuite', 'Tables')
+  ]);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🧮 Scoring', () => {
+  test('should split identifiers into camel humps', () => {
+    expect(splitHumps('SalesFormLetter_Invoice')).toEqual(['Sales', 'Form', 'Letter', 'Invoice']);
+    expect(splitHumps('SysDAOTable')).toEqual(['Sys', 'DAO', 'Table']);
+  });
+
+  test('should match hump abbreviations anchored at the first hump', () => {
+    expect(camelHumpScore('CustInvJour', 'CustInvoiceJour')).toBe(1);
+    expect(camelHumpScore('SFL', 'SalesFormLetter')).toBe(1);
+    expect(camelHumpScore('sfl', 'SalesFormLetter')).toBe(1);
+    expect(camelHumpScore('InvJour', 'CustInvoiceJour')).toBe(0);
+  });
+
+  test('should count adjacent transpositions as one edit', () => {
+    expect(editDistance('custtabel', 'custtable')).toBe(1);
+    expect(scoreName('CustTabel', 'CustTable').matchType).toBe('typo');
+  });
+});
+
+describe('🎯 Fuzzy Lookup', () => {
+  test('should rank camel-hump matches first', () => {
+    const [first] = lookup.searchObjectsFuzzy('CustInvJour');
+    expect(first).toMatchObject({ name: 'CustInvoiceJour', matchType: 'camelHump' });
+
+    const names = lookup.searchObjectsFuzzy('SFL').map(r => r.name);
+    expect(names.slice(0, 2).sort()).toEqual(['SalesFormLetter', 'SysFieldList']);
+    expect(names).toContain('SalesFormLetter_Invoice');
+    expect(lookup.searchObjectsFuzzy('SalFormLet').map(r => r.name)).not.toContain('SysFieldList');
+  });
+
+  test('should tolerate typos through trigram candidates', () => {
+    const [first] = lookup.searchObjectsFuzzy('CustTabel', { objectType: 'Tables' });
+    expect(first.name).toBe('CustTable');
+    expect(first.score).toBeGreaterThan(0.7);
+  });
+
+  test('should boost custom models for equal scores', () => {
+    const models = lookup.searchObjectsFuzzy('CustTable', { customModels: ['contosoextensions'] })
+      .filter(r => r.name === 'CustTable').map(r => r.model);
+    expect(models[0]).toBe('ContosoExtensions');
+    expect(models).toHaveLength(3);
+  });
+
+  test('should classify models by layer and publisher', () => {
+    expect(isCustomModel({ layer: 'isv', publisher: 'Microsoft Corporation' })).toBe(true);
+    expect(isCustomModel({ layer: 'slp', publisher: 'Contoso Ltd.' })).toBe(true);
+    expect(isCustomModel({ layer: 'slp', publisher: 'Microsoft Corporation' })).toBe(false);
+  });
+
+  test('should apply model filters and keep the trigram index in sync', () => {
+    expect(lookup.searchObjectsFuzzy('CustTable', { model: 'fleetmanagement' })).toEqual([
+      expect.objectContaining({ name: 'CustTable', model: 'FleetManagement', score: 1 })
+    ]);
+
+    lookup.insertObject(object('CustTable', 'FleetManagement', 'Tables'));
+    lookup.deleteObject('InventTable', 'Tables');
+    expect(lookup.searchObjectsFuzzy('CustTable', { model: 'FleetManagement' })).toHaveLength(1);
+    expect(lookup.searchObjectsFuzzy('InventTabel')).toHaveLength(0);
+  });
+
+  test('should return no results instead of unscored filesystem matches without an index', async () => {
+    const initialize = vi.spyOn(SQLiteObjectLookup.prototype, 'initialize').mockReturnValue(false);
+    try {
+      expect(await findXppObject('CustTabel', undefined, undefined, true)).toEqual([]);
+    } finally {
+      initialize.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * 🔀 INDEX DIFF TESTS
+ * Tests for comparing object indexes between snapshots, databases and live scans
+ * Focus: added/removed/relocated detection, per type and model counts (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { diffObjects, formatIndexDiffMarkdown } from '../build/modules/index-diff.js';
+
+const row = (name, model, type) => ({ name, model, type, path: `${model}/${type}/${name}` });
+
+const BEFORE = [
+  row('CustTable', 'ApplicationSuite', 'Tables'),
+  row('SalesFormLetter', 'ApplicationSuite', 'Classes'),
+  row('SysObsoleteHelper', 'ApplicationFoundation', 'Classes'),
+  row('NoYes', 'ApplicationPlatform', 'Enums')
+];
+
+const AFTER = [
+  row('CustTable', 'ApplicationSuite', 'Tables'),
+  row('SalesFormLetter', 'ApplicationCommon', 'Classes'),
+  row('NoYes', 'ApplicationPlatform', 'Enums'),
+  row('CustTableV2', 'ApplicationSuite', 'Tables')
+];
+
+let workDir;
+let packagesDir;
+let lookup;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-index-diff-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  for (const object of AFTER) {
+    const folder = join(packagesDir, object.model, object.model, object.type === 'Tables' ? 'AxTable' : object.type === 'Classes' ? 'AxClass' : 'AxEnum');
+    mkdirSync(folder, { recursive: true });
+    writeFileSync(join(folder, `${object.name}.xml`), `<Root><Name>${object.name}</Name></Root>`);
+  }
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  lookup.insertObjectsBulk(BEFORE);
+  ObjectIndexManager.sqliteIndex = lookup;
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🔀 Object Diff', () => {
+  test('should report added, removed and relocated objects', () => {
+    const diff = diffObjects(BEFORE, AFTER, { base: 'before', target: 'after' });
+
+    expect(diff.added.map(o => o.name)).toEqual(['CustTableV2']);
+    expect(diff.removed.map(o => o.name)).toEqual(['SysObsoleteHelper']);
+    expect(diff.relocated).toEqual([{ name: 'SalesFormLetter', type: 'Classes', fromModels: ['ApplicationSuite'], toModels: ['ApplicationCommon'] }]);
+    expect(diff.unchanged).toBe(2);
+    expect(diff.byType.Classes).toEqual({ added: 0, removed: 1, relocated: 1 });
+    expect(diff.byModel.ApplicationCommon).toEqual({ added: 0, removed: 0, relocatedIn: 1, relocatedOut: 0 });
+    expect(diff.byModel.ApplicationSuite).toEqual({ added: 1, removed: 0, relocatedIn: 0, relocatedOut: 1 });
+  });
+
+  test('should filter by type and by model on either side of a relocation', () => {
+    expect(diffObjects(BEFORE, AFTER, { base: 'a', target: 'b' }, { objectType: 'tables' }).added.map(o => o.name)).toEqual(['CustTableV2']);
+
+    const modelDiff = diffObjects(BEFORE, AFTER, { base: 'a', target: 'b' }, { model: 'ApplicationCommon' });
+    expect(modelDiff.added).toEqual([]);
+    expect(modelDiff.relocated.map(o => o.name)).toEqual(['SalesFormLetter']);
+  });
+
+  test('should render a markdown report', () => {
+    const markdown = formatIndexDiffMarkdown(diffObjects(BEFORE, AFTER, { base: 'before', target: 'after' }), 1);
+
+    expect(markdown).toContain('| Classes | 0 | 1 | 1 |');
+    expect(markdown).toContain('Classes `SalesFormLetter`: ApplicationSuite → ApplicationCommon');
+    expect(formatIndexDiffMarkdown(diffObjects(BEFORE, BEFORE, { base: 'a', target: 'a' }))).toContain('No differences found');
+  });
+});
+
+describe('🗄️ Index Sources', () => {
+  test('should compare the current index with a live scan', async () => {
+    const diff = await ObjectIndexManager.diffIndex('current', 'live', { livePath: packagesDir });
+
+    expect(diff.added.map(o => o.name)).toEqual(['CustTableV2']);
+    expect(diff.removed.map(o => o.name)).toEqual(['SysObsoleteHelper']);
+    expect(diff.relocated.map(o => o.name)).toEqual(['SalesFormLetter']);
+  });
+
+  test('should read exported snapshots and reject unknown files', async () => {
+    const snapshotPath = join(workDir, 'before.db.gz');
+    await lookup.exportSnapshot(snapshotPath);
+
+    const diff = await ObjectIndexManager.diffIndex(snapshotPath, 'current');
+    expect(diff.unchanged).toBe(BEFORE.length);
+    await expect(ObjectIndexManager.diffIndex(join(workDir, 'missing.db'), 'current')).rejects.toThrow(/not found/);
+  });
+});
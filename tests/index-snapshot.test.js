@@ -0,0 +1,133 @@
+/**
+ * 📦 INDEX SNAPSHOT TESTS
+ * Tests for portable index snapshot export and import
+ * Focus: manifest contents, path remapping, snapshot validation (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { existsSync, mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { gzipSync } from 'zlib';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { CURRENT_SCHEMA_VERSION } from '../build/modules/sqlite-migrations.js';
+import { extractFileFacts } from '../build/modules/code-index.js';
+
+const SOURCE_ROOT = 'K:\\AosService\\PackagesLocalDirectory';
+const TARGET_ROOT = '/mnt/d365/PackagesLocalDirectory';
+
+const CLASS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>SalesFormLetter_Invoice</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+class SalesFormLetter_Invoice extends SalesFormLetter
+{
+}
+]]></Declaration>
+		<Methods>
+			<Method>
+				<Name>run</Name>
+				<Source><![CDATA[
+    public void run()
+    {
+        CustTable custTable = CustTable::find('US-001');
+    }
+
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+</AxClass>
+`;
+
+let workDir;
+let snapshotPath;
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-index-snapshot-'));
+  snapshotPath = join(workDir, 'shared', 'snapshot.db.gz');
+
+  // Source machine: objects, code index, AOT metadata and cached types indexed under a Windows root
+  const source = new SQLiteObjectLookup(join(workDir, 'source.db'));
+  source.initialize();
+  await source.cacheObjectTypes(['AxClass', 'AxTable']);
+  source.insertObjectsBulk([
+    { name: 'SalesFormLetter_Invoice', path: 'ApplicationSuite/Classes/SalesFormLetter_Invoice', model: 'ApplicationSuite', type: 'Classes' },
+    { name: 'CustTable', path: 'ApplicationSuite/Tables/CustTable', model: 'ApplicationSuite', type: 'Tables' }
+  ]);
+  source.storeAOTMetadata({ generatedAt: '2026-01-01T00:00:00.000Z', totalTypes: 2, categorizedTypes: 2, uncategorizedTypes: 0, categorizationRate: '100%', sourceAssembly: 'test', generationTimeMs: 1, categories: {} });
+
+  const file = {
+    name: 'SalesFormLetter_Invoice',
+    model: 'ApplicationSuite',
+    folder: 'AxClass',
+    path: `${SOURCE_ROOT}\\ApplicationSuite\\Foundation\\AxClass\\SalesFormLetter_Invoice.xml`,
+    lastModified: 1,
+    size: CLASS_XML.length
+  };
+  source.replaceFileFacts([{ file, facts: extractFileFacts(file, CLASS_XML) }]);
+
+  await source.exportSnapshot(snapshotPath, `${SOURCE_ROOT}\\`);
+  source.close();
+});
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📦 Export', () => {
+  test('should write a manifest with counts, object types and AOT metadata', async () => {
+    const target = new SQLiteObjectLookup(join(workDir, 'manifest.db'));
+    target.initialize();
+    const { manifest } = await target.importSnapshot(snapshotPath);
+    target.close();
+
+    expect(manifest).toEqual(expect.objectContaining({
+      format: 'mcp-xpp-index-snapshot',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      sourceRoot: SOURCE_ROOT,
+      objects: 2,
+      sourceBlocks: 2,
+      objectTypes: ['AxClass', 'AxTable']
+    }));
+    expect(manifest.aotMetadata.sourceAssembly).toBe('test');
+    expect(existsSync(`${snapshotPath}.export`)).toBe(false);
+  });
+});
+
+describe('📥 Import', () => {
+  test('should replace the database and remap file paths to the target root', async () => {
+    const target = new SQLiteObjectLookup(join(workDir, 'target.db'));
+    target.initialize();
+    const result = await target.importSnapshot(snapshotPath, TARGET_ROOT);
+
+    expect(result.remappedRows).toBeGreaterThan(0);
+    expect(target.getTotalCount()).toBe(2);
+    expect(await target.getCachedObjectTypes()).toEqual(['AxClass', 'AxTable']);
+
+    const [hit] = target.searchSource('CustTable');
+    expect(hit.path).toBe(`${TARGET_ROOT}/ApplicationSuite/Foundation/AxClass/SalesFormLetter_Invoice.xml`);
+    expect(target.getClassDeclarations('SalesFormLetter_Invoice')[0].path).toBe(hit.path);
+    expect([...target.getIndexedFiles().keys()]).toEqual([hit.path]);
+    target.close();
+  });
+
+  test('should reject files that are not snapshots and keep the existing database', async () => {
+    const target = new SQLiteObjectLookup(join(workDir, 'rejected.db'));
+    target.initialize();
+    target.insertObjectsBulk([{ name: 'CustTable', path: 'ApplicationSuite/Tables/CustTable', model: 'ApplicationSuite', type: 'Tables' }]);
+
+    const plainFile = join(workDir, 'plain.gz');
+    writeFileSync(plainFile, 'not a snapshot');
+    await expect(target.importSnapshot(plainFile)).rejects.toThrow(/not a gzip-compressed/);
+
+    const textFile = join(workDir, 'text.gz');
+    writeFileSync(textFile, gzipSync('hello'));
+    await expect(target.importSnapshot(textFile)).rejects.toThrow(/does not contain a SQLite database/);
+    expect(existsSync(join(workDir, 'rejected.db.import'))).toBe(false);
+
+    expect(target.getTotalCount()).toBe(1);
+    target.close();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * 👀 INDEX WATCHER TESTS
+ * Tests for the optional filesystem watcher that keeps the object index current
+ * Focus: folder to object type mapping, debounced inserts and deletes (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { IndexWatcher } from '../build/modules/index-watcher.js';
+import { objectTypeForFolder } from '../build/modules/code-index.js';
+
+const CLASS_XML = (name) => `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+class ${name} extends RunBase
+{
+}
+]]></Declaration>
+	</SourceCode>
+</AxClass>
+`;
+
+const waitFor = async (condition, timeoutMs = 5000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for watcher');
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+};
+
+let workDir;
+let classDir;
+let lookup;
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-index-watcher-'));
+  classDir = join(workDir, 'PackagesLocalDirectory', 'WatchModel', 'WatchModel', 'AxClass');
+  mkdirSync(classDir, { recursive: true });
+  writeFileSync(join(classDir, 'MyExistingClass.xml'), CLASS_XML('MyExistingClass'));
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+
+  await IndexWatcher.start(join(workDir, 'PackagesLocalDirectory'), 100);
+});
+
+afterAll(async () => {
+  await IndexWatcher.stop();
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🏷️ Object Types', () => {
+  test('should map AOT folders to service object types', () => {
+    expect(objectTypeForFolder('AxClass')).toBe('Classes');
+    expect(objectTypeForFolder('AxQuery')).toBe('Queries');
+    expect(objectTypeForFolder('AxDataEntityView')).toBe('DataEntityViews');
+    expect(objectTypeForFolder('AxLabelFile')).toBe('LabelFiles');
+  });
+});
+
+describe('👀 Watcher', () => {
+  test('should report running status', () => {
+    const status = IndexWatcher.getStatus();
+    expect(status.running).toBe(true);
+    expect(status.watchedFolders).toBe(1);
+    expect(status.debounceMs).toBe(100);
+  });
+
+  test('should insert objects for new files', async () => {
+    writeFileSync(join(classDir, 'MyWatchedClass.xml'), CLASS_XML('MyWatchedClass'));
+    await waitFor(() => IndexWatcher.getStatus().inserted === 1);
+
+    const [location] = lookup.findObject('MyWatchedClass');
+    expect(location).toMatchObject({ model: 'WatchModel', type: 'Classes', path: 'WatchModel/Classes/MyWatchedClass' });
+    expect(lookup.findReferences('RunBase').map(r => r.sourceName)).toContain('MyWatchedClass');
+  });
+
+  test('should delete objects for removed files', async () => {
+    rmSync(join(classDir, 'MyWatchedClass.xml'));
+    await waitFor(() => IndexWatcher.getStatus().deleted === 1);
+    expect(lookup.findObject('MyWatchedClass')).toHaveLength(0);
+
+    expect(lookup.findReferences('RunBase').map(r => r.sourceName)).not.toContain('MyWatchedClass');
+    expect(IndexWatcher.getStatus()).toMatchObject({ inserted: 1, deleted: 1, errors: 0 });
+  });
+
+  test('should only write object rows for object types the service produces', async () => {
+    const edtDir = join(workDir, 'PackagesLocalDirectory', 'WatchModel', 'WatchModel', 'AxEdt');
+    mkdirSync(edtDir, { recursive: true });
+    const edtPath = join(edtDir, 'MyWatchedEdt.xml');
+    writeFileSync(edtPath, '<AxEdt><Name>MyWatchedEdt</Name><Extends>Name</Extends></AxEdt>');
+
+    const file = { name: 'MyWatchedEdt', path: edtPath, model: 'WatchModel', folder: 'AxEdt' };
+    expect(await ObjectIndexManager.applyFileChanges([{ file, exists: true }])).toEqual({ inserted: 0, deleted: 0 });
+    expect(lookup.findObject('MyWatchedEdt')).toHaveLength(0);
+    expect(lookup.getEdts().map(edt => edt.name)).toContain('MyWatchedEdt');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * 🏷️ LABEL INDEX TESTS
+ * Tests for AxLabelFile indexing, label resolution and label search
+ * Focus: label text parsing, reference formats, incremental updates (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { findLabelReferences, parseLabelReference, parseLabelText } from '../build/modules/label-index.js';
+
+let workDir;
+let packagesDir;
+let lookup;
+
+// AxLabelFile descriptor plus its label text file, as Visual Studio lays them out
+const writeLabels = (model, labelFile, language, content) => {
+  const aotFolder = join(packagesDir, model, model, 'AxLabelFile');
+  const folder = join(aotFolder, 'LabelResources', language);
+  mkdirSync(folder, { recursive: true });
+  writeFileSync(join(aotFolder, `${labelFile}_${language}.xml`), `<AxLabelFile><Name>${labelFile}_${language}</Name><LabelFileId>${labelFile}</LabelFileId></AxLabelFile>`);
+  writeFileSync(join(folder, `${labelFile}.${language}.label.txt`), content);
+};
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-label-index-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeLabels('ApplicationPlatform', 'SYS', 'en-US', '\uFEFF@SYS7149=Customer account\n ;Account number of the customer\n@SYS7150=Customer accounts\n');
+  writeLabels('ApplicationPlatform', 'SYS', 'de', '@SYS7149=Debitorenkonto\n');
+  writeLabels('IsvModel', 'IsvLabels', 'en-US', 'CustAccountLookup=Customer account lookup\r\nRebateAccount=Account for customer rebates\r\n');
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.updateLabelIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 Label Files', () => {
+  test('should parse labels with comments and line numbers', () => {
+    expect(parseLabelText('A=First\n ;Note\n\nB=Second=with equals\n')).toEqual([
+      { labelId: 'A', text: 'First', comment: 'Note', line: 1 },
+      { labelId: 'B', text: 'Second=with equals', comment: null, line: 4 }
+    ]);
+  });
+
+  test('should recognize legacy and label file references', () => {
+    expect(parseLabelReference('@SYS7149')).toEqual({ reference: '@SYS7149', labelFile: 'SYS', labelId: 'SYS7149' });
+    expect(parseLabelReference('IsvLabels:RebateAccount')).toEqual({ reference: '@IsvLabels:RebateAccount', labelFile: 'IsvLabels', labelId: 'RebateAccount' });
+    expect(parseLabelReference('Customer')).toBeNull();
+    expect(findLabelReferences('Label = @SYS7149, HelpText = @IsvLabels:RebateAccount, mail me@example.com')).toEqual(['@SYS7149', '@IsvLabels:RebateAccount']);
+  });
+});
+
+describe('🏷️ Resolve', () => {
+  test('should resolve a label in every language', () => {
+    const { labels } = ObjectIndexManager.resolveLabel('@SYS7149');
+
+    expect(labels.map(label => [label.language, label.text])).toEqual([['de', 'Debitorenkonto'], ['en-US', 'Customer account']]);
+    expect(labels[1]).toMatchObject({ model: 'ApplicationPlatform', comment: 'Account number of the customer', line: 1 });
+  });
+
+  test('should annotate label references inline', () => {
+    expect(ObjectIndexManager.annotateLabels('Label = @SYS7149, HelpText = @IsvLabels:Missing', 'de'))
+      .toBe('Label = @SYS7149 ("Debitorenkonto"), HelpText = @IsvLabels:Missing');
+  });
+});
+
+describe('🔍 Search', () => {
+  test('should rank exact text before prefix and word matches', () => {
+    const results = ObjectIndexManager.searchLabels('customer account', { language: 'en-US' });
+
+    expect(results.map(r => [r.labelId, r.matchType])).toEqual([
+      ['SYS7149', 'exact'],
+      ['SYS7150', 'prefix'],
+      ['CustAccountLookup', 'prefix'],
+      ['RebateAccount', 'words']
+    ]);
+  });
+
+  test('should only re-read changed label files', async () => {
+    writeLabels('IsvModel', 'IsvLabels', 'en-US', 'CustAccountLookup=Customer account lookup\nNewLabel=Brand new label text\n');
+    const summary = await ObjectIndexManager.updateLabelIndex(packagesDir);
+
+    expect(summary).toMatchObject({ files: 3, updated: 1, removed: 0 });
+    expect(ObjectIndexManager.searchLabels('brand new').map(r => r.labelId)).toEqual(['NewLabel']);
+    expect(ObjectIndexManager.resolveLabel('@IsvLabels:RebateAccount').labels).toEqual([]);
+  });
+});
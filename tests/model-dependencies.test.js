@@ -0,0 +1,112 @@
+/**
+ * 🧬 MODEL DEPENDENCY TESTS
+ * Tests for the model dependency graph built from descriptor ModuleReferences
+ * Focus: descriptor parsing, transitive/reverse dependencies, cycles, build order (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppConfig } from '../build/modules/app-config.js';
+import { buildModelDependencyGraph, getModelDependencies, parseModuleReferences } from '../build/modules/model-dependencies.js';
+
+const DESCRIPTOR_XML = (name, references, module = name) => `<?xml version="1.0" encoding="utf-8"?>
+<AxModelInfo xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<DisplayName>${name}</DisplayName>
+	<Layer>14</Layer>
+	<ModelModule>${module}</ModelModule>
+	<ModuleReferences xmlns:d3p1="http://schemas.microsoft.com/2003/10/Serialization/Arrays">
+${references.map(ref => `		<d3p1:string>${ref}</d3p1:string>`).join('\n')}
+	</ModuleReferences>
+	<Name>${name}</Name>
+</AxModelInfo>
+`;
+
+const model = (name, dependencies, module = name) => ({ name, module, dependencies });
+
+const MODELS = [
+  model('ApplicationPlatform', []),
+  model('ApplicationFoundation', ['ApplicationPlatform']),
+  model('ApplicationSuite', ['ApplicationFoundation', 'ApplicationPlatform']),
+  model('IsvCore', ['ApplicationSuite', 'IsvMissing']),
+  model('IsvExtras', ['IsvCore'], 'IsvCore'),
+  model('IsvReporting', ['IsvCore']),
+  model('CycleA', ['CycleB']),
+  model('CycleB', ['CycleA'])
+];
+
+let workDir;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-model-deps-'));
+  for (const [pkg, name, references, module] of [
+    ['ApplicationPlatform', 'ApplicationPlatform', []],
+    ['ApplicationSuite', 'ApplicationSuite', ['ApplicationPlatform']],
+    ['IsvCore', 'IsvCore', ['ApplicationSuite']],
+    ['IsvCore', 'IsvExtras', ['IsvCore', 'ApplicationPlatform'], 'IsvCore']
+  ]) {
+    const folder = join(workDir, pkg, 'Descriptor');
+    mkdirSync(folder, { recursive: true });
+    writeFileSync(join(folder, `${name}.xml`), DESCRIPTOR_XML(name, references, module));
+  }
+});
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 Descriptors', () => {
+  test('should read module references with any namespace prefix', () => {
+    expect(parseModuleReferences(DESCRIPTOR_XML('IsvCore', ['ApplicationSuite', 'ApplicationPlatform']))).toEqual(['ApplicationSuite', 'ApplicationPlatform']);
+    expect(parseModuleReferences('<AxModelInfo><ModuleReferences /></AxModelInfo>')).toEqual([]);
+  });
+
+  test('should discover models with module and dependencies', async () => {
+    const models = await AppConfig.getAvailableModels(workDir);
+
+    expect(models.map(m => [m.name, m.module, m.dependencies])).toEqual([
+      ['ApplicationPlatform', 'ApplicationPlatform', []],
+      ['ApplicationSuite', 'ApplicationSuite', ['ApplicationPlatform']],
+      ['IsvCore', 'IsvCore', ['ApplicationSuite']],
+      ['IsvExtras', 'IsvCore', ['IsvCore', 'ApplicationPlatform']]
+    ]);
+  });
+});
+
+describe('🧬 Dependency Graph', () => {
+  test('should order dependencies before dependents and report cycles', () => {
+    const graph = buildModelDependencyGraph(MODELS);
+    const position = name => graph.buildOrder.indexOf(name);
+
+    expect(graph.buildOrder).toHaveLength(MODELS.length);
+    expect(position('ApplicationPlatform')).toBeLessThan(position('ApplicationFoundation'));
+    expect(position('ApplicationFoundation')).toBeLessThan(position('ApplicationSuite'));
+    expect(position('ApplicationSuite')).toBeLessThan(position('IsvCore'));
+    expect(position('IsvCore')).toBeLessThan(position('IsvReporting'));
+    expect(graph.cycles).toEqual([['CycleA', 'CycleB']]);
+  });
+
+  test('should resolve direct, transitive and reverse dependencies', () => {
+    const deps = getModelDependencies(buildModelDependencyGraph(MODELS), 'isvcore');
+
+    expect(deps.direct).toEqual(['ApplicationSuite']);
+    expect(deps.transitive).toEqual([
+      { name: 'ApplicationSuite', depth: 1, via: null },
+      { name: 'ApplicationFoundation', depth: 2, via: 'ApplicationSuite' },
+      { name: 'ApplicationPlatform', depth: 2, via: 'ApplicationSuite' }
+    ]);
+    // IsvExtras shares the IsvCore module, so it is compiled with it rather than depending on it
+    expect(deps.reverseDirect).toEqual(['IsvReporting']);
+    expect(deps.missingModules).toEqual(['IsvMissing']);
+    expect(deps.rebuildOrder).toEqual(['IsvCore', 'IsvReporting']);
+  });
+
+  test('should include every member of a cycle in the rebuild order', () => {
+    const deps = getModelDependencies(buildModelDependencyGraph(MODELS), 'CycleA');
+
+    expect(deps.cycles).toEqual([['CycleA', 'CycleB']]);
+    expect(deps.rebuildOrder).toEqual(['CycleA', 'CycleB']);
+    expect(getModelDependencies(buildModelDependencyGraph(MODELS), 'Unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * 🧭 NAVIGATION INDEX TESTS
+ * Tests for menu item and menu indexing and navigation path lookup
+ * Focus: menu element trees, menu extensions, menu references, menu item targets (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { extractMenu } from '../build/modules/navigation-index.js';
+
+const MENU_ITEM_XML = (root, name, object, objectType) => `<?xml version="1.0" encoding="utf-8"?>
+<${root} xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<Label>${name} label</Label>
+	<Object>${object}</Object>
+	${objectType ? `<ObjectType>${objectType}</ObjectType>` : ''}
+</${root}>
+`;
+
+const subMenu = (name, label, children) => `
+		<AxMenuElement xmlns="" i:type="AxMenuElementSubMenu">
+			<Name>${name}</Name>
+			<Elements>${children}</Elements>
+			<Label>${label}</Label>
+		</AxMenuElement>`;
+
+const menuItem = (name, label, type) => `
+				<AxMenuElement xmlns="" i:type="AxMenuElementMenuItem">
+					<Name>${name}</Name>
+					<Label>${label}</Label>
+					<MenuItemName>${name}</MenuItemName>
+					${type ? `<MenuItemType>${type}</MenuItemType>` : ''}
+				</AxMenuElement>`;
+
+const ACCOUNTS_RECEIVABLE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxMenu xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>AccountsReceivable</Name>
+	<Label>Accounts receivable</Label>
+	<Elements>${subMenu('Customers', 'Customers', menuItem('CustTable', 'All customers'))}${subMenu('Periodic', 'Periodic tasks', subMenu('Interest', 'Interest', menuItem('CustInterestCalculate', 'Calculate interest', 'Action')))}
+	</Elements>
+</AxMenu>
+`;
+
+const NAV_PANE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxMenu xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>NavPaneMenu</Name>
+	<Elements>${subMenu('Modules', 'Modules', `
+				<AxMenuElement xmlns="" i:type="AxMenuElementMenuReference">
+					<Name>AccountsReceivable</Name>
+					<MenuName>AccountsReceivable</MenuName>
+				</AxMenuElement>`)}
+	</Elements>
+</AxMenu>
+`;
+
+const MENU_EXTENSION_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxMenuExtension xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>AccountsReceivable.IsvModel</Name>
+	<Elements>
+		<AxMenuExtensionElement>
+			<MenuElement xmlns="" i:type="AxMenuElementMenuItem">
+				<Name>IsvCustTableQuick</Name>
+				<MenuItemName>IsvCustTableQuick</MenuItemName>
+			</MenuElement>
+			<Parent>Customers</Parent>
+		</AxMenuExtensionElement>
+	</Elements>
+</AxMenuExtension>
+`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+const fileOf = (name, folder) => ({ name, folder, model: 'ApplicationSuite', path: join('ApplicationSuite', folder, `${name}.xml`) });
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-navigation-index-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationSuite', 'AxMenuItemDisplay', 'CustTable', MENU_ITEM_XML('AxMenuItemDisplay', 'CustTable', 'CustTable'));
+  writeAOT('ApplicationSuite', 'AxMenuItemAction', 'CustInterestCalculate', MENU_ITEM_XML('AxMenuItemAction', 'CustInterestCalculate', 'CustInterestCalc', 'Class'));
+  writeAOT('ApplicationSuite', 'AxMenu', 'AccountsReceivable', ACCOUNTS_RECEIVABLE_XML);
+  writeAOT('ApplicationSuite', 'AxMenu', 'NavPaneMenu', NAV_PANE_XML);
+  writeAOT('ApplicationSuite', 'AxSecurityPrivilege', 'CustInterestCalculateGenerate', `<AxSecurityPrivilege><Name>CustInterestCalculateGenerate</Name><EntryPoints>
+		<AxSecurityEntryPointReference><Name>CustInterestCalculate</Name><Grant><Invoke>Allow</Invoke></Grant><ObjectName>CustInterestCalculate</ObjectName><ObjectType>MenuItemAction</ObjectType></AxSecurityEntryPointReference>
+	</EntryPoints></AxSecurityPrivilege>`);
+
+  writeAOT('IsvModel', 'AxMenuItemDisplay', 'IsvCustTableQuick', MENU_ITEM_XML('AxMenuItemDisplay', 'IsvCustTableQuick', 'CustTable'));
+  writeAOT('IsvModel', 'AxMenuItemOutput', 'IsvCustomerReport', MENU_ITEM_XML('AxMenuItemOutput', 'IsvCustomerReport', 'IsvCustomerReport', 'SSRSReport'));
+  writeAOT('IsvModel', 'AxMenuExtension', 'AccountsReceivable.IsvModel', MENU_EXTENSION_XML);
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 Menus', () => {
+  test('should read nested submenus with their parent and menu item type', () => {
+    const menu = extractMenu(fileOf('AccountsReceivable', 'AxMenu'), ACCOUNTS_RECEIVABLE_XML);
+
+    expect(menu.label).toBe('Accounts receivable');
+    expect(menu.elements.map(e => [e.name, e.elementType, e.parentName, e.label, e.menuItemType])).toEqual([
+      ['Customers', 'SubMenu', null, 'Customers', null],
+      ['CustTable', 'MenuItem', 'Customers', 'All customers', 'Display'],
+      ['Periodic', 'SubMenu', null, 'Periodic tasks', null],
+      ['Interest', 'SubMenu', 'Periodic', 'Interest', null],
+      ['CustInterestCalculate', 'MenuItem', 'Interest', 'Calculate interest', 'Action']
+    ]);
+  });
+
+  test('should attach menu extension elements to their parent submenu', () => {
+    const menu = extractMenu(fileOf('AccountsReceivable.IsvModel', 'AxMenuExtension'), MENU_EXTENSION_XML);
+
+    expect(menu).toMatchObject({ name: 'AccountsReceivable', isExtension: true });
+    expect(menu.elements).toEqual([expect.objectContaining({ name: 'IsvCustTableQuick', parentName: 'Customers', menuItemName: 'IsvCustTableQuick', menuItemType: 'Display' })]);
+  });
+});
+
+describe('🧭 Navigation Paths', () => {
+  test('should list every menu item opening a form with the full breadcrumb', () => {
+    const result = ObjectIndexManager.findNavigationPaths('custtable');
+
+    expect(result.menuItems.map(item => [item.name, item.itemType, item.objectType, item.model])).toEqual([
+      ['CustTable', 'Display', 'Form', 'ApplicationSuite'],
+      ['IsvCustTableQuick', 'Display', 'Form', 'IsvModel']
+    ]);
+    expect(result.paths.map(path => [path.breadcrumb.map(step => step.name).join(' > '), path.model, path.viaExtension])).toEqual([
+      ['NavPaneMenu > Modules > AccountsReceivable > Customers > CustTable', 'ApplicationSuite', false],
+      ['NavPaneMenu > Modules > AccountsReceivable > Customers > IsvCustTableQuick', 'IsvModel', true]
+    ]);
+    expect(result.paths[0].breadcrumb.map(step => step.label)).toEqual([null, 'Modules', 'Accounts receivable', 'Customers', 'All customers']);
+  });
+
+  test('should resolve classes and reports through action and output menu items', () => {
+    const action = ObjectIndexManager.findNavigationPaths('CustInterestCalc', { objectType: 'Class' });
+    expect(action.paths.map(path => path.breadcrumb.map(step => step.name).join(' > '))).toEqual([
+      'NavPaneMenu > Modules > AccountsReceivable > Periodic > Interest > CustInterestCalculate'
+    ]);
+    expect(ObjectIndexManager.findNavigationPaths('CustInterestCalc', { objectType: 'Form' }).menuItems).toEqual([]);
+
+    const report = ObjectIndexManager.findNavigationPaths('IsvCustomerReport');
+    expect(report.paths).toEqual([]);
+    expect(report.unplaced.map(item => [item.name, item.itemType, item.objectType])).toEqual([['IsvCustomerReport', 'Output', 'SSRSReport']]);
+  });
+
+  test('should let security traces start from the object a menu item opens', () => {
+    const trace = ObjectIndexManager.traceSecurity('CustInterestCalc');
+
+    expect(trace).toMatchObject({ name: 'CustInterestCalc', found: true, menuItems: ['CustInterestCalculate'] });
+    expect(trace.entryPoints).toEqual([expect.objectContaining({ objectName: 'CustInterestCalculate', objectType: 'MenuItemAction', allowed: ['Invoke'] })]);
+  });
+});
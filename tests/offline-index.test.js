@@ -0,0 +1,100 @@
+/**
+ * 📂 OFFLINE INDEX TESTS
+ * Tests for the service-independent indexer that reads AOT folders directly
+ * Focus: package/model folder discovery and ObjectLocation rows (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const addObject = (relativeFolder, name) => {
+  const folder = join(packagesDir, ...relativeFolder.split('/'));
+  mkdirSync(folder, { recursive: true });
+  writeFileSync(join(folder, `${name}.xml`), `<?xml version="1.0" encoding="utf-8"?>\n<Root><Name>${name}</Name></Root>\n`);
+};
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-offline-index-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  // Double-nested package plus a second model inside the same package
+  addObject('ApplicationPlatform/ApplicationPlatform/AxClass', 'Global');
+  addObject('ApplicationPlatform/ApplicationPlatform/AxEnum', 'NoYes');
+  addObject('ApplicationPlatform/PlatformExtras/AxQuery', 'SysQueryRangeList');
+  // Build output and unknown folders are ignored
+  addObject('ApplicationPlatform/bin/AxClass', 'CompiledOnly');
+  addObject('ApplicationPlatform/ApplicationPlatform/AxNotAnAotFolder', 'Ignored');
+  // Single-level package
+  addObject('FleetManagement/AxTable', 'FMRental');
+  // Object types the VS2022 service does not list
+  addObject('FleetManagement/AxEdt', 'FMRentalId');
+  addObject('FleetManagement/AxSecurityRole', 'FMClerk');
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📂 Folder Discovery', () => {
+  test('should find AOT folders of every model in a package', async () => {
+    const folders = Array.from((await ObjectIndexManager.discoverAOTFolders(packagesDir)).keys())
+      .map(folder => folder.slice(packagesDir.length + 1).split(/[\\/]/).join('/'))
+      .sort();
+
+    expect(folders).toEqual([
+      'ApplicationPlatform/ApplicationPlatform/AxClass',
+      'ApplicationPlatform/ApplicationPlatform/AxEnum',
+      'ApplicationPlatform/ApplicationPlatform/AxNotAnAotFolder',
+      'ApplicationPlatform/PlatformExtras/AxQuery',
+      'FleetManagement/AxEdt',
+      'FleetManagement/AxSecurityRole',
+      'FleetManagement/AxTable'
+    ]);
+  });
+});
+
+describe('🗄️ Offline Index', () => {
+  test('should produce service-shaped object rows per model', async () => {
+    const objectsByModel = await ObjectIndexManager.collectOfflineObjects(packagesDir);
+
+    expect(Array.from(objectsByModel.keys()).sort()).toEqual(['ApplicationPlatform', 'FleetManagement', 'PlatformExtras']);
+    expect(objectsByModel.get('PlatformExtras')).toEqual([
+      expect.objectContaining({ name: 'SysQueryRangeList', model: 'PlatformExtras', type: 'Queries', path: 'PlatformExtras/Queries/SysQueryRangeList' })
+    ]);
+    expect(objectsByModel.get('ApplicationPlatform').map(o => o.name).sort()).toEqual(['Global', 'NoYes']);
+  });
+
+  test('should skip object types the VS2022 service does not list', async () => {
+    const objectsByModel = await ObjectIndexManager.collectOfflineObjects(packagesDir, ['FleetManagement']);
+
+    expect(objectsByModel.get('FleetManagement').map(o => [o.name, o.type])).toEqual([['FMRental', 'Tables']]);
+  });
+
+  test('should filter by model name', async () => {
+    const objectsByModel = await ObjectIndexManager.collectOfflineObjects(packagesDir, ['fleetmanagement']);
+    expect(Array.from(objectsByModel.keys())).toEqual(['FleetManagement']);
+  });
+
+  test('should store the rows in SQLite', async () => {
+    const result = await ObjectIndexManager.buildOfflineIndex(packagesDir);
+
+    expect(result).toEqual({ models: 3, objects: 4 });
+    expect(lookup.findObject('FMRental')[0]).toMatchObject({ model: 'FleetManagement', type: 'Tables' });
+    expect(lookup.findObject('CompiledOnly')).toHaveLength(0);
+    expect(lookup.findObject('FMRentalId')).toHaveLength(0);
+    expect(lookup.findObject('FMClerk')).toHaveLength(0);
+  });
+});
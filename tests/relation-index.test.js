@@ -0,0 +1,212 @@
+/**
+ * 🔗 RELATION INDEX TESTS
+ * Tests for table relation indexing and join path search
+ * Focus: relation constraints, EDT relations, table extensions, shortest chains, X++ select generation (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { extractTableFact } from '../build/modules/relation-index.js';
+
+const field = (name, edt) => `
+		<AxTableField xmlns="" i:type="AxTableFieldString">
+			<Name>${name}</Name>
+			${edt ? `<ExtendedDataType>${edt}</ExtendedDataType>` : ''}
+		</AxTableField>`;
+
+const fieldConstraint = (name, relatedField) => `
+				<AxTableRelationConstraint xmlns="" i:type="AxTableRelationConstraintField">
+					<Name>${name}</Name>
+					<Field>${name}</Field>
+					<RelatedField>${relatedField}</RelatedField>
+				</AxTableRelationConstraint>`;
+
+const relation = (name, relatedTable, constraints, type = '') => `
+		<AxTableRelation xmlns=""${type ? ` i:type="${type}"` : ''}>
+			<Name>${name}</Name>
+			<Cardinality>ZeroMore</Cardinality>
+			<RelatedTable>${relatedTable}</RelatedTable>
+			<RelatedTableCardinality>ZeroOne</RelatedTableCardinality>
+			<Constraints>${constraints}
+			</Constraints>
+		</AxTableRelation>`;
+
+const TABLE_XML = (root, name, fields, relations = '') => `<?xml version="1.0" encoding="utf-8"?>
+<${root} xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<SourceCode>
+		<Methods>
+			<Method>
+				<Name>find</Name>
+				<Source><![CDATA[
+	// <AxTableRelation><Name>NotARelation</Name><RelatedTable>Nowhere</RelatedTable></AxTableRelation>
+]]></Source>
+			</Method>
+		</Methods>
+	</SourceCode>
+	<Fields>${fields}
+	</Fields>
+	<FieldGroups>
+		<AxTableFieldGroup>
+			<Name>AutoReport</Name>
+			<Fields>
+				<AxTableFieldGroupField>
+					<DataField>Name</DataField>
+				</AxTableFieldGroupField>
+			</Fields>
+		</AxTableFieldGroup>
+	</FieldGroups>
+	<Relations>${relations}
+	</Relations>
+</${root}>
+`;
+
+const EDT_XML = (name, { extendsName, referenceTable, relatedField }) => `<?xml version="1.0" encoding="utf-8"?>
+<AxEdt xmlns:i="http://www.w3.org/2001/XMLSchema-instance" i:type="AxEdtString">
+	<Name>${name}</Name>
+	${extendsName ? `<Extends>${extendsName}</Extends>` : ''}
+	${referenceTable ? `<ReferenceTable>${referenceTable}</ReferenceTable>` : ''}
+	<TableReferences>${relatedField ? `
+		<AxEdtTableReference>
+			<RelatedField>${relatedField}</RelatedField>
+			<Table>${referenceTable}</Table>
+		</AxEdtTableReference>` : ''}
+	</TableReferences>
+</AxEdt>
+`;
+
+const CUST_TABLE_EXTENSION_XML = TABLE_XML('AxTableExtension', 'CustTable.IsvModel', field('IsvRatingId'), relation('IsvRating', 'IsvRating', `${fieldConstraint('IsvRatingId', 'RatingId')}
+				<AxTableRelationConstraint xmlns="" i:type="AxTableRelationConstraintRelatedFixed">
+					<Name>RatingType</Name>
+					<RelatedField>RatingType</RelatedField>
+					<Value>1</Value>
+					<ValueStr>IsvRatingType::Customer</ValueStr>
+				</AxTableRelationConstraint>`));
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+const chain = path => [path.steps[0].fromTable, ...path.steps.map(step => `${step.relation}:${step.toTable}`)].join(' > ');
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-relation-index-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationSuite', 'AxTable', 'CustGroup', TABLE_XML('AxTable', 'CustGroup', field('CustGroup', 'CustGroupId') + field('Name')));
+  writeAOT('ApplicationSuite', 'AxTable', 'CustTable', TABLE_XML('AxTable', 'CustTable', field('AccountNum', 'CustAccount') + field('CustGroup', 'CustGroupId'),
+    relation('CustGroup', 'CustGroup', fieldConstraint('CustGroup', 'CustGroup'), 'AxTableRelationForeignKey')));
+  writeAOT('ApplicationSuite', 'AxTable', 'SalesTable', TABLE_XML('AxTable', 'SalesTable', field('SalesId', 'SalesId') + field('CustAccount', 'CustAccount'),
+    relation('CustTable', 'CustTable', fieldConstraint('CustAccount', 'AccountNum'))));
+  writeAOT('ApplicationSuite', 'AxTable', 'SalesLine', TABLE_XML('AxTable', 'SalesLine', field('SalesId', 'SalesId') + field('CustAccount', 'CustAccount') + field('InvoiceAccount', 'CustInvoiceAccount'),
+    relation('SalesTable', 'SalesTable', fieldConstraint('SalesId', 'SalesId'))));
+  writeAOT('ApplicationSuite', 'AxEdt', 'CustAccount', EDT_XML('CustAccount', { referenceTable: 'CustTable', relatedField: 'AccountNum' }));
+  writeAOT('ApplicationSuite', 'AxEdt', 'CustInvoiceAccount', EDT_XML('CustInvoiceAccount', { extendsName: 'CustAccount' }));
+  writeAOT('ApplicationSuite', 'AxEdt', 'CustGroupId', EDT_XML('CustGroupId', { referenceTable: 'CustGroup', relatedField: 'CustGroup' }));
+  // SalesId references SalesTable, so the SalesLine.SalesTable relation makes the EDT relation redundant
+  writeAOT('ApplicationSuite', 'AxEdt', 'SalesId', EDT_XML('SalesId', { referenceTable: 'SalesTable', relatedField: 'SalesId' }));
+
+  writeAOT('IsvModel', 'AxTable', 'IsvRating', TABLE_XML('AxTable', 'IsvRating', field('RatingId') + field('RatingType')));
+  writeAOT('IsvModel', 'AxTableExtension', 'CustTable.IsvModel', CUST_TABLE_EXTENSION_XML);
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 Table Relations', () => {
+  test('should extract fields with their EDT and relations with field and fixed constraints', () => {
+    const fact = extractTableFact({ name: 'CustTable.IsvModel', folder: 'AxTableExtension', model: 'IsvModel', path: 'CustTable.IsvModel.xml' }, CUST_TABLE_EXTENSION_XML);
+
+    expect(fact).toEqual({
+      tableName: 'CustTable',
+      isExtension: true,
+      fields: [{ name: 'IsvRatingId', edt: null }],
+      relations: [{
+        name: 'IsvRating',
+        relatedTable: 'IsvRating',
+        relationType: 'Relation',
+        cardinality: 'ZeroMore',
+        relatedCardinality: 'ZeroOne',
+        constraints: [
+          { field: 'IsvRatingId', relatedField: 'RatingId', value: null },
+          { field: null, relatedField: 'RatingType', value: 'IsvRatingType::Customer' }
+        ]
+      }]
+    });
+  });
+});
+
+describe('🧭 Join Paths', () => {
+  test('should find every shortest chain, including relations inherited through EDT Extends', () => {
+    const result = ObjectIndexManager.findJoinPaths('salesline', 'CustGroup');
+
+    expect(result.unknownTables).toEqual([]);
+    expect(result.paths.map(chain)).toEqual([
+      'SalesLine > CustAccount (CustAccount):CustTable > CustGroup:CustGroup',
+      'SalesLine > InvoiceAccount (CustInvoiceAccount):CustTable > CustGroup:CustGroup'
+    ]);
+    expect(result.paths[0].steps.map(step => [step.relationType, step.definedOn, step.fieldPairs])).toEqual([
+      ['Edt', 'SalesLine', [{ fromField: 'CustAccount', toField: 'AccountNum' }]],
+      ['ForeignKey', 'CustTable', [{ fromField: 'CustGroup', toField: 'CustGroup' }]]
+    ]);
+    expect(result.paths[0].select).toBe([
+      'SalesLine salesLine;',
+      'CustTable custTable;',
+      'CustGroup custGroup;',
+      '',
+      'select salesLine',
+      '    join custTable',
+      '        where custTable.AccountNum == salesLine.CustAccount',
+      '    join custGroup',
+      '        where custGroup.CustGroup == custTable.CustGroup;'
+    ].join('\n'));
+  });
+
+  test('should prefer declared relations over the matching EDT relation and walk relations backwards', () => {
+    expect(ObjectIndexManager.findJoinPaths('SalesTable', 'CustTable').paths.map(chain)).toEqual(['SalesTable > CustTable:CustTable']);
+
+    const backwards = ObjectIndexManager.findJoinPaths('SalesTable', 'SalesLine');
+    expect(backwards.paths.map(chain)).toEqual(['SalesTable > SalesTable:SalesLine']);
+    expect(backwards.paths[0].steps[0].fieldPairs).toEqual([{ fromField: 'SalesId', toField: 'SalesId' }]);
+  });
+
+  test('should follow relations added by table extensions with their fixed values', () => {
+    const result = ObjectIndexManager.findJoinPaths('CustGroup', 'IsvRating');
+
+    expect(result.paths.map(chain)).toEqual(['CustGroup > CustGroup:CustTable > IsvRating:IsvRating']);
+    expect(result.paths[0].steps[1]).toMatchObject({ model: 'IsvModel', fixed: [{ table: 'IsvRating', field: 'RatingType', value: 'IsvRatingType::Customer' }] });
+    expect(result.paths[0].select).toContain([
+      '    join isvRating',
+      '        where isvRating.RatingId == custTable.IsvRatingId',
+      '           && isvRating.RatingType == IsvRatingType::Customer;'
+    ].join('\n'));
+  });
+
+  test('should honor the depth, limit and EDT options and report unknown tables', () => {
+    expect(ObjectIndexManager.findJoinPaths('SalesLine', 'CustTable', { includeEdtRelations: false }).paths.map(chain))
+      .toEqual(['SalesLine > SalesTable:SalesTable > CustTable:CustTable']);
+    expect(ObjectIndexManager.findJoinPaths('SalesLine', 'IsvRating', { maxDepth: 1 }).paths).toEqual([]);
+
+    const limited = ObjectIndexManager.findJoinPaths('SalesLine', 'CustGroup', { limit: 1 });
+    expect(limited).toMatchObject({ truncated: true, paths: [expect.anything()] });
+
+    expect(ObjectIndexManager.findJoinPaths('SalesLine', 'NoSuchTable').unknownTables).toEqual(['NoSuchTable']);
+  });
+});
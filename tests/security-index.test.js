@@ -0,0 +1,169 @@
+/**
+ * 🔐 SECURITY INDEX TESTS
+ * Tests for role, duty and privilege indexing and security path tracing
+ * Focus: entry point grants, role extensions, up/down traces, forms through menu items, effective access (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { extractGrants } from '../build/modules/security-index.js';
+
+const grant = levels => `<Grant>${Object.entries(levels).map(([level, value]) => `<${level}>${value}</${level}>`).join('')}</Grant>`;
+
+const references = (section, element, names) =>
+  `<${section}>${names.map(name => `<${element}><Name>${name}</Name></${element}>`).join('')}</${section}>`;
+
+const PRIVILEGE_XML = (name, entryPoints, entities = '') => `<?xml version="1.0" encoding="utf-8"?>
+<AxSecurityPrivilege xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<DataEntityPermissions>${entities}</DataEntityPermissions>
+	<EntryPoints>${entryPoints}</EntryPoints>
+</AxSecurityPrivilege>
+`;
+
+const ENTRY_POINT = (objectName, objectType, levels, childName) => `
+		<AxSecurityEntryPointReference>
+			<Name>${objectName}${childName ? `.${childName}` : ''}</Name>
+			${grant(levels)}
+			${childName ? `<ObjectChildName>${childName}</ObjectChildName>` : ''}
+			<ObjectName>${objectName}</ObjectName>
+			<ObjectType>${objectType}</ObjectType>
+		</AxSecurityEntryPointReference>`;
+
+const CUSTOMER_ENTITY = `
+		<AxSecurityDataEntityPermission>
+			<Fields>
+				<AxSecurityDataEntityFieldPermission>${grant({ Read: 'Allow' })}<Name>CustomerAccount</Name></AxSecurityDataEntityFieldPermission>
+			</Fields>
+			${grant({ Read: 'Allow', Update: 'Allow' })}
+			<Name>CustCustomerV3Entity</Name>
+		</AxSecurityDataEntityPermission>`;
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+  return join(path, `${name}.xml`);
+};
+
+let roleExtensionPath;
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-security-index-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationSuite', 'AxSecurityPrivilege', 'CustTableFullControl', PRIVILEGE_XML('CustTableFullControl',
+    ENTRY_POINT('CustTable', 'MenuItemDisplay', { Read: 'Allow', Update: 'Allow', Create: 'Allow', Delete: 'Allow' }), CUSTOMER_ENTITY));
+  writeAOT('ApplicationSuite', 'AxSecurityPrivilege', 'CustTableView', PRIVILEGE_XML('CustTableView',
+    ENTRY_POINT('CustTable', 'MenuItemDisplay', { Read: 'Allow' }) + ENTRY_POINT('CustService', 'ServiceOperation', { Invoke: 'Allow' }, 'getCustomer')));
+  writeAOT('ApplicationSuite', 'AxSecurityDuty', 'CustTableMaintain',
+    `<AxSecurityDuty><Name>CustTableMaintain</Name>${references('Privileges', 'AxSecurityPrivilegeReference', ['CustTableFullControl'])}</AxSecurityDuty>`);
+  writeAOT('ApplicationSuite', 'AxSecurityRole', 'AccountsReceivableClerk',
+    `<AxSecurityRole><Name>AccountsReceivableClerk</Name><Label>@SYS303640</Label>${references('Duties', 'AxSecurityDutyReference', ['CustTableMaintain'])}</AxSecurityRole>`);
+  writeAOT('ApplicationSuite', 'AxSecurityRole', 'AccountsReceivableManager',
+    `<AxSecurityRole><Name>AccountsReceivableManager</Name>${references('Privileges', 'AxSecurityPrivilegeReference', ['CustTableView'])}${references('SubRoles', 'AxSecurityRoleReference', ['AccountsReceivableClerk'])}</AxSecurityRole>`);
+
+  writeAOT('IsvModel', 'AxSecurityPrivilege', 'IsvCustTableNoDelete', PRIVILEGE_XML('IsvCustTableNoDelete',
+    ENTRY_POINT('CustTable', 'MenuItemDisplay', { Delete: 'Deny' })));
+  writeAOT('IsvModel', 'AxSecurityPrivilege', 'IsvRebatesRun', PRIVILEGE_XML('IsvRebatesRun',
+    ENTRY_POINT('IsvRebates', 'MenuItemAction', { Invoke: 'Allow' })));
+  // The CustTable menu item opens the CustTableDetails form
+  writeAOT('ApplicationSuite', 'AxMenuItemDisplay', 'CustTable',
+    `<AxMenuItemDisplay><Name>CustTable</Name><Object>CustTableDetails</Object></AxMenuItemDisplay>`);
+  roleExtensionPath = writeAOT('IsvModel', 'AxSecurityRoleExtension', 'AccountsReceivableClerk.IsvModel',
+    `<AxSecurityRoleExtension><Name>AccountsReceivableClerk.IsvModel</Name>${references('Privileges', 'AxSecurityPrivilegeReference', ['IsvCustTableNoDelete'])}</AxSecurityRoleExtension>`);
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('📄 Privileges', () => {
+  test('should extract entry point and data entity grants', () => {
+    const grants = extractGrants(PRIVILEGE_XML('CustTableFullControl',
+      ENTRY_POINT('CustService', 'ServiceOperation', { Invoke: 'Allow', Delete: 'Deny' }, 'getCustomer'), CUSTOMER_ENTITY));
+
+    expect(grants).toEqual([
+      { entryPoint: 'CustService.getCustomer', objectName: 'CustService', objectType: 'ServiceOperation', objectChildName: 'getCustomer', allowed: ['Invoke'], denied: ['Delete'] },
+      { entryPoint: 'CustCustomerV3Entity', objectName: 'CustCustomerV3Entity', objectType: 'DataEntity', objectChildName: null, allowed: ['Read', 'Update'], denied: [] }
+    ]);
+  });
+});
+
+describe('⬆️ Entry Point To Roles', () => {
+  test('should find every role path granting a menu item, including sub roles and role extensions', () => {
+    const trace = ObjectIndexManager.traceSecurity('custtable');
+
+    expect(trace).toMatchObject({ name: 'CustTable', kind: 'entryPoint', found: true, direction: 'up' });
+    expect(trace.roles).toEqual(['AccountsReceivableClerk', 'AccountsReceivableManager']);
+    expect(trace.paths.map(path => path.chain.map(step => step.name).join(' > '))).toEqual([
+      'AccountsReceivableClerk > CustTableMaintain > CustTableFullControl',
+      'AccountsReceivableManager > AccountsReceivableClerk > CustTableMaintain > CustTableFullControl',
+      'AccountsReceivableManager > CustTableView',
+      'AccountsReceivableClerk > IsvCustTableNoDelete',
+      'AccountsReceivableManager > AccountsReceivableClerk > IsvCustTableNoDelete'
+    ]);
+    // The extension's Deny wins over the Allow of the standard privilege
+    expect(trace.entryPoints).toEqual([
+      { objectName: 'CustTable', objectType: 'MenuItemDisplay', objectChildName: null, allowed: ['Read', 'Update', 'Create'], denied: ['Delete'], paths: 5 }
+    ]);
+  });
+
+  test('should address service operations and report privileges without a role', () => {
+    expect(ObjectIndexManager.traceSecurity('CustService.getCustomer').roles).toEqual(['AccountsReceivableManager']);
+
+    const orphan = ObjectIndexManager.traceSecurity('IsvRebates');
+    expect(orphan.roles).toEqual([]);
+    expect(orphan.paths).toEqual([expect.objectContaining({ role: null, chain: [{ kind: 'privilege', name: 'IsvRebatesRun' }] })]);
+    expect(ObjectIndexManager.traceSecurity('NoSuchMenuItem').found).toBe(false);
+  });
+
+  test('should answer which roles can open a form through the menu items opening it', () => {
+    const trace = ObjectIndexManager.traceSecurity('CustTableDetails');
+
+    expect(trace).toMatchObject({ name: 'CustTableDetails', kind: 'entryPoint', found: true, menuItems: ['CustTable'] });
+    expect(trace.roles).toEqual(['AccountsReceivableClerk', 'AccountsReceivableManager']);
+    expect(trace.entryPoints.map(entry => [entry.objectName, entry.objectType])).toEqual([['CustTable', 'MenuItemDisplay']]);
+  });
+});
+
+describe('⬇️ Role To Entry Points', () => {
+  test('should list every entry point of a role with its effective access', () => {
+    const trace = ObjectIndexManager.traceSecurity('AccountsReceivableManager');
+
+    expect(trace).toMatchObject({ kind: 'role', direction: 'down', models: ['ApplicationSuite'] });
+    expect(trace.entryPoints.map(entry => [entry.objectType, entry.objectName, entry.objectChildName, entry.allowed.join(','), entry.denied.join(',')])).toEqual([
+      ['DataEntity', 'CustCustomerV3Entity', null, 'Read,Update', ''],
+      ['MenuItemDisplay', 'CustTable', null, 'Read,Update,Create', 'Delete'],
+      ['ServiceOperation', 'CustService', 'getCustomer', 'Invoke', '']
+    ]);
+    expect(ObjectIndexManager.traceSecurity('AccountsReceivableManager', { objectType: 'dataentity' }).paths).toHaveLength(1);
+  });
+
+  test('should trace duties both ways and follow removed role extensions', async () => {
+    const duty = ObjectIndexManager.traceSecurity('CustTableMaintain');
+    expect(duty.direction).toBe('both');
+    expect(duty.roles).toEqual(['AccountsReceivableClerk', 'AccountsReceivableManager']);
+    expect(duty.paths).toHaveLength(4);
+
+    rmSync(roleExtensionPath);
+    await ObjectIndexManager.updateCodeIndex(packagesDir);
+
+    const clerk = ObjectIndexManager.traceSecurity('AccountsReceivableClerk', { objectType: 'MenuItemDisplay' });
+    expect(clerk.entryPoints).toEqual([expect.objectContaining({ objectName: 'CustTable', allowed: ['Read', 'Update', 'Create', 'Delete'], denied: [] })]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 🧱 SQLITE MIGRATION TESTS
+ * Tests for schema versioning of the object database
+ * Focus: creation, in-place migration of older databases, rebuild of corrupt/incompatible files
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { CURRENT_SCHEMA_VERSION, SCHEMA_MIGRATIONS } from '../build/modules/sqlite-migrations.js';
+
+let workDir;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-migrations-'));
+});
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+const tableNames = (dbPath) => {
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    return db.prepare(`SELECT name FROM sqlite_master WHERE type IN ('table')`).all().map(r => r.name);
+  } finally {
+    db.close();
+  }
+};
+
+describe('🧱 Schema Migrations', () => {
+  test('should have strictly increasing migration versions', () => {
+    const versions = SCHEMA_MIGRATIONS.map(m => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(CURRENT_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  test('should create new databases at the current version', () => {
+    const dbPath = join(workDir, 'new', 'object-lookup.db');
+    const preparation = SQLiteObjectLookup.prepareDatabase(dbPath);
+
+    expect(preparation).toMatchObject({ status: 'created', fromVersion: 0, toVersion: CURRENT_SCHEMA_VERSION });
+    expect(preparation.applied).toHaveLength(SCHEMA_MIGRATIONS.length);
+    expect(SQLiteObjectLookup.prepareDatabase(dbPath).status).toBe('current');
+
+    const lookup = new SQLiteObjectLookup(dbPath);
+    expect(lookup.initialize()).toBe(true);
+    expect(lookup.getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+    lookup.close();
+  });
+
+  test('should migrate unversioned databases in place and keep their objects', () => {
+    const dbPath = join(workDir, 'legacy.db');
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE objects (name TEXT NOT NULL, path TEXT NOT NULL, model TEXT NOT NULL, type TEXT NOT NULL, lastModified INTEGER, PRIMARY KEY (name, model, type));
+      INSERT INTO objects VALUES ('CustTable', 'ApplicationSuite/Tables/CustTable', 'ApplicationSuite', 'Tables', 0);
+    `);
+    legacy.close();
+
+    const preparation = SQLiteObjectLookup.prepareDatabase(dbPath);
+    expect(preparation).toMatchObject({ status: 'migrated', fromVersion: 0, toVersion: CURRENT_SCHEMA_VERSION });
+    expect(tableNames(dbPath)).toEqual(expect.arrayContaining(['schema_migrations', 'source_fts', 'object_references', 'indexed_files']));
+    expect(SQLiteObjectLookup.safeGetTotalCount(dbPath)).toBe(1);
+  });
+
+  test('should rebuild databases written by a newer schema', () => {
+    const dbPath = join(workDir, 'newer.db');
+    SQLiteObjectLookup.prepareDatabase(dbPath);
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(CURRENT_SCHEMA_VERSION + 1, 'future', new Date().toISOString());
+    db.close();
+
+    const preparation = SQLiteObjectLookup.prepareDatabase(dbPath);
+    expect(preparation.status).toBe('rebuilt');
+    expect(preparation.reason).toContain('newer');
+    expect(preparation.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  test('should rebuild databases with an incompatible objects table', () => {
+    const dbPath = join(workDir, 'incompatible.db');
+    const db = new Database(dbPath);
+    db.exec('CREATE TABLE objects (id INTEGER PRIMARY KEY, name TEXT)');
+    db.close();
+
+    const preparation = SQLiteObjectLookup.prepareDatabase(dbPath);
+    expect(preparation.status).toBe('rebuilt');
+    expect(preparation.reason).toContain('missing columns');
+  });
+
+  test('should keep the database when a migration fails', () => {
+    const dbPath = join(workDir, 'failing-migration.db');
+    SQLiteObjectLookup.prepareDatabase(dbPath);
+    const db = new Database(dbPath);
+    db.exec(`
+      INSERT INTO objects VALUES ('CustTable', 'ApplicationSuite/Tables/CustTable', 'ApplicationSuite', 'Tables', 0);
+      DROP TABLE source_blocks;
+      DROP TABLE source_fts;
+      DELETE FROM schema_migrations WHERE version = 14;
+    `);
+    db.close();
+
+    expect(() => SQLiteObjectLookup.prepareDatabase(dbPath)).toThrow(/source_fts/);
+    expect(existsSync(dbPath)).toBe(true);
+    expect(SQLiteObjectLookup.safeGetTotalCount(dbPath)).toBe(1);
+  });
+
+  test('should rebuild corrupt database files', () => {
+    const dbPath = join(workDir, 'corrupt.db');
+    writeFileSync(dbPath, 'this is not a sqlite database, just some bytes '.repeat(200));
+
+    expect(SQLiteObjectLookup.safeGetTotalCount(dbPath)).toBe(0);
+    expect(readFileSync(dbPath, 'utf-8')).toContain('this is not a sqlite database');
+
+    const lookup = new SQLiteObjectLookup(dbPath);
+    expect(lookup.initialize()).toBe(true);
+    expect(lookup.getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+    lookup.close();
+  });
+});
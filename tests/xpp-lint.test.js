@@ -0,0 +1,217 @@
+/**
+ * 🧹 X++ LINT TESTS
+ * Tests for the best-practice rules behind lint_xpp_object
+ * Focus: rules, per-model xpp-lint.json, suppressions, CoC base lookup, model-wide mode (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ObjectIndexManager } from '../build/modules/object-index.js';
+import { SQLiteObjectLookup } from '../build/modules/sqlite-lookup.js';
+import { parseLintConfig, filterBySeverity } from '../build/modules/xpp-lint.js';
+
+const CLASS_XML = (name, declaration, methods) => `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+	<Name>${name}</Name>
+	<SourceCode>
+		<Declaration><![CDATA[
+${declaration}
+{
+}
+]]></Declaration>
+		<Methods>${Object.entries(methods).map(([method, source]) => `
+			<Method>
+				<Name>${method}</Name>
+				<Source><![CDATA[
+${source}
+
+]]></Source>
+			</Method>`).join('')}
+		</Methods>
+	</SourceCode>
+</AxClass>
+`;
+
+const POSTER_METHODS = {
+  post: `    public void post()
+    {
+        SalesLine salesLine;
+        CustTable custTable;
+
+        ttsbegin;
+        while select salesLine
+        {
+            select firstonly custTable where custTable.AccountNum == salesLine.CustAccount;
+            salesLine.doUpdate();
+        }
+    }`,
+  notify: `    public void notify()
+    {
+        info("Posting finished");
+        warning(strFmt("Order %1 was skipped", 5));
+        info("@SYS12345");
+        try
+        {
+            this.post();
+        }
+        catch
+        {
+        }
+    }`,
+  suppressed: `    [SuppressBPWarning('emptyCatch', 'Cleanup must not fail')]
+    public void suppressed()
+    {
+        SalesLine salesLine;
+
+        // xpp-lint-disable-next-line doMethodCall -- bulk load
+        salesLine.doInsert();
+        try
+        {
+            salesLine.delete();
+        }
+        catch
+        {
+        }
+    }`,
+  quiet: `    // xpp-lint-disable hardcodedString
+    public void quiet()
+    {
+        error("Not a label");
+        ttscommit;
+    }`
+};
+
+let workDir;
+let packagesDir;
+let lookup;
+
+const writeAOT = (model, folder, name, content) => {
+  const path = join(packagesDir, model, model, folder);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, `${name}.xml`), content);
+};
+
+const summarize = report => report.diagnostics.map(diagnostic => `${diagnostic.method} ${diagnostic.rule} ${diagnostic.severity}`);
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-lint-'));
+  packagesDir = join(workDir, 'PackagesLocalDirectory');
+
+  writeAOT('ApplicationSuite', 'AxClass', 'FormLetter', CLASS_XML('FormLetter', 'abstract class FormLetter', {
+    run: '    public void run()\n    {\n    }',
+    validate: '    [Replaceable]\n    public boolean validate()\n    {\n        return true;\n    }'
+  }));
+  writeAOT('ApplicationSuite', 'AxClass', 'SalesFormLetter', CLASS_XML('SalesFormLetter', 'class SalesFormLetter extends FormLetter', {
+    post: '    public void post()\n    {\n    }'
+  }));
+
+  writeAOT('Contoso', 'AxClass', 'ContosoPoster', CLASS_XML('ContosoPoster', 'class ContosoPoster', POSTER_METHODS));
+  writeAOT('Contoso', 'AxClass', 'SalesFormLetter_Contoso_Extension', CLASS_XML('SalesFormLetter_Contoso_Extension',
+    '[ExtensionOf(classStr(SalesFormLetter))]\nfinal class SalesFormLetter_Contoso_Extension', {
+      post: '    public void post()\n    {\n        this.log();\n    }',
+      run: '    public void run()\n    {\n    }',
+      validate: '    public boolean validate()\n    {\n        return false;\n    }',
+      log: '    private void log()\n    {\n    }',
+      wrapped: '    public void wrapped()\n    {\n        next wrapped();\n    }'
+    }));
+
+  writeAOT('Fabrikam', 'AxClass', 'FabrikamPoster', CLASS_XML('FabrikamPoster', 'class FabrikamPoster', POSTER_METHODS));
+  writeFileSync(join(packagesDir, 'Fabrikam', 'Fabrikam', 'xpp-lint.json'), JSON.stringify({
+    rules: { doMethodCall: 'off', emptyCatch: 'error' },
+    suppressions: [{ rule: 'selectInLoop', object: 'Fabrikam*', method: 'post', justification: 'Few lines' }]
+  }));
+
+  lookup = new SQLiteObjectLookup(join(workDir, 'object-lookup.db'));
+  lookup.initialize();
+  ObjectIndexManager.sqliteIndex = lookup;
+  await ObjectIndexManager.buildCodeIndex(packagesDir);
+});
+
+afterAll(() => {
+  lookup?.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🧹 Rules', () => {
+  test('should report each finding with rule, severity, method and XML line', async () => {
+    const report = await ObjectIndexManager.lintObject('ContosoPoster');
+
+    expect(report.objects).toEqual([expect.objectContaining({ name: 'ContosoPoster', objectType: 'AxClass', model: 'Contoso' })]);
+    expect(summarize(report)).toEqual([
+      'post unbalancedTts error',
+      'post selectInLoop warning',
+      'post doMethodCall warning',
+      'notify hardcodedString warning',
+      'notify hardcodedString warning',
+      'notify emptyCatch warning',
+      'quiet unbalancedTts error'
+    ]);
+    expect(report.diagnostics[1]).toMatchObject({ object: 'ContosoPoster', line: 22, column: 13 });
+    expect(report.diagnostics[3].message).toContain('"Posting finished"');
+    expect(report.counts).toEqual({ error: 2, warning: 5, info: 0 });
+    expect(report.byRule).toMatchObject({ hardcodedString: 2, unbalancedTts: 2 });
+  });
+
+  test('should honour comment and SuppressBPWarning suppressions and count them', async () => {
+    const report = await ObjectIndexManager.lintObject('ContosoPoster');
+
+    expect(report.diagnostics.filter(diagnostic => diagnostic.method === 'suppressed')).toEqual([]);
+    expect(report.diagnostics.filter(diagnostic => diagnostic.method === 'quiet').map(diagnostic => diagnostic.rule)).toEqual(['unbalancedTts']);
+    expect(report.suppressed).toBe(3);
+  });
+
+  test('should only run the requested rules and filter by severity', async () => {
+    const report = await ObjectIndexManager.lintObject('ContosoPoster', { rules: ['unbalancedTts', 'emptyCatch'] });
+
+    expect(summarize(report)).toEqual(['post unbalancedTts error', 'notify emptyCatch warning', 'quiet unbalancedTts error']);
+    expect(filterBySeverity(report.diagnostics, 'error').map(diagnostic => diagnostic.method)).toEqual(['post', 'quiet']);
+  });
+});
+
+describe('🔗 Chain of Command', () => {
+  test('should flag wrappers of base and inherited methods that skip next, except Replaceable ones', async () => {
+    const report = await ObjectIndexManager.lintObject('SalesFormLetter_Contoso_Extension', { objectType: 'AxClass' });
+
+    expect(summarize(report)).toEqual(['post cocMissingNext error', 'run cocMissingNext error']);
+    expect(report.diagnostics[0].message).toContain('next post()');
+  });
+});
+
+describe('⚙️ Configuration', () => {
+  test('should apply the xpp-lint.json of the model folder', async () => {
+    const report = await ObjectIndexManager.lintObject('FabrikamPoster', { model: 'Fabrikam' });
+
+    expect(summarize(report)).toEqual([
+      'post unbalancedTts error',
+      'notify hardcodedString warning',
+      'notify hardcodedString warning',
+      'notify emptyCatch error',
+      'quiet unbalancedTts error'
+    ]);
+    // Rules switched off are not counted as suppressed
+    expect(report.suppressed).toBe(3);
+  });
+
+  test('should reject unknown rules and severities', () => {
+    expect(parseLintConfig('{"rules": {"selectInLoop": "off"}}')).toEqual({ rules: { selectInLoop: 'off' }, suppressions: [] });
+    expect(() => parseLintConfig('{"rules": {"noSuchRule": "error"}}')).toThrow('unknown rule "noSuchRule"');
+    expect(() => parseLintConfig('{"rules": {"emptyCatch": "fatal"}}')).toThrow('must be error, warning, info or off');
+  });
+});
+
+describe('📦 Model-wide', () => {
+  test('should lint every object of a model', async () => {
+    const report = await ObjectIndexManager.lintModel('contoso');
+
+    expect(report.objects.map(object => object.name)).toEqual(['ContosoPoster', 'SalesFormLetter_Contoso_Extension']);
+    expect(report.counts).toEqual({ error: 4, warning: 5, info: 0 });
+  });
+
+  test('should return null for unknown objects and an empty report for unknown models', async () => {
+    expect(await ObjectIndexManager.lintObject('NoSuchClass')).toBeNull();
+    expect(await ObjectIndexManager.lintObject('ContosoPoster', { model: 'Fabrikam' })).toBeNull();
+    expect((await ObjectIndexManager.lintModel('NoSuchModel')).objects).toEqual([]);
+  });
+});
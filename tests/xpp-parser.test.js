@@ -0,0 +1,171 @@
+/**
+ * 🌳 X++ PARSER TESTS
+ * Tests for the X++ lexer and recursive-descent parser behind parseXppClass
+ * Focus: declarations, parameters with defaults, attributes, modifiers, spans, error recovery (no VS2022 service required)
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { tokenizeXpp } from '../build/modules/xpp-lexer.js';
+import { parseXppSource } from '../build/modules/xpp-parser.js';
+import { walkXpp } from '../build/modules/xpp-ast.js';
+import { parseXppClass } from '../build/modules/parsers.js';
+
+const CLASS_SOURCE = `/// <summary>Posts sales documents</summary>
+[ExtensionOf(classStr(SalesFormLetter)), SysObsolete('Use SalesPoster', false)]
+public final class SalesPoster extends RunBaseBatch implements SysPackable
+{
+    CustTable custTable;
+    str 20 code = 'A', other;
+    static int counter;
+
+    public static SalesPoster construct(DocumentStatus _status = DocumentStatus::Invoice, boolean _preview = false)
+    {
+        SalesTable salesTable;
+        int i;
+
+        if (_preview)
+        {
+            i = 1;
+        }
+        while (i < 10)
+        {
+            i++;
+        }
+        while select forupdate salesTable
+            where salesTable.SalesStatus == SalesStatus::Backorder
+            exists join custTable
+            where custTable.AccountNum == salesTable.CustAccount
+        {
+            salesTable.update();
+        }
+        return new SalesPoster();
+    }
+
+    [Hookable(false)]
+    protected abstract void post()
+    {
+    }
+}
+`;
+
+let workDir;
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'mcp-xpp-parser-'));
+});
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('🔤 Lexer', () => {
+  test('should tokenize case-insensitive keywords, strings, macros and comments', () => {
+    const { tokens, comments } = tokenizeXpp('TTSBEGIN; str s = @"C:\\temp" + "a\\"b"; #define.Max(10) // done\nx::y');
+
+    expect(tokens.map(token => [token.kind, token.value])).toEqual([
+      ['keyword', 'ttsbegin'], ['symbol', ';'],
+      ['keyword', 'str'], ['identifier', 's'], ['symbol', '='], ['string', 'C:\\temp'], ['symbol', '+'], ['string', 'a"b'], ['symbol', ';'],
+      ['macro', '#define.Max(10)'],
+      ['identifier', 'x'], ['symbol', '::'], ['identifier', 'y'],
+      ['eof', '']
+    ]);
+    expect(comments).toEqual([expect.objectContaining({ text: '// done', block: false, line: 1 })]);
+    expect(tokens.at(-2)).toMatchObject({ line: 2, column: 4 });
+  });
+});
+
+describe('🌳 Declarations', () => {
+  test('should read the class header, fields and methods with modifiers, attributes and spans', () => {
+    const unit = parseXppSource(CLASS_SOURCE);
+    const declaration = unit.classes[0];
+
+    expect(unit.diagnostics).toEqual([]);
+    expect(declaration).toMatchObject({ kind: 'class', name: 'SalesPoster', modifiers: ['public', 'final'], extends: 'RunBaseBatch', implements: ['SysPackable'] });
+    expect(declaration.attributes.map(attribute => [attribute.name, attribute.arguments.length])).toEqual([['ExtensionOf', 1], ['SysObsolete', 2]]);
+    expect(declaration.members.map(member => member.kind === 'field' ? member.declarators.map(declarator => declarator.name).join(',') : member.name))
+      .toEqual(['custTable', 'code,other', 'counter', 'construct', 'post']);
+    expect(declaration.members[1].type).toMatchObject({ name: 'str', length: 20 });
+
+    const construct = declaration.members[3];
+    expect(construct.modifiers).toEqual(['public', 'static']);
+    expect(construct.parameters.map(parameter => [parameter.type.name, parameter.name, parameter.defaultText])).toEqual([
+      ['DocumentStatus', '_status', 'DocumentStatus::Invoice'],
+      ['boolean', '_preview', 'false']
+    ]);
+    expect(construct.span).toMatchObject({ line: 9, column: 5, endLine: 30, endColumn: 6 });
+    expect(construct.body.statements.map(statement => statement.kind)).toEqual(['localDeclaration', 'localDeclaration', 'if', 'while', 'whileSelect', 'return']);
+    expect(declaration.members[4]).toMatchObject({ modifiers: ['protected', 'abstract'], attributes: [expect.objectContaining({ name: 'Hookable' })] });
+  });
+
+  test('should parse standalone AOT method blocks and walk select joins', () => {
+    const unit = parseXppSource(`public void run(int _a = 5)
+{
+    select firstonly sum(LineAmount) from salesLine where salesLine.SalesId == 'S1'
+        join custTable where custTable.RecId == salesLine.RecId;
+    ret = next run(_a);
+}`);
+    const tables = [];
+    walkXpp(unit, node => {
+      if (node.kind === 'selectTable') tables.push([node.table, node.joinType, node.fields.length]);
+    });
+
+    expect(unit.classes).toEqual([]);
+    expect(unit.methods.map(method => method.name)).toEqual(['run']);
+    expect(tables).toEqual([['salesLine', null, 1], ['custTable', 'join', 0]]);
+    expect(unit.methods[0].body.statements[1].expression.value).toMatchObject({ kind: 'nextCall', method: 'run' });
+  });
+});
+
+describe('🩹 Error Recovery', () => {
+  test('should report diagnostics and keep parsing after a broken statement', () => {
+    const unit = parseXppSource(`class Broken
+{
+    void first()
+    {
+        int x = ;
+        x = 1
+        y = 2;
+        done();
+    }
+
+    void second() { }
+}`);
+
+    expect(unit.diagnostics.map(diagnostic => [diagnostic.span.line, diagnostic.message])).toEqual([
+      [5, "Unexpected ';'"],
+      [7, "Expected ';', found 'y'"]
+    ]);
+    expect(unit.classes[0].members.map(member => member.name)).toEqual(['first', 'second']);
+  });
+});
+
+describe('📄 parseXppClass', () => {
+  test('should no longer report control flow as methods or locals as properties', async () => {
+    const path = join(workDir, 'SalesPoster.xpp');
+    writeFileSync(path, CLASS_SOURCE);
+    const classInfo = await parseXppClass(path);
+
+    expect(classInfo).toMatchObject({ name: 'SalesPoster', extends: 'RunBaseBatch', implements: ['SysPackable'], isFinal: true, isAbstract: false, diagnostics: [] });
+    expect(classInfo.attributes).toEqual(['ExtensionOf(classStr(SalesFormLetter))', "SysObsolete('Use SalesPoster', false)"]);
+    expect(classInfo.methods.map(method => method.name)).toEqual(['construct', 'post']);
+    expect(classInfo.methods[0]).toMatchObject({
+      returnType: 'SalesPoster',
+      isStatic: true,
+      isPublic: true,
+      parameters: [
+        { type: 'DocumentStatus', name: '_status', isOptional: true, defaultValue: 'DocumentStatus::Invoice' },
+        { type: 'boolean', name: '_preview', isOptional: true, defaultValue: 'false' }
+      ]
+    });
+    expect(classInfo.methods[1]).toMatchObject({ isProtected: true, isPublic: false, isAbstract: true, attributes: ['Hookable(false)'] });
+    expect(classInfo.properties.map(property => [property.type, property.name, property.isStatic])).toEqual([
+      ['CustTable', 'custTable', false],
+      ['str 20', 'code', false],
+      ['str 20', 'other', false],
+      ['int', 'counter', true]
+    ]);
+  });
+});